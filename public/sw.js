@@ -0,0 +1,40 @@
+// Keeps a copy of the app itself so it opens without a connection. Pages and
+// assets come from the network whenever it answers and from the copy when it
+// doesn't. Supabase calls go to another origin and are left alone - the data
+// side of offline mode lives in IndexedDB (see OFFLINE_SYNC.md).
+
+const CACHE_NAME = 'fambudget-app-v1';
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(names.filter((name) => name !== CACHE_NAME).map((name) => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  event.respondWith(
+    fetch(request)
+      .then((response) => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+        }
+        return response;
+      })
+      .catch(async () => {
+        const cached = await caches.match(request);
+        // Every page is the same single-page app
+        if (!cached && request.mode === 'navigate') return (await caches.match('/')) ?? Response.error();
+        return cached ?? Response.error();
+      })
+  );
+});
@@ -1,28 +1,198 @@
 import { useEffect, useState } from 'react';
 import './App.css';
 import { BalanceTracker } from './components/BalanceTracker';
+import { BudgetPage } from './components/BudgetPage';
 import { CarryOverExpenses } from './components/CarryOverExpenses';
+import { CashFlowForecast } from './components/CashFlowForecast';
+import { CategorisationRules } from './components/CategorisationRules';
+import { DataBackup } from './components/DataBackup';
+import { DebtPlanner } from './components/DebtPlanner';
 import { ExpenseSection } from './components/ExpenseSection';
 import { FinancialStatements } from './components/FinancialStatements';
+import { HouseholdInvites } from './components/HouseholdInvites';
+import { HouseholdMembers } from './components/HouseholdMembers';
+import { HouseholdSwitcher } from './components/HouseholdSwitcher';
 import { IncomeSection } from './components/IncomeSection';
+import { MonthRolloverBanner } from './components/MonthRolloverBanner';
 import { MonthSelector } from './components/MonthSelector';
+import { NetWorth } from './components/NetWorth';
 import { QuickAddModal } from './components/QuickAddModal';
+import { RecurringSchedules } from './components/RecurringSchedules';
+import { RemoteChangeIndicator } from './components/RemoteChangeIndicator';
+import { RolloverRulesSettings } from './components/RolloverRulesSettings';
+import { SavingsGoals } from './components/SavingsGoals';
+import { SearchPage } from './components/SearchPage';
+import { SettleUp } from './components/SettleUp';
+import { SplitRulesSettings } from './components/SplitRulesSettings';
+import { StatementImport } from './components/StatementImport';
 import { SummaryCard } from './components/SummaryCard';
 import { SummaryOverview } from './components/SummaryOverview';
+import { SyncStatus } from './components/SyncStatus';
+import { TaxProfiles } from './components/TaxProfiles';
 import { TaxSection } from './components/TaxSection';
+import { TaxYearPage } from './components/TaxYearPage';
 import { UnnecessaryExpenseSection } from './components/UnnecessaryExpenseSection';
+import { YearReviewPage } from './components/YearReviewPage';
+import { useAssetAccounts } from './hooks/useAssetAccounts';
+import { useBackup } from './hooks/useBackup';
+import { useExpenseAttachments } from './hooks/useExpenseAttachments';
 import { useBalances } from './hooks/useBalances';
 import { getCurrentMonth, useBudget } from './hooks/useBudget';
-import type { Expense } from './types/budget';
+import { useBudgetTracker } from './hooks/useBudgetTracker';
+import { useCashFlowForecast } from './hooks/useCashFlowForecast';
+import { useCategorisationRules } from './hooks/useCategorisationRules';
+import { useHouseholdInvites } from './hooks/useHouseholdInvites';
+import { formatMemberNames, useHouseholdMembers } from './hooks/useHouseholdMembers';
+import { useRecurringSchedules } from './hooks/useRecurringSchedules';
+import { useRolloverRules } from './hooks/useRolloverRules';
+import { useMonthRange } from './hooks/useMonthRange';
+import { useSavingsGoals } from './hooks/useSavingsGoals';
+import { SEARCH_LIMIT, useSearch } from './hooks/useSearch';
+import { useSettlements } from './hooks/useSettlements';
+import { useSplitRules } from './hooks/useSplitRules';
+import { useTaxProfiles } from './hooks/useTaxProfiles';
+import { useTaxYearReport } from './hooks/useTaxYearReport';
+import { useYearReview } from './hooks/useYearReview';
+import { getTaxYear } from './lib/paye';
+import { buildCashFlowForecast } from './lib/cashFlow';
+import { buildTaxYearReports } from './lib/taxYearReport';
+import { buildYearReview } from './lib/yearReview';
+import type { BackupFile, Expense, RestoreMode, SearchResult, SplitRulesFormData } from './types/budget';
 
-type PageView = 'budget' | 'balances' | 'summary';
+type PageView = 'budget' | 'budgets' | 'balances' | 'summary' | 'review' | 'tax' | 'search' | 'household';
 type BudgetTab = 'income' | 'expenses' | 'documents';
 
 function App() {
   const [selectedMonth, setSelectedMonth] = useState(getCurrentMonth());
   const [currentPage, setCurrentPage] = useState<PageView>('budget');
+  const [taxYear, setTaxYear] = useState(() => getTaxYear(getCurrentMonth()));
+  const [reviewYear, setReviewYear] = useState(() => Number(getCurrentMonth().slice(0, 4)));
   const [budgetTab, setBudgetTab] = useState<BudgetTab>('expenses');
   const [quickAddOpen, setQuickAddOpen] = useState(false);
+
+  const {
+    members,
+    loading: membersLoading,
+    error: membersError,
+    addMember,
+    updateMember,
+    deleteMember,
+    moveMember,
+    refetch: refetchMembers,
+  } = useHouseholdMembers();
+  const householdName = formatMemberNames(members);
+
+  const {
+    invites,
+    loading: invitesLoading,
+    error: invitesError,
+    addInvite,
+    deleteInvite,
+  } = useHouseholdInvites();
+
+  const {
+    rules,
+    loading: rulesLoading,
+    error: rulesError,
+    addRule,
+    addRules,
+    updateRule,
+    deleteRule,
+    moveRule,
+    fetchLearningExpenses,
+    refetch: refetchRules,
+  } = useCategorisationRules();
+
+  const {
+    rules: rolloverRules,
+    loading: rolloverRulesLoading,
+    error: rolloverRulesError,
+    saveRules: saveRolloverRules,
+    refetch: refetchRolloverRules,
+  } = useRolloverRules();
+
+  const { range: monthRange, refetch: refetchMonthRange } = useMonthRange(rolloverRules.planning_months);
+
+  const {
+    rules: splitRules,
+    loading: splitRulesLoading,
+    error: splitRulesError,
+    saveRules: saveSplitRules,
+    refetch: refetchSplitRules,
+  } = useSplitRules(members);
+
+  const {
+    settlements,
+    error: settlementsError,
+    addSettlement,
+    deleteSettlement,
+    refetch: refetchSettlements,
+  } = useSettlements(selectedMonth);
+
+  const {
+    goals: savingsGoals,
+    contributions: savingsContributions,
+    loading: savingsGoalsLoading,
+    error: savingsGoalsError,
+    addGoal: addSavingsGoal,
+    updateGoal: updateSavingsGoal,
+    deleteGoal: deleteSavingsGoal,
+    refetch: refetchSavingsGoals,
+  } = useSavingsGoals();
+
+  const {
+    schedules,
+    dueSchedules,
+    loading: schedulesLoading,
+    error: schedulesError,
+    addSchedule,
+    updateSchedule,
+    deleteSchedule,
+    refetch: refetchSchedules,
+  } = useRecurringSchedules(selectedMonth);
+
+  const {
+    profiles: taxProfiles,
+    loading: taxProfilesLoading,
+    error: taxProfilesError,
+    saveProfile: saveTaxProfile,
+    refetch: refetchTaxProfiles,
+  } = useTaxProfiles();
+
+  const {
+    incomes: taxYearIncomes,
+    taxes: taxYearTaxes,
+    expenses: taxYearExpenses,
+    loading: taxYearLoading,
+    error: taxYearError,
+    refetch: refetchTaxYear,
+  } = useTaxYearReport(taxYear);
+
+  const {
+    totals: reviewTotals,
+    loading: reviewLoading,
+    error: reviewError,
+    refetch: refetchReview,
+  } = useYearReview(reviewYear);
+
+  const {
+    filters: searchFilters,
+    results: searchResults,
+    searching,
+    error: searchError,
+    search,
+    clear: clearSearch,
+  } = useSearch();
+
+  const {
+    incomes: forecastIncomes,
+    taxes: forecastTaxes,
+    expenses: forecastExpenses,
+    scheduled: forecastScheduled,
+    loading: forecastLoading,
+    error: forecastError,
+    refetch: refetchForecast,
+  } = useCashFlowForecast(getCurrentMonth());
   
   const {
     incomes,
@@ -32,6 +202,9 @@ function App() {
     loading,
     error,
     isCarryingOver,
+    rollover,
+    rolloverMonth,
+    undoRollover,
     summary,
     addIncome,
     deleteIncome,
@@ -42,24 +215,124 @@ function App() {
     addExpense,
     deleteExpense,
     updateExpense,
+    importExpenses,
     addUnnecessaryExpense,
     deleteUnnecessaryExpense,
     updateUnnecessaryExpense,
     getExpensesByCategory,
     fetchPreviousMonthExpenses,
     carryOverExpenses,
-  } = useBudget(selectedMonth);
+    addScheduledExpenses,
+    queuedChanges,
+    isOnline,
+    isSyncing,
+    syncQueuedChanges,
+    resolveConflict,
+    lastRemoteChange: budgetRemoteChange,
+    refetch: refetchBudget,
+  } = useBudget(selectedMonth, members.map((m) => m.name), splitRules);
+
+  const {
+    loading: trackerLoading,
+    error: trackerError,
+    addBudget,
+    updateBudget,
+    deleteBudget,
+    addBudgetExpense,
+    updateBudgetExpense,
+    deleteBudgetExpense,
+    getAllBudgetsWithExpenses,
+    lastRemoteChange: trackerRemoteChange,
+  } = useBudgetTracker(selectedMonth, expenses);
 
   const {
     accounts,
-    paidExpenses,
+    history: balanceHistory,
+    deductions,
     loading: balancesLoading,
     error: balancesError,
+    ledgerError,
     addAccount,
     updateAccount,
     deleteAccount,
+    addEntry: addBalanceEntry,
+    deleteEntry: deleteBalanceEntry,
+    adoptDebtPlan,
+    refreshBalances,
+    lastRemoteChange: balancesRemoteChange,
   } = useBalances();
 
+  const {
+    assets,
+    valuations: assetValuations,
+    loading: assetsLoading,
+    error: assetsError,
+    addAsset,
+    updateAsset,
+    deleteAsset,
+    recordValuation,
+    deleteValuation,
+    refetch: refetchAssets,
+  } = useAssetAccounts();
+
+  const {
+    attachments,
+    error: attachmentsError,
+    uploadAttachment,
+    openAttachment,
+    deleteAttachment,
+    refetch: refetchAttachments,
+  } = useExpenseAttachments();
+
+  // Deleting entries straight on the server takes their attachments with them; reloading the
+  // attachments removes the files from storage. Queued expense deletes are cleaned up on sync
+  // by useExpenseAttachments instead, once the delete has actually reached the server.
+  const withAttachmentCleanup = <Args extends unknown[]>(remove: (...args: Args) => Promise<boolean>) =>
+    async (...args: Args): Promise<boolean> => {
+      const removed = await remove(...args);
+      if (removed) {
+        await refetchAttachments();
+      }
+      return removed;
+    };
+
+  const {
+    busy: backupBusy,
+    error: backupError,
+    exportBackup,
+    findConflicts,
+    restoreBackup,
+  } = useBackup();
+
+  // Reload everything on screen once a backup has been restored
+  const handleRestoreBackup = async (backup: BackupFile, mode: RestoreMode) => {
+    const restored = await restoreBackup(backup, mode);
+    if (restored) {
+      await Promise.all([refetchMembers(), refetchRules(), refetchRolloverRules(), refetchSplitRules(), refetchSettlements(), refetchSavingsGoals(), refetchAssets(), refetchAttachments(), refetchSchedules(), refetchTaxProfiles(), refetchTaxYear(), refetchReview(), refetchForecast(), refetchBudget(), refreshBalances(), refetchMonthRange()]);
+    }
+    return restored;
+  };
+
+  // Go to the month, and the page and tab, a search result lives on
+  const openSearchResult = (result: SearchResult) => {
+    setSelectedMonth(result.month);
+    if (result.source === 'budget_expense') {
+      setCurrentPage('budgets');
+      return;
+    }
+    setBudgetTab(result.source === 'income' || result.source === 'tax' ? 'income' : result.source === 'statement' ? 'documents' : 'expenses');
+    setCurrentPage('budget');
+  };
+
+  // Custom percentages live on the members, so reload them with the rules
+  const handleSaveSplitRules = async (data: SplitRulesFormData) => {
+    const saved = await saveSplitRules(data);
+    if (saved) {
+      await refetchMembers();
+    }
+    return saved;
+  };
+
   // State for previous month expenses
   const [previousMonthExpenses, setPreviousMonthExpenses] = useState<Expense[]>([]);
   const [loadingPrevious, setLoadingPrevious] = useState(false);
@@ -69,13 +342,20 @@ function App() {
     const loadPreviousExpenses = async () => {
       setLoadingPrevious(true);
       const prevExpenses = await fetchPreviousMonthExpenses();
-      setPreviousMonthExpenses(prevExpenses);
+      // Expenses from a recurring schedule come from the schedule, not last month
+      setPreviousMonthExpenses(prevExpenses.filter((e) => !e.schedule_id));
       setLoadingPrevious(false);
     };
     loadPreviousExpenses();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedMonth]);
 
+  // A schedule counts as added once the month has its expense, including one still waiting to sync
+  const dueThisMonth = dueSchedules.map((due) => ({
+    ...due,
+    expense_id: expenses.find((e) => e.schedule_id === due.schedule.id)?.id ?? null,
+  }));
+
   const pageError = currentPage === 'budget' ? error : currentPage === 'balances' ? balancesError : null;
 
   if (pageError && currentPage === 'budget') {
@@ -83,7 +363,7 @@ function App() {
       <div className="app">
         <header className="app-header">
           <h1>Family Budget Planner</h1>
-          <p className="subtitle">Nikkie & Hein's Financial Dashboard</p>
+          <p className="subtitle">{householdName ? `${householdName}'s Financial Dashboard` : 'Household Financial Dashboard'}</p>
         </header>
         <div className="error-container">
           <h2>Connection Error</h2>
@@ -106,7 +386,7 @@ function App() {
         <div className="header-content">
           <div className="header-brand">
             <h1>Family Budget Planner</h1>
-            <p className="subtitle">Nikkie & Hein's Financial Dashboard</p>
+            <p className="subtitle">{householdName ? `${householdName}'s Financial Dashboard` : 'Household Financial Dashboard'}</p>
           </div>
           <nav className="app-nav">
             <button 
@@ -119,15 +399,37 @@ function App() {
               </svg>
               <span>Budget</span>
             </button>
+            <button 
+              className={`nav-btn ${currentPage === 'budgets' ? 'active' : ''}`}
+              onClick={() => setCurrentPage('budgets')}
+            >
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M21.21 15.89A10 10 0 118 2.83"/>
+                <path d="M22 12A10 10 0 0012 2v10z"/>
+              </svg>
+              <span>Budgets</span>
+            </button>
             <button 
               className={`nav-btn ${currentPage === 'summary' ? 'active' : ''}`}
-              onClick={() => setCurrentPage('summary')}
+              onClick={() => { refetchForecast(); setCurrentPage('summary'); }}
             >
               <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                 <path d="M18 20V10M12 20V4M6 20v-6"/>
               </svg>
               <span>Summary</span>
             </button>
+            <button 
+              className={`nav-btn ${currentPage === 'review' ? 'active' : ''}`}
+              onClick={() => { refetchReview(); setCurrentPage('review'); }}
+            >
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <rect x="3" y="4" width="18" height="18" rx="2" ry="2"/>
+                <line x1="16" y1="2" x2="16" y2="6"/>
+                <line x1="8" y1="2" x2="8" y2="6"/>
+                <line x1="3" y1="10" x2="21" y2="10"/>
+              </svg>
+              <span>Year in Review</span>
+            </button>
             <button 
               className={`nav-btn ${currentPage === 'balances' ? 'active' : ''}`}
               onClick={() => setCurrentPage('balances')}
@@ -138,35 +440,87 @@ function App() {
               </svg>
               <span>Balances</span>
             </button>
+            <button 
+              className={`nav-btn ${currentPage === 'tax' ? 'active' : ''}`}
+              onClick={() => { refetchTaxYear(); setCurrentPage('tax'); }}
+            >
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M14 2H6a2 2 0 00-2 2v16a2 2 0 002 2h12a2 2 0 002-2V8z"/>
+                <polyline points="14 2 14 8 20 8"/>
+                <line x1="8" y1="13" x2="16" y2="13"/>
+                <line x1="8" y1="17" x2="16" y2="17"/>
+              </svg>
+              <span>Tax Year</span>
+            </button>
+            <button 
+              className={`nav-btn ${currentPage === 'search' ? 'active' : ''}`}
+              onClick={() => setCurrentPage('search')}
+            >
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <circle cx="11" cy="11" r="8"/>
+                <line x1="21" y1="21" x2="16.65" y2="16.65"/>
+              </svg>
+              <span>Search</span>
+            </button>
+            <button 
+              className={`nav-btn ${currentPage === 'household' ? 'active' : ''}`}
+              onClick={() => setCurrentPage('household')}
+            >
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M17 21v-2a4 4 0 00-4-4H5a4 4 0 00-4 4v2"/>
+                <circle cx="9" cy="7" r="4"/>
+                <path d="M23 21v-2a4 4 0 00-3-3.87M16 3.13a4 4 0 010 7.75"/>
+              </svg>
+              <span>Household</span>
+            </button>
           </nav>
+          <HouseholdSwitcher />
         </div>
       </header>
 
+      <SyncStatus
+        queuedChanges={queuedChanges}
+        isOnline={isOnline}
+        isSyncing={isSyncing}
+        onSync={syncQueuedChanges}
+        onResolve={resolveConflict}
+      />
+
       <main className="app-main">
         {currentPage === 'budget' && (
           <div className="budget-layout">
             {/* Sticky Sidebar with Summary */}
             <aside className="budget-sidebar">
               <div className="sidebar-month">
-                <MonthSelector selectedMonth={selectedMonth} onMonthChange={setSelectedMonth} />
+                <MonthSelector selectedMonth={selectedMonth} range={monthRange} onMonthChange={setSelectedMonth} />
+                <RemoteChangeIndicator change={budgetRemoteChange} />
               </div>
               
-              {!loading && !isCarryingOver && (
+              {!loading && !membersLoading && !isCarryingOver && (
                 <div className="sidebar-summary">
-                  <SummaryCard summary={summary} compact />
+                  <SummaryCard summary={summary} members={members} compact />
                 </div>
               )}
             </aside>
 
             {/* Main Content Area */}
             <div className="budget-content">
-              {(loading || isCarryingOver) ? (
+              {(loading || membersLoading || isCarryingOver) ? (
                 <div className="loading">
                   <div className="spinner"></div>
-                  <p>{isCarryingOver ? 'Carrying forward data from previous month...' : 'Loading budget data...'}</p>
+                  <p>{isCarryingOver ? 'Rolling over from previous month...' : 'Loading budget data...'}</p>
                 </div>
               ) : (
                 <>
+                  <MonthRolloverBanner
+                    selectedMonth={selectedMonth}
+                    rollover={rollover}
+                    isEmpty={incomes.length === 0 && taxes.length === 0 && expenses.length === 0}
+                    isOnline={isOnline}
+                    onRollover={rolloverMonth}
+                    onUndo={withAttachmentCleanup(undoRollover)}
+                  />
+
                   {/* Tab Navigation */}
                   <div className="budget-tabs">
                     <button
@@ -199,12 +553,17 @@ function App() {
                         <div className="panel-grid">
                           <IncomeSection
                             incomes={incomes}
+                            members={members}
                             onAdd={addIncome}
                             onDelete={deleteIncome}
                             onUpdate={updateIncome}
                           />
                           <TaxSection
                             taxes={taxes}
+                            members={members}
+                            incomes={incomes}
+                            taxProfiles={taxProfiles}
+                            selectedMonth={selectedMonth}
                             onAdd={addTax}
                             onDelete={deleteTax}
                             onUpdate={updateTax}
@@ -218,33 +577,63 @@ function App() {
                         <CarryOverExpenses
                           currentMonth={selectedMonth}
                           previousMonthExpenses={previousMonthExpenses}
+                          dueSchedules={dueThisMonth}
                           onCarryOver={carryOverExpenses}
+                          onAddScheduled={addScheduledExpenses}
                           loading={loadingPrevious}
                         />
+
+                        <StatementImport
+                          selectedMonth={selectedMonth}
+                          members={members}
+                          existingExpenses={expenses}
+                          rules={rules}
+                          onImport={importExpenses}
+                        />
                         
+                        {attachmentsError && <div className="section-error">{attachmentsError}</div>}
+
                         <div className="expenses-grid">
                           <ExpenseSection
                             expenses={expenses}
+                            selectedMonth={selectedMonth}
+                            members={members}
                             balanceAccounts={accounts}
+                            savingsGoals={savingsGoals}
                             onAdd={addExpense}
                             onDelete={deleteExpense}
                             onUpdate={updateExpense}
                             expensesByCategory={getExpensesByCategory()}
+                            attachments={attachments}
+                            onUploadAttachment={(id, file) => uploadAttachment('expense', id, file)}
+                            onOpenAttachment={openAttachment}
+                            onDeleteAttachment={deleteAttachment}
                           />
                         </div>
 
                         <UnnecessaryExpenseSection
                           unnecessaryExpenses={unnecessaryExpenses}
+                          members={members}
                           onAdd={addUnnecessaryExpense}
                           onDelete={deleteUnnecessaryExpense}
                           onUpdate={updateUnnecessaryExpense}
+                          attachments={attachments}
+                          onUploadAttachment={(id, file) => uploadAttachment('unnecessary_expense', id, file)}
+                          onOpenAttachment={openAttachment}
+                          onDeleteAttachment={deleteAttachment}
                         />
                       </div>
                     )}
 
                     {budgetTab === 'documents' && (
                       <div className="tab-panel documents-panel">
-                        <FinancialStatements month={selectedMonth} />
+                        <FinancialStatements
+                          month={selectedMonth}
+                          members={members}
+                          existingExpenses={expenses}
+                          rules={rules}
+                          onImport={importExpenses}
+                        />
                       </div>
                     )}
                   </div>
@@ -254,28 +643,114 @@ function App() {
           </div>
         )}
 
+        {currentPage === 'budgets' && (
+          <>
+            <MonthSelector selectedMonth={selectedMonth} range={monthRange} onMonthChange={setSelectedMonth} />
+            <RemoteChangeIndicator change={trackerRemoteChange} />
+
+            {(trackerLoading || loading || membersLoading) ? (
+              <div className="loading">
+                <div className="spinner"></div>
+                <p>Loading budgets...</p>
+              </div>
+            ) : (
+              <>
+                {trackerError && <div className="section-error">{trackerError}</div>}
+                {attachmentsError && <div className="section-error">{attachmentsError}</div>}
+                <BudgetPage
+                  budgetsWithExpenses={getAllBudgetsWithExpenses()}
+                  members={members}
+                  onAddBudget={addBudget}
+                  onUpdateBudget={updateBudget}
+                  onDeleteBudget={withAttachmentCleanup(deleteBudget)}
+                  onAddExpense={addBudgetExpense}
+                  onUpdateExpense={updateBudgetExpense}
+                  onDeleteExpense={withAttachmentCleanup(deleteBudgetExpense)}
+                  attachments={attachments}
+                  onUploadAttachment={(id, file) => uploadAttachment('budget_expense', id, file)}
+                  onOpenAttachment={openAttachment}
+                  onDeleteAttachment={deleteAttachment}
+                />
+              </>
+            )}
+          </>
+        )}
+
         {currentPage === 'summary' && (
           <>
-            <MonthSelector selectedMonth={selectedMonth} onMonthChange={setSelectedMonth} />
+            <MonthSelector selectedMonth={selectedMonth} range={monthRange} onMonthChange={setSelectedMonth} />
 
-            {(loading || balancesLoading) ? (
+            {(loading || membersLoading || splitRulesLoading || balancesLoading || savingsGoalsLoading || assetsLoading || schedulesLoading || forecastLoading) ? (
               <div className="loading">
                 <div className="spinner"></div>
                 <p>Loading summary data...</p>
               </div>
             ) : (
-              <SummaryOverview
-                summary={summary}
-                accounts={accounts}
-                paidExpenses={paidExpenses}
-                selectedMonth={selectedMonth}
-              />
+              <>
+                <SummaryOverview
+                  summary={summary}
+                  members={members}
+                  accounts={accounts}
+                  expenses={expenses}
+                  history={balanceHistory}
+                  deductions={deductions}
+                  selectedMonth={selectedMonth}
+                />
+                <SettleUp
+                  summary={summary}
+                  members={members}
+                  settlements={settlements}
+                  splitMethod={splitRules.method}
+                  selectedMonth={selectedMonth}
+                  error={settlementsError}
+                  onRecord={addSettlement}
+                  onDelete={deleteSettlement}
+                />
+                <SavingsGoals
+                  goals={savingsGoals}
+                  contributions={savingsContributions}
+                  members={members}
+                  selectedMonth={selectedMonth}
+                  error={savingsGoalsError}
+                  onAdd={addSavingsGoal}
+                  onUpdate={updateSavingsGoal}
+                  onDelete={deleteSavingsGoal}
+                />
+                <NetWorth
+                  assets={assets}
+                  valuations={assetValuations}
+                  accounts={accounts}
+                  history={balanceHistory}
+                  selectedMonth={selectedMonth}
+                  error={assetsError}
+                  onAdd={addAsset}
+                  onUpdate={updateAsset}
+                  onDelete={deleteAsset}
+                  onRecordValuation={recordValuation}
+                  onDeleteValuation={deleteValuation}
+                />
+                <CashFlowForecast
+                  forecast={buildCashFlowForecast(
+                    getCurrentMonth(),
+                    members.map((m) => m.name),
+                    splitRules,
+                    { incomes: forecastIncomes, taxes: forecastTaxes, expenses: forecastExpenses },
+                    schedules,
+                    forecastScheduled,
+                    accounts,
+                    balanceHistory,
+                    deductions
+                  )}
+                  error={forecastError}
+                />
+              </>
             )}
           </>
         )}
 
         {currentPage === 'balances' && (
           <>
+            <RemoteChangeIndicator change={balancesRemoteChange} />
             {balancesLoading ? (
               <div className="loading">
                 <div className="spinner"></div>
@@ -287,20 +762,162 @@ function App() {
                 <p>{balancesError}</p>
               </div>
             ) : (
-              <BalanceTracker
-                accounts={accounts}
-                paidExpenses={paidExpenses}
-                onAdd={addAccount}
-                onUpdate={updateAccount}
-                onDelete={deleteAccount}
-              />
+              <>
+                {ledgerError && <div className="section-error">{ledgerError}</div>}
+                <BalanceTracker
+                  accounts={accounts}
+                  history={balanceHistory}
+                  deductions={deductions}
+                  monthRange={monthRange}
+                  onAdd={addAccount}
+                  onUpdate={updateAccount}
+                  onDelete={deleteAccount}
+                  onAddEntry={addBalanceEntry}
+                  onDeleteEntry={deleteBalanceEntry}
+                />
+                <DebtPlanner
+                  accounts={accounts}
+                  history={balanceHistory}
+                  deductions={deductions}
+                  onAdopt={adoptDebtPlan}
+                />
+              </>
+            )}
+          </>
+        )}
+
+        {currentPage === 'review' && (
+          <>
+            {(reviewLoading || membersLoading || splitRulesLoading) ? (
+              <div className="loading">
+                <div className="spinner"></div>
+                <p>Loading year in review...</p>
+              </div>
+            ) : (
+              <>
+                {reviewError && <div className="section-error">{reviewError}</div>}
+                <YearReviewPage
+                  review={buildYearReview(reviewYear, reviewTotals, members.map((m) => m.name), splitRules)}
+                  onYearChange={setReviewYear}
+                />
+              </>
+            )}
+          </>
+        )}
+
+        {currentPage === 'search' && (
+          <SearchPage
+            members={members}
+            filters={searchFilters}
+            results={searchResults}
+            limit={SEARCH_LIMIT}
+            searching={searching}
+            error={searchError}
+            onSearch={search}
+            onClear={clearSearch}
+            onOpen={openSearchResult}
+          />
+        )}
+
+        {currentPage === 'tax' && (
+          <>
+            {(taxYearLoading || membersLoading || taxProfilesLoading) ? (
+              <div className="loading">
+                <div className="spinner"></div>
+                <p>Loading tax year...</p>
+              </div>
+            ) : (
+              <>
+                {taxYearError && <div className="section-error">{taxYearError}</div>}
+                <TaxYearPage
+                  taxYear={taxYear}
+                  reports={buildTaxYearReports(taxYear, members, taxYearIncomes, taxYearTaxes, taxYearExpenses, taxProfiles)}
+                  members={members}
+                  onTaxYearChange={setTaxYear}
+                />
+              </>
+            )}
+          </>
+        )}
+
+        {currentPage === 'household' && (
+          <>
+            {(membersLoading || invitesLoading || rulesLoading || rolloverRulesLoading || splitRulesLoading || schedulesLoading || taxProfilesLoading) ? (
+              <div className="loading">
+                <div className="spinner"></div>
+                <p>Loading household members...</p>
+              </div>
+            ) : (
+              <>
+                <HouseholdMembers
+                  members={members}
+                  error={membersError}
+                  onAdd={addMember}
+                  onUpdate={updateMember}
+                  onDelete={deleteMember}
+                  onMove={moveMember}
+                />
+                <HouseholdInvites
+                  invites={invites}
+                  error={invitesError}
+                  onAdd={addInvite}
+                  onDelete={deleteInvite}
+                />
+                <CategorisationRules
+                  rules={rules}
+                  members={members}
+                  balanceAccounts={accounts}
+                  error={rulesError}
+                  onAdd={addRule}
+                  onAddMany={addRules}
+                  onUpdate={updateRule}
+                  onDelete={deleteRule}
+                  onMove={moveRule}
+                  onFetchExpenses={fetchLearningExpenses}
+                />
+                <RecurringSchedules
+                  schedules={schedules}
+                  members={members}
+                  balanceAccounts={accounts}
+                  savingsGoals={savingsGoals}
+                  currentMonth={selectedMonth}
+                  error={schedulesError}
+                  onAdd={addSchedule}
+                  onUpdate={updateSchedule}
+                  onDelete={deleteSchedule}
+                />
+                <TaxProfiles
+                  profiles={taxProfiles}
+                  members={members}
+                  error={taxProfilesError}
+                  onSave={saveTaxProfile}
+                />
+                <SplitRulesSettings
+                  rules={splitRules}
+                  members={members}
+                  error={splitRulesError}
+                  onSave={handleSaveSplitRules}
+                />
+                <RolloverRulesSettings
+                  rules={rolloverRules}
+                  error={rolloverRulesError}
+                  onSave={saveRolloverRules}
+                />
+                <DataBackup
+                  busy={backupBusy}
+                  error={backupError}
+                  onExport={exportBackup}
+                  onCheckConflicts={findConflicts}
+                  onRestore={handleRestoreBackup}
+                />
+              </>
             )}
           </>
         )}
       </main>
 
       {/* Floating Action Button for Quick Add */}
-      {currentPage === 'budget' && !loading && !isCarryingOver && (
+      {currentPage === 'budget' && !loading && !membersLoading && !isCarryingOver && (
         <button
           className="fab-quick-add"
           onClick={() => setQuickAddOpen(true)}
@@ -314,19 +931,25 @@ function App() {
         </button>
       )}
 
-      {/* Quick Add Modal */}
-      <QuickAddModal
-        isOpen={quickAddOpen}
-        onClose={() => setQuickAddOpen(false)}
-        balanceAccounts={accounts}
-        onAddIncome={addIncome}
-        onAddTax={addTax}
-        onAddExpense={addExpense}
-        onAddUnnecessaryExpense={addUnnecessaryExpense}
-      />
+      {/* Quick Add Modal - mounted once members are known so it defaults to the first one */}
+      {!membersLoading && (
+        <QuickAddModal
+          isOpen={quickAddOpen}
+          onClose={() => setQuickAddOpen(false)}
+          selectedMonth={selectedMonth}
+          members={members}
+          balanceAccounts={accounts}
+          savingsGoals={savingsGoals}
+          rules={rules}
+          onAddIncome={addIncome}
+          onAddTax={addTax}
+          onAddExpense={addExpense}
+          onAddUnnecessaryExpense={addUnnecessaryExpense}
+        />
+      )}
 
       <footer className="app-footer">
-        <p>Family Budget Planner — Nikkie & Hein</p>
+        <p>Family Budget Planner{householdName && ` — ${householdName}`}</p>
       </footer>
     </div>
   );
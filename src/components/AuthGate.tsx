@@ -0,0 +1,93 @@
+import type { Session } from '@supabase/supabase-js';
+import { ActiveHouseholdContext } from '../hooks/useActiveHousehold';
+import { useAuth } from '../hooks/useAuth';
+import { useHouseholds } from '../hooks/useHouseholds';
+import { HouseholdSetup } from './HouseholdSetup';
+import { SignIn } from './SignIn';
+
+interface AuthGateProps {
+  children: React.ReactNode;
+}
+
+function Loading({ message }: { message: string }) {
+  return (
+    <div className="app">
+      <main className="app-main">
+        <div className="loading">
+          <div className="spinner"></div>
+          <p>{message}</p>
+        </div>
+      </main>
+    </div>
+  );
+}
+
+interface HouseholdGateProps {
+  session: Session;
+  onSignOut: () => Promise<void>;
+  children: React.ReactNode;
+}
+
+function HouseholdGate({ session, onSignOut, children }: HouseholdGateProps) {
+  const userEmail = session.user.email ?? '';
+  const {
+    households,
+    household,
+    loading,
+    error,
+    switchHousehold,
+    createHousehold,
+  } = useHouseholds(session.user.id);
+
+  if (loading) {
+    return <Loading message="Loading your households..." />;
+  }
+
+  if (!household) {
+    return (
+      <HouseholdSetup
+        userEmail={userEmail}
+        error={error}
+        onCreate={createHousehold}
+        onSignOut={onSignOut}
+      />
+    );
+  }
+
+  return (
+    // Keyed by household so every data hook starts fresh after switching
+    <ActiveHouseholdContext.Provider
+      key={household.id}
+      value={{
+        householdId: household.id,
+        household,
+        households,
+        userEmail,
+        switchHousehold,
+        createHousehold,
+        signOut: onSignOut,
+      }}
+    >
+      {children}
+    </ActiveHouseholdContext.Provider>
+  );
+}
+
+/** Requires a signed-in user with an active household before rendering the app */
+export function AuthGate({ children }: AuthGateProps) {
+  const { session, loading, error, signIn, signUp, signOut } = useAuth();
+
+  if (loading) {
+    return <Loading message="Checking sign-in..." />;
+  }
+
+  if (!session) {
+    return <SignIn error={error} onSignIn={signIn} onSignUp={signUp} />;
+  }
+
+  return (
+    <HouseholdGate key={session.user.id} session={session} onSignOut={signOut}>
+      {children}
+    </HouseholdGate>
+  );
+}
@@ -1,10 +1,21 @@
 import { useState } from 'react';
 import {
     calculateCurrentBalance,
-    getBalanceMonthOptions,
     getCurrentBalanceMonth
 } from '../hooks/useBalances';
-import type { BalanceAccount, BalanceAccountFormData, Expense } from '../types/budget';
+import { buildAmortisationSchedule, scheduledDeduction } from '../lib/amortisation';
+import { buildMonthEndSnapshots, ledgerBalance, summariseLedger } from '../lib/balanceLedger';
+import { getMonthOptions } from '../lib/months';
+import type {
+  BalanceAccount,
+  BalanceAccountFormData,
+  BalanceDeduction,
+  BalanceEntryFormData,
+  BalanceEntryKind,
+  BalanceHistory,
+  InterestCompounding,
+  MonthRange,
+} from '../types/budget';
 
 /** Format currency in ZAR */
 function formatCurrency(amount: number): string {
@@ -15,49 +26,79 @@ function formatCurrency(amount: number): string {
   }).format(amount);
 }
 
+/** Format a YYYY-MM month, e.g. "March 2031" */
+function formatLongMonth(month: string): string {
+  return new Date(month + '-01').toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+}
+
+const COMPOUNDING_OPTIONS: { value: InterestCompounding; label: string }[] = [
+  { value: 'daily', label: 'Daily, added monthly (home loans, vehicle finance, cards)' },
+  { value: 'monthly', label: 'Monthly (rate ÷ 12)' },
+];
+
+const ENTRY_LABELS: Record<BalanceEntryKind, string> = {
+  payment: 'Payment',
+  interest: 'Interest',
+  fee: 'Fee',
+  adjustment: 'Adjustment',
+  top_up: 'Top-up',
+};
+
 interface BalanceTrackerProps {
   accounts: BalanceAccount[];
-  paidExpenses: Expense[]; // Expenses marked as paid with balance_account_id
+  history: BalanceHistory[]; // The balance ledger of every account
+  deductions: BalanceDeduction[]; // Deduction changes, e.g. from an adopted debt plan
+  monthRange: MonthRange; // Months that can be viewed and picked as start months
   onAdd: (data: BalanceAccountFormData) => Promise<void>;
   onUpdate: (id: string, data: Partial<BalanceAccountFormData>) => Promise<void>;
   onDelete: (id: string) => Promise<void>;
+  onAddEntry: (data: BalanceEntryFormData) => Promise<void>;
+  onDeleteEntry: (id: string) => Promise<void>;
 }
 
-export function BalanceTracker({ accounts, paidExpenses, onAdd, onUpdate, onDelete }: BalanceTrackerProps) {
+export function BalanceTracker({
+  accounts,
+  history,
+  deductions,
+  monthRange,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onAddEntry,
+  onDeleteEntry,
+}: BalanceTrackerProps) {
   const [showForm, setShowForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [submitting, setSubmitting] = useState(false);
   const [selectedViewMonth, setSelectedViewMonth] = useState(getCurrentBalanceMonth());
+  const [scheduleAccountId, setScheduleAccountId] = useState<string | null>(null);
+  const [entryForm, setEntryForm] = useState<BalanceEntryFormData | null>(null);
   
   const [formData, setFormData] = useState<BalanceAccountFormData>({
     name: '',
     description: '',
     initial_balance: 0,
     monthly_deduction: 0,
-    start_month: '2025-12', // Default to December 2025
+    start_month: getCurrentBalanceMonth(),
+    annual_rate: 0,
+    compounding: 'daily',
+    monthly_fee: 0,
   });
 
-  const monthOptions = getBalanceMonthOptions();
+  const monthOptions = getMonthOptions(monthRange);
 
-  // Calculate total paid for an account from expenses
+  // Calculate total paid for an account from the payments in its ledger
   const getTotalPaidForAccount = (accountId: string): number => {
-    return paidExpenses
-      .filter(e => e.balance_account_id === accountId && e.is_paid)
-      .reduce((sum, e) => sum + Number(e.amount), 0);
-  };
-
-  // Calculate total paid for an account up to a specific month
-  const getTotalPaidUpToMonth = (accountId: string, upToMonth: string): number => {
-    return paidExpenses
-      .filter(e => e.balance_account_id === accountId && e.is_paid && e.month <= upToMonth)
-      .reduce((sum, e) => sum + Number(e.amount), 0);
+    return history
+      .filter(e => e.account_id === accountId && e.kind === 'payment')
+      .reduce((sum, e) => sum - Number(e.amount), 0);
   };
 
-  // Get paid expenses for an account grouped by month
-  const getPaidExpensesByMonth = (accountId: string): Record<string, Expense[]> => {
-    const grouped: Record<string, Expense[]> = {};
-    paidExpenses
-      .filter(e => e.balance_account_id === accountId && e.is_paid)
+  // Get an account's ledger entries grouped by month
+  const getEntriesByMonth = (accountId: string): Record<string, BalanceHistory[]> => {
+    const grouped: Record<string, BalanceHistory[]> = {};
+    history
+      .filter(e => e.account_id === accountId)
       .forEach(e => {
         if (!grouped[e.month]) grouped[e.month] = [];
         grouped[e.month].push(e);
@@ -65,11 +106,9 @@ export function BalanceTracker({ accounts, paidExpenses, onAdd, onUpdate, onDele
     return grouped;
   };
 
-  // Calculate actual balance based on paid expenses
-  const getActualBalanceForMonth = (account: BalanceAccount, month: string): number => {
-    const totalPaid = getTotalPaidUpToMonth(account.id, month);
-    return Math.max(0, account.initial_balance - totalPaid);
-  };
+  // Balance in the ledger at the end of a month
+  const getActualBalanceForMonth = (account: BalanceAccount, month: string): number =>
+    ledgerBalance(account, history, month);
 
   const resetForm = () => {
     setFormData({
@@ -77,7 +116,10 @@ export function BalanceTracker({ accounts, paidExpenses, onAdd, onUpdate, onDele
       description: '',
       initial_balance: 0,
       monthly_deduction: 0,
-      start_month: '2025-12',
+      start_month: getCurrentBalanceMonth(),
+      annual_rate: 0,
+      compounding: 'daily',
+      monthly_fee: 0,
     });
     setEditingId(null);
     setShowForm(false);
@@ -107,6 +149,9 @@ export function BalanceTracker({ accounts, paidExpenses, onAdd, onUpdate, onDele
       initial_balance: account.initial_balance,
       monthly_deduction: account.monthly_deduction,
       start_month: account.start_month,
+      annual_rate: Number(account.annual_rate ?? 0),
+      compounding: account.compounding ?? 'monthly',
+      monthly_fee: Number(account.monthly_fee ?? 0),
     });
     setEditingId(account.id);
     setShowForm(true);
@@ -118,28 +163,34 @@ export function BalanceTracker({ accounts, paidExpenses, onAdd, onUpdate, onDele
     }
   };
 
-  // Calculate months remaining until balance is zero
-  const getMonthsRemaining = (account: BalanceAccount): number => {
-    if (account.monthly_deduction <= 0) return Infinity;
-    const currentBalance = calculateCurrentBalance(
-      account.initial_balance,
-      account.monthly_deduction,
-      account.start_month,
-      selectedViewMonth
-    );
-    return Math.ceil(currentBalance / account.monthly_deduction);
+  const handleEntrySubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!entryForm) return;
+    setSubmitting(true);
+    try {
+      // A top-up always adds to the balance; an adjustment keeps its sign
+      await onAddEntry({
+        ...entryForm,
+        amount: entryForm.kind === 'top_up' ? Math.abs(entryForm.amount) : entryForm.amount,
+      });
+      setEntryForm(null);
+    } catch (error) {
+      console.error('Error saving balance entry:', error);
+    } finally {
+      setSubmitting(false);
+    }
   };
 
-  // Calculate balance for a specific month
-  const getBalanceForMonth = (account: BalanceAccount, month: string): number => {
-    return calculateCurrentBalance(
-      account.initial_balance,
-      account.monthly_deduction,
-      account.start_month,
-      month
-    );
+  const handleDeleteEntry = async (entry: BalanceHistory) => {
+    if (confirm(`Delete this ${ENTRY_LABELS[entry.kind].toLowerCase()} of ${formatCurrency(Number(entry.amount))}?`)) {
+      await onDeleteEntry(entry.id);
+    }
   };
 
+  // Calculate scheduled balance for a specific month
+  const getBalanceForMonth = (account: BalanceAccount, month: string): number =>
+    calculateCurrentBalance(account, month, deductions);
+
   return (
     <div className="section balance-tracker">
       <div className="section-header">
@@ -205,6 +256,43 @@ export function BalanceTracker({ accounts, paidExpenses, onAdd, onUpdate, onDele
               </select>
             </div>
           </div>
+          <div className="form-row">
+            <div className="form-group">
+              <label>Interest Rate (% a year)</label>
+              <input
+                type="number"
+                placeholder="0 for no interest"
+                value={formData.annual_rate || ''}
+                onChange={(e) => setFormData({ ...formData, annual_rate: parseFloat(e.target.value) || 0 })}
+                min="0"
+                step="0.001"
+              />
+            </div>
+            <div className="form-group">
+              <label>Interest Calculated</label>
+              <select
+                value={formData.compounding}
+                onChange={(e) => setFormData({ ...formData, compounding: e.target.value as InterestCompounding })}
+              >
+                {COMPOUNDING_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label>Monthly Fee (R)</label>
+              <input
+                type="number"
+                placeholder="Service or admin fee"
+                value={formData.monthly_fee || ''}
+                onChange={(e) => setFormData({ ...formData, monthly_fee: parseFloat(e.target.value) || 0 })}
+                min="0"
+                step="0.01"
+              />
+            </div>
+          </div>
           <div className="form-row">
             <button type="submit" className="btn-submit" disabled={submitting}>
               {submitting ? 'Saving...' : editingId ? 'Update' : 'Add Account'}
@@ -237,9 +325,20 @@ export function BalanceTracker({ accounts, paidExpenses, onAdd, onUpdate, onDele
             const projectedBalance = getBalanceForMonth(account, selectedViewMonth);
             const actualBalance = getActualBalanceForMonth(account, selectedViewMonth);
             const totalPaid = getTotalPaidForAccount(account.id);
-            const monthsRemaining = getMonthsRemaining(account);
-            const progressPercentage = ((account.initial_balance - actualBalance) / account.initial_balance) * 100;
-            const paidByMonth = getPaidExpensesByMonth(account.id);
+            const payoff = summariseLedger(account, history, deductions, selectedViewMonth);
+            const deduction = scheduledDeduction(account, deductions, selectedViewMonth);
+            const progressPercentage = Math.max(0, ((account.initial_balance - actualBalance) / account.initial_balance) * 100);
+            const showSchedule = scheduleAccountId === account.id;
+            const entriesByMonth = getEntriesByMonth(account.id);
+            const lastEntryMonth = Object.keys(entriesByMonth).sort().pop() ?? '';
+            const monthEnds = buildMonthEndSnapshots(
+              account,
+              history,
+              lastEntryMonth > getCurrentBalanceMonth() ? lastEntryMonth : getCurrentBalanceMonth()
+            )
+              .filter((row) => entriesByMonth[row.month])
+              .reverse();
+            const addingEntry = entryForm?.account_id === account.id;
             
             return (
               <div key={account.id} className="balance-account-card">
@@ -274,7 +373,7 @@ export function BalanceTracker({ accounts, paidExpenses, onAdd, onUpdate, onDele
                   </div>
                   <div className="balance-row">
                     <span className="balance-label">Monthly Deduction:</span>
-                    <span className="balance-value deduction">{formatCurrency(account.monthly_deduction)}</span>
+                    <span className="balance-value deduction">{formatCurrency(deduction)}</span>
                   </div>
                   <div className="balance-row">
                     <span className="balance-label">Start Month:</span>
@@ -285,6 +384,20 @@ export function BalanceTracker({ accounts, paidExpenses, onAdd, onUpdate, onDele
                       })}
                     </span>
                   </div>
+                  {Number(account.annual_rate) > 0 && (
+                    <div className="balance-row">
+                      <span className="balance-label">Interest Rate:</span>
+                      <span className="balance-value">
+                        {Number(account.annual_rate)}% ({account.compounding === 'daily' ? 'daily' : 'monthly'})
+                      </span>
+                    </div>
+                  )}
+                  {Number(account.monthly_fee) > 0 && (
+                    <div className="balance-row">
+                      <span className="balance-label">Monthly Fee:</span>
+                      <span className="balance-value deduction">{formatCurrency(account.monthly_fee)}</span>
+                    </div>
+                  )}
                   <div className="balance-row">
                     <span className="balance-label">Total Paid:</span>
                     <span className="balance-value paid">{formatCurrency(totalPaid)}</span>
@@ -301,14 +414,47 @@ export function BalanceTracker({ accounts, paidExpenses, onAdd, onUpdate, onDele
                       {formatCurrency(actualBalance)}
                     </span>
                   </div>
-                  {actualBalance > 0 && monthsRemaining !== Infinity && (
-                    <div className="balance-row">
-                      <span className="balance-label">Est. Months Remaining:</span>
-                      <span className="balance-value">{monthsRemaining}</span>
-                    </div>
-                  )}
                 </div>
 
+                {actualBalance > 0 && (
+                  payoff.paysOff ? (
+                    <div className="balance-payoff">
+                      <div className="balance-row">
+                        <span className="balance-label">Months Remaining:</span>
+                        <span className="balance-value">{payoff.monthsRemaining}</span>
+                      </div>
+                      {payoff.payoffMonth && (
+                        <div className="balance-row">
+                          <span className="balance-label">Paid Off In:</span>
+                          <span className="balance-value">{formatLongMonth(payoff.payoffMonth)}</span>
+                        </div>
+                      )}
+                      {payoff.totalInterest > 0 && (
+                        <>
+                          <div className="balance-row">
+                            <span className="balance-label">Total Interest:</span>
+                            <span className="balance-value deduction">{formatCurrency(payoff.totalInterest)}</span>
+                          </div>
+                          <div className="balance-row">
+                            <span className="balance-label">Interest Still to Pay:</span>
+                            <span className="balance-value deduction">{formatCurrency(payoff.remainingInterest)}</span>
+                          </div>
+                        </>
+                      )}
+                      {payoff.totalFees > 0 && (
+                        <div className="balance-row">
+                          <span className="balance-label">Total Fees:</span>
+                          <span className="balance-value deduction">{formatCurrency(payoff.totalFees)}</span>
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="balance-payoff-warning">
+                      The monthly deduction doesn't cover the interest and fees, so this balance never pays off.
+                    </p>
+                  )
+                )}
+
                 <div className="balance-progress">
                   <div className="progress-bar">
                     <div 
@@ -321,32 +467,136 @@ export function BalanceTracker({ accounts, paidExpenses, onAdd, onUpdate, onDele
                   </span>
                 </div>
 
-                {/* Payment History */}
-                {Object.keys(paidByMonth).length > 0 && (
-                  <div className="payment-history">
-                    <h4>Payment History</h4>
-                    <div className="payment-list">
-                      {Object.entries(paidByMonth)
-                        .sort(([a], [b]) => b.localeCompare(a))
-                        .map(([month, monthExpenses]) => (
-                          <div key={month} className="payment-month">
-                            <span className="payment-month-label">
-                              {new Date(month + '-01').toLocaleDateString('en-US', { 
-                                month: 'short', 
-                                year: 'numeric' 
-                              })}
-                            </span>
-                            {monthExpenses.map(exp => (
-                              <div key={exp.id} className="payment-item">
-                                <span className="payment-desc">{exp.description}</span>
-                                <span className="payment-amount">{formatCurrency(Number(exp.amount))}</span>
-                              </div>
-                            ))}
-                          </div>
+                <button
+                  className="btn-link balance-schedule-toggle"
+                  onClick={() => setScheduleAccountId(showSchedule ? null : account.id)}
+                >
+                  {showSchedule ? 'Hide schedule' : 'Show amortisation schedule'}
+                </button>
+                {showSchedule && (
+                  <div className="projection-table-wrapper balance-schedule">
+                    <table className="projection-table">
+                      <thead>
+                        <tr>
+                          <th>Month</th>
+                          <th>Opening</th>
+                          <th>Interest</th>
+                          <th>Fees</th>
+                          <th>Payment</th>
+                          <th>Principal</th>
+                          <th>Closing</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {buildAmortisationSchedule(account, { deductions }).map((row) => (
+                          <tr key={row.month} className={row.month === selectedViewMonth ? 'current-month' : ''}>
+                            <td>{formatLongMonth(row.month)}</td>
+                            <td>{formatCurrency(row.openingBalance)}</td>
+                            <td>{formatCurrency(row.interest)}</td>
+                            <td>{formatCurrency(row.fees)}</td>
+                            <td>{formatCurrency(row.payment)}</td>
+                            <td>{formatCurrency(row.principal)}</td>
+                            <td className={row.closingBalance <= 0 ? 'paid-off' : ''}>{formatCurrency(row.closingBalance)}</td>
+                          </tr>
                         ))}
-                    </div>
+                      </tbody>
+                    </table>
                   </div>
                 )}
+
+                {/* Balance History - the account's ledger, with the balance at each month end */}
+                <div className="payment-history">
+                  <div className="balance-history-header">
+                    <h4>Balance History</h4>
+                    <button
+                      className="btn-link"
+                      onClick={() =>
+                        setEntryForm(addingEntry ? null : {
+                          account_id: account.id,
+                          month: getCurrentBalanceMonth(),
+                          kind: 'adjustment',
+                          amount: 0,
+                          note: null,
+                        })
+                      }
+                    >
+                      {addingEntry ? 'Cancel' : '+ Add Entry'}
+                    </button>
+                  </div>
+
+                  {addingEntry && entryForm && (
+                    <form className="balance-entry-form" onSubmit={handleEntrySubmit}>
+                      <select
+                        value={entryForm.kind}
+                        onChange={(e) => setEntryForm({ ...entryForm, kind: e.target.value as BalanceEntryFormData['kind'] })}
+                      >
+                        <option value="adjustment">Adjustment (+ or -)</option>
+                        <option value="top_up">Top-up</option>
+                      </select>
+                      <select
+                        value={entryForm.month}
+                        onChange={(e) => setEntryForm({ ...entryForm, month: e.target.value })}
+                      >
+                        {monthOptions.map((month) => (
+                          <option key={month.value} value={month.value}>
+                            {month.label}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        placeholder="Amount (R)"
+                        value={entryForm.amount || ''}
+                        onChange={(e) => setEntryForm({ ...entryForm, amount: parseFloat(e.target.value) || 0 })}
+                        step="0.01"
+                        required
+                      />
+                      <input
+                        type="text"
+                        placeholder="Note (optional)"
+                        value={entryForm.note ?? ''}
+                        onChange={(e) => setEntryForm({ ...entryForm, note: e.target.value || null })}
+                      />
+                      <button type="submit" className="btn-submit" disabled={submitting || entryForm.amount === 0}>
+                        {submitting ? 'Saving...' : 'Add'}
+                      </button>
+                    </form>
+                  )}
+
+                  {monthEnds.length > 0 && (
+                    <div className="payment-list">
+                      {monthEnds.map((row) => (
+                        <div key={row.month} className="payment-month">
+                          <span className="payment-month-label">
+                            {new Date(row.month + '-01').toLocaleDateString('en-US', { 
+                              month: 'short', 
+                              year: 'numeric' 
+                            })}
+                            <span className="balance-month-end">Month end: {formatCurrency(row.closingBalance)}</span>
+                          </span>
+                          {entriesByMonth[row.month].map((entry) => (
+                            <div key={entry.id} className={`payment-item entry-${entry.kind}`}>
+                              <span className="payment-desc">
+                                {ENTRY_LABELS[entry.kind]}
+                                {entry.note && ` · ${entry.note}`}
+                              </span>
+                              <span className="payment-amount">{formatCurrency(Number(entry.amount))}</span>
+                              {(entry.kind === 'adjustment' || entry.kind === 'top_up') && (
+                                <button
+                                  className="btn-delete"
+                                  onClick={() => handleDeleteEntry(entry)}
+                                  title="Delete"
+                                >
+                                  <span className="btn-icon-text">Delete</span>
+                                </button>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
               </div>
             );
           })}
@@ -357,11 +607,11 @@ export function BalanceTracker({ accounts, paidExpenses, onAdd, onUpdate, onDele
       {accounts.length > 0 && (
         <div className="balance-projection">
           <h3>Monthly Balance Projection</h3>
-          <p className="projection-subtitle">Based on actual payments vs scheduled deductions</p>
+          <p className="projection-subtitle">Balances in the ledger vs scheduled deductions</p>
           
           {/* Mobile Cards View */}
           <div className="projection-cards-mobile">
-            {monthOptions.slice(0, 6).map((month) => (
+            {monthOptions.filter((month) => month.value >= getCurrentBalanceMonth()).slice(0, 6).map((month) => (
               <div 
                 key={month.value} 
                 className={`projection-card ${month.value === getCurrentBalanceMonth() ? 'current' : ''}`}
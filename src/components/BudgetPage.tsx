@@ -1,14 +1,21 @@
-import { useState } from 'react';
+import { Fragment, useState } from 'react';
+import { attachmentsFor } from '../hooks/useExpenseAttachments';
+import { findOverspending } from '../lib/budgetTracking';
+import { expenseTotal } from '../lib/vat';
 import type {
     BudgetEntryFormData,
+    BudgetExpense,
     BudgetExpenseFormData,
     BudgetWithExpenses,
     ExpenseCategory,
     FamilyMember,
+    HouseholdMember,
 } from '../types/budget';
+import { ExpenseAttachments, type AttachmentHandlers } from './ExpenseAttachments';
 
-interface BudgetPageProps {
+interface BudgetPageProps extends AttachmentHandlers {
   budgetsWithExpenses: BudgetWithExpenses[];
+  members: HouseholdMember[];
   onAddBudget: (data: BudgetEntryFormData) => Promise<boolean>;
   onUpdateBudget: (id: string, data: BudgetEntryFormData) => Promise<boolean>;
   onDeleteBudget: (id: string) => Promise<boolean>;
@@ -62,24 +69,31 @@ function formatDate(date: Date): string {
 
 export function BudgetPage({
   budgetsWithExpenses,
+  members,
   onAddBudget,
   onUpdateBudget,
   onDeleteBudget,
   onAddExpense,
   onUpdateExpense,
   onDeleteExpense,
+  attachments,
+  onUploadAttachment,
+  onOpenAttachment,
+  onDeleteAttachment,
 }: BudgetPageProps) {
+  const defaultMember = members[0]?.name ?? '';
   const [isAddingBudget, setIsAddingBudget] = useState(false);
   const [editingBudgetId, setEditingBudgetId] = useState<string | null>(null);
   const [expandedBudgetId, setExpandedBudgetId] = useState<string | null>(null);
   const [addingExpenseTo, setAddingExpenseTo] = useState<string | null>(null);
   const [editingExpenseId, setEditingExpenseId] = useState<string | null>(null);
+  const [filesOpenId, setFilesOpenId] = useState<string | null>(null); // Budget expense whose attachments are showing
 
   // Budget form state
   const [budgetName, setBudgetName] = useState('');
   const [budgetDescription, setBudgetDescription] = useState('');
   const [budgetAmount, setBudgetAmount] = useState('');
-  const [budgetMember, setBudgetMember] = useState<FamilyMember>('Nikkie');
+  const [budgetMember, setBudgetMember] = useState<FamilyMember>(defaultMember);
   const [budgetCategory, setBudgetCategory] = useState<ExpenseCategory>('Groceries');
 
   // Expense form state
@@ -93,7 +107,7 @@ export function BudgetPage({
     setBudgetName('');
     setBudgetDescription('');
     setBudgetAmount('');
-    setBudgetMember('Nikkie');
+    setBudgetMember(defaultMember);
     setBudgetCategory('Groceries');
     setIsAddingBudget(false);
     setEditingBudgetId(null);
@@ -162,7 +176,7 @@ export function BudgetPage({
     setIsAddingBudget(true);
   };
 
-  const startEditExpense = (budgetId: string, expense: any) => {
+  const startEditExpense = (budgetId: string, expense: BudgetExpense) => {
     setExpenseDescription(expense.description);
     setExpenseAmount(expense.amount.toString());
     setExpenseDate(expense.date);
@@ -174,11 +188,13 @@ export function BudgetPage({
     setExpandedBudgetId(expandedBudgetId === budgetId ? null : budgetId);
   };
 
+  const alerts = findOverspending(budgetsWithExpenses);
+
   return (
     <div className="budget-page">
       <div className="page-header">
         <h2>Budget Tracker</h2>
-        <p className="subtitle">Set budgets and track your spending</p>
+        <p className="subtitle">Set budgets and track your spending - expenses in the same category and member count too</p>
         {!isAddingBudget && (
           <button className="btn btn-primary" onClick={() => setIsAddingBudget(true)}>
             + New Budget
@@ -186,6 +202,25 @@ export function BudgetPage({
         )}
       </div>
 
+      {/* Overspend Alerts */}
+      {alerts.length > 0 && (
+        <div className="overspend-alerts">
+          {alerts.map((alert) => (
+            <div key={`${alert.scope}:${alert.name}`} className={`overspend-alert ${alert.level}`}>
+              <span className="overspend-alert-name">
+                {alert.scope === 'category' ? alert.name : `${alert.name}'s budgets`}
+              </span>
+              <span className="overspend-alert-text">
+                {alert.level === 'over'
+                  ? `Over by ${formatCurrency(alert.spent - alert.budgeted)}`
+                  : `${Math.round((alert.spent / alert.budgeted) * 100)}% used`}
+                {' '}· {formatCurrency(alert.spent)} of {formatCurrency(alert.budgeted)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Add/Edit Budget Form */}
       {isAddingBudget && (
         <div className="form-card">
@@ -220,8 +255,11 @@ export function BudgetPage({
               <div className="form-group">
                 <label>Member</label>
                 <select value={budgetMember} onChange={(e) => setBudgetMember(e.target.value as FamilyMember)}>
-                  <option value="Nikkie">Nikkie</option>
-                  <option value="Hein">Hein</option>
+                  {members.map((m) => (
+                    <option key={m.id} value={m.name}>
+                      {m.name}
+                    </option>
+                  ))}
                 </select>
               </div>
               <div className="form-group">
@@ -266,7 +304,7 @@ export function BudgetPage({
           </div>
         ) : (
           budgetsWithExpenses.map((budgetWithExpenses) => {
-            const { budget, expenses, totalSpent, remainingBalance, percentageUsed } = budgetWithExpenses;
+            const { budget, expenses, regularExpenses, regularSpent, totalSpent, remainingBalance, percentageUsed } = budgetWithExpenses;
             const isExpanded = expandedBudgetId === budget.id;
             const isOverBudget = remainingBalance < 0;
 
@@ -280,6 +318,7 @@ export function BudgetPage({
                     <p className="budget-meta">
                       {budget.member} • {budget.category}
                       {budget.description && ` • ${budget.description}`}
+                      {regularSpent > 0 && ` • ${formatCurrency(regularSpent)} from expenses`}
                     </p>
                   </div>
                   <div className="budget-amounts">
@@ -388,9 +427,32 @@ export function BudgetPage({
                       </div>
                     )}
 
+                    {/* Regular expenses of the month that count against this budget */}
+                    {regularExpenses.length > 0 && (
+                      <div className="expenses-list">
+                        <h4>From Expenses ({regularExpenses.length})</h4>
+                        <table className="expenses-table">
+                          <thead>
+                            <tr>
+                              <th>Description</th>
+                              <th>Amount</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {regularExpenses.map((expense) => (
+                              <tr key={expense.id}>
+                                <td>{expense.description}</td>
+                                <td className="amount">{formatCurrency(expenseTotal(expense))}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+
                     {/* Expenses List */}
                     <div className="expenses-list">
-                      <h4>Expenses ({expenses.length})</h4>
+                      <h4>Budget Expenses ({expenses.length})</h4>
                       {expenses.length === 0 ? (
                         <p className="empty-message">No expenses recorded yet.</p>
                       ) : (
@@ -404,33 +466,65 @@ export function BudgetPage({
                             </tr>
                           </thead>
                           <tbody>
-                            {expenses.map((expense) => (
-                              <tr key={expense.id}>
-                                <td>{new Date(expense.date).toLocaleDateString()}</td>
-                                <td>{expense.description}</td>
-                                <td className="amount">{formatCurrency(expense.amount)}</td>
-                                <td className="actions">
-                                  <button
-                                    className="btn-edit"
-                                    onClick={() => startEditExpense(budget.id, expense)}
-                                    title="Edit"
-                                  >
-                                    <span className="btn-icon-text">Edit</span>
-                                  </button>
-                                  <button
-                                    className="btn-delete"
-                                    onClick={async () => {
-                                      if (confirm('Delete this expense?')) {
-                                        await onDeleteExpense(expense.id);
-                                      }
-                                    }}
-                                    title="Delete"
-                                  >
-                                    <span className="btn-icon-text">Delete</span>
-                                  </button>
-                                </td>
-                              </tr>
-                            ))}
+                            {expenses.map((expense) => {
+                              const expenseAttachments = attachmentsFor(attachments, 'budget_expense', expense.id);
+                              return (
+                                <Fragment key={expense.id}>
+                                  <tr>
+                                    <td>{new Date(expense.date).toLocaleDateString()}</td>
+                                    <td>
+                                      {expense.description}
+                                      {expenseAttachments.length > 0 && (
+                                        <span className="attachment-badge" title={`${expenseAttachments.length} attached`}>
+                                          📎 {expenseAttachments.length}
+                                        </span>
+                                      )}
+                                    </td>
+                                    <td className="amount">{formatCurrency(expense.amount)}</td>
+                                    <td className="actions">
+                                      <button
+                                        className="btn-edit"
+                                        onClick={() => setFilesOpenId(filesOpenId === expense.id ? null : expense.id)}
+                                        title="Receipts and invoices"
+                                      >
+                                        <span className="btn-icon-text">{filesOpenId === expense.id ? 'Close' : 'Files'}</span>
+                                      </button>
+                                      <button
+                                        className="btn-edit"
+                                        onClick={() => startEditExpense(budget.id, expense)}
+                                        title="Edit"
+                                      >
+                                        <span className="btn-icon-text">Edit</span>
+                                      </button>
+                                      <button
+                                        className="btn-delete"
+                                        onClick={async () => {
+                                          if (confirm('Delete this expense?')) {
+                                            await onDeleteExpense(expense.id);
+                                          }
+                                        }}
+                                        title="Delete"
+                                      >
+                                        <span className="btn-icon-text">Delete</span>
+                                      </button>
+                                    </td>
+                                  </tr>
+                                  {filesOpenId === expense.id && (
+                                    <tr className="attachment-row">
+                                      <td colSpan={4}>
+                                        <ExpenseAttachments
+                                          parentId={expense.id}
+                                          attachments={expenseAttachments}
+                                          onUploadAttachment={onUploadAttachment}
+                                          onOpenAttachment={onOpenAttachment}
+                                          onDeleteAttachment={onDeleteAttachment}
+                                        />
+                                      </td>
+                                    </tr>
+                                  )}
+                                </Fragment>
+                              );
+                            })}
                           </tbody>
                         </table>
                       )}
@@ -1,10 +1,13 @@
 import { useEffect, useState } from 'react';
-import type { Expense, ExpenseCategory } from '../types/budget';
+import { describeSchedule } from '../lib/recurring';
+import type { DueSchedule, Expense, ExpenseCategory } from '../types/budget';
 
 interface CarryOverExpensesProps {
   currentMonth: string;
   previousMonthExpenses: Expense[];
+  dueSchedules: DueSchedule[]; // expense_id is set once the month has the schedule's expense
   onCarryOver: (expenses: Expense[]) => Promise<boolean>;
+  onAddScheduled: (due: DueSchedule[]) => Promise<boolean>;
   loading: boolean;
 }
 
@@ -49,17 +52,21 @@ function getPreviousMonth(month: string): string {
 export function CarryOverExpenses({
   currentMonth,
   previousMonthExpenses,
+  dueSchedules,
   onCarryOver,
+  onAddScheduled,
   loading,
 }: CarryOverExpensesProps) {
   const [showDialog, setShowDialog] = useState(false);
   const [selectedExpenses, setSelectedExpenses] = useState<Set<string>>(new Set());
+  const [selectedSchedules, setSelectedSchedules] = useState<Set<string>>(new Set());
   const [submitting, setSubmitting] = useState(false);
 
   const previousMonth = getPreviousMonth(currentMonth);
   const recurringExpenses = previousMonthExpenses.filter((e) => e.is_recurring);
+  const pendingSchedules = dueSchedules.filter((d) => !d.expense_id);
 
-  // Auto-select recurring expenses when dialog opens
+  // Auto-select recurring expenses and everything due when dialog opens
   useEffect(() => {
     if (showDialog) {
       const recurringIds = new Set(recurringExpenses.map((e) => e.id));
@@ -67,13 +74,27 @@ export function CarryOverExpenses({
       if (recurringIds.size > 0) {
         setSelectedExpenses(recurringIds);
       }
+      if (pendingSchedules.length > 0) {
+        setSelectedSchedules(new Set(pendingSchedules.map((d) => d.schedule.id)));
+      }
     } else {
       // Reset selection when dialog closes
       setSelectedExpenses(new Set());
+      setSelectedSchedules(new Set());
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [showDialog]);
 
+  const toggleSchedule = (id: string) => {
+    const newSelected = new Set(selectedSchedules);
+    if (newSelected.has(id)) {
+      newSelected.delete(id);
+    } else {
+      newSelected.add(id);
+    }
+    setSelectedSchedules(newSelected);
+  };
+
   const toggleExpense = (id: string) => {
     const newSelected = new Set(selectedExpenses);
     if (newSelected.has(id)) {
@@ -96,19 +117,25 @@ export function CarryOverExpenses({
     setSelectedExpenses(new Set(recurringExpenses.map((e) => e.id)));
   };
 
+  const selectedCount = selectedExpenses.size + selectedSchedules.size;
+
   const handleCarryOver = async () => {
-    if (selectedExpenses.size === 0) return;
+    if (selectedCount === 0) return;
 
     const expensesToCarry = previousMonthExpenses.filter((e) =>
       selectedExpenses.has(e.id)
     );
+    const schedulesToAdd = pendingSchedules.filter((d) => selectedSchedules.has(d.schedule.id));
 
     setSubmitting(true);
-    const success = await onCarryOver(expensesToCarry);
+    const success =
+      (schedulesToAdd.length === 0 || await onAddScheduled(schedulesToAdd)) &&
+      (expensesToCarry.length === 0 || await onCarryOver(expensesToCarry));
     
     if (success) {
       setShowDialog(false);
       setSelectedExpenses(new Set());
+      setSelectedSchedules(new Set());
     }
     
     setSubmitting(false);
@@ -123,7 +150,7 @@ export function CarryOverExpenses({
     return acc;
   }, {} as Record<string, Expense[]>);
 
-  if (previousMonthExpenses.length === 0) {
+  if (previousMonthExpenses.length === 0 && pendingSchedules.length === 0) {
     return null;
   }
 
@@ -133,9 +160,20 @@ export function CarryOverExpenses({
         <div className="banner-content">
           <span className="banner-icon">LIST</span>
           <div className="banner-text">
-            <strong>{previousMonthExpenses.length} expenses</strong> from {formatMonth(previousMonth)}
-            {recurringExpenses.length > 0 && (
-              <span className="recurring-badge"> • {recurringExpenses.length} recurring</span>
+            <span>
+              {previousMonthExpenses.length > 0 ? (
+                <><strong>{previousMonthExpenses.length} expenses</strong> from {formatMonth(previousMonth)}</>
+              ) : (
+                <>Scheduled expenses for <strong>{formatMonth(currentMonth)}</strong></>
+              )}
+            </span>
+            {(recurringExpenses.length > 0 || pendingSchedules.length > 0) && (
+              <span className="recurring-badge">
+                {[
+                  recurringExpenses.length > 0 && `${recurringExpenses.length} recurring`,
+                  pendingSchedules.length > 0 && `${pendingSchedules.length} scheduled due this month`,
+                ].filter(Boolean).join(' • ')}
+              </span>
             )}
           </div>
         </div>
@@ -160,14 +198,16 @@ export function CarryOverExpenses({
 
             <div className="modal-body">
               <div className="selection-actions">
-                <button
-                  className="btn btn-sm btn-secondary"
-                  onClick={() => toggleAll(selectedExpenses.size < previousMonthExpenses.length)}
-                >
-                  {selectedExpenses.size === previousMonthExpenses.length
-                    ? 'Deselect All'
-                    : 'Select All'}
-                </button>
+                {previousMonthExpenses.length > 0 && (
+                  <button
+                    className="btn btn-sm btn-secondary"
+                    onClick={() => toggleAll(selectedExpenses.size < previousMonthExpenses.length)}
+                  >
+                    {selectedExpenses.size === previousMonthExpenses.length
+                      ? 'Deselect All'
+                      : 'Select All'}
+                  </button>
+                )}
                 {recurringExpenses.length > 0 && (
                   <button
                     className="btn btn-sm btn-secondary"
@@ -177,10 +217,37 @@ export function CarryOverExpenses({
                   </button>
                 )}
                 <span className="selected-count">
-                  {selectedExpenses.size} selected
+                  {selectedCount} selected
                 </span>
               </div>
 
+              {dueSchedules.length > 0 && (
+                <div className="category-group due-schedules">
+                  <h4 className="category-header">Due in {formatMonth(currentMonth)}</h4>
+                  {dueSchedules.map((due) => (
+                    <label key={due.schedule.id} className={`expense-item ${due.expense_id ? 'added' : ''}`}>
+                      <input
+                        type="checkbox"
+                        checked={!!due.expense_id || selectedSchedules.has(due.schedule.id)}
+                        disabled={!!due.expense_id}
+                        onChange={() => toggleSchedule(due.schedule.id)}
+                      />
+                      <div className="expense-details">
+                        <div className="expense-header">
+                          <span className="expense-description">{due.schedule.description}</span>
+                          {due.expense_id && <span className="recurring-badge">Added</span>}
+                        </div>
+                        <div className="expense-meta">
+                          <span>{due.schedule.member}</span>
+                          <span>• {describeSchedule(due.schedule)}</span>
+                          <span>• {formatCurrency(due.amount)}</span>
+                        </div>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              )}
+
               <div className="expenses-list">
                 {Object.entries(expensesByCategory).map(([category, expenses]) => (
                   <div key={category} className="category-group">
@@ -228,11 +295,11 @@ export function CarryOverExpenses({
               <button
                 className="btn btn-primary"
                 onClick={handleCarryOver}
-                disabled={submitting || selectedExpenses.size === 0}
+                disabled={submitting || selectedCount === 0}
               >
                 {submitting
                   ? 'Carrying Over...'
-                  : `Carry Over ${selectedExpenses.size} Expense${selectedExpenses.size !== 1 ? 's' : ''}`}
+                  : `Carry Over ${selectedCount} Expense${selectedCount !== 1 ? 's' : ''}`}
               </button>
             </div>
           </div>
@@ -429,6 +496,16 @@ export function CarryOverExpenses({
           color: #6b7280;
         }
 
+        .due-schedules {
+          margin-bottom: 1.5rem;
+          border-left: 3px solid #10b981;
+        }
+
+        .expense-item.added {
+          cursor: default;
+          opacity: 0.6;
+        }
+
         .modal-footer {
           display: flex;
           justify-content: flex-end;
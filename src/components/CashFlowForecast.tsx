@@ -0,0 +1,92 @@
+import type { CashFlowForecast as Forecast } from '../types/budget';
+
+interface CashFlowForecastProps {
+  forecast: Forecast;
+  error: string | null;
+}
+
+/** Format currency in ZAR */
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+    minimumFractionDigits: 2,
+  }).format(amount);
+}
+
+/** Format a YYYY-MM month, e.g. "Dec 2026" */
+function formatShortMonth(month: string): string {
+  return new Date(month + '-01').toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+}
+
+export function CashFlowForecast({ forecast, error }: CashFlowForecastProps) {
+  const shortfalls = forecast.months.filter((m) => m.isShortfall);
+
+  return (
+    <div className="summary-overview cash-flow-forecast">
+      <section className="overview-section">
+        <h3>Cash-Flow Forecast</h3>
+        <p className="section-description">
+          The next {forecast.months.length} months, repeating {formatShortMonth(forecast.baseMonth)}'s incomes, taxes and
+          recurring expenses. Recurring schedules add what they fall due for, and balance accounts take their payments
+          until they are paid off. Discretionary spending isn't included.
+        </p>
+
+        {error && <div className="section-error">{error}</div>}
+
+        {shortfalls.length > 0 ? (
+          <div className="overspend-alerts">
+            {shortfalls.map((m) => (
+              <div key={m.month} className="overspend-alert over">
+                <span className="overspend-alert-name">{formatShortMonth(m.month)}</span>
+                <span className="overspend-alert-text">
+                  {formatCurrency(-m.remainingBalance)} short
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="cash-flow-clear">No month is projected to go negative.</p>
+        )}
+
+        <div className="projection-table-wrapper">
+          <table className="projection-table">
+            <thead>
+              <tr>
+                <th>Month</th>
+                <th>Income</th>
+                <th>Taxes</th>
+                <th>Expenses</th>
+                <th>Debt Repayments</th>
+                <th>Left Over</th>
+                <th>Running Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {forecast.months.map((m) => (
+                <tr key={m.month} className={m.isShortfall ? 'cash-flow-shortfall' : ''}>
+                  <td>
+                    {formatShortMonth(m.month)}
+                    {m.paidOff.map((name) => (
+                      <span key={name} className="cash-flow-paid-off">{name} paid off</span>
+                    ))}
+                  </td>
+                  <td>{formatCurrency(m.summary.totalIncome)}</td>
+                  <td>{formatCurrency(m.summary.totalTaxes)}</td>
+                  <td>{formatCurrency(m.summary.totalExpenses)}</td>
+                  <td>{formatCurrency(m.debtRepayments)}</td>
+                  <td className={m.remainingBalance >= 0 ? 'positive' : 'negative'}>
+                    {formatCurrency(m.remainingBalance)}
+                  </td>
+                  <td className={m.runningBalance >= 0 ? 'positive' : 'negative'}>
+                    {formatCurrency(m.runningBalance)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </div>
+  );
+}
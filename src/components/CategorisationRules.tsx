@@ -0,0 +1,371 @@
+import { useState } from 'react';
+import { learnRulesFromExpenses } from '../lib/categorisation';
+import type {
+  BalanceAccount,
+  CategorisationRule,
+  CategorisationRuleFormData,
+  Expense,
+  ExpenseCategory,
+  HouseholdMember,
+  RuleMatchType,
+  RuleProposal,
+} from '../types/budget';
+
+interface CategorisationRulesProps {
+  rules: CategorisationRule[];
+  members: HouseholdMember[];
+  balanceAccounts: BalanceAccount[];
+  error: string | null;
+  onAdd: (data: CategorisationRuleFormData) => Promise<boolean>;
+  onAddMany: (data: CategorisationRuleFormData[]) => Promise<boolean>;
+  onUpdate: (id: string, data: CategorisationRuleFormData) => Promise<boolean>;
+  onDelete: (id: string) => Promise<boolean>;
+  onMove: (id: string, direction: -1 | 1) => Promise<boolean>;
+  onFetchExpenses: () => Promise<Expense[]>;
+}
+
+const EXPENSE_CATEGORIES: ExpenseCategory[] = [
+  'Housing',
+  'Utilities',
+  'Groceries',
+  'Transportation',
+  'Healthcare',
+  'Entertainment',
+  'Dining',
+  'Shopping',
+  'Education',
+  'Insurance',
+  'Savings',
+  'Other',
+];
+
+const MATCH_TYPE_LABELS: Record<RuleMatchType, string> = {
+  wildcard: 'Wildcard (* and ?)',
+  contains: 'Contains',
+  regex: 'Regular expression',
+};
+
+/** Format currency for display in ZAR */
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+  }).format(amount);
+}
+
+/** One-line summary of what a rule does, e.g. "Groceries · Hein · shared" */
+function describeOutcome(rule: CategorisationRuleFormData, balanceAccounts: BalanceAccount[]): string {
+  const parts: string[] = [rule.category];
+  if (rule.member) parts.push(rule.member);
+  if (rule.is_shared !== null) parts.push(rule.is_shared ? 'shared' : 'not shared');
+  const account = balanceAccounts.find((a) => a.id === rule.balance_account_id);
+  if (account) parts.push(`→ ${account.name}`);
+  return parts.join(' · ');
+}
+
+/** Amount condition of a rule, e.g. "R 100,00 – R 500,00" */
+function describeAmount(rule: CategorisationRuleFormData): string | null {
+  if (rule.min_amount !== null && rule.max_amount !== null) {
+    return `${formatCurrency(rule.min_amount)} – ${formatCurrency(rule.max_amount)}`;
+  }
+  if (rule.min_amount !== null) return `≥ ${formatCurrency(rule.min_amount)}`;
+  if (rule.max_amount !== null) return `≤ ${formatCurrency(rule.max_amount)}`;
+  return null;
+}
+
+export function CategorisationRules({
+  rules,
+  members,
+  balanceAccounts,
+  error,
+  onAdd,
+  onAddMany,
+  onUpdate,
+  onDelete,
+  onMove,
+  onFetchExpenses,
+}: CategorisationRulesProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [pattern, setPattern] = useState('');
+  const [matchType, setMatchType] = useState<RuleMatchType>('wildcard');
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [category, setCategory] = useState<ExpenseCategory>('Groceries');
+  const [member, setMember] = useState('');
+  const [shared, setShared] = useState<'' | 'yes' | 'no'>('');
+  const [balanceAccountId, setBalanceAccountId] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const [learning, setLearning] = useState(false);
+  const [proposals, setProposals] = useState<RuleProposal[] | null>(null);
+  const [selectedProposals, setSelectedProposals] = useState<Set<number>>(new Set());
+
+  const resetForm = () => {
+    setPattern('');
+    setMatchType('wildcard');
+    setMinAmount('');
+    setMaxAmount('');
+    setCategory('Groceries');
+    setMember('');
+    setShared('');
+    setBalanceAccountId('');
+    setIsAdding(false);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pattern.trim()) return;
+
+    if (matchType === 'regex') {
+      try {
+        new RegExp(pattern);
+      } catch {
+        alert('That regular expression is not valid');
+        return;
+      }
+    }
+
+    const data: CategorisationRuleFormData = {
+      pattern: pattern.trim(),
+      match_type: matchType,
+      min_amount: minAmount ? parseFloat(minAmount) : null,
+      max_amount: maxAmount ? parseFloat(maxAmount) : null,
+      category,
+      member: member || null,
+      is_shared: shared === '' ? null : shared === 'yes',
+      balance_account_id: balanceAccountId || null,
+    };
+
+    setSubmitting(true);
+    const success = editingId ? await onUpdate(editingId, data) : await onAdd(data);
+    if (success) {
+      resetForm();
+    }
+    setSubmitting(false);
+  };
+
+  const handleEdit = (rule: CategorisationRule) => {
+    setEditingId(rule.id);
+    setPattern(rule.pattern);
+    setMatchType(rule.match_type);
+    setMinAmount(rule.min_amount !== null ? String(rule.min_amount) : '');
+    setMaxAmount(rule.max_amount !== null ? String(rule.max_amount) : '');
+    setCategory(rule.category);
+    setMember(rule.member ?? '');
+    setShared(rule.is_shared === null ? '' : rule.is_shared ? 'yes' : 'no');
+    setBalanceAccountId(rule.balance_account_id ?? '');
+    setIsAdding(true);
+  };
+
+  const handleDelete = async (rule: CategorisationRule) => {
+    if (confirm(`Delete the rule for "${rule.pattern}"?`)) {
+      await onDelete(rule.id);
+    }
+  };
+
+  const handleLearn = async () => {
+    setLearning(true);
+    const expenses = await onFetchExpenses();
+    const learned = learnRulesFromExpenses(expenses, rules);
+    setProposals(learned);
+    setSelectedProposals(new Set(learned.map((_, index) => index)));
+    setLearning(false);
+  };
+
+  const toggleProposal = (index: number) => {
+    const next = new Set(selectedProposals);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setSelectedProposals(next);
+  };
+
+  const handleAddProposals = async () => {
+    if (!proposals || selectedProposals.size === 0) return;
+    setSubmitting(true);
+    const success = await onAddMany(proposals.filter((_, index) => selectedProposals.has(index)).map((p) => p.rule));
+    if (success) {
+      setProposals(null);
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="section categorisation-rules-section">
+      <div className="section-header">
+        <h2>Categorisation Rules</h2>
+        <div className="section-header-actions">
+          <button className="btn-secondary" onClick={handleLearn} disabled={learning}>
+            {learning ? 'Learning...' : 'Learn from My Expenses'}
+          </button>
+          <button className="btn-add" onClick={() => { resetForm(); setIsAdding(!isAdding); }}>
+            {isAdding ? 'Cancel' : '+ Add Rule'}
+          </button>
+        </div>
+      </div>
+
+      <p className="section-description">
+        Rules fill in the category, member, shared flag and balance account when you quick-add or import an expense.
+        They run top to bottom and the first match wins.
+      </p>
+
+      {error && <div className="section-error">{error}</div>}
+
+      {isAdding && (
+        <form className="add-form" onSubmit={handleSubmit}>
+          <div className="form-header">
+            <span className="form-title">{editingId ? 'Edit Rule' : 'New Rule'}</span>
+          </div>
+          <div className="form-row">
+            <input
+              type="text"
+              placeholder={matchType === 'wildcard' ? 'e.g. WOOLWORTHS*' : 'Description text'}
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              required
+            />
+            <select value={matchType} onChange={(e) => setMatchType(e.target.value as RuleMatchType)}>
+              {(Object.keys(MATCH_TYPE_LABELS) as RuleMatchType[]).map((type) => (
+                <option key={type} value={type}>{MATCH_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              placeholder="Min amount"
+              value={minAmount}
+              onChange={(e) => setMinAmount(e.target.value)}
+              min="0"
+              step="0.01"
+            />
+            <input
+              type="number"
+              placeholder="Max amount"
+              value={maxAmount}
+              onChange={(e) => setMaxAmount(e.target.value)}
+              min="0"
+              step="0.01"
+            />
+          </div>
+          <div className="form-row">
+            <select value={category} onChange={(e) => setCategory(e.target.value as ExpenseCategory)}>
+              {EXPENSE_CATEGORIES.map((cat) => (
+                <option key={cat} value={cat}>{cat}</option>
+              ))}
+            </select>
+            <select value={member} onChange={(e) => setMember(e.target.value)}>
+              <option value="">— Any member —</option>
+              {members.map((m) => (
+                <option key={m.id} value={m.name}>{m.name}</option>
+              ))}
+            </select>
+            <select value={shared} onChange={(e) => setShared(e.target.value as '' | 'yes' | 'no')}>
+              <option value="">— Shared unchanged —</option>
+              <option value="yes">Shared</option>
+              <option value="no">Not shared</option>
+            </select>
+            {balanceAccounts.length > 0 && (
+              <select value={balanceAccountId} onChange={(e) => setBalanceAccountId(e.target.value)}>
+                <option value="">— No balance account —</option>
+                {balanceAccounts.map((account) => (
+                  <option key={account.id} value={account.id}>{account.name}</option>
+                ))}
+              </select>
+            )}
+            <button type="submit" className="btn-submit" disabled={submitting}>
+              {submitting ? 'Saving...' : editingId ? 'Update' : 'Add'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {proposals && (
+        <div className="rule-proposals">
+          <div className="form-header">
+            <span className="form-title">Proposed Rules</span>
+          </div>
+          {proposals.length === 0 ? (
+            <p className="no-entries">No new rules to propose - your rules already cover your regular merchants.</p>
+          ) : (
+            <ul className="entries-list">
+              {proposals.map((proposal, index) => (
+                <li key={proposal.rule.pattern} className="entry-item">
+                  <label className="entry-info">
+                    <input
+                      type="checkbox"
+                      checked={selectedProposals.has(index)}
+                      onChange={() => toggleProposal(index)}
+                    />
+                    <span className="rule-pattern">{proposal.rule.pattern}</span>
+                    <span className="entry-description">{describeOutcome(proposal.rule, balanceAccounts)}</span>
+                  </label>
+                  <span className="rule-meta">
+                    {proposal.matchCount} expenses · {Math.round(proposal.agreement * 100)}% agree
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="form-row">
+            <button type="button" className="btn-secondary" onClick={() => setProposals(null)}>
+              Dismiss
+            </button>
+            {proposals.length > 0 && (
+              <button
+                type="button"
+                className="btn-submit"
+                onClick={handleAddProposals}
+                disabled={submitting || selectedProposals.size === 0}
+              >
+                Add {selectedProposals.size} Rule{selectedProposals.size !== 1 ? 's' : ''}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {rules.length === 0 ? (
+        <p className="no-entries">No rules yet. Add one, or learn them from the expenses you've already filed.</p>
+      ) : (
+        <ul className="entries-list">
+          {rules.map((rule, index) => (
+            <li key={rule.id} className="entry-item">
+              <div className="entry-info">
+                <span className="rule-pattern" title={MATCH_TYPE_LABELS[rule.match_type]}>{rule.pattern}</span>
+                <span className="entry-description">{describeOutcome(rule, balanceAccounts)}</span>
+                {describeAmount(rule) && <span className="rule-meta">{describeAmount(rule)}</span>}
+              </div>
+              <div className="entry-actions">
+                <button
+                  className="btn-edit"
+                  onClick={() => onMove(rule.id, -1)}
+                  disabled={index === 0}
+                  title="Move up"
+                >
+                  <span className="btn-icon-text">Up</span>
+                </button>
+                <button
+                  className="btn-edit"
+                  onClick={() => onMove(rule.id, 1)}
+                  disabled={index === rules.length - 1}
+                  title="Move down"
+                >
+                  <span className="btn-icon-text">Down</span>
+                </button>
+                <button className="btn-edit" onClick={() => handleEdit(rule)} title="Edit">
+                  <span className="btn-icon-text">Edit</span>
+                </button>
+                <button className="btn-delete" onClick={() => handleDelete(rule)} title="Delete">
+                  <span className="btn-icon-text">Delete</span>
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useRef, useState } from 'react';
+import { BACKUP_TABLES, validateBackup } from '../lib/backup';
+import type { BackupConflicts } from '../hooks/useBackup';
+import type { BackupFile, BackupTableName, RestoreMode } from '../types/budget';
+
+interface DataBackupProps {
+  busy: boolean;
+  error: string | null;
+  onExport: () => Promise<boolean>;
+  onCheckConflicts: (backup: BackupFile) => Promise<BackupConflicts | null>;
+  onRestore: (backup: BackupFile, mode: RestoreMode) => Promise<boolean>;
+}
+
+const TABLE_LABELS: Record<BackupTableName, string> = {
+  household_members: 'Household members',
+  rollover_rules: 'Month rollover rules',
+  split_rules: 'Shared expense split',
+  balance_accounts: 'Balance accounts',
+  balance_deductions: 'Balance deduction changes',
+  savings_goals: 'Savings goals',
+  asset_accounts: 'Asset accounts',
+  asset_valuations: 'Asset valuations',
+  recurring_schedules: 'Recurring schedules',
+  tax_profiles: 'Tax details',
+  incomes: 'Incomes',
+  taxes: 'Taxes',
+  expenses: 'Expenses',
+  unnecessary_expenses: 'Unnecessary expenses',
+  settlements: 'Settlements',
+  balance_history: 'Balance history',
+  budget_entries: 'Budgets',
+  budget_expenses: 'Budget expenses',
+  financial_statements: 'Financial statements (details only)',
+  expense_attachments: 'Expense attachments (details only)',
+  import_profiles: 'Bank import profiles',
+  categorisation_rules: 'Categorisation rules',
+};
+
+const RESTORE_MODES: { value: RestoreMode; label: string; hint: string }[] = [
+  { value: 'skip', label: 'Skip existing', hint: 'Only add rows that are not already here' },
+  { value: 'overwrite', label: 'Overwrite existing', hint: 'Replace rows that are already here with the backup version' },
+  { value: 'copy', label: 'Restore as copies', hint: 'Add every row again under new IDs, even if it is already here' },
+];
+
+export function DataBackup({ busy, error, onExport, onCheckConflicts, onRestore }: DataBackupProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [conflicts, setConflicts] = useState<BackupConflicts | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('skip');
+
+  const resetRestore = () => {
+    setFileName('');
+    setBackup(null);
+    setProblems([]);
+    setConflicts(null);
+    setMode('skip');
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    resetRestore();
+    setFileName(file.name);
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      setProblems(['The file is not valid JSON']);
+      return;
+    }
+
+    const result = validateBackup(data);
+    setProblems(result.errors);
+    if (!result.backup) return;
+
+    setBackup(result.backup);
+    setConflicts(await onCheckConflicts(result.backup));
+  };
+
+  const conflictCount = Object.values(conflicts ?? {}).reduce((sum, n) => sum + (n ?? 0), 0);
+  const rowCount = backup ? BACKUP_TABLES.reduce((sum, t) => sum + backup.tables[t].length, 0) : 0;
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    const modeLabel = RESTORE_MODES.find((m) => m.value === mode)?.label.toLowerCase();
+    if (!confirm(`Restore ${rowCount} rows from ${fileName} (${modeLabel})? This cannot be undone.`)) return;
+
+    if (await onRestore(backup, mode)) {
+      alert('Backup restored');
+      resetRestore();
+    }
+  };
+
+  return (
+    <div className="section data-backup-section">
+      <div className="section-header">
+        <h2>Backup &amp; Restore</h2>
+        <div className="section-header-actions">
+          <button className="btn-secondary" onClick={onExport} disabled={busy}>
+            Export Backup
+          </button>
+          <button className="btn-add" onClick={() => fileInputRef.current?.click()} disabled={busy}>
+            Restore…
+          </button>
+        </div>
+      </div>
+
+      <p className="section-description">
+        Export every income, expense, budget, balance account and setting of this household to a JSON file, or restore one.
+        Uploaded statement files are not included - download those from the Documents tab.
+      </p>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleFileChange}
+        hidden
+      />
+
+      {error && <div className="section-error">{error}</div>}
+
+      {problems.length > 0 && (
+        <div className="section-error">
+          <strong>{fileName} can't be restored:</strong>
+          <ul className="backup-problems">
+            {problems.map((problem) => <li key={problem}>{problem}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {backup && (
+        <div className="add-form backup-restore">
+          <div className="form-header">
+            <span className="form-title">
+              {backup.household.name || 'Backup'} — exported {backup.exported_at ? new Date(backup.exported_at).toLocaleString('en-ZA') : 'at an unknown time'}
+            </span>
+          </div>
+
+          <ul className="entries-list">
+            {BACKUP_TABLES.filter((t) => backup.tables[t].length > 0).map((table) => (
+              <li key={table} className="entry-item">
+                <div className="entry-info">
+                  <span className="entry-description">{TABLE_LABELS[table]}</span>
+                  {conflicts?.[table] && (
+                    <span className="backup-conflicts">{conflicts[table]} already here</span>
+                  )}
+                </div>
+                <span className="rule-meta">{backup.tables[table].length} rows</span>
+              </li>
+            ))}
+          </ul>
+
+          {conflicts === null ? (
+            <p className="import-note">Couldn't check which rows already exist.</p>
+          ) : conflictCount > 0 ? (
+            <p className="import-note">{conflictCount} rows in this backup are already in the database.</p>
+          ) : (
+            <p className="import-note">None of these rows are in the database yet.</p>
+          )}
+
+          <div className="backup-modes">
+            {RESTORE_MODES.map((option) => (
+              <label key={option.value} className="option-checkbox">
+                <input
+                  type="radio"
+                  name="restore-mode"
+                  value={option.value}
+                  checked={mode === option.value}
+                  onChange={() => setMode(option.value)}
+                />
+                <span>{option.label}</span>
+                <span className="rule-meta">{option.hint}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="quick-add-actions">
+            <button type="button" className="btn-secondary" onClick={resetRestore} disabled={busy}>
+              Cancel
+            </button>
+            <button type="button" className="btn-primary" onClick={handleRestore} disabled={busy}>
+              {busy ? 'Restoring...' : `Restore ${rowCount} Rows`}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
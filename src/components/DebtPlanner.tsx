@@ -0,0 +1,228 @@
+import { useState } from 'react';
+import { getCurrentBalanceMonth } from '../hooks/useBalances';
+import { addMonths } from '../lib/amortisation';
+import { ledgerBalance } from '../lib/balanceLedger';
+import { simulateDebtPlan, strategyOrder } from '../lib/debtPlanner';
+import type { Debt } from '../lib/debtPlanner';
+import type { BalanceAccount, BalanceDeduction, BalanceHistory, DebtPlan, DebtStrategy } from '../types/budget';
+
+/** Format currency in ZAR */
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+    minimumFractionDigits: 2,
+  }).format(amount);
+}
+
+/** Format a YYYY-MM month, e.g. "Mar 2031" */
+function formatShortMonth(month: string): string {
+  return new Date(month + '-01').toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+}
+
+const PLAN_LABELS: Record<DebtPlan['strategy'], string> = {
+  current: 'Current Deductions',
+  snowball: 'Snowball',
+  avalanche: 'Avalanche',
+  custom: 'Custom Order',
+};
+
+const PLAN_DESCRIPTIONS: Record<DebtPlan['strategy'], string> = {
+  current: 'Every account keeps its own deduction',
+  snowball: 'Smallest balance first',
+  avalanche: 'Highest interest rate first',
+  custom: 'Your own order',
+};
+
+interface DebtPlannerProps {
+  accounts: BalanceAccount[];
+  history: BalanceHistory[];
+  deductions: BalanceDeduction[];
+  onAdopt: (plan: DebtPlan) => Promise<void>;
+}
+
+export function DebtPlanner({ accounts, history, deductions, onAdopt }: DebtPlannerProps) {
+  const [extraBudget, setExtraBudget] = useState(0);
+  const [customOrder, setCustomOrder] = useState<string[] | null>(null);
+  const [adopting, setAdopting] = useState<DebtStrategy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Plans start next month, from the balance in the ledger after this month's payments
+  const currentMonth = getCurrentBalanceMonth();
+  const startMonth = addMonths(currentMonth, 1);
+  const debts: Debt[] = accounts
+    .map((account) => ({ account, balance: ledgerBalance(account, history, currentMonth) }))
+    .filter((debt) => debt.balance > 0);
+
+  if (debts.length === 0) return null;
+
+  const avalancheOrder = strategyOrder('avalanche', debts);
+  // The custom order starts as avalanche; accounts added since it was changed go last
+  const order = customOrder
+    ? [...customOrder.filter((id) => avalancheOrder.includes(id)), ...avalancheOrder.filter((id) => !customOrder.includes(id))]
+    : avalancheOrder;
+  const simulate = (strategy: DebtPlan['strategy'], planOrder: string[]) =>
+    simulateDebtPlan(strategy, debts, deductions, startMonth, extraBudget, planOrder);
+
+  const baseline = simulate('current', []);
+  const plans = [
+    baseline,
+    simulate('snowball', strategyOrder('snowball', debts)),
+    simulate('avalanche', avalancheOrder),
+    simulate('custom', order),
+  ];
+  const accountName = (id: string) => debts.find((d) => d.account.id === id)?.account.name ?? '';
+
+  const moveAccount = (index: number, offset: number) => {
+    const next = [...order];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    setCustomOrder(next);
+  };
+
+  const handleAdopt = async (plan: DebtPlan) => {
+    if (plan.strategy === 'current') return;
+    const message =
+      `Adopt the ${PLAN_LABELS[plan.strategy]} plan? Monthly deductions from ${formatShortMonth(startMonth)} on ` +
+      'will change to follow it. Earlier months are not affected.';
+    if (!confirm(message)) return;
+
+    setAdopting(plan.strategy);
+    setError(null);
+    try {
+      await onAdopt(plan);
+    } catch (err) {
+      console.error('Error adopting debt plan:', err);
+      setError(err instanceof Error ? err.message : 'Failed to adopt the plan');
+    } finally {
+      setAdopting(null);
+    }
+  };
+
+  return (
+    <div className="section debt-planner">
+      <div className="section-header">
+        <h2>Debt Payoff Planner</h2>
+      </div>
+      <p className="section-description">
+        Compare paying off your balance accounts from {formatShortMonth(startMonth)} with an extra amount every
+        month. Each account keeps its deduction; the extra, and the deduction of every account paid off, goes to
+        the next account in line.
+      </p>
+
+      {error && <div className="section-error">{error}</div>}
+
+      <div className="form-row debt-planner-controls">
+        <div className="form-group">
+          <label>Extra per Month (R)</label>
+          <input
+            type="number"
+            placeholder="0.00"
+            value={extraBudget || ''}
+            onChange={(e) => setExtraBudget(Math.max(0, parseFloat(e.target.value) || 0))}
+            min="0"
+            step="0.01"
+          />
+        </div>
+        <div className="form-group debt-planner-order">
+          <label>Custom Order</label>
+          <ol>
+            {order.map((id, index) => (
+              <li key={id}>
+                <span>{accountName(id)}</span>
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  onClick={() => moveAccount(index, -1)}
+                  disabled={index === 0}
+                  title="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  onClick={() => moveAccount(index, 1)}
+                  disabled={index === order.length - 1}
+                  title="Move down"
+                >
+                  ↓
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </div>
+
+      <div className="projection-table-wrapper">
+        <table className="projection-table debt-plan-table">
+          <thead>
+            <tr>
+              <th></th>
+              {plans.map((plan) => (
+                <th key={plan.strategy}>
+                  {PLAN_LABELS[plan.strategy]}
+                  <span className="debt-plan-description">{PLAN_DESCRIPTIONS[plan.strategy]}</span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <td>Debt-Free</td>
+              {plans.map((plan) => (
+                <td key={plan.strategy} className={plan.paysOff ? '' : 'negative'}>
+                  {plan.debtFreeMonth ? formatShortMonth(plan.debtFreeMonth) : 'Never'}
+                </td>
+              ))}
+            </tr>
+            <tr>
+              <td>Total Interest</td>
+              {plans.map((plan) => (
+                <td key={plan.strategy}>{formatCurrency(plan.totalInterest)}</td>
+              ))}
+            </tr>
+            <tr>
+              <td>Interest Saved</td>
+              {plans.map((plan) => {
+                const saved = baseline.totalInterest - plan.totalInterest;
+                return (
+                  <td key={plan.strategy} className={saved > 0 ? 'positive' : ''}>
+                    {plan.strategy === 'current' ? '-' : formatCurrency(saved)}
+                  </td>
+                );
+              })}
+            </tr>
+            {debts.map(({ account }) => (
+              <tr key={account.id}>
+                <td>{account.name} paid off</td>
+                {plans.map((plan) => {
+                  const payoffMonth = plan.accounts.find((a) => a.accountId === account.id)?.payoffMonth;
+                  return (
+                    <td key={plan.strategy}>{payoffMonth ? formatShortMonth(payoffMonth) : 'Never'}</td>
+                  );
+                })}
+              </tr>
+            ))}
+            <tr>
+              <td></td>
+              {plans.map((plan) => (
+                <td key={plan.strategy}>
+                  {plan.strategy !== 'current' && (
+                    <button
+                      className="btn-primary"
+                      onClick={() => handleAdopt(plan)}
+                      disabled={adopting !== null}
+                    >
+                      {adopting === plan.strategy ? 'Adopting...' : 'Adopt'}
+                    </button>
+                  )}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
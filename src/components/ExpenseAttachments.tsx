@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import type { ExpenseAttachment } from '../types/budget';
+
+/** Attachment actions an expense list needs, with the entry kind already chosen by App */
+export interface AttachmentHandlers {
+  attachments: ExpenseAttachment[];
+  onUploadAttachment: (parentId: string, file: File) => Promise<boolean>;
+  onOpenAttachment: (attachment: ExpenseAttachment) => Promise<string | null>;
+  onDeleteAttachment: (attachment: ExpenseAttachment) => Promise<boolean>;
+}
+
+interface ExpenseAttachmentsProps extends Omit<AttachmentHandlers, 'attachments'> {
+  parentId: string;
+  attachments: ExpenseAttachment[]; // Only this entry's attachments
+}
+
+/** Largest file the financial-statements bucket accepts */
+const MAX_FILE_SIZE = 50 * 1024 * 1024;
+
+/** File types the bucket accepts that are worth attaching to an expense */
+const ACCEPTED_TYPES = 'application/pdf,image/png,image/jpeg';
+
+/** Format file size to human readable format */
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+  return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+}
+
+export function ExpenseAttachments({
+  parentId,
+  attachments,
+  onUploadAttachment,
+  onOpenAttachment,
+  onDeleteAttachment,
+}: ExpenseAttachmentsProps) {
+  const [uploading, setUploading] = useState(false);
+  const [viewing, setViewing] = useState<{ attachment: ExpenseAttachment; url: string } | null>(null);
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const file = input.files?.[0];
+    if (!file) return;
+    if (file.size > MAX_FILE_SIZE) {
+      alert('File size must be less than 50MB');
+      input.value = '';
+      return;
+    }
+
+    setUploading(true);
+    await onUploadAttachment(parentId, file);
+    setUploading(false);
+    input.value = '';
+  };
+
+  const handleView = async (attachment: ExpenseAttachment) => {
+    if (viewing?.attachment.id === attachment.id) {
+      setViewing(null);
+      return;
+    }
+    const url = await onOpenAttachment(attachment);
+    if (url) {
+      setViewing({ attachment, url });
+    }
+  };
+
+  const handleDelete = async (attachment: ExpenseAttachment) => {
+    if (confirm(`Delete the attachment "${attachment.filename}"?`)) {
+      const deleted = await onDeleteAttachment(attachment);
+      if (deleted && viewing?.attachment.id === attachment.id) {
+        setViewing(null);
+      }
+    }
+  };
+
+  return (
+    <div className="expense-attachments">
+      {attachments.length > 0 && (
+        <ul className="attachment-list">
+          {attachments.map((attachment) => (
+            <li key={attachment.id}>
+              <span className="attachment-name">📎 {attachment.filename}</span>
+              <span className="attachment-size">{formatFileSize(attachment.file_size)}</span>
+              <button className="btn-edit" onClick={() => handleView(attachment)} title="View">
+                <span className="btn-icon-text">{viewing?.attachment.id === attachment.id ? 'Hide' : 'View'}</span>
+              </button>
+              <button className="btn-delete" onClick={() => handleDelete(attachment)} title="Delete attachment">
+                <span className="btn-icon-text">Delete</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {viewing && (
+        <div className="attachment-viewer">
+          {viewing.attachment.content_type.startsWith('image/') ? (
+            <img src={viewing.url} alt={viewing.attachment.filename} />
+          ) : viewing.attachment.content_type === 'application/pdf' ? (
+            <iframe src={viewing.url} title={viewing.attachment.filename} />
+          ) : (
+            <p className="no-entries">This file can't be shown here.</p>
+          )}
+          <a href={viewing.url} target="_blank" rel="noreferrer">Open in a new tab</a>
+        </div>
+      )}
+
+      <label className="attachment-upload">
+        <input type="file" accept={ACCEPTED_TYPES} onChange={handleFileSelect} disabled={uploading} />
+        {uploading ? 'Uploading...' : '+ Attach receipt or invoice'}
+      </label>
+    </div>
+  );
+}
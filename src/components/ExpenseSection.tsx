@@ -1,10 +1,23 @@
 import { useState } from 'react';
-import type { BalanceAccount, Expense, ExpenseCategory, ExpenseFormData, FamilyMember } from '../types/budget';
-import { VAT_RATE } from '../types/budget';
+import { attachmentsFor } from '../hooks/useExpenseAttachments';
+import { baseFromInclusive, expenseTotal, expenseVat, formatVatRate } from '../lib/vat';
+import type {
+  BalanceAccount,
+  Expense,
+  ExpenseCategory,
+  ExpenseFormData,
+  FamilyMember,
+  HouseholdMember,
+  SavingsGoal,
+} from '../types/budget';
+import { ExpenseAttachments, type AttachmentHandlers } from './ExpenseAttachments';
 
-interface ExpenseSectionProps {
+interface ExpenseSectionProps extends AttachmentHandlers {
   expenses: Expense[];
+  selectedMonth: string; // Sets the VAT rate for new and edited expenses
+  members: HouseholdMember[];
   balanceAccounts: BalanceAccount[];
+  savingsGoals: SavingsGoal[];
   onAdd: (data: ExpenseFormData) => Promise<boolean>;
   onDelete: (id: string) => Promise<boolean>;
   onUpdate: (id: string, data: ExpenseFormData) => Promise<boolean>;
@@ -51,15 +64,23 @@ const CATEGORY_LABELS: Record<ExpenseCategory, { abbr: string; color: string }>
 
 export function ExpenseSection({
   expenses,
+  selectedMonth,
+  members,
   balanceAccounts,
+  savingsGoals,
   onAdd,
   onDelete,
   onUpdate,
   expensesByCategory,
+  attachments,
+  onUploadAttachment,
+  onOpenAttachment,
+  onDeleteAttachment,
 }: ExpenseSectionProps) {
+  const defaultMember = members[0]?.name ?? '';
   const [isAdding, setIsAdding] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [member, setMember] = useState<FamilyMember>('Nikkie');
+  const [member, setMember] = useState<FamilyMember>(defaultMember);
   const [category, setCategory] = useState<ExpenseCategory>('Groceries');
   const [description, setDescription] = useState('');
   const [amount, setAmount] = useState('');
@@ -67,18 +88,18 @@ export function ExpenseSection({
   const [isRecurring, setIsRecurring] = useState(false);
   const [isPaid, setIsPaid] = useState(false);
   const [includeVat, setIncludeVat] = useState(false);
+  const [vatInclusive, setVatInclusive] = useState(false); // The amount typed in already includes VAT
+  const [isTaxDeductible, setIsTaxDeductible] = useState(false);
   const [note, setNote] = useState('');
   const [balanceAccountId, setBalanceAccountId] = useState<string | null>(null);
+  const [savingsGoalId, setSavingsGoalId] = useState<string | null>(null);
   const [submitting, setSubmitting] = useState(false);
+  const [filesOpenId, setFilesOpenId] = useState<string | null>(null); // Expense whose attachments are showing
 
-  /** Calculate VAT amount from base price */
-  const calculateVatAmount = (baseAmount: number): number => {
-    return baseAmount * VAT_RATE;
-  };
-
-  /** Calculate total amount with VAT */
-  const calculateTotalWithVat = (baseAmount: number): number => {
-    return baseAmount + calculateVatAmount(baseAmount);
+  /** Amount to store: expenses keep their base, so a VAT-inclusive figure is converted back */
+  const getBaseAmount = (): number => {
+    const entered = parseFloat(amount);
+    return includeVat && vatInclusive ? baseFromInclusive(entered, selectedMonth) : entered;
   };
 
   const resetForm = () => {
@@ -88,10 +109,13 @@ export function ExpenseSection({
     setIsRecurring(false);
     setIsPaid(false);
     setIncludeVat(false);
+    setVatInclusive(false);
+    setIsTaxDeductible(false);
     setNote('');
-    setMember('Nikkie');
+    setMember(defaultMember);
     setCategory('Groceries');
     setBalanceAccountId(null);
+    setSavingsGoalId(null);
     setIsAdding(false);
     setEditingId(null);
   };
@@ -105,13 +129,15 @@ export function ExpenseSection({
       member,
       category,
       description: description.trim(),
-      amount: parseFloat(amount),
+      amount: getBaseAmount(),
       is_shared: isShared,
       is_recurring: isRecurring,
       is_paid: isPaid,
       include_vat: includeVat,
+      is_tax_deductible: isTaxDeductible,
       note: note.trim() || null,
       balance_account_id: balanceAccountId,
+      savings_goal_id: category === 'Savings' ? savingsGoalId : null,
     };
 
     const success = editingId
@@ -134,8 +160,11 @@ export function ExpenseSection({
     setIsRecurring(expense.is_recurring);
     setIsPaid(expense.is_paid);
     setIncludeVat(expense.include_vat);
+    setVatInclusive(false);
+    setIsTaxDeductible(expense.is_tax_deductible);
     setNote(expense.note || '');
     setBalanceAccountId(expense.balance_account_id);
+    setSavingsGoalId(expense.savings_goal_id);
     setIsAdding(true);
   };
 
@@ -150,6 +179,13 @@ export function ExpenseSection({
     return account ? account.name : null;
   };
 
+  // Helper to get savings goal name by ID
+  const getSavingsGoalName = (id: string | null): string | null => {
+    if (!id) return null;
+    const goal = savingsGoals.find(g => g.id === id);
+    return goal ? goal.name : null;
+  };
+
   const handleDelete = async (id: string) => {
     if (confirm('Are you sure you want to delete this expense?')) {
       await onDelete(id);
@@ -167,8 +203,10 @@ export function ExpenseSection({
       is_recurring: expense.is_recurring,
       is_paid: !expense.is_paid,
       include_vat: expense.include_vat,
+      is_tax_deductible: expense.is_tax_deductible,
       note: expense.note,
       balance_account_id: expense.balance_account_id,
+      savings_goal_id: expense.savings_goal_id,
     };
     await onUpdate(expense.id, data);
   };
@@ -187,15 +225,14 @@ export function ExpenseSection({
       is_recurring: expense.is_recurring,
       is_paid: expense.is_paid,
       include_vat: expense.include_vat,
+      is_tax_deductible: expense.is_tax_deductible,
       note: newNote.trim() || null,
       balance_account_id: expense.balance_account_id,
+      savings_goal_id: expense.savings_goal_id,
     };
     await onUpdate(expense.id, data);
   };
 
-  const nikkieExpenses = expenses.filter((e) => e.member === 'Nikkie');
-  const heinExpenses = expenses.filter((e) => e.member === 'Hein');
-
   return (
     <div className="section expense-section">
       <div className="section-header">
@@ -217,8 +254,11 @@ export function ExpenseSection({
           </div>
           <div className="form-row">
             <select value={member} onChange={(e) => setMember(e.target.value as FamilyMember)}>
-              <option value="Nikkie">Nikkie</option>
-              <option value="Hein">Hein</option>
+              {members.map((m) => (
+                <option key={m.id} value={m.name}>
+                  {m.name}
+                </option>
+              ))}
             </select>
             <select
               value={category}
@@ -276,13 +316,31 @@ export function ExpenseSection({
                 checked={includeVat}
                 onChange={(e) => setIncludeVat(e.target.checked)}
               />
-              +VAT (15%)
+              +VAT ({formatVatRate(selectedMonth)})
+            </label>
+            {includeVat && (
+              <label className="shared-checkbox">
+                <input
+                  type="checkbox"
+                  checked={vatInclusive}
+                  onChange={(e) => setVatInclusive(e.target.checked)}
+                />
+                Amount includes VAT
+              </label>
+            )}
+            <label className="shared-checkbox">
+              <input
+                type="checkbox"
+                checked={isTaxDeductible}
+                onChange={(e) => setIsTaxDeductible(e.target.checked)}
+              />
+              Tax deductible
             </label>
           </div>
           {includeVat && amount && (
             <div className="form-row vat-preview">
               <span className="vat-info">
-                Base: {formatCurrency(parseFloat(amount))} + VAT: {formatCurrency(calculateVatAmount(parseFloat(amount)))} = Total: {formatCurrency(calculateTotalWithVat(parseFloat(amount)))}
+                Base: {formatCurrency(getBaseAmount())} + VAT: {formatCurrency(expenseVat({ amount: getBaseAmount(), include_vat: true, month: selectedMonth }))} = Total: {formatCurrency(expenseTotal({ amount: getBaseAmount(), include_vat: true, month: selectedMonth }))}
               </span>
             </div>
           )}
@@ -313,6 +371,24 @@ export function ExpenseSection({
               </div>
             </div>
           )}
+          {category === 'Savings' && savingsGoals.length > 0 && (
+            <div className="form-row">
+              <div className="balance-link-select">
+                <label>Link to Savings Goal (optional):</label>
+                <select
+                  value={savingsGoalId || ''}
+                  onChange={(e) => setSavingsGoalId(e.target.value || null)}
+                >
+                  <option value="">— No savings goal —</option>
+                  {savingsGoals.map((goal) => (
+                    <option key={goal.id} value={goal.id}>
+                      {goal.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
           <div className="form-row">
             <button type="submit" className="btn-submit" disabled={submitting}>
               {submitting ? 'Saving...' : editingId ? 'Update' : 'Add'}
@@ -344,163 +420,120 @@ export function ExpenseSection({
       )}
 
       <div className="entries-grid">
-        <div className="entries-column">
-          <h4>Nikkie's Expenses</h4>
-          {nikkieExpenses.length === 0 ? (
-            <p className="no-entries">No expense entries</p>
-          ) : (
-            <ul className="entries-list">
-              {nikkieExpenses.map((expense) => (
-                <li key={expense.id} className={`entry-item ${expense.is_paid ? 'paid' : ''}`}>
-                  <div className="entry-paid-toggle">
-                    <input
-                      type="checkbox"
-                      checked={expense.is_paid}
-                      onChange={() => handleTogglePaid(expense)}
-                      title={expense.is_paid ? 'Mark as unpaid' : 'Mark as paid'}
-                    />
-                  </div>
-                  <div className="entry-info">
-                    <span className="entry-category" style={{ background: CATEGORY_LABELS[expense.category as ExpenseCategory].color }}>
-                      {CATEGORY_LABELS[expense.category as ExpenseCategory].abbr}
-                    </span>
-                    <span className="entry-description">
-                      {expense.description}
-                      {expense.is_shared && <span className="shared-badge">Shared</span>}
-                      {expense.is_recurring && <span className="recurring-badge">Recurring</span>}
-                      {expense.is_paid && <span className="paid-badge">Paid</span>}
-                      {expense.include_vat && <span className="vat-badge">+VAT</span>}
-                      {expense.balance_account_id && (
-                        <span className="balance-link-badge">
-                          {getBalanceAccountName(expense.balance_account_id)}
-                        </span>
-                      )}
-                    </span>
-                    <span className="entry-amount expenses">
-                      {expense.include_vat ? (
-                        <span className="amount-with-vat">
-                          <span className="total-amount">{formatCurrency(calculateTotalWithVat(Number(expense.amount)))}</span>
-                          <span className="base-amount">({formatCurrency(Number(expense.amount))} + VAT)</span>
-                        </span>
-                      ) : (
-                        formatCurrency(Number(expense.amount))
-                      )}
-                    </span>
-                  </div>
-                  <div className="entry-actions">
-                    <button
-                      className="btn-edit"
-                      onClick={() => handleEdit(expense)}
-                      title="Edit"
-                    >
-                      <span className="btn-icon-text">Edit</span>
-                    </button>
-                    <button
-                      className="btn-delete"
-                      onClick={() => handleDelete(expense.id)}
-                      title="Delete"
-                    >
-                      <span className="btn-icon-text">Delete</span>
-                    </button>
-                  </div>
-                  <div className="entry-note-inline">
-                    <input
-                      type="text"
-                      className="inline-note-input"
-                      placeholder="Add a note..."
-                      defaultValue={expense.note || ''}
-                      onBlur={(e) => handleNoteUpdate(expense, e.target.value)}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter') {
-                          e.currentTarget.blur();
-                        }
-                      }}
-                    />
-                  </div>
-                </li>
-              ))}
-            </ul>
-          )}
-        </div>
-
-        <div className="entries-column">
-          <h4>Hein's Expenses</h4>
-          {heinExpenses.length === 0 ? (
-            <p className="no-entries">No expense entries</p>
-          ) : (
-            <ul className="entries-list">
-              {heinExpenses.map((expense) => (
-                <li key={expense.id} className={`entry-item ${expense.is_paid ? 'paid' : ''}`}>
-                  <div className="entry-paid-toggle">
-                    <input
-                      type="checkbox"
-                      checked={expense.is_paid}
-                      onChange={() => handleTogglePaid(expense)}
-                      title={expense.is_paid ? 'Mark as unpaid' : 'Mark as paid'}
-                    />
-                  </div>
-                  <div className="entry-info">
-                    <span className="entry-category" style={{ background: CATEGORY_LABELS[expense.category as ExpenseCategory].color }}>
-                      {CATEGORY_LABELS[expense.category as ExpenseCategory].abbr}
-                    </span>
-                    <span className="entry-description">
-                      {expense.description}
-                      {expense.is_shared && <span className="shared-badge">Shared</span>}
-                      {expense.is_recurring && <span className="recurring-badge">Recurring</span>}
-                      {expense.is_paid && <span className="paid-badge">Paid</span>}
-                      {expense.include_vat && <span className="vat-badge">+VAT</span>}
-                      {expense.balance_account_id && (
-                        <span className="balance-link-badge">
-                          {getBalanceAccountName(expense.balance_account_id)}
-                        </span>
-                      )}
-                    </span>
-                    <span className="entry-amount expenses">
-                      {expense.include_vat ? (
-                        <span className="amount-with-vat">
-                          <span className="total-amount">{formatCurrency(calculateTotalWithVat(Number(expense.amount)))}</span>
-                          <span className="base-amount">({formatCurrency(Number(expense.amount))} + VAT)</span>
-                        </span>
-                      ) : (
-                        formatCurrency(Number(expense.amount))
-                      )}
-                    </span>
-                  </div>
-                  <div className="entry-actions">
-                    <button
-                      className="btn-edit"
-                      onClick={() => handleEdit(expense)}
-                      title="Edit"
-                    >
-                      <span className="btn-icon-text">Edit</span>
-                    </button>
-                    <button
-                      className="btn-delete"
-                      onClick={() => handleDelete(expense.id)}
-                      title="Delete"
-                    >
-                      <span className="btn-icon-text">Delete</span>
-                    </button>
-                  </div>
-                  <div className="entry-note-inline">
-                    <input
-                      type="text"
-                      className="inline-note-input"
-                      placeholder="Add a note..."
-                      defaultValue={expense.note || ''}
-                      onBlur={(e) => handleNoteUpdate(expense, e.target.value)}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter') {
-                          e.currentTarget.blur();
-                        }
-                      }}
-                    />
-                  </div>
-                </li>
-              ))}
-            </ul>
-          )}
-        </div>
+        {members.map((m) => {
+          const memberExpenses = expenses.filter((e) => e.member === m.name);
+          return (
+            <div key={m.id} className="entries-column">
+              <h4>{m.name}'s Expenses</h4>
+              {memberExpenses.length === 0 ? (
+                <p className="no-entries">No expense entries</p>
+              ) : (
+                <ul className="entries-list">
+                  {memberExpenses.map((expense) => {
+                    const expenseAttachments = attachmentsFor(attachments, 'expense', expense.id);
+                    return (
+                      <li key={expense.id} className={`entry-item ${expense.is_paid ? 'paid' : ''}`}>
+                        <div className="entry-paid-toggle">
+                          <input
+                            type="checkbox"
+                            checked={expense.is_paid}
+                            onChange={() => handleTogglePaid(expense)}
+                            title={expense.is_paid ? 'Mark as unpaid' : 'Mark as paid'}
+                          />
+                        </div>
+                        <div className="entry-info">
+                          <span className="entry-category" style={{ background: CATEGORY_LABELS[expense.category as ExpenseCategory].color }}>
+                            {CATEGORY_LABELS[expense.category as ExpenseCategory].abbr}
+                          </span>
+                          <span className="entry-description">
+                            {expense.description}
+                            {expense.is_shared && <span className="shared-badge">Shared</span>}
+                            {expense.is_recurring && <span className="recurring-badge">Recurring</span>}
+                            {expense.schedule_id && <span className="recurring-badge">Scheduled</span>}
+                            {expense.is_paid && <span className="paid-badge">Paid</span>}
+                            {expense.include_vat && <span className="vat-badge">+VAT</span>}
+                            {expense.is_tax_deductible && <span className="recurring-badge">Deductible</span>}
+                            {expense.balance_account_id && (
+                              <span className="balance-link-badge">
+                                {getBalanceAccountName(expense.balance_account_id)}
+                              </span>
+                            )}
+                            {expense.savings_goal_id && (
+                              <span className="savings-goal-badge">
+                                {getSavingsGoalName(expense.savings_goal_id)}
+                              </span>
+                            )}
+                            {expenseAttachments.length > 0 && (
+                              <span className="attachment-badge" title={`${expenseAttachments.length} attached`}>
+                                📎 {expenseAttachments.length}
+                              </span>
+                            )}
+                          </span>
+                          <span className="entry-amount expenses">
+                            {expense.include_vat ? (
+                              <span className="amount-with-vat">
+                                <span className="total-amount">{formatCurrency(expenseTotal(expense))}</span>
+                                <span className="base-amount">({formatCurrency(Number(expense.amount))} + VAT)</span>
+                              </span>
+                            ) : (
+                              formatCurrency(Number(expense.amount))
+                            )}
+                          </span>
+                        </div>
+                        <div className="entry-actions">
+                          <button
+                            className="btn-edit"
+                            onClick={() => setFilesOpenId(filesOpenId === expense.id ? null : expense.id)}
+                            title="Receipts and invoices"
+                          >
+                            <span className="btn-icon-text">{filesOpenId === expense.id ? 'Close' : 'Files'}</span>
+                          </button>
+                          <button
+                            className="btn-edit"
+                            onClick={() => handleEdit(expense)}
+                            title="Edit"
+                          >
+                            <span className="btn-icon-text">Edit</span>
+                          </button>
+                          <button
+                            className="btn-delete"
+                            onClick={() => handleDelete(expense.id)}
+                            title="Delete"
+                          >
+                            <span className="btn-icon-text">Delete</span>
+                          </button>
+                        </div>
+                        <div className="entry-note-inline">
+                          <input
+                            type="text"
+                            className="inline-note-input"
+                            placeholder="Add a note..."
+                            defaultValue={expense.note || ''}
+                            onBlur={(e) => handleNoteUpdate(expense, e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') {
+                                e.currentTarget.blur();
+                              }
+                            }}
+                          />
+                        </div>
+                        {filesOpenId === expense.id && (
+                          <ExpenseAttachments
+                            parentId={expense.id}
+                            attachments={expenseAttachments}
+                            onUploadAttachment={onUploadAttachment}
+                            onOpenAttachment={onOpenAttachment}
+                            onDeleteAttachment={onDeleteAttachment}
+                          />
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          );
+        })}
       </div>
     </div>
   );
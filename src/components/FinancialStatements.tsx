@@ -1,9 +1,21 @@
 import { useState } from 'react';
 import { useFinancialStatements } from '../hooks/useFinancialStatements';
-import type { FamilyMember } from '../types/budget';
+import type {
+  CategorisationRule,
+  Expense,
+  ExpenseFormData,
+  FamilyMember,
+  FinancialStatement,
+  HouseholdMember,
+} from '../types/budget';
+import { StatementCandidates } from './StatementCandidates';
 
 interface FinancialStatementsProps {
   month: string;
+  members: HouseholdMember[];
+  existingExpenses: Expense[]; // Expenses already in the month, for duplicate detection
+  rules: CategorisationRule[];
+  onImport: (rows: ExpenseFormData[], month: string) => Promise<boolean>;
 }
 
 /** Format file size for display */
@@ -27,14 +39,24 @@ function formatDate(dateString: string): string {
   }).format(date);
 }
 
-export function FinancialStatements({ month }: FinancialStatementsProps) {
-  const { statements, loading, error, uploadStatement, downloadStatement, deleteStatement } = useFinancialStatements(month);
+export function FinancialStatements({ month, members, existingExpenses, rules, onImport }: FinancialStatementsProps) {
+  const {
+    statements,
+    loading,
+    error,
+    uploadStatement,
+    downloadStatement,
+    readStatementLines,
+    deleteStatement,
+  } = useFinancialStatements(month);
   
   const [isUploading, setIsUploading] = useState(false);
-  const [uploadMember, setUploadMember] = useState<FamilyMember>('Nikkie');
+  const [uploadMember, setUploadMember] = useState<FamilyMember>(members[0]?.name ?? '');
   const [uploadNotes, setUploadNotes] = useState('');
   const [showUploadForm, setShowUploadForm] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [readingId, setReadingId] = useState<string | null>(null);
+  const [review, setReview] = useState<{ statement: FinancialStatement; lines: string[] } | null>(null);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -71,6 +93,15 @@ export function FinancialStatements({ month }: FinancialStatementsProps) {
     await downloadStatement(statement);
   };
 
+  const handleReadTransactions = async (statement: FinancialStatement) => {
+    setReadingId(statement.id);
+    const lines = await readStatementLines(statement);
+    setReadingId(null);
+    if (lines) {
+      setReview({ statement, lines });
+    }
+  };
+
   const handleDelete = async (id: string, filePath: string) => {
     if (confirm('Are you sure you want to delete this financial statement?')) {
       await deleteStatement(id, filePath);
@@ -115,8 +146,11 @@ export function FinancialStatements({ month }: FinancialStatementsProps) {
                 value={uploadMember}
                 onChange={(e) => setUploadMember(e.target.value as FamilyMember)}
               >
-                <option value="Nikkie">Nikkie</option>
-                <option value="Hein">Hein</option>
+                {members.map((m) => (
+                  <option key={m.id} value={m.name}>
+                    {m.name}
+                  </option>
+                ))}
               </select>
             </div>
 
@@ -187,6 +221,16 @@ export function FinancialStatements({ month }: FinancialStatementsProps) {
                 )}
               </div>
               <div className="statement-actions">
+                {statement.content_type === 'application/pdf' && (
+                  <button
+                    className="btn btn-sm btn-secondary"
+                    onClick={() => handleReadTransactions(statement)}
+                    disabled={readingId !== null}
+                    title="Read the transactions on this statement"
+                  >
+                    <span className="btn-icon-text">{readingId === statement.id ? 'Reading...' : 'Transactions'}</span>
+                  </button>
+                )}
                 <button
                   className="btn btn-sm btn-secondary"
                   onClick={() => handleDownload(statement)}
@@ -207,6 +251,18 @@ export function FinancialStatements({ month }: FinancialStatementsProps) {
         </div>
       )}
 
+      {review && (
+        <StatementCandidates
+          statement={review.statement}
+          lines={review.lines}
+          members={members}
+          existingExpenses={existingExpenses}
+          rules={rules}
+          onImport={onImport}
+          onClose={() => setReview(null)}
+        />
+      )}
+
       <style>{`
         .financial-statements-section {
           margin: 2rem 0;
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import type { HouseholdInvite } from '../types/budget';
+
+interface HouseholdInvitesProps {
+  invites: HouseholdInvite[];
+  error: string | null;
+  onAdd: (email: string) => Promise<boolean>;
+  onDelete: (id: string) => Promise<boolean>;
+}
+
+export function HouseholdInvites({ invites, error, onAdd, onDelete }: HouseholdInvitesProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [email, setEmail] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const resetForm = () => {
+    setEmail('');
+    setIsAdding(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = email.trim();
+    if (!trimmed) return;
+
+    if (invites.some((i) => i.email.toLowerCase() === trimmed.toLowerCase())) {
+      alert(`${trimmed} has already been invited`);
+      return;
+    }
+
+    setSubmitting(true);
+    if (await onAdd(trimmed)) {
+      resetForm();
+    }
+    setSubmitting(false);
+  };
+
+  const handleDelete = async (invite: HouseholdInvite) => {
+    if (confirm(`Cancel the invite for ${invite.email}?`)) {
+      await onDelete(invite.id);
+    }
+  };
+
+  return (
+    <div className="section household-invites-section">
+      <div className="section-header">
+        <h2>Sign-in Access</h2>
+        <button className="btn-add" onClick={() => { resetForm(); setIsAdding(!isAdding); }}>
+          {isAdding ? 'Cancel' : '+ Invite'}
+        </button>
+      </div>
+
+      <p className="section-description">
+        Invite someone by email. They get access to this household the next time they sign in with that address.
+      </p>
+
+      {error && <div className="section-error">{error}</div>}
+
+      {isAdding && (
+        <form className="add-form" onSubmit={handleSubmit}>
+          <div className="form-row">
+            <input
+              type="email"
+              placeholder="Email address"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+            <button type="submit" className="btn-submit" disabled={submitting}>
+              {submitting ? 'Inviting...' : 'Invite'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {invites.length === 0 ? (
+        <p className="no-entries">No pending invites.</p>
+      ) : (
+        <ul className="entries-list">
+          {invites.map((invite) => (
+            <li key={invite.id} className="entry-item">
+              <div className="entry-info">
+                <span className="entry-description">{invite.email}</span>
+              </div>
+              <div className="entry-actions">
+                <button className="btn-delete" onClick={() => handleDelete(invite)} title="Cancel invite">
+                  <span className="btn-icon-text">Cancel</span>
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
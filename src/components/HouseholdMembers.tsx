@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { MEMBER_COLORS } from '../hooks/useHouseholdMembers';
+import type { HouseholdMember, HouseholdMemberFormData } from '../types/budget';
+
+interface HouseholdMembersProps {
+  members: HouseholdMember[];
+  error: string | null;
+  onAdd: (data: HouseholdMemberFormData) => Promise<boolean>;
+  onUpdate: (id: string, data: HouseholdMemberFormData) => Promise<boolean>;
+  onDelete: (id: string) => Promise<boolean>;
+  onMove: (id: string, direction: -1 | 1) => Promise<boolean>;
+}
+
+export function HouseholdMembers({ members, error, onAdd, onUpdate, onDelete, onMove }: HouseholdMembersProps) {
+  const nextColor = MEMBER_COLORS[members.length % MEMBER_COLORS.length];
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(nextColor);
+  const [submitting, setSubmitting] = useState(false);
+
+  const resetForm = () => {
+    setName('');
+    setColor(nextColor);
+    setIsAdding(false);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    const duplicate = members.some(
+      (m) => m.id !== editingId && m.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    if (duplicate) {
+      alert(`${trimmed} is already a household member`);
+      return;
+    }
+
+    setSubmitting(true);
+    const data: HouseholdMemberFormData = { name: trimmed, color };
+    const success = editingId
+      ? await onUpdate(editingId, data)
+      : await onAdd(data);
+
+    if (success) {
+      resetForm();
+    }
+    setSubmitting(false);
+  };
+
+  const handleEdit = (member: HouseholdMember) => {
+    setEditingId(member.id);
+    setName(member.name);
+    setColor(member.color);
+    setIsAdding(true);
+  };
+
+  const handleDelete = async (member: HouseholdMember) => {
+    if (confirm(`Remove ${member.name} from the household? Members with existing entries cannot be removed.`)) {
+      await onDelete(member.id);
+    }
+  };
+
+  return (
+    <div className="section household-members-section">
+      <div className="section-header">
+        <h2>Household Members</h2>
+        <button className="btn-add" onClick={() => { resetForm(); setIsAdding(!isAdding); }}>
+          {isAdding ? 'Cancel' : '+ Add Member'}
+        </button>
+      </div>
+
+      <p className="section-description">
+        Everyone who earns, spends or pays tax in this budget. Renaming a member updates all of their entries.
+      </p>
+
+      {error && <div className="section-error">{error}</div>}
+
+      {isAdding && (
+        <form className="add-form" onSubmit={handleSubmit}>
+          <div className="form-header">
+            <span className="form-title">{editingId ? 'Edit Member' : 'New Member'}</span>
+          </div>
+          <div className="form-row">
+            <input
+              type="text"
+              placeholder="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+            <div className="member-color-picker">
+              {MEMBER_COLORS.map((c) => (
+                <button
+                  key={c}
+                  type="button"
+                  className={`member-color-swatch ${color === c ? 'active' : ''}`}
+                  style={{ background: c }}
+                  onClick={() => setColor(c)}
+                  title={c}
+                />
+              ))}
+            </div>
+            <button type="submit" className="btn-submit" disabled={submitting}>
+              {submitting ? 'Saving...' : editingId ? 'Update' : 'Add'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {members.length === 0 ? (
+        <p className="no-entries">No household members yet. Add someone to start budgeting.</p>
+      ) : (
+        <ul className="entries-list">
+          {members.map((member, index) => (
+            <li key={member.id} className="entry-item">
+              <div className="entry-info">
+                <span className="entry-category" style={{ background: member.color }}>
+                  {member.name.slice(0, 3).toUpperCase()}
+                </span>
+                <span className="entry-description">{member.name}</span>
+              </div>
+              <div className="entry-actions">
+                <button
+                  className="btn-edit"
+                  onClick={() => onMove(member.id, -1)}
+                  disabled={index === 0}
+                  title="Move up"
+                >
+                  <span className="btn-icon-text">Up</span>
+                </button>
+                <button
+                  className="btn-edit"
+                  onClick={() => onMove(member.id, 1)}
+                  disabled={index === members.length - 1}
+                  title="Move down"
+                >
+                  <span className="btn-icon-text">Down</span>
+                </button>
+                <button className="btn-edit" onClick={() => handleEdit(member)} title="Edit">
+                  <span className="btn-icon-text">Edit</span>
+                </button>
+                <button className="btn-delete" onClick={() => handleDelete(member)} title="Delete">
+                  <span className="btn-icon-text">Delete</span>
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+
+interface HouseholdSetupProps {
+  userEmail: string;
+  error: string | null;
+  onCreate: (name: string, memberNames: string[]) => Promise<boolean>;
+  onSignOut: () => Promise<void>;
+}
+
+/** Shown to a signed-in user who doesn't belong to any household yet */
+export function HouseholdSetup({ userEmail, error, onCreate, onSignOut }: HouseholdSetupProps) {
+  const [name, setName] = useState('');
+  const [memberNames, setMemberNames] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSubmitting(true);
+    const names = memberNames
+      .split(',')
+      .map((n) => n.trim())
+      .filter((n, i, all) => n && all.indexOf(n) === i);
+    await onCreate(name.trim(), names);
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="app">
+      <header className="app-header">
+        <h1>Family Budget Planner</h1>
+        <p className="subtitle">Signed in as {userEmail}</p>
+      </header>
+
+      <main className="app-main">
+        <div className="section auth-section">
+          <div className="section-header">
+            <h2>Create Your Household</h2>
+          </div>
+
+          <p className="section-description">
+            You're not part of a household yet. Create one, or ask a household member to invite {userEmail} and sign in again.
+          </p>
+
+          {error && <div className="section-error">{error}</div>}
+
+          <form className="add-form" onSubmit={handleSubmit}>
+            <div className="form-row">
+              <input
+                type="text"
+                placeholder="Household name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+              <input
+                type="text"
+                placeholder="Members, comma separated (optional)"
+                value={memberNames}
+                onChange={(e) => setMemberNames(e.target.value)}
+              />
+              <button type="submit" className="btn-submit" disabled={submitting}>
+                {submitting ? 'Creating...' : 'Create'}
+              </button>
+            </div>
+          </form>
+
+          <button type="button" className="btn-link" onClick={onSignOut}>
+            Sign out
+          </button>
+        </div>
+      </main>
+    </div>
+  );
+}
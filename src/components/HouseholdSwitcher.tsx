@@ -0,0 +1,33 @@
+import { useActiveHousehold } from '../hooks/useActiveHousehold';
+
+const NEW_HOUSEHOLD = '__new__';
+
+/** Header control for switching households and signing out */
+export function HouseholdSwitcher() {
+  const { householdId, households, userEmail, switchHousehold, createHousehold, signOut } = useActiveHousehold();
+
+  const handleChange = async (value: string) => {
+    if (value !== NEW_HOUSEHOLD) {
+      switchHousehold(value);
+      return;
+    }
+
+    const name = prompt('Name of the new household')?.trim();
+    if (name && !(await createHousehold(name))) {
+      alert('Could not create the household. Please try again.');
+    }
+  };
+
+  return (
+    <div className="household-switcher">
+      <select value={householdId} onChange={(e) => handleChange(e.target.value)} title="Active household">
+        {households.map((h) => (
+          <option key={h.id} value={h.id}>{h.name}</option>
+        ))}
+        <option value={NEW_HOUSEHOLD}>+ New household…</option>
+      </select>
+      <span className="household-user" title={userEmail}>{userEmail}</span>
+      <button className="btn-link" onClick={signOut}>Sign out</button>
+    </div>
+  );
+}
@@ -1,8 +1,16 @@
 import { useState } from 'react';
-import type { FamilyMember, Income, IncomeFormData, IncomeType } from '../types/budget';
+import type { FamilyMember, HouseholdMember, Income, IncomeFormData, IncomeType } from '../types/budget';
+
+/** Short label shown in each income's type icon */
+const INCOME_TYPE_ABBR: Record<IncomeType, string> = {
+  Salary: 'SAL',
+  Interest: 'INT',
+  Other: 'OTH',
+};
 
 interface IncomeSectionProps {
   incomes: Income[];
+  members: HouseholdMember[];
   onAdd: (data: IncomeFormData) => Promise<boolean>;
   onDelete: (id: string) => Promise<boolean>;
   onUpdate: (id: string, data: IncomeFormData) => Promise<boolean>;
@@ -16,10 +24,11 @@ function formatCurrency(amount: number): string {
   }).format(amount);
 }
 
-export function IncomeSection({ incomes, onAdd, onDelete, onUpdate }: IncomeSectionProps) {
+export function IncomeSection({ incomes, members, onAdd, onDelete, onUpdate }: IncomeSectionProps) {
+  const defaultMember = members[0]?.name ?? '';
   const [isAdding, setIsAdding] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [member, setMember] = useState<FamilyMember>('Nikkie');
+  const [member, setMember] = useState<FamilyMember>(defaultMember);
   const [incomeType, setIncomeType] = useState<IncomeType>('Salary');
   const [description, setDescription] = useState('');
   const [amount, setAmount] = useState('');
@@ -29,7 +38,7 @@ export function IncomeSection({ incomes, onAdd, onDelete, onUpdate }: IncomeSect
     setDescription('');
     setAmount('');
     setIncomeType('Salary');
-    setMember('Nikkie');
+    setMember(defaultMember);
     setIsAdding(false);
     setEditingId(null);
   };
@@ -75,9 +84,6 @@ export function IncomeSection({ incomes, onAdd, onDelete, onUpdate }: IncomeSect
     }
   };
 
-  const nikkieIncomes = incomes.filter((i) => i.member === 'Nikkie');
-  const heinIncomes = incomes.filter((i) => i.member === 'Hein');
-
   return (
     <div className="section income-section">
       <div className="section-header">
@@ -99,11 +105,15 @@ export function IncomeSection({ incomes, onAdd, onDelete, onUpdate }: IncomeSect
           </div>
           <div className="form-row">
             <select value={member} onChange={(e) => setMember(e.target.value as FamilyMember)}>
-              <option value="Nikkie">Nikkie</option>
-              <option value="Hein">Hein</option>
+              {members.map((m) => (
+                <option key={m.id} value={m.name}>
+                  {m.name}
+                </option>
+              ))}
             </select>
             <select value={incomeType} onChange={(e) => setIncomeType(e.target.value as IncomeType)}>
               <option value="Salary">Salary (Gross)</option>
+              <option value="Interest">Interest</option>
               <option value="Other">Other Income</option>
             </select>
             <input
@@ -130,85 +140,50 @@ export function IncomeSection({ incomes, onAdd, onDelete, onUpdate }: IncomeSect
       )}
 
       <div className="entries-grid">
-        <div className="entries-column">
-          <h4>Nikkie's Income</h4>
-          {nikkieIncomes.length === 0 ? (
-            <p className="no-entries">No income entries</p>
-          ) : (
-            <ul className="entries-list">
-              {nikkieIncomes.map((income) => (
-                <li key={income.id} className="entry-item">
-                  <div className="entry-info">
-                    <span className={`entry-category income-type-icon ${income.income_type.toLowerCase()}`}>
-                      {income.income_type === 'Salary' ? 'SAL' : 'OTH'}
-                    </span>
-                    <span className="entry-description">
-                      {income.description}
-                      <span className="income-type-badge">{income.income_type}</span>
-                    </span>
-                    <span className="entry-amount income">{formatCurrency(Number(income.amount))}</span>
-                  </div>
-                  <div className="entry-actions">
-                    <button
-                      className="btn-edit"
-                      onClick={() => handleEdit(income)}
-                      title="Edit"
-                    >
-                      <span className="btn-icon-text">Edit</span>
-                    </button>
-                    <button
-                      className="btn-delete"
-                      onClick={() => handleDelete(income.id)}
-                      title="Delete"
-                    >
-                      <span className="btn-icon-text">Delete</span>
-                    </button>
-                  </div>
-                </li>
-              ))}
-            </ul>
-          )}
-        </div>
-
-        <div className="entries-column">
-          <h4>Hein's Income</h4>
-          {heinIncomes.length === 0 ? (
-            <p className="no-entries">No income entries</p>
-          ) : (
-            <ul className="entries-list">
-              {heinIncomes.map((income) => (
-                <li key={income.id} className="entry-item">
-                  <div className="entry-info">
-                    <span className={`entry-category income-type-icon ${income.income_type.toLowerCase()}`}>
-                      {income.income_type === 'Salary' ? 'SAL' : 'OTH'}
-                    </span>
-                    <span className="entry-description">
-                      {income.description}
-                      <span className="income-type-badge">{income.income_type}</span>
-                    </span>
-                    <span className="entry-amount income">{formatCurrency(Number(income.amount))}</span>
-                  </div>
-                  <div className="entry-actions">
-                    <button
-                      className="btn-edit"
-                      onClick={() => handleEdit(income)}
-                      title="Edit"
-                    >
-                      <span className="btn-icon-text">Edit</span>
-                    </button>
-                    <button
-                      className="btn-delete"
-                      onClick={() => handleDelete(income.id)}
-                      title="Delete"
-                    >
-                      <span className="btn-icon-text">Delete</span>
-                    </button>
-                  </div>
-                </li>
-              ))}
-            </ul>
-          )}
-        </div>
+        {members.map((m) => {
+          const memberIncomes = incomes.filter((i) => i.member === m.name);
+          return (
+            <div key={m.id} className="entries-column">
+              <h4>{m.name}'s Income</h4>
+              {memberIncomes.length === 0 ? (
+                <p className="no-entries">No income entries</p>
+              ) : (
+                <ul className="entries-list">
+                  {memberIncomes.map((income) => (
+                    <li key={income.id} className="entry-item">
+                      <div className="entry-info">
+                        <span className={`entry-category income-type-icon ${income.income_type.toLowerCase()}`}>
+                          {INCOME_TYPE_ABBR[income.income_type]}
+                        </span>
+                        <span className="entry-description">
+                          {income.description}
+                          <span className="income-type-badge">{income.income_type}</span>
+                        </span>
+                        <span className="entry-amount income">{formatCurrency(Number(income.amount))}</span>
+                      </div>
+                      <div className="entry-actions">
+                        <button
+                          className="btn-edit"
+                          onClick={() => handleEdit(income)}
+                          title="Edit"
+                        >
+                          <span className="btn-icon-text">Edit</span>
+                        </button>
+                        <button
+                          className="btn-delete"
+                          onClick={() => handleDelete(income.id)}
+                          title="Delete"
+                        >
+                          <span className="btn-icon-text">Delete</span>
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
       </div>
     </div>
   );
@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { formatMonth, getPreviousMonth } from '../hooks/useBudget';
+import type { MonthRollover } from '../types/budget';
+
+interface MonthRolloverBannerProps {
+  selectedMonth: string;
+  rollover: MonthRollover | null;
+  isEmpty: boolean; // The month has no incomes, taxes or expenses
+  isOnline: boolean;
+  onRollover: () => Promise<boolean>;
+  onUndo: () => Promise<boolean>;
+}
+
+export function MonthRolloverBanner({ selectedMonth, rollover, isEmpty, isOnline, onRollover, onUndo }: MonthRolloverBannerProps) {
+  const [working, setWorking] = useState(false);
+
+  const applied = rollover?.status === 'applied';
+  // Offer a rollover for an empty month, or one whose rollover was undone
+  if (!applied && !(isEmpty || rollover?.status === 'reverted')) return null;
+
+  const fromMonth = formatMonth(rollover?.from_month ?? getPreviousMonth(selectedMonth));
+
+  const handleRollover = async () => {
+    setWorking(true);
+    if (!(await onRollover())) {
+      alert(`Couldn't copy ${fromMonth} - check your connection and try again.`);
+    }
+    setWorking(false);
+  };
+
+  const handleUndo = async () => {
+    if (!confirm(`Remove everything copied from ${fromMonth}? Changes you made to those entries will be lost.`)) return;
+
+    setWorking(true);
+    if (!(await onUndo())) {
+      alert("Couldn't undo the rollover - check your connection and try again.");
+    }
+    setWorking(false);
+  };
+
+  const plural = (n: number, one: string, many = `${one}s`) => `${n} ${n === 1 ? one : many}`;
+
+  return (
+    <div className={`month-rollover-banner ${applied ? 'applied' : ''}`}>
+      <span className="month-rollover-text">
+        {applied && rollover
+          ? `Copied ${plural(rollover.income_count, 'income')}, ${plural(rollover.tax_count, 'tax', 'taxes')} and ${plural(rollover.expense_count, 'expense')} from ${fromMonth}`
+          : rollover
+            ? `The rollover from ${fromMonth} was undone`
+            : `Nothing here yet for ${formatMonth(selectedMonth)}`}
+      </span>
+      {applied ? (
+        <button className="btn-link" onClick={handleUndo} disabled={working || !isOnline}>
+          {working ? 'Undoing...' : 'Undo'}
+        </button>
+      ) : (
+        <button className="btn-link" onClick={handleRollover} disabled={working || !isOnline}>
+          {working ? 'Copying...' : `Copy from ${fromMonth}`}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,48 +1,78 @@
 import { getCurrentMonth } from '../hooks/useBudget';
+import { addMonths } from '../lib/amortisation';
+import { clampMonth } from '../lib/months';
+import type { MonthRange } from '../types/budget';
 
 interface MonthSelectorProps {
   selectedMonth: string;
+  range: MonthRange;
   onMonthChange: (month: string) => void;
 }
 
-/** Generate list of months from October 2025 through December 2026 */
-function getMonthOptions(): { value: string; label: string }[] {
-  const options: { value: string; label: string }[] = [];
-  
-  // Start from October 2025 and go through December 2026
-  const startDate = new Date(2025, 9, 1); // October 2025
-  const endDate = new Date(2026, 11, 1); // December 2026
-  
-  const current = new Date(startDate);
-  while (current <= endDate) {
-    const value = `${current.getFullYear()}-${String(current.getMonth() + 1).padStart(2, '0')}`;
-    const label = current.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
-    options.push({ value, label });
-    current.setMonth(current.getMonth() + 1);
-  }
+const MONTH_NAMES = Array.from({ length: 12 }, (_, i) =>
+  new Date(2000, i, 1).toLocaleDateString('en-US', { month: 'long' })
+);
 
-  return options;
-}
+export function MonthSelector({ selectedMonth, range, onMonthChange }: MonthSelectorProps) {
+  const currentMonth = getCurrentMonth();
+  const isCurrentMonth = selectedMonth === currentMonth;
+  const [selectedYear, selectedMonthNum] = selectedMonth.split('-');
+
+  const firstYear = Number(range.firstMonth.slice(0, 4));
+  const lastYear = Number(range.lastMonth.slice(0, 4));
+  const years = Array.from({ length: lastYear - firstYear + 1 }, (_, i) => String(firstYear + i));
 
-export function MonthSelector({ selectedMonth, onMonthChange }: MonthSelectorProps) {
-  const months = getMonthOptions();
-  const isCurrentMonth = selectedMonth === getCurrentMonth();
+  // Picking a year keeps the month, moved into the range when the year doesn't have it
+  const changeYear = (year: string) => onMonthChange(clampMonth(`${year}-${selectedMonthNum}`, range));
 
   return (
     <div className="month-selector">
       <label htmlFor="month-select">Select Month:</label>
+      <button
+        type="button"
+        className="month-step"
+        onClick={() => onMonthChange(addMonths(selectedMonth, -1))}
+        disabled={selectedMonth <= range.firstMonth}
+        title="Previous month"
+      >
+        ‹
+      </button>
       <select
         id="month-select"
-        value={selectedMonth}
-        onChange={(e) => onMonthChange(e.target.value)}
+        value={selectedMonthNum}
+        onChange={(e) => onMonthChange(`${selectedYear}-${e.target.value}`)}
       >
-        {months.map((month) => (
-          <option key={month.value} value={month.value}>
-            {month.label}
-          </option>
+        {MONTH_NAMES.map((name, i) => {
+          const value = String(i + 1).padStart(2, '0');
+          const month = `${selectedYear}-${value}`;
+          return (
+            <option key={value} value={value} disabled={month < range.firstMonth || month > range.lastMonth}>
+              {name}
+            </option>
+          );
+        })}
+      </select>
+      <select value={selectedYear} onChange={(e) => changeYear(e.target.value)} aria-label="Select year">
+        {years.map((year) => (
+          <option key={year} value={year}>{year}</option>
         ))}
       </select>
-      {isCurrentMonth && <span className="current-badge">Current</span>}
+      <button
+        type="button"
+        className="month-step"
+        onClick={() => onMonthChange(addMonths(selectedMonth, 1))}
+        disabled={selectedMonth >= range.lastMonth}
+        title="Next month"
+      >
+        ›
+      </button>
+      {isCurrentMonth ? (
+        <span className="current-badge">Current</span>
+      ) : (
+        <button type="button" className="btn-secondary month-today" onClick={() => onMonthChange(currentMonth)}>
+          This Month
+        </button>
+      )}
     </div>
   );
 }
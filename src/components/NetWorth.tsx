@@ -0,0 +1,379 @@
+import { useState } from 'react';
+import { addMonths } from '../lib/amortisation';
+import { buildNetWorthHistory, latestValuation, outstandingBalance } from '../lib/netWorth';
+import type {
+  AssetAccount,
+  AssetAccountFormData,
+  AssetKind,
+  AssetValuation,
+  AssetValuationFormData,
+  BalanceAccount,
+  BalanceHistory,
+} from '../types/budget';
+
+interface NetWorthProps {
+  assets: AssetAccount[];
+  valuations: AssetValuation[];
+  accounts: BalanceAccount[];
+  history: BalanceHistory[];
+  selectedMonth: string;
+  error: string | null;
+  onAdd: (data: AssetAccountFormData) => Promise<boolean>;
+  onUpdate: (id: string, data: AssetAccountFormData) => Promise<boolean>;
+  onDelete: (id: string) => Promise<boolean>;
+  onRecordValuation: (data: AssetValuationFormData) => Promise<boolean>;
+  onDeleteValuation: (id: string) => Promise<boolean>;
+}
+
+/** Months of history shown, up to the selected month */
+const HISTORY_MONTHS = 12;
+
+/** Format currency in ZAR */
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+    minimumFractionDigits: 2,
+  }).format(amount);
+}
+
+/** Format a YYYY-MM month, e.g. "Mar 2031" */
+function formatShortMonth(month: string): string {
+  return new Date(month + '-01').toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+}
+
+const KIND_LABELS: Record<AssetKind, string> = {
+  bank: 'Bank account',
+  emergency_fund: 'Emergency fund',
+  tfsa: 'Tax-free savings',
+  retirement_annuity: 'Retirement annuity',
+  vehicle: 'Vehicle',
+  property: 'Property',
+  other: 'Other',
+};
+
+export function NetWorth({
+  assets,
+  valuations,
+  accounts,
+  history,
+  selectedMonth,
+  error,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onRecordValuation,
+  onDeleteValuation,
+}: NetWorthProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<AssetKind>('bank');
+  const [description, setDescription] = useState('');
+  const [valuingId, setValuingId] = useState<string | null>(null);
+  const [valuationMonth, setValuationMonth] = useState(selectedMonth);
+  const [value, setValue] = useState('');
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const snapshots = buildNetWorthHistory(assets, valuations, accounts, history, selectedMonth);
+  const current = snapshots[snapshots.length - 1];
+  const recent = snapshots.slice(-HISTORY_MONTHS).reverse();
+  const owing = accounts
+    .map((account) => ({ account, balance: outstandingBalance(account, history, selectedMonth) }))
+    .filter(({ balance }) => balance > 0);
+
+  const resetForm = () => {
+    setName('');
+    setKind('bank');
+    setDescription('');
+    setIsAdding(false);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    const data: AssetAccountFormData = {
+      name: name.trim(),
+      kind,
+      description: description.trim() || null,
+    };
+
+    setSubmitting(true);
+    const success = editingId ? await onUpdate(editingId, data) : await onAdd(data);
+    if (success) {
+      resetForm();
+    }
+    setSubmitting(false);
+  };
+
+  const handleEdit = (asset: AssetAccount) => {
+    setEditingId(asset.id);
+    setName(asset.name);
+    setKind(asset.kind);
+    setDescription(asset.description ?? '');
+    setIsAdding(true);
+  };
+
+  const handleDelete = async (asset: AssetAccount) => {
+    if (confirm(`Delete the asset "${asset.name}" and all of its valuations?`)) {
+      await onDelete(asset.id);
+    }
+  };
+
+  const openValuation = (asset: AssetAccount) => {
+    if (valuingId === asset.id) {
+      setValuingId(null);
+      return;
+    }
+    const latest = latestValuation(asset, valuations, selectedMonth);
+    setValuingId(asset.id);
+    setValuationMonth(selectedMonth);
+    setValue(latest ? String(latest.value) : '');
+    setNote('');
+  };
+
+  const handleValuationSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!valuingId || !valuationMonth || value === '') return;
+
+    setSubmitting(true);
+    const success = await onRecordValuation({
+      account_id: valuingId,
+      month: valuationMonth,
+      value: parseFloat(value),
+      note: note.trim() || null,
+    });
+    if (success) {
+      setValue('');
+      setNote('');
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="summary-overview net-worth">
+      <section className="overview-section">
+        <div className="net-worth-header">
+          <h3>Net Worth</h3>
+          <button className="btn-add" onClick={() => { resetForm(); setIsAdding(!isAdding); }}>
+            {isAdding ? 'Cancel' : '+ Add Asset'}
+          </button>
+        </div>
+        <p className="section-description">
+          What the household owns, at each asset's latest value, less what the balance accounts still owe - as at the
+          end of the selected month.
+        </p>
+
+        {error && <div className="section-error">{error}</div>}
+
+        {isAdding && (
+          <form className="add-form" onSubmit={handleSubmit}>
+            <div className="form-header">
+              <span className="form-title">{editingId ? 'Edit Asset' : 'New Asset'}</span>
+            </div>
+            <div className="form-row">
+              <input
+                type="text"
+                placeholder="Name, e.g. Cheque account"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+              <select value={kind} onChange={(e) => setKind(e.target.value as AssetKind)}>
+                {(Object.keys(KIND_LABELS) as AssetKind[]).map((k) => (
+                  <option key={k} value={k}>{KIND_LABELS[k]}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                placeholder="Description (optional)"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+              <button type="submit" className="btn-submit" disabled={submitting}>
+                {submitting ? 'Saving...' : editingId ? 'Update' : 'Add'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {current && (
+          <div className="quick-stats-grid">
+            <div className="quick-stat">
+              <span className="quick-stat-value">{formatCurrency(current.assets)}</span>
+              <span className="quick-stat-label">Assets</span>
+            </div>
+            <div className="quick-stat">
+              <span className="quick-stat-value">{formatCurrency(current.liabilities)}</span>
+              <span className="quick-stat-label">Debts</span>
+            </div>
+            <div className="quick-stat">
+              <span className={`quick-stat-value ${current.netWorth >= 0 ? 'positive' : 'negative'}`}>
+                {formatCurrency(current.netWorth)}
+              </span>
+              <span className="quick-stat-label">Net Worth</span>
+            </div>
+            {current.change !== null && (
+              <div className="quick-stat">
+                <span className={`quick-stat-value ${current.change >= 0 ? 'positive' : 'negative'}`}>
+                  {current.change >= 0 ? '+' : ''}{formatCurrency(current.change)}
+                </span>
+                <span className="quick-stat-label">Since {formatShortMonth(addMonths(selectedMonth, -1))}</span>
+              </div>
+            )}
+          </div>
+        )}
+
+        <h4 className="net-worth-subheading">Assets</h4>
+        {assets.length === 0 ? (
+          <p className="no-entries">No assets yet.</p>
+        ) : (
+          <div className="balance-accounts-list">
+            {assets.map((asset) => {
+              const latest = latestValuation(asset, valuations, selectedMonth);
+              const assetValuations = valuations
+                .filter((v) => v.account_id === asset.id)
+                .sort((a, b) => b.month.localeCompare(a.month));
+              return (
+                <div key={asset.id} className="net-worth-asset">
+                  <div className="balance-account-row net-worth-row">
+                    <div className="balance-account-info">
+                      <span className="balance-account-name">{asset.name}</span>
+                      <span className="balance-account-monthly">
+                        {[KIND_LABELS[asset.kind], latest ? `valued ${formatShortMonth(latest.month)}` : 'not valued yet'].join(' · ')}
+                      </span>
+                    </div>
+                    <div className="balance-account-amounts">
+                      <span className="balance-account-remaining">{formatCurrency(Number(latest?.value ?? 0))}</span>
+                    </div>
+                    <div className="entry-actions">
+                      <button className="btn-edit" onClick={() => openValuation(asset)} title="Record a value">
+                        <span className="btn-icon-text">{valuingId === asset.id ? 'Close' : 'Value'}</span>
+                      </button>
+                      <button className="btn-edit" onClick={() => handleEdit(asset)} title="Edit">
+                        <span className="btn-icon-text">Edit</span>
+                      </button>
+                      <button className="btn-delete" onClick={() => handleDelete(asset)} title="Delete">
+                        <span className="btn-icon-text">Delete</span>
+                      </button>
+                    </div>
+                  </div>
+
+                  {valuingId === asset.id && (
+                    <div className="net-worth-valuations">
+                      <form className="add-form" onSubmit={handleValuationSubmit}>
+                        <div className="form-row">
+                          <label className="schedule-field">
+                            <span>Month</span>
+                            <input
+                              type="month"
+                              value={valuationMonth}
+                              onChange={(e) => setValuationMonth(e.target.value)}
+                              required
+                            />
+                          </label>
+                          <input
+                            type="number"
+                            placeholder="Value"
+                            value={value}
+                            onChange={(e) => setValue(e.target.value)}
+                            min="0"
+                            step="0.01"
+                            required
+                          />
+                          <input
+                            type="text"
+                            placeholder="Note (optional)"
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                          />
+                          <button type="submit" className="btn-submit" disabled={submitting}>
+                            {submitting ? 'Saving...' : 'Save'}
+                          </button>
+                        </div>
+                      </form>
+                      {assetValuations.length > 0 && (
+                        <ul className="net-worth-valuation-list">
+                          {assetValuations.map((valuation) => (
+                            <li key={valuation.id}>
+                              <span>{formatShortMonth(valuation.month)}</span>
+                              <span>{formatCurrency(Number(valuation.value))}</span>
+                              <span className="net-worth-valuation-note">{valuation.note}</span>
+                              <button
+                                className="btn-delete"
+                                onClick={() => onDeleteValuation(valuation.id)}
+                                title="Delete valuation"
+                              >
+                                <span className="btn-icon-text">Delete</span>
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {owing.length > 0 && (
+          <>
+            <h4 className="net-worth-subheading">Debts</h4>
+            <div className="balance-accounts-list">
+              {owing.map(({ account, balance }) => (
+                <div key={account.id} className="balance-account-row net-worth-row">
+                  <div className="balance-account-info">
+                    <span className="balance-account-name">{account.name}</span>
+                    <span className="balance-account-monthly">Balance account</span>
+                  </div>
+                  <div className="balance-account-amounts">
+                    <span className="balance-account-remaining negative">{formatCurrency(balance)}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {recent.length > 0 && (
+          <>
+            <h4 className="net-worth-subheading">Month-End History</h4>
+            <div className="projection-table-wrapper">
+              <table className="projection-table">
+                <thead>
+                  <tr>
+                    <th>Month</th>
+                    <th>Assets</th>
+                    <th>Debts</th>
+                    <th>Net Worth</th>
+                    <th>Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {recent.map((snapshot) => (
+                    <tr key={snapshot.month}>
+                      <td>{formatShortMonth(snapshot.month)}</td>
+                      <td>{formatCurrency(snapshot.assets)}</td>
+                      <td>{formatCurrency(snapshot.liabilities)}</td>
+                      <td className={snapshot.netWorth >= 0 ? 'positive' : 'negative'}>
+                        {formatCurrency(snapshot.netWorth)}
+                      </td>
+                      <td className={snapshot.change === null ? '' : snapshot.change >= 0 ? 'positive' : 'negative'}>
+                        {snapshot.change === null ? '-' : formatCurrency(snapshot.change)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
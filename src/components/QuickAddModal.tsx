@@ -1,22 +1,30 @@
 import { useState } from 'react';
+import { findMatchingRule } from '../lib/categorisation';
+import { baseFromInclusive, expenseTotal, formatVatRate } from '../lib/vat';
 import type {
     BalanceAccount,
+    CategorisationRule,
     ExpenseCategory,
     ExpenseFormData,
     FamilyMember,
+    HouseholdMember,
     IncomeFormData,
     IncomeType,
+    SavingsGoal,
     TaxFormData,
     UnnecessaryExpenseFormData,
 } from '../types/budget';
-import { VAT_RATE } from '../types/budget';
 
 type EntryType = 'income' | 'tax' | 'expense' | 'unnecessary';
 
 interface QuickAddModalProps {
   isOpen: boolean;
   onClose: () => void;
+  selectedMonth: string; // Sets the VAT rate
+  members: HouseholdMember[];
   balanceAccounts: BalanceAccount[];
+  savingsGoals: SavingsGoal[];
+  rules: CategorisationRule[];
   onAddIncome: (data: IncomeFormData) => Promise<boolean>;
   onAddTax: (data: TaxFormData) => Promise<boolean>;
   onAddExpense: (data: ExpenseFormData) => Promise<boolean>;
@@ -41,14 +49,19 @@ const EXPENSE_CATEGORIES: ExpenseCategory[] = [
 export function QuickAddModal({
   isOpen,
   onClose,
+  selectedMonth,
+  members,
   balanceAccounts,
+  savingsGoals,
+  rules,
   onAddIncome,
   onAddTax,
   onAddExpense,
   onAddUnnecessaryExpense,
 }: QuickAddModalProps) {
+  const defaultMember = members[0]?.name ?? '';
   const [entryType, setEntryType] = useState<EntryType>('expense');
-  const [member, setMember] = useState<FamilyMember>('Nikkie');
+  const [member, setMember] = useState<FamilyMember>(defaultMember);
   const [description, setDescription] = useState('');
   const [amount, setAmount] = useState('');
   const [submitting, setSubmitting] = useState(false);
@@ -62,19 +75,52 @@ export function QuickAddModal({
   const [isRecurring, setIsRecurring] = useState(false);
   const [isPaid, setIsPaid] = useState(false);
   const [includeVat, setIncludeVat] = useState(false);
+  const [vatInclusive, setVatInclusive] = useState(false); // The amount typed in already includes VAT
   const [balanceAccountId, setBalanceAccountId] = useState<string | null>(null);
+  const [savingsGoalId, setSavingsGoalId] = useState<string | null>(null);
+
+  // Categorisation rule suggestions stop once a suggested field is changed by hand
+  const [matchedRule, setMatchedRule] = useState<CategorisationRule | null>(null);
+  const [manualOverride, setManualOverride] = useState(false);
 
   const resetForm = () => {
     setDescription('');
     setAmount('');
-    setMember('Nikkie');
+    setMember(defaultMember);
     setIncomeType('Salary');
     setCategory('Groceries');
     setIsShared(false);
     setIsRecurring(false);
     setIsPaid(false);
     setIncludeVat(false);
+    setVatInclusive(false);
     setBalanceAccountId(null);
+    setSavingsGoalId(null);
+    setMatchedRule(null);
+    setManualOverride(false);
+  };
+
+  /** Fill in category, member, shared flag and balance account from the first matching rule */
+  const applySuggestion = (newDescription: string, newAmount: string) => {
+    if (manualOverride || entryType !== 'expense') return;
+    const rule = findMatchingRule(rules, newDescription, parseFloat(newAmount));
+    setMatchedRule(rule);
+    if (!rule) return;
+
+    setCategory(rule.category);
+    if (rule.member) setMember(rule.member);
+    if (rule.is_shared !== null) setIsShared(rule.is_shared);
+    if (rule.balance_account_id) setBalanceAccountId(rule.balance_account_id);
+  };
+
+  const handleDescriptionChange = (value: string) => {
+    setDescription(value);
+    applySuggestion(value, amount);
+  };
+
+  const handleAmountChange = (value: string) => {
+    setAmount(value);
+    applySuggestion(description, value);
   };
 
   const handleClose = () => {
@@ -111,13 +157,14 @@ export function QuickAddModal({
             member,
             category,
             description: description.trim(),
-            amount: parseFloat(amount),
+            amount: getExpenseBase(),
             is_shared: isShared,
             is_recurring: isRecurring,
             is_paid: isPaid,
             include_vat: includeVat,
             note: null,
             balance_account_id: balanceAccountId,
+            savings_goal_id: category === 'Savings' ? savingsGoalId : null,
           });
           break;
         case 'unnecessary':
@@ -138,8 +185,10 @@ export function QuickAddModal({
     }
   };
 
-  const calculateVatTotal = (baseAmount: number): number => {
-    return baseAmount * (1 + VAT_RATE);
+  /** Expenses keep their base amount, so a VAT-inclusive figure is converted back */
+  const getExpenseBase = (): number => {
+    const entered = parseFloat(amount);
+    return includeVat && vatInclusive ? baseFromInclusive(entered, selectedMonth) : entered;
   };
 
   if (!isOpen) return null;
@@ -180,20 +229,17 @@ export function QuickAddModal({
           <div className="quick-add-row">
             <label>Member</label>
             <div className="member-toggle">
-              <button
-                type="button"
-                className={`member-btn nikkie ${member === 'Nikkie' ? 'active' : ''}`}
-                onClick={() => setMember('Nikkie')}
-              >
-                Nikkie
-              </button>
-              <button
-                type="button"
-                className={`member-btn hein ${member === 'Hein' ? 'active' : ''}`}
-                onClick={() => setMember('Hein')}
-              >
-                Hein
-              </button>
+              {members.map((m) => (
+                <button
+                  key={m.id}
+                  type="button"
+                  className={`member-btn ${member === m.name ? 'active' : ''}`}
+                  onClick={() => { setMember(m.name); setManualOverride(true); }}
+                  style={{ '--member-color': m.color } as React.CSSProperties}
+                >
+                  {m.name}
+                </button>
+              ))}
             </div>
           </div>
 
@@ -202,6 +248,7 @@ export function QuickAddModal({
               <label>Type</label>
               <select value={incomeType} onChange={(e) => setIncomeType(e.target.value as IncomeType)}>
                 <option value="Salary">Salary</option>
+                <option value="Interest">Interest</option>
                 <option value="Other">Other</option>
               </select>
             </div>
@@ -210,7 +257,10 @@ export function QuickAddModal({
           {entryType === 'expense' && (
             <div className="quick-add-row">
               <label>Category</label>
-              <select value={category} onChange={(e) => setCategory(e.target.value as ExpenseCategory)}>
+              <select
+                value={category}
+                onChange={(e) => { setCategory(e.target.value as ExpenseCategory); setManualOverride(true); }}
+              >
                 {EXPENSE_CATEGORIES.map((cat) => (
                   <option key={cat} value={cat}>
                     {cat}
@@ -226,7 +276,7 @@ export function QuickAddModal({
               type="text"
               placeholder="Enter description..."
               value={description}
-              onChange={(e) => setDescription(e.target.value)}
+              onChange={(e) => handleDescriptionChange(e.target.value)}
               required
               autoFocus
             />
@@ -238,13 +288,19 @@ export function QuickAddModal({
               type="number"
               placeholder="0.00"
               value={amount}
-              onChange={(e) => setAmount(e.target.value)}
+              onChange={(e) => handleAmountChange(e.target.value)}
               min="0"
               step="0.01"
               required
             />
           </div>
 
+          {entryType === 'expense' && matchedRule && !manualOverride && (
+            <div className="rule-suggestion">
+              Filled in by rule <strong>{matchedRule.pattern}</strong>
+            </div>
+          )}
+
           {entryType === 'expense' && (
             <>
               <div className="quick-add-options">
@@ -252,7 +308,7 @@ export function QuickAddModal({
                   <input
                     type="checkbox"
                     checked={isShared}
-                    onChange={(e) => setIsShared(e.target.checked)}
+                    onChange={(e) => { setIsShared(e.target.checked); setManualOverride(true); }}
                   />
                   <span>Shared</span>
                 </label>
@@ -278,13 +334,29 @@ export function QuickAddModal({
                     checked={includeVat}
                     onChange={(e) => setIncludeVat(e.target.checked)}
                   />
-                  <span>+VAT (15%)</span>
+                  <span>+VAT ({formatVatRate(selectedMonth)})</span>
                 </label>
+                {includeVat && (
+                  <label className="option-checkbox">
+                    <input
+                      type="checkbox"
+                      checked={vatInclusive}
+                      onChange={(e) => setVatInclusive(e.target.checked)}
+                    />
+                    <span>Includes VAT</span>
+                  </label>
+                )}
               </div>
 
               {includeVat && amount && (
                 <div className="vat-preview-compact">
-                  Total with VAT: <strong>R {calculateVatTotal(parseFloat(amount)).toFixed(2)}</strong>
+                  {vatInclusive ? 'Base before VAT' : 'Total with VAT'}:{' '}
+                  <strong>
+                    R {(vatInclusive
+                      ? getExpenseBase()
+                      : expenseTotal({ amount: getExpenseBase(), include_vat: true, month: selectedMonth })
+                    ).toFixed(2)}
+                  </strong>
                 </div>
               )}
 
@@ -293,7 +365,7 @@ export function QuickAddModal({
                   <label>Link to Balance</label>
                   <select
                     value={balanceAccountId || ''}
-                    onChange={(e) => setBalanceAccountId(e.target.value || null)}
+                    onChange={(e) => { setBalanceAccountId(e.target.value || null); setManualOverride(true); }}
                   >
                     <option value="">— None —</option>
                     {balanceAccounts.map((account) => (
@@ -304,6 +376,20 @@ export function QuickAddModal({
                   </select>
                 </div>
               )}
+
+              {category === 'Savings' && savingsGoals.length > 0 && (
+                <div className="quick-add-row">
+                  <label>Savings Goal</label>
+                  <select value={savingsGoalId || ''} onChange={(e) => setSavingsGoalId(e.target.value || null)}>
+                    <option value="">— None —</option>
+                    {savingsGoals.map((goal) => (
+                      <option key={goal.id} value={goal.id}>
+                        {goal.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </>
           )}
 
@@ -0,0 +1,306 @@
+import { useState } from 'react';
+import { describeSchedule } from '../lib/recurring';
+import type {
+  BalanceAccount,
+  ExpenseCategory,
+  HouseholdMember,
+  RecurringFrequency,
+  RecurringSchedule,
+  RecurringScheduleFormData,
+  SavingsGoal,
+} from '../types/budget';
+
+interface RecurringSchedulesProps {
+  schedules: RecurringSchedule[];
+  members: HouseholdMember[];
+  balanceAccounts: BalanceAccount[];
+  savingsGoals: SavingsGoal[];
+  currentMonth: string;
+  error: string | null;
+  onAdd: (data: RecurringScheduleFormData) => Promise<boolean>;
+  onUpdate: (id: string, data: RecurringScheduleFormData) => Promise<boolean>;
+  onDelete: (id: string) => Promise<boolean>;
+}
+
+const EXPENSE_CATEGORIES: ExpenseCategory[] = [
+  'Housing',
+  'Utilities',
+  'Groceries',
+  'Transportation',
+  'Healthcare',
+  'Entertainment',
+  'Dining',
+  'Shopping',
+  'Education',
+  'Insurance',
+  'Savings',
+  'Other',
+];
+
+const FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  weekly: 'Weeks',
+  monthly: 'Months',
+  quarterly: 'Quarters',
+  annually: 'Years',
+};
+
+/** Format currency for display in ZAR */
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+  }).format(amount);
+}
+
+export function RecurringSchedules({
+  schedules,
+  members,
+  balanceAccounts,
+  savingsGoals,
+  currentMonth,
+  error,
+  onAdd,
+  onUpdate,
+  onDelete,
+}: RecurringSchedulesProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [member, setMember] = useState('');
+  const [category, setCategory] = useState<ExpenseCategory>('Insurance');
+  const [frequency, setFrequency] = useState<RecurringFrequency>('monthly');
+  const [intervalCount, setIntervalCount] = useState('1');
+  const [startMonth, setStartMonth] = useState(currentMonth);
+  const [endMonth, setEndMonth] = useState('');
+  const [escalation, setEscalation] = useState('');
+  const [isShared, setIsShared] = useState(false);
+  const [includeVat, setIncludeVat] = useState(false);
+  const [balanceAccountId, setBalanceAccountId] = useState('');
+  const [savingsGoalId, setSavingsGoalId] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const resetForm = () => {
+    setDescription('');
+    setAmount('');
+    setMember('');
+    setCategory('Insurance');
+    setFrequency('monthly');
+    setIntervalCount('1');
+    setStartMonth(currentMonth);
+    setEndMonth('');
+    setEscalation('');
+    setIsShared(false);
+    setIncludeVat(false);
+    setBalanceAccountId('');
+    setSavingsGoalId('');
+    setIsAdding(false);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!description.trim() || !amount) return;
+
+    if (endMonth && endMonth < startMonth) {
+      alert('The end month must be on or after the start month');
+      return;
+    }
+
+    const data: RecurringScheduleFormData = {
+      member: member || members[0]?.name || '',
+      category,
+      description: description.trim(),
+      amount: parseFloat(amount),
+      frequency,
+      interval_count: Math.max(1, parseInt(intervalCount) || 1),
+      start_month: startMonth,
+      end_month: endMonth || null,
+      escalation_percent: escalation ? parseFloat(escalation) : 0,
+      is_shared: isShared,
+      include_vat: includeVat,
+      balance_account_id: balanceAccountId || null,
+      savings_goal_id: category === 'Savings' ? savingsGoalId || null : null,
+    };
+
+    setSubmitting(true);
+    const success = editingId ? await onUpdate(editingId, data) : await onAdd(data);
+    if (success) {
+      resetForm();
+    }
+    setSubmitting(false);
+  };
+
+  const handleEdit = (schedule: RecurringSchedule) => {
+    setEditingId(schedule.id);
+    setDescription(schedule.description);
+    setAmount(String(schedule.amount));
+    setMember(schedule.member);
+    setCategory(schedule.category);
+    setFrequency(schedule.frequency);
+    setIntervalCount(String(schedule.interval_count));
+    setStartMonth(schedule.start_month);
+    setEndMonth(schedule.end_month ?? '');
+    setEscalation(Number(schedule.escalation_percent) > 0 ? String(schedule.escalation_percent) : '');
+    setIsShared(schedule.is_shared);
+    setIncludeVat(schedule.include_vat);
+    setBalanceAccountId(schedule.balance_account_id ?? '');
+    setSavingsGoalId(schedule.savings_goal_id ?? '');
+    setIsAdding(true);
+  };
+
+  const handleDelete = async (schedule: RecurringSchedule) => {
+    if (confirm(`Delete the schedule for "${schedule.description}"? Expenses it already added are kept.`)) {
+      await onDelete(schedule.id);
+    }
+  };
+
+  return (
+    <div className="section recurring-schedules-section">
+      <div className="section-header">
+        <h2>Recurring Schedules</h2>
+        <button className="btn-add" onClick={() => { resetForm(); setIsAdding(!isAdding); }}>
+          {isAdding ? 'Cancel' : '+ Add Schedule'}
+        </button>
+      </div>
+
+      <p className="section-description">
+        Expenses that fall due on a schedule - an annual licence, a quarterly premium or a contract with an end date.
+        Each month gets an expense for every schedule due in it when the month rolls over, or from the Carry Over
+        Expenses dialog.
+      </p>
+
+      {error && <div className="section-error">{error}</div>}
+
+      {isAdding && (
+        <form className="add-form" onSubmit={handleSubmit}>
+          <div className="form-header">
+            <span className="form-title">{editingId ? 'Edit Schedule' : 'New Schedule'}</span>
+          </div>
+          <div className="form-row">
+            <input
+              type="text"
+              placeholder="Description, e.g. Car licence"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              required
+            />
+            <input
+              type="number"
+              placeholder="Amount per payment"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              min="0"
+              step="0.01"
+              required
+            />
+            <select value={member || members[0]?.name || ''} onChange={(e) => setMember(e.target.value)}>
+              {members.map((m) => (
+                <option key={m.id} value={m.name}>{m.name}</option>
+              ))}
+            </select>
+            <select value={category} onChange={(e) => setCategory(e.target.value as ExpenseCategory)}>
+              {EXPENSE_CATEGORIES.map((cat) => (
+                <option key={cat} value={cat}>{cat}</option>
+              ))}
+            </select>
+          </div>
+          <div className="form-row">
+            <label className="schedule-field">
+              <span>Every</span>
+              <input
+                type="number"
+                value={intervalCount}
+                onChange={(e) => setIntervalCount(e.target.value)}
+                min="1"
+                step="1"
+              />
+            </label>
+            <select value={frequency} onChange={(e) => setFrequency(e.target.value as RecurringFrequency)}>
+              {(Object.keys(FREQUENCY_LABELS) as RecurringFrequency[]).map((f) => (
+                <option key={f} value={f}>{FREQUENCY_LABELS[f]}</option>
+              ))}
+            </select>
+            <label className="schedule-field">
+              <span>From</span>
+              <input type="month" value={startMonth} onChange={(e) => setStartMonth(e.target.value)} required />
+            </label>
+            <label className="schedule-field">
+              <span>Until</span>
+              <input type="month" value={endMonth} onChange={(e) => setEndMonth(e.target.value)} />
+            </label>
+            <input
+              type="number"
+              placeholder="Yearly increase %"
+              value={escalation}
+              onChange={(e) => setEscalation(e.target.value)}
+              min="0"
+              step="0.1"
+            />
+          </div>
+          <div className="form-row">
+            <label className="option-checkbox">
+              <input type="checkbox" checked={isShared} onChange={(e) => setIsShared(e.target.checked)} />
+              <span>Shared</span>
+            </label>
+            <label className="option-checkbox">
+              <input type="checkbox" checked={includeVat} onChange={(e) => setIncludeVat(e.target.checked)} />
+              <span>Add VAT</span>
+            </label>
+            {balanceAccounts.length > 0 && (
+              <select value={balanceAccountId} onChange={(e) => setBalanceAccountId(e.target.value)}>
+                <option value="">— No balance account —</option>
+                {balanceAccounts.map((account) => (
+                  <option key={account.id} value={account.id}>{account.name}</option>
+                ))}
+              </select>
+            )}
+            {category === 'Savings' && savingsGoals.length > 0 && (
+              <select value={savingsGoalId} onChange={(e) => setSavingsGoalId(e.target.value)}>
+                <option value="">— No savings goal —</option>
+                {savingsGoals.map((goal) => (
+                  <option key={goal.id} value={goal.id}>{goal.name}</option>
+                ))}
+              </select>
+            )}
+            <button type="submit" className="btn-submit" disabled={submitting}>
+              {submitting ? 'Saving...' : editingId ? 'Update' : 'Add'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {schedules.length === 0 ? (
+        <p className="no-entries">No schedules yet.</p>
+      ) : (
+        <ul className="entries-list">
+          {schedules.map((schedule) => {
+            const ended = schedule.end_month !== null && schedule.end_month < currentMonth;
+            const account = balanceAccounts.find((a) => a.id === schedule.balance_account_id);
+            const goal = savingsGoals.find((g) => g.id === schedule.savings_goal_id);
+            return (
+              <li key={schedule.id} className={`entry-item ${ended ? 'schedule-ended' : ''}`}>
+                <div className="entry-info">
+                  <span className="entry-description">{schedule.description}</span>
+                  <span className="rule-meta">
+                    {[schedule.member, schedule.category, account && `→ ${account.name}`, goal && `→ ${goal.name}`].filter(Boolean).join(' · ')}
+                  </span>
+                  <span className="rule-meta">{ended ? 'Ended' : describeSchedule(schedule)}</span>
+                </div>
+                <span className="entry-amount">{formatCurrency(schedule.amount)}</span>
+                <div className="entry-actions">
+                  <button className="btn-edit" onClick={() => handleEdit(schedule)} title="Edit">
+                    <span className="btn-icon-text">Edit</span>
+                  </button>
+                  <button className="btn-delete" onClick={() => handleDelete(schedule)} title="Delete">
+                    <span className="btn-icon-text">Delete</span>
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import type { RemoteChange } from '../types/budget';
+
+interface RemoteChangeIndicatorProps {
+  change: RemoteChange | null;
+}
+
+/** Brief note that someone else just changed what's on screen; fades out on its own */
+export function RemoteChangeIndicator({ change }: RemoteChangeIndicatorProps) {
+  if (!change) return null;
+
+  const name = change.by.split('@')[0];
+  const time = new Date(change.at).toLocaleTimeString('en-ZA', { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    // Keyed by time so every new change restarts the fade
+    <div key={change.at} className="remote-change" title={`${change.by} at ${time}`}>
+      <span className="remote-change-dot" />
+      Updated by {name}
+    </div>
+  );
+}
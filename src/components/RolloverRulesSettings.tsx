@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import type { RolloverExpenses, RolloverRulesFormData } from '../types/budget';
+
+interface RolloverRulesSettingsProps {
+  rules: RolloverRulesFormData;
+  error: string | null;
+  onSave: (data: RolloverRulesFormData) => Promise<boolean>;
+}
+
+const EXPENSE_OPTIONS: { value: RolloverExpenses; label: string }[] = [
+  { value: 'all', label: 'All expenses' },
+  { value: 'recurring', label: 'Recurring expenses only' },
+  { value: 'none', label: 'No expenses' },
+];
+
+export function RolloverRulesSettings({ rules, error, onSave }: RolloverRulesSettingsProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [formData, setFormData] = useState<RolloverRulesFormData>(rules);
+  const [submitting, setSubmitting] = useState(false);
+
+  const startEditing = () => {
+    setFormData(rules);
+    setIsEditing(!isEditing);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    if (await onSave(formData)) {
+      setIsEditing(false);
+    }
+    setSubmitting(false);
+  };
+
+  const setFlag = (field: keyof Omit<RolloverRulesFormData, 'carry_expenses' | 'planning_months'>) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => setFormData({ ...formData, [field]: e.target.checked });
+
+  const copied = [
+    rules.carry_incomes && 'incomes',
+    rules.carry_taxes && 'taxes',
+    rules.carry_expenses === 'all' && 'all expenses',
+    rules.carry_expenses === 'recurring' && 'recurring expenses',
+  ].filter(Boolean);
+
+  return (
+    <div className="section rollover-rules-section">
+      <div className="section-header">
+        <h2>Month Rollover</h2>
+        <button className="btn-add" onClick={startEditing}>
+          {isEditing ? 'Cancel' : 'Edit'}
+        </button>
+      </div>
+
+      <p className="section-description">
+        What a new month copies from the previous one. Each month rolls over once, however many devices open it,
+        and a rollover can be undone from the budget page. The month pickers go from the earliest month with data
+        up to the months you plan ahead.
+      </p>
+
+      {error && <div className="section-error">{error}</div>}
+
+      {isEditing ? (
+        <form className="add-form" onSubmit={handleSubmit}>
+          <div className="rollover-options">
+            <label className="option-checkbox">
+              <input type="checkbox" checked={formData.auto_rollover} onChange={setFlag('auto_rollover')} />
+              <span>Roll over automatically when a new month is opened</span>
+            </label>
+            <label className="option-checkbox">
+              <input type="checkbox" checked={formData.carry_incomes} onChange={setFlag('carry_incomes')} />
+              <span>Copy incomes</span>
+            </label>
+            <label className="option-checkbox">
+              <input type="checkbox" checked={formData.carry_taxes} onChange={setFlag('carry_taxes')} />
+              <span>Copy taxes</span>
+            </label>
+            <select
+              value={formData.carry_expenses}
+              onChange={(e) => setFormData({ ...formData, carry_expenses: e.target.value as RolloverExpenses })}
+            >
+              {EXPENSE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <label className="option-checkbox">
+              <input
+                type="checkbox"
+                checked={formData.reset_paid}
+                onChange={setFlag('reset_paid')}
+                disabled={formData.carry_expenses === 'none'}
+              />
+              <span>Mark copied expenses as unpaid</span>
+            </label>
+            <label className="schedule-field">
+              <span>Plan ahead</span>
+              <input
+                type="number"
+                value={formData.planning_months}
+                onChange={(e) =>
+                  setFormData({ ...formData, planning_months: Math.min(120, Math.max(0, parseInt(e.target.value) || 0)) })
+                }
+                min="0"
+                max="120"
+                step="1"
+              />
+              <span>months</span>
+            </label>
+          </div>
+          <div className="form-row">
+            <button type="submit" className="btn-submit" disabled={submitting}>
+              {submitting ? 'Saving...' : 'Save Rules'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <ul className="entries-list">
+          <li className="entry-item">
+            <div className="entry-info">
+              <span className="entry-description">
+                {copied.length > 0 ? `Copies ${copied.join(', ')}` : 'Copies nothing'}
+              </span>
+              <span className="rule-meta">
+                {rules.auto_rollover ? 'Automatic' : 'Only when you roll over by hand'}
+                {rules.carry_expenses !== 'none' && rules.reset_paid && ' · expenses start unpaid'}
+                {` · plans ${rules.planning_months} month${rules.planning_months === 1 ? '' : 's'} ahead`}
+              </span>
+            </div>
+          </li>
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useState } from 'react';
+import { getSavingsGoalProgress } from '../lib/savingsGoals';
+import type { SavingsContribution } from '../lib/savingsGoals';
+import type {
+  HouseholdMember,
+  SavingsGoal,
+  SavingsGoalFormData,
+  SavingsGoalStatus,
+  SavingsPriority,
+} from '../types/budget';
+
+interface SavingsGoalsProps {
+  goals: SavingsGoal[];
+  contributions: SavingsContribution[];
+  members: HouseholdMember[];
+  selectedMonth: string;
+  error: string | null;
+  onAdd: (data: SavingsGoalFormData) => Promise<boolean>;
+  onUpdate: (id: string, data: SavingsGoalFormData) => Promise<boolean>;
+  onDelete: (id: string) => Promise<boolean>;
+}
+
+/** Format currency in ZAR */
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+    minimumFractionDigits: 2,
+  }).format(amount);
+}
+
+/** Format a YYYY-MM month, e.g. "Mar 2031" */
+function formatShortMonth(month: string): string {
+  return new Date(month + '-01').toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+}
+
+const PRIORITY_LABELS: Record<SavingsPriority, string> = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+const STATUS_LABELS: Record<SavingsGoalStatus, string> = {
+  reached: 'Reached',
+  on_track: 'On Track',
+  behind: 'Behind',
+};
+
+export function SavingsGoals({
+  goals,
+  contributions,
+  members,
+  selectedMonth,
+  error,
+  onAdd,
+  onUpdate,
+  onDelete,
+}: SavingsGoalsProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [targetAmount, setTargetAmount] = useState('');
+  const [targetMonth, setTargetMonth] = useState('');
+  const [startingAmount, setStartingAmount] = useState('');
+  const [owner, setOwner] = useState(''); // '' = shared
+  const [priority, setPriority] = useState<SavingsPriority>('medium');
+  const [submitting, setSubmitting] = useState(false);
+
+  const resetForm = () => {
+    setName('');
+    setTargetAmount('');
+    setTargetMonth('');
+    setStartingAmount('');
+    setOwner('');
+    setPriority('medium');
+    setIsAdding(false);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !targetAmount || !targetMonth) return;
+
+    const data: SavingsGoalFormData = {
+      name: name.trim(),
+      target_amount: parseFloat(targetAmount),
+      target_month: targetMonth,
+      starting_amount: startingAmount ? parseFloat(startingAmount) : 0,
+      owner: owner || null,
+      priority,
+    };
+
+    setSubmitting(true);
+    const success = editingId ? await onUpdate(editingId, data) : await onAdd(data);
+    if (success) {
+      resetForm();
+    }
+    setSubmitting(false);
+  };
+
+  const handleEdit = (goal: SavingsGoal) => {
+    setEditingId(goal.id);
+    setName(goal.name);
+    setTargetAmount(String(goal.target_amount));
+    setTargetMonth(goal.target_month);
+    setStartingAmount(Number(goal.starting_amount) > 0 ? String(goal.starting_amount) : '');
+    setOwner(goal.owner ?? '');
+    setPriority(goal.priority);
+    setIsAdding(true);
+  };
+
+  const handleDelete = async (goal: SavingsGoal) => {
+    if (confirm(`Delete the savings goal "${goal.name}"? Expenses linked to it are kept.`)) {
+      await onDelete(goal.id);
+    }
+  };
+
+  return (
+    <div className="summary-overview savings-goals">
+      <section className="overview-section">
+        <div className="savings-goals-header">
+          <h3>Savings Goals</h3>
+          <button className="btn-add" onClick={() => { resetForm(); setIsAdding(!isAdding); }}>
+            {isAdding ? 'Cancel' : '+ Add Goal'}
+          </button>
+        </div>
+        <p className="section-description">
+          Link Savings expenses to a goal to count them towards it. Progress is as at the end of the selected month.
+        </p>
+
+        {error && <div className="section-error">{error}</div>}
+
+        {isAdding && (
+          <form className="add-form" onSubmit={handleSubmit}>
+            <div className="form-header">
+              <span className="form-title">{editingId ? 'Edit Goal' : 'New Goal'}</span>
+            </div>
+            <div className="form-row">
+              <input
+                type="text"
+                placeholder="Name, e.g. Emergency fund"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+              <input
+                type="number"
+                placeholder="Target amount"
+                value={targetAmount}
+                onChange={(e) => setTargetAmount(e.target.value)}
+                min="0.01"
+                step="0.01"
+                required
+              />
+              <label className="schedule-field">
+                <span>By</span>
+                <input type="month" value={targetMonth} onChange={(e) => setTargetMonth(e.target.value)} required />
+              </label>
+            </div>
+            <div className="form-row">
+              <input
+                type="number"
+                placeholder="Already saved"
+                value={startingAmount}
+                onChange={(e) => setStartingAmount(e.target.value)}
+                min="0"
+                step="0.01"
+              />
+              <select value={owner} onChange={(e) => setOwner(e.target.value)}>
+                <option value="">Shared</option>
+                {members.map((m) => (
+                  <option key={m.id} value={m.name}>{m.name}</option>
+                ))}
+              </select>
+              <select value={priority} onChange={(e) => setPriority(e.target.value as SavingsPriority)}>
+                {(Object.keys(PRIORITY_LABELS) as SavingsPriority[]).map((p) => (
+                  <option key={p} value={p}>{PRIORITY_LABELS[p]} priority</option>
+                ))}
+              </select>
+              <button type="submit" className="btn-submit" disabled={submitting}>
+                {submitting ? 'Saving...' : editingId ? 'Update' : 'Add'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {goals.length === 0 ? (
+          <p className="no-entries">No savings goals yet.</p>
+        ) : (
+          <div className="balance-accounts-list">
+            {goals.map((goal) => {
+              const progress = getSavingsGoalProgress(goal, contributions, selectedMonth);
+              return (
+                <div key={goal.id} className="balance-account-row savings-goal-row">
+                  <div className="balance-account-info">
+                    <span className="balance-account-name">
+                      {goal.name}
+                      <span className={`savings-goal-status ${progress.status}`}>{STATUS_LABELS[progress.status]}</span>
+                    </span>
+                    <span className="balance-account-monthly">
+                      {[goal.owner ?? 'Shared', `${PRIORITY_LABELS[goal.priority]} priority`, `by ${formatShortMonth(goal.target_month)}`].join(' · ')}
+                    </span>
+                  </div>
+                  <div className="balance-account-progress">
+                    <div className="mini-progress-bar">
+                      <div className="mini-progress-fill" style={{ width: `${progress.percent}%` }} />
+                    </div>
+                    <span className="balance-account-percent">{progress.percent.toFixed(0)}%</span>
+                  </div>
+                  <div className="balance-account-amounts">
+                    <span className="balance-account-remaining">
+                      {formatCurrency(progress.saved)} / {formatCurrency(Number(goal.target_amount))}
+                    </span>
+                    {progress.status !== 'reached' && (
+                      <span className="balance-account-months">
+                        {progress.monthsLeft > 0
+                          ? `${formatCurrency(progress.monthlyNeeded)}/mo needed`
+                          : `${formatCurrency(progress.remaining)} short of the target`}
+                      </span>
+                    )}
+                  </div>
+                  <div className="entry-actions">
+                    <button className="btn-edit" onClick={() => handleEdit(goal)} title="Edit">
+                      <span className="btn-icon-text">Edit</span>
+                    </button>
+                    <button className="btn-delete" onClick={() => handleDelete(goal)} title="Delete">
+                      <span className="btn-icon-text">Delete</span>
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
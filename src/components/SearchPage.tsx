@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import type {
+  ExpenseCategory,
+  HouseholdMember,
+  SearchFilters,
+  SearchResult,
+  SearchSource,
+} from '../types/budget';
+
+interface SearchPageProps {
+  members: HouseholdMember[];
+  filters: SearchFilters | null; // The last search, to start the form from
+  results: SearchResult[] | null; // null until the first search
+  limit: number; // Most results a search returns
+  searching: boolean;
+  error: string | null;
+  onSearch: (filters: SearchFilters) => Promise<boolean>;
+  onClear: () => void;
+  onOpen: (result: SearchResult) => void;
+}
+
+const SOURCE_LABELS: Record<SearchSource, string> = {
+  income: 'Income',
+  tax: 'Tax',
+  expense: 'Expense',
+  unnecessary: 'Discretionary',
+  budget_expense: 'Budget expense',
+  statement: 'Statement',
+};
+
+const EXPENSE_CATEGORIES: ExpenseCategory[] = [
+  'Housing',
+  'Utilities',
+  'Groceries',
+  'Transportation',
+  'Healthcare',
+  'Entertainment',
+  'Dining',
+  'Shopping',
+  'Education',
+  'Insurance',
+  'Savings',
+  'Other',
+];
+
+/** Format currency in ZAR */
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+    minimumFractionDigits: 2,
+  }).format(amount);
+}
+
+/** Format a YYYY-MM month, e.g. "Mar 2026" */
+function formatShortMonth(month: string): string {
+  return new Date(month + '-01').toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+}
+
+export function SearchPage({
+  members,
+  filters,
+  results,
+  limit,
+  searching,
+  error,
+  onSearch,
+  onClear,
+  onOpen,
+}: SearchPageProps) {
+  const [query, setQuery] = useState(filters?.query ?? '');
+  const [member, setMember] = useState(filters?.member ?? '');
+  const [category, setCategory] = useState(filters?.category ?? '');
+  const [minAmount, setMinAmount] = useState(filters?.min_amount != null ? String(filters.min_amount) : '');
+  const [maxAmount, setMaxAmount] = useState(filters?.max_amount != null ? String(filters.max_amount) : '');
+  const [paid, setPaid] = useState(filters?.is_paid == null ? '' : filters.is_paid ? 'paid' : 'unpaid');
+  const [from, setFrom] = useState(filters?.from ?? '');
+  const [to, setTo] = useState(filters?.to ?? '');
+
+  const hasCriteria = [query.trim(), member, category, minAmount, maxAmount, paid, from, to].some((v) => v !== '');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!hasCriteria) return;
+
+    await onSearch({
+      query: query.trim(),
+      member: member || null,
+      category: (category as ExpenseCategory) || null,
+      min_amount: minAmount === '' ? null : parseFloat(minAmount),
+      max_amount: maxAmount === '' ? null : parseFloat(maxAmount),
+      is_paid: paid === '' ? null : paid === 'paid',
+      from: from || null,
+      to: to || null,
+    });
+  };
+
+  const handleClear = () => {
+    setQuery('');
+    setMember('');
+    setCategory('');
+    setMinAmount('');
+    setMaxAmount('');
+    setPaid('');
+    setFrom('');
+    setTo('');
+    onClear();
+  };
+
+  return (
+    <div className="summary-overview search-page">
+      <section className="overview-section">
+        <h3>Search</h3>
+        <p className="section-description">
+          Find entries in any month - incomes, taxes, expenses, discretionary expenses, budget expenses and uploaded
+          statements - by their description or note. Pick a result to go to its month.
+        </p>
+
+        <form className="add-form" onSubmit={handleSubmit}>
+          <div className="form-row">
+            <input
+              type="search"
+              placeholder="e.g. plumber"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="search-query"
+              autoFocus
+            />
+            <button type="submit" className="btn-submit" disabled={searching || !hasCriteria}>
+              {searching ? 'Searching...' : 'Search'}
+            </button>
+            <button type="button" className="btn-cancel" onClick={handleClear}>
+              Clear
+            </button>
+          </div>
+          <div className="form-row">
+            <select value={member} onChange={(e) => setMember(e.target.value)} aria-label="Member">
+              <option value="">Any member</option>
+              {members.map((m) => (
+                <option key={m.id} value={m.name}>{m.name}</option>
+              ))}
+            </select>
+            <select value={category} onChange={(e) => setCategory(e.target.value)} aria-label="Category">
+              <option value="">Any category</option>
+              {EXPENSE_CATEGORIES.map((cat) => (
+                <option key={cat} value={cat}>{cat}</option>
+              ))}
+            </select>
+            <select value={paid} onChange={(e) => setPaid(e.target.value)} aria-label="Paid status">
+              <option value="">Paid or not</option>
+              <option value="paid">Paid</option>
+              <option value="unpaid">Unpaid</option>
+            </select>
+            <input
+              type="number"
+              placeholder="Min amount"
+              value={minAmount}
+              onChange={(e) => setMinAmount(e.target.value)}
+              min="0"
+              step="0.01"
+            />
+            <input
+              type="number"
+              placeholder="Max amount"
+              value={maxAmount}
+              onChange={(e) => setMaxAmount(e.target.value)}
+              min="0"
+              step="0.01"
+            />
+            <label className="schedule-field">
+              <span>From</span>
+              <input type="month" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </label>
+            <label className="schedule-field">
+              <span>To</span>
+              <input type="month" value={to} onChange={(e) => setTo(e.target.value)} />
+            </label>
+          </div>
+        </form>
+
+        {error && <div className="section-error">{error}</div>}
+
+        {results !== null && (
+          results.length === 0 ? (
+            <p className="no-entries">Nothing matches.</p>
+          ) : (
+            <>
+              <p className="search-count">
+                {results.length >= limit
+                  ? `Showing the newest ${limit} matches - narrow the search to see older ones.`
+                  : `${results.length} match${results.length !== 1 ? 'es' : ''}`}
+              </p>
+              <div className="projection-table-wrapper">
+                <table className="projection-table search-results">
+                  <thead>
+                    <tr>
+                      <th>Month</th>
+                      <th>Type</th>
+                      <th>Description</th>
+                      <th>Member</th>
+                      <th>Category</th>
+                      <th>Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {results.map((result) => (
+                      <tr
+                        key={`${result.source}-${result.id}`}
+                        onClick={() => onOpen(result)}
+                        title={`Go to ${formatShortMonth(result.month)}`}
+                      >
+                        <td>
+                          {formatShortMonth(result.month)}
+                          {result.entry_date && <span className="search-date">{result.entry_date}</span>}
+                        </td>
+                        <td>{SOURCE_LABELS[result.source]}</td>
+                        <td>
+                          {result.description}
+                          {result.is_paid && <span className="paid-badge">Paid</span>}
+                          {result.note && <span className="search-note">{result.note}</span>}
+                        </td>
+                        <td>{result.member ?? '-'}</td>
+                        <td>{result.category ?? '-'}</td>
+                        <td>{result.amount === null ? '-' : formatCurrency(Number(result.amount))}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { getSettleUpTransfers } from '../lib/splitting';
+import type {
+  HouseholdMember,
+  HouseholdSummary,
+  Settlement,
+  SettlementFormData,
+  SettleUpTransfer,
+  SplitMethod,
+} from '../types/budget';
+
+interface SettleUpProps {
+  summary: HouseholdSummary;
+  members: HouseholdMember[];
+  settlements: Settlement[];
+  splitMethod: SplitMethod;
+  selectedMonth: string;
+  error: string | null;
+  onRecord: (data: SettlementFormData) => Promise<boolean>;
+  onDelete: (id: string) => Promise<boolean>;
+}
+
+/** Format currency in ZAR */
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+    minimumFractionDigits: 2,
+  }).format(amount);
+}
+
+const METHOD_LABELS: Record<SplitMethod, string> = {
+  equal: 'equally',
+  income: 'in proportion to net income',
+  custom: 'by custom percentages',
+};
+
+export function SettleUp({
+  summary,
+  members,
+  settlements,
+  splitMethod,
+  selectedMonth,
+  error,
+  onRecord,
+  onDelete,
+}: SettleUpProps) {
+  const [recording, setRecording] = useState<string | null>(null);
+
+  const summaries = members
+    .map((m) => summary.memberSummaries[m.name])
+    .filter((s) => s !== undefined);
+  const sharedTotal = summaries.reduce((sum, s) => sum + s.sharedPaid, 0);
+  const transfers = getSettleUpTransfers(summaries, settlements);
+
+  const [year, monthNum] = selectedMonth.split('-');
+  const monthName = new Date(parseInt(year), parseInt(monthNum) - 1).toLocaleDateString('en-US', { month: 'long' });
+
+  const handleRecord = async (transfer: SettleUpTransfer) => {
+    const key = `${transfer.from}-${transfer.to}`;
+    setRecording(key);
+    await onRecord({
+      month: selectedMonth,
+      from_member: transfer.from,
+      to_member: transfer.to,
+      amount: transfer.amount,
+      note: null,
+    });
+    setRecording(null);
+  };
+
+  const handleDelete = async (settlement: Settlement) => {
+    if (confirm(`Delete the ${formatCurrency(settlement.amount)} payment from ${settlement.from_member} to ${settlement.to_member}?`)) {
+      await onDelete(settlement.id);
+    }
+  };
+
+  if (sharedTotal === 0 && settlements.length === 0) return null;
+
+  return (
+    <div className="summary-overview settle-up">
+      <section className="overview-section">
+        <h3>Settle Up</h3>
+        <p className="section-description">
+          {formatCurrency(sharedTotal)} of shared expenses in {monthName}, split {METHOD_LABELS[splitMethod]}.
+        </p>
+
+        {error && <div className="section-error">{error}</div>}
+
+        <div className="projection-table-wrapper">
+          <table className="projection-table">
+            <thead>
+              <tr>
+                <th>Member</th>
+                <th>Paid</th>
+                <th>Fair Share</th>
+                <th>Difference</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summaries.map((s) => {
+                const difference = s.sharedPaid - s.sharedShare;
+                return (
+                  <tr key={s.member}>
+                    <td>{s.member}</td>
+                    <td>{formatCurrency(s.sharedPaid)}</td>
+                    <td>{formatCurrency(s.sharedShare)}</td>
+                    <td className={difference >= 0 ? 'positive' : 'negative'}>{formatCurrency(difference)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <ul className="entries-list settle-up-list">
+          {transfers.length === 0 ? (
+            <li className="entry-item">
+              <div className="entry-info">
+                <span className="entry-description">Everyone is square for {monthName}.</span>
+              </div>
+            </li>
+          ) : (
+            transfers.map((transfer) => {
+              const key = `${transfer.from}-${transfer.to}`;
+              return (
+                <li key={key} className="entry-item">
+                  <div className="entry-info">
+                    <span className="entry-description">
+                      {transfer.from} owes {transfer.to} {formatCurrency(transfer.amount)} for {monthName}
+                    </span>
+                  </div>
+                  <div className="entry-actions">
+                    <button
+                      className="btn-primary"
+                      onClick={() => handleRecord(transfer)}
+                      disabled={recording !== null}
+                    >
+                      {recording === key ? 'Recording...' : 'Record Transfer'}
+                    </button>
+                  </div>
+                </li>
+              );
+            })
+          )}
+          {settlements.map((settlement) => (
+            <li key={settlement.id} className="entry-item settled">
+              <div className="entry-info">
+                <span className="entry-description">
+                  {settlement.from_member} paid {settlement.to_member} {formatCurrency(settlement.amount)}
+                </span>
+                <span className="rule-meta">
+                  Recorded {new Date(settlement.created_at).toLocaleDateString('en-ZA')}
+                  {settlement.note && ` · ${settlement.note}`}
+                </span>
+              </div>
+              <div className="entry-actions">
+                <button className="btn-delete" onClick={() => handleDelete(settlement)} title="Delete">
+                  <span className="btn-icon-text">Delete</span>
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+
+interface SignInProps {
+  error: string | null;
+  onSignIn: (email: string, password: string) => Promise<boolean>;
+  onSignUp: (email: string, password: string) => Promise<boolean>;
+}
+
+export function SignIn({ error, onSignIn, onSignUp }: SignInProps) {
+  const [mode, setMode] = useState<'signIn' | 'signUp'>('signIn');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [signedUp, setSignedUp] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || !password) return;
+
+    setSubmitting(true);
+    if (mode === 'signIn') {
+      await onSignIn(email.trim(), password);
+    } else if (await onSignUp(email.trim(), password)) {
+      setSignedUp(true);
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="app">
+      <header className="app-header">
+        <h1>Family Budget Planner</h1>
+        <p className="subtitle">Sign in to your household</p>
+      </header>
+
+      <main className="app-main">
+        <div className="section auth-section">
+          <div className="section-header">
+            <h2>{mode === 'signIn' ? 'Sign In' : 'Create Account'}</h2>
+          </div>
+
+          {error && <div className="section-error">{error}</div>}
+          {signedUp && (
+            <p className="section-description">
+              Account created. If email confirmation is enabled, check your inbox before signing in.
+            </p>
+          )}
+
+          <form className="add-form" onSubmit={handleSubmit}>
+            <div className="form-row">
+              <input
+                type="email"
+                placeholder="Email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoComplete="email"
+                required
+              />
+              <input
+                type="password"
+                placeholder="Password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+                minLength={6}
+                required
+              />
+              <button type="submit" className="btn-submit" disabled={submitting}>
+                {submitting ? 'Please wait...' : mode === 'signIn' ? 'Sign In' : 'Sign Up'}
+              </button>
+            </div>
+          </form>
+
+          <button
+            type="button"
+            className="btn-link"
+            onClick={() => { setMode(mode === 'signIn' ? 'signUp' : 'signIn'); setSignedUp(false); }}
+          >
+            {mode === 'signIn' ? "Don't have an account? Sign up" : 'Already have an account? Sign in'}
+          </button>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import type { HouseholdMember, SplitMethod, SplitRulesFormData } from '../types/budget';
+
+interface SplitRulesSettingsProps {
+  rules: SplitRulesFormData;
+  members: HouseholdMember[];
+  error: string | null;
+  onSave: (data: SplitRulesFormData) => Promise<boolean>;
+}
+
+const METHOD_OPTIONS: { value: SplitMethod; label: string }[] = [
+  { value: 'equal', label: 'Split equally' },
+  { value: 'income', label: 'In proportion to net income' },
+  { value: 'custom', label: 'Custom percentages' },
+];
+
+/** Custom percentages may be off by a rounding cent */
+const PERCENT_TOLERANCE = 0.01;
+
+export function SplitRulesSettings({ rules, members, error, onSave }: SplitRulesSettingsProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [method, setMethod] = useState<SplitMethod>(rules.method);
+  const [percents, setPercents] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  const startEditing = () => {
+    setMethod(rules.method);
+    // Start a new custom split from an equal one
+    const hasPercents = members.some((m) => rules.percents[m.name] > 0);
+    const equalPercent = members.length > 0 ? Math.round((100 / members.length) * 100) / 100 : 0;
+    setPercents(Object.fromEntries(members.map((m) => [
+      m.name,
+      String(hasPercents ? rules.percents[m.name] ?? 0 : equalPercent),
+    ])));
+    setIsEditing(!isEditing);
+  };
+
+  const percentTotal = members.reduce((sum, m) => sum + (parseFloat(percents[m.name]) || 0), 0);
+  const percentsValid = method !== 'custom' || Math.abs(percentTotal - 100) <= PERCENT_TOLERANCE;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!percentsValid) return;
+
+    setSubmitting(true);
+    const success = await onSave({
+      method,
+      percents: Object.fromEntries(members.map((m) => [m.name, parseFloat(percents[m.name]) || 0])),
+    });
+    if (success) {
+      setIsEditing(false);
+    }
+    setSubmitting(false);
+  };
+
+  const describeRules = (): string => {
+    if (rules.method === 'income') return 'In proportion to each member\'s net income for the month';
+    if (rules.method === 'custom') {
+      return members.map((m) => `${m.name} ${rules.percents[m.name] ?? 0}%`).join(' · ');
+    }
+    return members.length === 2 ? 'Split 50/50' : 'Split equally between members';
+  };
+
+  return (
+    <div className="section split-rules-section">
+      <div className="section-header">
+        <h2>Shared Expenses</h2>
+        <button className="btn-add" onClick={startEditing}>
+          {isEditing ? 'Cancel' : 'Edit'}
+        </button>
+      </div>
+
+      <p className="section-description">
+        How expenses marked shared are divided. Each member's summary counts their share rather than what they
+        entered, and the Summary page works out who owes whom.
+      </p>
+
+      {error && <div className="section-error">{error}</div>}
+
+      {isEditing ? (
+        <form className="add-form" onSubmit={handleSubmit}>
+          <div className="split-rules-options">
+            <select value={method} onChange={(e) => setMethod(e.target.value as SplitMethod)}>
+              {METHOD_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            {method === 'custom' && (
+              <>
+                <div className="form-row">
+                  {members.map((m) => (
+                    <label key={m.id} className="schedule-field">
+                      <span>{m.name} %</span>
+                      <input
+                        type="number"
+                        value={percents[m.name] ?? ''}
+                        onChange={(e) => setPercents({ ...percents, [m.name]: e.target.value })}
+                        min="0"
+                        max="100"
+                        step="0.01"
+                        required
+                      />
+                    </label>
+                  ))}
+                </div>
+                <span className={`split-rules-total ${percentsValid ? '' : 'invalid'}`}>
+                  Total {Math.round(percentTotal * 100) / 100}%{!percentsValid && ' - must add up to 100%'}
+                </span>
+              </>
+            )}
+          </div>
+          <div className="form-row">
+            <button type="submit" className="btn-submit" disabled={submitting || !percentsValid}>
+              {submitting ? 'Saving...' : 'Save Split'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <ul className="entries-list">
+          <li className="entry-item">
+            <div className="entry-info">
+              <span className="entry-description">{describeRules()}</span>
+              <span className="rule-meta">Falls back to an equal split when there is nothing to go by</span>
+            </div>
+          </li>
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import { useState } from 'react';
+import { findMatchingRule } from '../lib/categorisation';
+import { detectStatementBank, parsePdfStatement } from '../lib/pdfStatements';
+import type {
+  CategorisationRule,
+  Expense,
+  ExpenseCategory,
+  ExpenseFormData,
+  FamilyMember,
+  FinancialStatement,
+  HouseholdMember,
+  StatementBank,
+  StatementCandidate,
+} from '../types/budget';
+
+interface StatementCandidatesProps {
+  statement: FinancialStatement;
+  lines: string[]; // Text of the PDF, read in the browser
+  members: HouseholdMember[];
+  existingExpenses: Expense[]; // Expenses already in the statement's month, for duplicate detection
+  rules: CategorisationRule[];
+  onImport: (rows: ExpenseFormData[], month: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+/** A candidate transaction as shown in the review, with the user's choices */
+interface ReviewRow {
+  key: number;
+  candidate: StatementCandidate;
+  selected: boolean;
+  category: ExpenseCategory;
+  member: FamilyMember;
+  is_shared: boolean;
+  balance_account_id: string | null;
+  rulePattern: string | null; // Categorisation rule that filled in the row
+  note: string | null; // Why the row starts deselected
+}
+
+const BANK_LABELS: Record<StatementBank, string> = {
+  fnb: 'FNB',
+  standard_bank: 'Standard Bank',
+  absa: 'Absa',
+  capitec: 'Capitec',
+  nedbank: 'Nedbank',
+  generic: 'Other bank',
+};
+
+const EXPENSE_CATEGORIES: ExpenseCategory[] = [
+  'Housing',
+  'Utilities',
+  'Groceries',
+  'Transportation',
+  'Healthcare',
+  'Entertainment',
+  'Dining',
+  'Shopping',
+  'Education',
+  'Insurance',
+  'Savings',
+  'Other',
+];
+
+/** Format currency for display in ZAR */
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+  }).format(amount);
+}
+
+export function StatementCandidates({
+  statement,
+  lines,
+  members,
+  existingExpenses,
+  rules,
+  onImport,
+  onClose,
+}: StatementCandidatesProps) {
+  const defaultMember = statement.uploaded_by ?? members[0]?.name ?? '';
+
+  const buildRows = (statementBank: StatementBank): ReviewRow[] => {
+    const isDuplicate = (c: StatementCandidate) =>
+      existingExpenses.some(
+        (e) => e.description.toLowerCase() === c.description.toLowerCase() && Number(e.amount) === c.amount
+      );
+
+    return parsePdfStatement(lines, statement, statementBank).map((candidate, key) => {
+      let note: string | null = null;
+      if (!candidate.is_debit) note = 'Money in';
+      else if (!candidate.date.startsWith(statement.month)) note = 'Other month';
+      else if (isDuplicate(candidate)) note = 'Possible duplicate';
+
+      const rule = findMatchingRule(rules, candidate.description, candidate.amount);
+      return {
+        key,
+        candidate,
+        selected: note === null,
+        category: rule?.category ?? 'Other',
+        member: rule?.member ?? defaultMember,
+        is_shared: rule?.is_shared ?? false,
+        balance_account_id: rule?.balance_account_id ?? null,
+        rulePattern: rule?.pattern ?? null,
+        note,
+      };
+    });
+  };
+
+  const [bank, setBank] = useState<StatementBank>(() => detectStatementBank(lines));
+  const [rows, setRows] = useState<ReviewRow[]>(() => buildRows(bank));
+  const [markPaid, setMarkPaid] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleBankChange = (nextBank: StatementBank) => {
+    setBank(nextBank);
+    setRows(buildRows(nextBank));
+  };
+
+  const updateRow = (key: number, changes: Partial<ReviewRow>) => {
+    setRows(rows.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const selectedRows = rows.filter((row) => row.selected);
+  const selectedTotal = selectedRows.reduce((sum, row) => sum + row.candidate.amount, 0);
+
+  const handleImport = async () => {
+    if (selectedRows.length === 0) return;
+
+    setSubmitting(true);
+    const success = await onImport(
+      selectedRows.map((row) => ({
+        member: row.member,
+        category: row.category,
+        description: row.candidate.description,
+        amount: row.candidate.amount,
+        is_recurring: false,
+        is_shared: row.is_shared,
+        is_paid: markPaid,
+        include_vat: false,
+        note: `Imported from ${statement.filename} (${row.candidate.date})`,
+        balance_account_id: row.balance_account_id,
+      })),
+      statement.month
+    );
+    setSubmitting(false);
+
+    if (success) {
+      onClose();
+    } else {
+      alert('Import failed. Please try again.');
+    }
+  };
+
+  return (
+    <div className="quick-add-backdrop" onClick={onClose}>
+      <div className="quick-add-modal import-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="quick-add-header">
+          <h3>Transactions — {statement.filename}</h3>
+          <button className="quick-add-close" onClick={onClose}>
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M18 6L6 18M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="quick-add-form import-body">
+          <div className="import-mapping-grid">
+            <div className="quick-add-row">
+              <label>Statement layout</label>
+              <select value={bank} onChange={(e) => handleBankChange(e.target.value as StatementBank)}>
+                {(Object.keys(BANK_LABELS) as StatementBank[]).map((b) => (
+                  <option key={b} value={b}>{BANK_LABELS[b]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {rows.length === 0 ? (
+            <p className="no-entries">
+              No transactions found with this layout. Try another bank, or export the statement as CSV and import that
+              instead. Scanned statements have no text to read.
+            </p>
+          ) : (
+            <>
+              <div className="import-selection-actions">
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  onClick={() => setRows(rows.map((row) => ({ ...row, selected: row.candidate.is_debit })))}
+                >
+                  Select All Money Out
+                </button>
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  onClick={() => setRows(rows.map((row) => ({ ...row, selected: false })))}
+                >
+                  Deselect All
+                </button>
+                <label className="option-checkbox">
+                  <input type="checkbox" checked={markPaid} onChange={(e) => setMarkPaid(e.target.checked)} />
+                  <span>Mark as paid</span>
+                </label>
+              </div>
+
+              <ul className="entries-list import-preview">
+                {rows.map((row) => (
+                  <li key={row.key} className={`entry-item ${row.selected ? '' : 'deselected'}`}>
+                    <input
+                      type="checkbox"
+                      checked={row.selected}
+                      onChange={(e) => updateRow(row.key, { selected: e.target.checked })}
+                    />
+                    <div className="entry-info">
+                      <span className="import-date">{row.candidate.date}</span>
+                      <span className="entry-description">{row.candidate.description}</span>
+                      {row.note && <span className="import-note">{row.note}</span>}
+                      {row.rulePattern && (
+                        <span className="rule-meta" title="Filled in by a categorisation rule">
+                          {row.rulePattern}{row.is_shared ? ' · shared' : ''}
+                        </span>
+                      )}
+                    </div>
+                    <select
+                      value={row.category}
+                      onChange={(e) => updateRow(row.key, { category: e.target.value as ExpenseCategory })}
+                    >
+                      {EXPENSE_CATEGORIES.map((cat) => (
+                        <option key={cat} value={cat}>{cat}</option>
+                      ))}
+                    </select>
+                    <select value={row.member} onChange={(e) => updateRow(row.key, { member: e.target.value })}>
+                      {members.map((m) => (
+                        <option key={m.id} value={m.name}>{m.name}</option>
+                      ))}
+                    </select>
+                    <span className={`entry-amount ${row.candidate.is_debit ? 'money-out' : 'money-in'}`}>
+                      {formatCurrency(row.candidate.is_debit ? -row.candidate.amount : row.candidate.amount)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          <div className="quick-add-actions">
+            <button type="button" className="btn-secondary" onClick={onClose}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="btn-primary"
+              onClick={handleImport}
+              disabled={submitting || selectedRows.length === 0}
+            >
+              {submitting
+                ? 'Importing...'
+                : `Import ${selectedRows.length} Expense${selectedRows.length !== 1 ? 's' : ''} (${formatCurrency(selectedTotal)})`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
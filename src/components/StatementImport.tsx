@@ -0,0 +1,609 @@
+import { useState } from 'react';
+import { useImportProfiles } from '../hooks/useImportProfiles';
+import { findMatchingRule } from '../lib/categorisation';
+import {
+  applyColumnMapping,
+  detectDelimiter,
+  detectStatementFormat,
+  guessColumnMapping,
+  parseCsv,
+  parseOfx,
+  parseQif,
+} from '../lib/statementImport';
+import type {
+  CategorisationRule,
+  Expense,
+  ExpenseCategory,
+  ExpenseFormData,
+  FamilyMember,
+  HouseholdMember,
+  ImportProfile,
+  StatementColumnMapping,
+  StatementDateFormat,
+  StatementFormat,
+  StatementTransaction,
+} from '../types/budget';
+
+interface StatementImportProps {
+  selectedMonth: string;
+  members: HouseholdMember[];
+  existingExpenses: Expense[]; // Expenses already in the selected month, for duplicate detection
+  rules: CategorisationRule[];
+  onImport: (rows: ExpenseFormData[], month: string) => Promise<boolean>;
+}
+
+type ImportStep = 'upload' | 'mapping' | 'preview';
+
+/** A statement transaction as shown in the preview, with the user's choices */
+interface PreviewRow {
+  key: number;
+  transaction: StatementTransaction;
+  selected: boolean;
+  category: ExpenseCategory;
+  member: FamilyMember;
+  is_shared: boolean;
+  balance_account_id: string | null;
+  rulePattern: string | null; // Categorisation rule that filled in the row
+  note: string | null; // Why the row starts deselected
+}
+
+const LAST_PROFILE_KEY = 'fambudget.lastImportProfile';
+
+const EXPENSE_CATEGORIES: ExpenseCategory[] = [
+  'Housing',
+  'Utilities',
+  'Groceries',
+  'Transportation',
+  'Healthcare',
+  'Entertainment',
+  'Dining',
+  'Shopping',
+  'Education',
+  'Insurance',
+  'Savings',
+  'Other',
+];
+
+const DATE_FORMAT_LABELS: Record<StatementDateFormat, string> = {
+  DMY: 'Day / Month / Year',
+  YMD: 'Year / Month / Day',
+  MDY: 'Month / Day / Year',
+};
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe',
+};
+
+/** Format currency for display in ZAR */
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+  }).format(amount);
+}
+
+/** Strip the saved-profile fields down to the column mapping */
+function toMapping(profile: ImportProfile): StatementColumnMapping {
+  return {
+    delimiter: profile.delimiter,
+    header_row: profile.header_row,
+    date_column: profile.date_column,
+    description_column: profile.description_column,
+    amount_column: profile.amount_column,
+    debit_column: profile.debit_column,
+    credit_column: profile.credit_column,
+    date_format: profile.date_format,
+    invert_amounts: profile.invert_amounts,
+  };
+}
+
+export function StatementImport({ selectedMonth, members, existingExpenses, rules, onImport }: StatementImportProps) {
+  const { profiles, error: profilesError, saveProfile, deleteProfile } = useImportProfiles();
+  const defaultMember = members[0]?.name ?? '';
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [profileId, setProfileId] = useState(() => localStorage.getItem(LAST_PROFILE_KEY) ?? '');
+  const [targetMonth, setTargetMonth] = useState(selectedMonth);
+  const [fileName, setFileName] = useState('');
+  const [fileText, setFileText] = useState('');
+  const [format, setFormat] = useState<StatementFormat>('csv');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<StatementColumnMapping | null>(null);
+  const [member, setMember] = useState<FamilyMember>(defaultMember);
+  const [category, setCategory] = useState<ExpenseCategory>('Other');
+  const [profileName, setProfileName] = useState('');
+  const [markPaid, setMarkPaid] = useState(true);
+  const [preview, setPreview] = useState<PreviewRow[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const selectedProfile = profiles.find((p) => p.id === profileId) ?? null;
+
+  const close = () => {
+    setIsOpen(false);
+    setStep('upload');
+    setFileName('');
+    setFileText('');
+    setRows([]);
+    setMapping(null);
+    setPreview([]);
+    setParseError(null);
+  };
+
+  const open = () => {
+    setTargetMonth(selectedMonth);
+    setIsOpen(true);
+  };
+
+  /** Read transactions from the loaded file with the current mapping */
+  const readTransactions = (
+    text: string,
+    fileFormat: StatementFormat,
+    csvRows: string[][],
+    csvMapping: StatementColumnMapping | null
+  ): StatementTransaction[] => {
+    if (fileFormat === 'ofx') return parseOfx(text);
+    if (fileFormat === 'qif') return parseQif(text, csvMapping?.date_format ?? 'DMY');
+    return csvMapping ? applyColumnMapping(csvRows, csvMapping) : [];
+  };
+
+  const buildPreview = (
+    transactions: StatementTransaction[],
+    rowMember: FamilyMember,
+    rowCategory: ExpenseCategory
+  ) => {
+    const existing = targetMonth === selectedMonth ? existingExpenses : [];
+    const isDuplicate = (t: StatementTransaction) =>
+      existing.some(
+        (e) => e.description.toLowerCase() === t.description.toLowerCase() && Number(e.amount) === Math.abs(t.amount)
+      );
+
+    setPreview(
+      transactions.map((transaction, key) => {
+        let note: string | null = null;
+        if (transaction.amount >= 0) note = 'Money in';
+        else if (!transaction.date.startsWith(targetMonth)) note = 'Other month';
+        else if (isDuplicate(transaction)) note = 'Possible duplicate';
+
+        const rule = findMatchingRule(rules, transaction.description, Math.abs(transaction.amount));
+        return {
+          key,
+          transaction,
+          selected: note === null,
+          category: rule?.category ?? rowCategory,
+          member: rule?.member ?? rowMember,
+          is_shared: rule?.is_shared ?? false,
+          balance_account_id: rule?.balance_account_id ?? null,
+          rulePattern: rule?.pattern ?? null,
+          note,
+        };
+      })
+    );
+    setStep('preview');
+  };
+
+  const handleFile = async (file: File) => {
+    setParseError(null);
+    const text = await file.text();
+    const fileFormat = detectStatementFormat(file.name, text);
+    setFileName(file.name);
+    setFileText(text);
+    setFormat(fileFormat);
+
+    const rowMember = selectedProfile?.default_member ?? defaultMember;
+    const rowCategory = selectedProfile?.default_category ?? 'Other';
+    setMember(rowMember);
+    setCategory(rowCategory);
+    setProfileName(selectedProfile?.name ?? '');
+
+    if (fileFormat === 'ofx') {
+      const transactions = parseOfx(text);
+      if (transactions.length === 0) {
+        setParseError('No transactions found in this OFX file.');
+        return;
+      }
+      buildPreview(transactions, rowMember, rowCategory);
+      return;
+    }
+
+    const delimiter = selectedProfile?.delimiter ?? detectDelimiter(text);
+    const csvRows = fileFormat === 'csv' ? parseCsv(text, delimiter) : [];
+    const csvMapping = selectedProfile ? toMapping(selectedProfile) : guessColumnMapping(csvRows, delimiter);
+    setRows(csvRows);
+    setMapping(csvMapping);
+
+    // A saved profile skips straight to the preview
+    const transactions = readTransactions(text, fileFormat, csvRows, csvMapping);
+    if (selectedProfile && transactions.length > 0) {
+      buildPreview(transactions, rowMember, rowCategory);
+    } else {
+      setStep('mapping');
+    }
+  };
+
+  const updateMapping = (changes: Partial<StatementColumnMapping>) => {
+    if (!mapping) return;
+    const next = { ...mapping, ...changes };
+    if (changes.delimiter !== undefined) {
+      setRows(parseCsv(fileText, changes.delimiter));
+    }
+    setMapping(next);
+  };
+
+  const handleSaveProfile = async () => {
+    if (!mapping || !profileName.trim()) return;
+    const success = await saveProfile({
+      ...mapping,
+      name: profileName.trim(),
+      default_member: member || null,
+      default_category: category,
+    });
+    if (success) {
+      alert(`Saved "${profileName.trim()}". Pick it next time to skip this step.`);
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    if (selectedProfile && confirm(`Delete the "${selectedProfile.name}" import profile?`)) {
+      if (await deleteProfile(selectedProfile.id)) {
+        setProfileId('');
+        localStorage.removeItem(LAST_PROFILE_KEY);
+      }
+    }
+  };
+
+  const handleProfileChange = (id: string) => {
+    setProfileId(id);
+    if (id) {
+      localStorage.setItem(LAST_PROFILE_KEY, id);
+    } else {
+      localStorage.removeItem(LAST_PROFILE_KEY);
+    }
+  };
+
+  const updateRow = (key: number, changes: Partial<PreviewRow>) => {
+    setPreview(preview.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const selectedRows = preview.filter((row) => row.selected);
+  const selectedTotal = selectedRows.reduce((sum, row) => sum + Math.abs(row.transaction.amount), 0);
+
+  const handleImport = async () => {
+    if (selectedRows.length === 0) return;
+
+    setSubmitting(true);
+    const success = await onImport(
+      selectedRows.map((row) => ({
+        member: row.member,
+        category: row.category,
+        description: row.transaction.description,
+        amount: Math.abs(row.transaction.amount),
+        is_recurring: false,
+        is_shared: row.is_shared,
+        is_paid: markPaid,
+        include_vat: false,
+        note: `Imported from ${fileName} (${row.transaction.date})`,
+        balance_account_id: row.balance_account_id,
+      })),
+      targetMonth
+    );
+    setSubmitting(false);
+
+    if (success) {
+      close();
+    } else {
+      alert('Import failed. Please try again.');
+    }
+  };
+
+  const columnOptions = (rows[mapping?.header_row ?? -1] ?? rows[0] ?? []).map((heading, index) => ({
+    value: index,
+    label: mapping?.header_row !== null && heading ? `${index + 1}: ${heading}` : `Column ${index + 1}`,
+  }));
+
+  const sampleTransactions = step === 'mapping'
+    ? readTransactions(fileText, format, rows, mapping).slice(0, 5)
+    : [];
+
+  const renderColumnSelect = (
+    label: string,
+    value: number | null,
+    onChange: (value: number | null) => void,
+    optional = false
+  ) => (
+    <div className="quick-add-row">
+      <label>{label}</label>
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+      >
+        {optional && <option value="">— None —</option>}
+        {columnOptions.map((option) => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <>
+      <div className="import-bar">
+        <span>Import a bank statement (CSV, OFX or QIF)</span>
+        <button className="btn-add" onClick={open}>Import Statement</button>
+      </div>
+
+      {isOpen && (
+        <div className="quick-add-backdrop" onClick={close}>
+          <div className="quick-add-modal import-modal" onClick={(e) => e.stopPropagation()}>
+            <div className="quick-add-header">
+              <h3>
+                {step === 'upload' && 'Import Bank Statement'}
+                {step === 'mapping' && 'Map Columns'}
+                {step === 'preview' && `Preview — ${fileName}`}
+              </h3>
+              <button className="quick-add-close" onClick={close}>
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M18 6L6 18M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="quick-add-form import-body">
+              {(parseError || profilesError) && (
+                <div className="section-error">{parseError || profilesError}</div>
+              )}
+
+              {step === 'upload' && (
+                <>
+                  <div className="quick-add-row">
+                    <label>Bank profile</label>
+                    <div className="import-profile-row">
+                      <select value={profileId} onChange={(e) => handleProfileChange(e.target.value)}>
+                        <option value="">— New mapping —</option>
+                        {profiles.map((p) => (
+                          <option key={p.id} value={p.id}>{p.name}</option>
+                        ))}
+                      </select>
+                      {selectedProfile && (
+                        <button type="button" className="btn-delete" onClick={handleDeleteProfile} title="Delete profile">
+                          <span className="btn-icon-text">Delete</span>
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="quick-add-row">
+                    <label>Import into month</label>
+                    <input type="month" value={targetMonth} onChange={(e) => setTargetMonth(e.target.value)} />
+                  </div>
+
+                  <div className="quick-add-row">
+                    <label>Statement file</label>
+                    <input
+                      type="file"
+                      accept=".csv,.txt,.ofx,.qfx,.qif"
+                      onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+                    />
+                  </div>
+                </>
+              )}
+
+              {step === 'mapping' && mapping && (
+                <>
+                  {format === 'csv' && (
+                    <>
+                      <div className="import-mapping-grid">
+                        <div className="quick-add-row">
+                          <label>Delimiter</label>
+                          <select value={mapping.delimiter} onChange={(e) => updateMapping({ delimiter: e.target.value })}>
+                            {Object.entries(DELIMITER_LABELS).map(([value, label]) => (
+                              <option key={label} value={value}>{label}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <div className="quick-add-row">
+                          <label>Headings on row</label>
+                          <select
+                            value={mapping.header_row ?? ''}
+                            onChange={(e) => updateMapping({ header_row: e.target.value === '' ? null : Number(e.target.value) })}
+                          >
+                            <option value="">No headings</option>
+                            {rows.slice(0, 15).map((row, index) => (
+                              <option key={index} value={index}>
+                                {index + 1}: {row.slice(0, 3).join(', ')}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        {renderColumnSelect('Date', mapping.date_column, (v) => updateMapping({ date_column: v ?? 0 }))}
+                        {renderColumnSelect('Description', mapping.description_column, (v) => updateMapping({ description_column: v ?? 0 }))}
+                        {renderColumnSelect('Amount', mapping.amount_column, (v) => updateMapping({ amount_column: v }), true)}
+                        {mapping.amount_column === null && (
+                          <>
+                            {renderColumnSelect('Money out', mapping.debit_column, (v) => updateMapping({ debit_column: v }), true)}
+                            {renderColumnSelect('Money in', mapping.credit_column, (v) => updateMapping({ credit_column: v }), true)}
+                          </>
+                        )}
+                      </div>
+                      <label className="option-checkbox">
+                        <input
+                          type="checkbox"
+                          checked={mapping.invert_amounts}
+                          onChange={(e) => updateMapping({ invert_amounts: e.target.checked })}
+                        />
+                        <span>Money out is shown as a positive amount</span>
+                      </label>
+                    </>
+                  )}
+
+                  <div className="import-mapping-grid">
+                    <div className="quick-add-row">
+                      <label>Date order</label>
+                      <select
+                        value={mapping.date_format}
+                        onChange={(e) => updateMapping({ date_format: e.target.value as StatementDateFormat })}
+                      >
+                        {(Object.keys(DATE_FORMAT_LABELS) as StatementDateFormat[]).map((f) => (
+                          <option key={f} value={f}>{DATE_FORMAT_LABELS[f]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="quick-add-row">
+                      <label>Default member</label>
+                      <select value={member} onChange={(e) => setMember(e.target.value)}>
+                        {members.map((m) => (
+                          <option key={m.id} value={m.name}>{m.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="quick-add-row">
+                      <label>Default category</label>
+                      <select value={category} onChange={(e) => setCategory(e.target.value as ExpenseCategory)}>
+                        {EXPENSE_CATEGORIES.map((cat) => (
+                          <option key={cat} value={cat}>{cat}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  <div className="import-sample">
+                    <h4>First rows</h4>
+                    {sampleTransactions.length === 0 ? (
+                      <p className="no-entries">No transactions match this mapping yet.</p>
+                    ) : (
+                      <ul className="entries-list">
+                        {sampleTransactions.map((t, index) => (
+                          <li key={index} className="entry-item">
+                            <div className="entry-info">
+                              <span className="import-date">{t.date}</span>
+                              <span className="entry-description">{t.description}</span>
+                            </div>
+                            <span className={`entry-amount ${t.amount < 0 ? 'money-out' : 'money-in'}`}>
+                              {formatCurrency(t.amount)}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  <div className="quick-add-row">
+                    <label>Save as profile</label>
+                    <div className="import-profile-row">
+                      <input
+                        type="text"
+                        placeholder="e.g. FNB Cheque"
+                        value={profileName}
+                        onChange={(e) => setProfileName(e.target.value)}
+                      />
+                      <button type="button" className="btn-secondary" onClick={handleSaveProfile} disabled={!profileName.trim()}>
+                        Save
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="quick-add-actions">
+                    <button type="button" className="btn-secondary" onClick={() => setStep('upload')}>
+                      Back
+                    </button>
+                    <button
+                      type="button"
+                      className="btn-primary"
+                      disabled={sampleTransactions.length === 0}
+                      onClick={() => buildPreview(readTransactions(fileText, format, rows, mapping), member, category)}
+                    >
+                      Preview
+                    </button>
+                  </div>
+                </>
+              )}
+
+              {step === 'preview' && (
+                <>
+                  <div className="import-selection-actions">
+                    <button
+                      type="button"
+                      className="btn-secondary"
+                      onClick={() => setPreview(preview.map((row) => ({ ...row, selected: row.transaction.amount < 0 })))}
+                    >
+                      Select All Money Out
+                    </button>
+                    <button
+                      type="button"
+                      className="btn-secondary"
+                      onClick={() => setPreview(preview.map((row) => ({ ...row, selected: false })))}
+                    >
+                      Deselect All
+                    </button>
+                    <label className="option-checkbox">
+                      <input type="checkbox" checked={markPaid} onChange={(e) => setMarkPaid(e.target.checked)} />
+                      <span>Mark as paid</span>
+                    </label>
+                  </div>
+
+                  <ul className="entries-list import-preview">
+                    {preview.map((row) => (
+                      <li key={row.key} className={`entry-item ${row.selected ? '' : 'deselected'}`}>
+                        <input
+                          type="checkbox"
+                          checked={row.selected}
+                          onChange={(e) => updateRow(row.key, { selected: e.target.checked })}
+                        />
+                        <div className="entry-info">
+                          <span className="import-date">{row.transaction.date}</span>
+                          <span className="entry-description">{row.transaction.description}</span>
+                          {row.note && <span className="import-note">{row.note}</span>}
+                          {row.rulePattern && (
+                            <span className="rule-meta" title="Filled in by a categorisation rule">
+                              {row.rulePattern}{row.is_shared ? ' · shared' : ''}
+                            </span>
+                          )}
+                        </div>
+                        <select
+                          value={row.category}
+                          onChange={(e) => updateRow(row.key, { category: e.target.value as ExpenseCategory })}
+                        >
+                          {EXPENSE_CATEGORIES.map((cat) => (
+                            <option key={cat} value={cat}>{cat}</option>
+                          ))}
+                        </select>
+                        <select value={row.member} onChange={(e) => updateRow(row.key, { member: e.target.value })}>
+                          {members.map((m) => (
+                            <option key={m.id} value={m.name}>{m.name}</option>
+                          ))}
+                        </select>
+                        <span className={`entry-amount ${row.transaction.amount < 0 ? 'money-out' : 'money-in'}`}>
+                          {formatCurrency(row.transaction.amount)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+
+                  <div className="quick-add-actions">
+                    <button type="button" className="btn-secondary" onClick={() => setStep(format === 'ofx' ? 'upload' : 'mapping')}>
+                      Back
+                    </button>
+                    <button
+                      type="button"
+                      className="btn-primary"
+                      onClick={handleImport}
+                      disabled={submitting || selectedRows.length === 0}
+                    >
+                      {submitting
+                        ? 'Importing...'
+                        : `Import ${selectedRows.length} Expense${selectedRows.length !== 1 ? 's' : ''} (${formatCurrency(selectedTotal)})`}
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
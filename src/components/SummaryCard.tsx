@@ -1,7 +1,8 @@
-import type { HouseholdSummary } from '../types/budget';
+import type { HouseholdMember, HouseholdSummary } from '../types/budget';
 
 interface SummaryCardProps {
   summary: HouseholdSummary;
+  members: HouseholdMember[];
   compact?: boolean;
 }
 
@@ -13,8 +14,10 @@ function formatCurrency(amount: number): string {
   }).format(amount);
 }
 
-export function SummaryCard({ summary, compact = false }: SummaryCardProps) {
-  const { nikkieSummary, heinSummary } = summary;
+export function SummaryCard({ summary, members, compact = false }: SummaryCardProps) {
+  const memberSummaries = members
+    .map((m) => ({ member: m, memberSummary: summary.memberSummaries[m.name] }))
+    .filter(({ memberSummary }) => memberSummary !== undefined);
 
   // Compact view for sidebar
   if (compact) {
@@ -43,18 +46,18 @@ export function SummaryCard({ summary, compact = false }: SummaryCardProps) {
         </div>
 
         <div className="compact-members">
-          <div className="compact-member nikkie">
-            <span className="member-name">Nikkie</span>
-            <span className={nikkieSummary.remainingBalance >= 0 ? 'positive' : 'negative'}>
-              {formatCurrency(nikkieSummary.remainingBalance)}
-            </span>
-          </div>
-          <div className="compact-member hein">
-            <span className="member-name">Hein</span>
-            <span className={heinSummary.remainingBalance >= 0 ? 'positive' : 'negative'}>
-              {formatCurrency(heinSummary.remainingBalance)}
-            </span>
-          </div>
+          {memberSummaries.map(({ member, memberSummary }) => (
+            <div
+              key={member.id}
+              className="compact-member"
+              style={{ '--member-color': member.color } as React.CSSProperties}
+            >
+              <span className="member-name">{member.name}</span>
+              <span className={memberSummary.remainingBalance >= 0 ? 'positive' : 'negative'}>
+                {formatCurrency(memberSummary.remainingBalance)}
+              </span>
+            </div>
+          ))}
         </div>
       </div>
     );
@@ -101,79 +104,53 @@ export function SummaryCard({ summary, compact = false }: SummaryCardProps) {
 
       {/* Individual Summaries */}
       <div className="individual-summaries">
-        {/* Nikkie's Summary */}
-        <div className="summary-card individual nikkie">
-          <h3>Nikkie</h3>
-          <div className="summary-details">
-            <div className="detail-row">
-              <span>Gross Income:</span>
-              <span className="income">{formatCurrency(nikkieSummary.grossIncome)}</span>
-            </div>
-            <div className="detail-row">
-              <span>Other Income:</span>
-              <span className="income">{formatCurrency(nikkieSummary.otherIncome)}</span>
-            </div>
-            <div className="detail-row">
-              <span>Taxes:</span>
-              <span className="taxes">{formatCurrency(nikkieSummary.totalTaxes)}</span>
-            </div>
-            <div className="detail-row">
-              <span>Net Income:</span>
-              <span>{formatCurrency(nikkieSummary.netIncome)}</span>
-            </div>
-            <div className="detail-row">
-              <span>Expenses:</span>
-              <span className="expenses">{formatCurrency(nikkieSummary.totalExpenses)}</span>
-            </div>
-            <div className="detail-row">
-              <span>Unnecessary:</span>
-              <span className="expenses">{formatCurrency(nikkieSummary.totalUnnecessaryExpenses)}</span>
-            </div>
-            <div className="detail-row highlight">
-              <span>Balance:</span>
-              <span className={nikkieSummary.remainingBalance >= 0 ? 'positive' : 'negative'}>
-                {formatCurrency(nikkieSummary.remainingBalance)}
-              </span>
+        {memberSummaries.map(({ member, memberSummary }) => (
+          <div
+            key={member.id}
+            className="summary-card individual"
+            style={{ '--member-color': member.color } as React.CSSProperties}
+          >
+            <h3>{member.name}</h3>
+            <div className="summary-details">
+              <div className="detail-row">
+                <span>Gross Income:</span>
+                <span className="income">{formatCurrency(memberSummary.grossIncome)}</span>
+              </div>
+              <div className="detail-row">
+                <span>Other Income:</span>
+                <span className="income">{formatCurrency(memberSummary.otherIncome)}</span>
+              </div>
+              <div className="detail-row">
+                <span>Taxes:</span>
+                <span className="taxes">{formatCurrency(memberSummary.totalTaxes)}</span>
+              </div>
+              <div className="detail-row">
+                <span>Net Income:</span>
+                <span>{formatCurrency(memberSummary.netIncome)}</span>
+              </div>
+              <div className="detail-row">
+                <span>Expenses:</span>
+                <span className="expenses">{formatCurrency(memberSummary.totalExpenses)}</span>
+              </div>
+              {(memberSummary.sharedShare > 0 || memberSummary.sharedPaid > 0) && (
+                <div className="detail-row">
+                  <span>Shared (Fair Share):</span>
+                  <span className="expenses">{formatCurrency(memberSummary.sharedShare)}</span>
+                </div>
+              )}
+              <div className="detail-row">
+                <span>Unnecessary:</span>
+                <span className="expenses">{formatCurrency(memberSummary.totalUnnecessaryExpenses)}</span>
+              </div>
+              <div className="detail-row highlight">
+                <span>Balance:</span>
+                <span className={memberSummary.remainingBalance >= 0 ? 'positive' : 'negative'}>
+                  {formatCurrency(memberSummary.remainingBalance)}
+                </span>
+              </div>
             </div>
           </div>
-        </div>
-
-        {/* Hein's Summary */}
-        <div className="summary-card individual hein">
-          <h3>Hein</h3>
-          <div className="summary-details">
-            <div className="detail-row">
-              <span>Gross Income:</span>
-              <span className="income">{formatCurrency(heinSummary.grossIncome)}</span>
-            </div>
-            <div className="detail-row">
-              <span>Other Income:</span>
-              <span className="income">{formatCurrency(heinSummary.otherIncome)}</span>
-            </div>
-            <div className="detail-row">
-              <span>Taxes:</span>
-              <span className="taxes">{formatCurrency(heinSummary.totalTaxes)}</span>
-            </div>
-            <div className="detail-row">
-              <span>Net Income:</span>
-              <span>{formatCurrency(heinSummary.netIncome)}</span>
-            </div>
-            <div className="detail-row">
-              <span>Expenses:</span>
-              <span className="expenses">{formatCurrency(heinSummary.totalExpenses)}</span>
-            </div>
-            <div className="detail-row">
-              <span>Unnecessary:</span>
-              <span className="expenses">{formatCurrency(heinSummary.totalUnnecessaryExpenses)}</span>
-            </div>
-            <div className="detail-row highlight">
-              <span>Balance:</span>
-              <span className={heinSummary.remainingBalance >= 0 ? 'positive' : 'negative'}>
-                {formatCurrency(heinSummary.remainingBalance)}
-              </span>
-            </div>
-          </div>
-        </div>
+        ))}
       </div>
     </div>
   );
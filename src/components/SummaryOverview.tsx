@@ -1,5 +1,15 @@
-import { calculateCurrentBalance, getCurrentBalanceMonth } from '../hooks/useBalances';
-import type { BalanceAccount, Expense, HouseholdSummary } from '../types/budget';
+import { getCurrentBalanceMonth } from '../hooks/useBalances';
+import { scheduledDeduction } from '../lib/amortisation';
+import { ledgerBalance, summariseLedger } from '../lib/balanceLedger';
+import { formatVatRate, getVatBreakdown } from '../lib/vat';
+import type {
+  BalanceAccount,
+  BalanceDeduction,
+  BalanceHistory,
+  Expense,
+  HouseholdMember,
+  HouseholdSummary,
+} from '../types/budget';
 
 /** Format currency in ZAR */
 function formatCurrency(amount: number): string {
@@ -12,21 +22,29 @@ function formatCurrency(amount: number): string {
 
 interface SummaryOverviewProps {
   summary: HouseholdSummary;
+  members: HouseholdMember[];
   accounts: BalanceAccount[];
-  paidExpenses: Expense[];
+  expenses: Expense[]; // The selected month's expenses
+  history: BalanceHistory[]; // The balance ledger
+  deductions: BalanceDeduction[];
   selectedMonth: string;
 }
 
-export function SummaryOverview({ summary, accounts, paidExpenses, selectedMonth }: SummaryOverviewProps) {
+export function SummaryOverview({
+  summary,
+  members,
+  accounts,
+  expenses,
+  history,
+  deductions,
+  selectedMonth,
+}: SummaryOverviewProps) {
   const currentBalanceMonth = getCurrentBalanceMonth();
+  const vatBreakdown = getVatBreakdown(expenses);
 
-  // Calculate actual balance based on paid expenses up to a specific month
-  const getActualBalanceForMonth = (account: BalanceAccount, month: string): number => {
-    const totalPaid = paidExpenses
-      .filter(e => e.balance_account_id === account.id && e.is_paid && e.month <= month)
-      .reduce((sum, e) => sum + Number(e.amount), 0);
-    return Math.max(0, account.initial_balance - totalPaid);
-  };
+  // Balance in the ledger at the end of a month
+  const getActualBalanceForMonth = (account: BalanceAccount, month: string): number =>
+    ledgerBalance(account, history, month);
 
   // Calculate totals for balance accounts
   const totalInitialBalance = accounts.reduce((sum, acc) => sum + Number(acc.initial_balance), 0);
@@ -37,17 +55,9 @@ export function SummaryOverview({ summary, accounts, paidExpenses, selectedMonth
     ? ((totalPaidOff / totalInitialBalance) * 100) 
     : 0;
 
-  // Get months remaining estimate (average across all accounts)
-  const getMonthsRemaining = (account: BalanceAccount): number => {
-    if (account.monthly_deduction <= 0) return Infinity;
-    const currentBalance = calculateCurrentBalance(
-      account.initial_balance,
-      account.monthly_deduction,
-      account.start_month,
-      currentBalanceMonth
-    );
-    return Math.ceil(currentBalance / account.monthly_deduction);
-  };
+  // Months left going on from the ledger balance - Infinity when it never pays off
+  const getMonthsRemaining = (account: BalanceAccount): number =>
+    summariseLedger(account, history, deductions, currentBalanceMonth).monthsRemaining ?? Infinity;
 
   // Format month for display
   const formatMonth = (month: string) => {
@@ -82,6 +92,12 @@ export function SummaryOverview({ summary, accounts, paidExpenses, selectedMonth
                 <span className="stat-label">Total Expenses</span>
                 <span className="stat-value expense">{formatCurrency(summary.totalExpenses)}</span>
               </div>
+              {summary.totalVat > 0 && (
+                <div className="stat-row">
+                  <span className="stat-label">VAT Included</span>
+                  <span className="stat-value expense">{formatCurrency(summary.totalVat)}</span>
+                </div>
+              )}
               <div className="stat-row">
                 <span className="stat-label">Total Taxes</span>
                 <span className="stat-value tax">{formatCurrency(summary.totalTaxes)}</span>
@@ -99,61 +115,93 @@ export function SummaryOverview({ summary, accounts, paidExpenses, selectedMonth
             </div>
           </div>
 
-          {/* Nikkie's Summary */}
-          <div className="overview-card nikkie">
-            <div className="card-header">
-              <span className="card-label">Nikkie</span>
-            </div>
-            <div className="card-stats">
-              <div className="stat-row">
-                <span className="stat-label">Income</span>
-                <span className="stat-value income">{formatCurrency(summary.nikkieSummary.totalIncome)}</span>
-              </div>
-              <div className="stat-row">
-                <span className="stat-label">Expenses</span>
-                <span className="stat-value expense">{formatCurrency(summary.nikkieSummary.totalExpenses)}</span>
-              </div>
-              <div className="stat-row">
-                <span className="stat-label">Taxes</span>
-                <span className="stat-value tax">{formatCurrency(summary.nikkieSummary.totalTaxes)}</span>
-              </div>
-              <div className="stat-row highlight">
-                <span className="stat-label">Net</span>
-                <span className={`stat-value ${summary.nikkieSummary.remainingBalance >= 0 ? 'positive' : 'negative'}`}>
-                  {formatCurrency(summary.nikkieSummary.remainingBalance)}
-                </span>
-              </div>
-            </div>
-          </div>
+          {/* Member Summaries */}
+          {members
+            .filter((member) => summary.memberSummaries[member.name])
+            .map((member) => {
+              const memberSummary = summary.memberSummaries[member.name];
+              return (
+                <div
+                  key={member.id}
+                  className="overview-card member"
+                  style={{ '--member-color': member.color } as React.CSSProperties}
+                >
+                  <div className="card-header">
+                    <span className="card-label">{member.name}</span>
+                  </div>
+                  <div className="card-stats">
+                    <div className="stat-row">
+                      <span className="stat-label">Income</span>
+                      <span className="stat-value income">{formatCurrency(memberSummary.totalIncome)}</span>
+                    </div>
+                    <div className="stat-row">
+                      <span className="stat-label">Expenses</span>
+                      <span className="stat-value expense">{formatCurrency(memberSummary.totalExpenses)}</span>
+                    </div>
+                    {(memberSummary.sharedShare > 0 || memberSummary.sharedPaid > 0) && (
+                      <div className="stat-row">
+                        <span className="stat-label">Fair Share of Shared</span>
+                        <span className="stat-value expense">{formatCurrency(memberSummary.sharedShare)}</span>
+                      </div>
+                    )}
+                    <div className="stat-row">
+                      <span className="stat-label">Taxes</span>
+                      <span className="stat-value tax">{formatCurrency(memberSummary.totalTaxes)}</span>
+                    </div>
+                    <div className="stat-row highlight">
+                      <span className="stat-label">Net</span>
+                      <span className={`stat-value ${memberSummary.remainingBalance >= 0 ? 'positive' : 'negative'}`}>
+                        {formatCurrency(memberSummary.remainingBalance)}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+        </div>
+      </section>
 
-          {/* Hein's Summary */}
-          <div className="overview-card hein">
-            <div className="card-header">
-              <span className="card-label">Hein</span>
-            </div>
-            <div className="card-stats">
-              <div className="stat-row">
-                <span className="stat-label">Income</span>
-                <span className="stat-value income">{formatCurrency(summary.heinSummary.totalIncome)}</span>
+      {/* VAT Paid */}
+      {vatBreakdown.total > 0 && (
+        <section className="overview-section">
+          <h3>VAT Paid</h3>
+          <p className="section-description">
+            {formatCurrency(vatBreakdown.total)} VAT at {formatVatRate(selectedMonth)} on expenses marked +VAT in {formatMonth(selectedMonth)}
+          </p>
+          <div className="overview-cards">
+            <div className="overview-card">
+              <div className="card-header">
+                <span className="card-label">By Category</span>
               </div>
-              <div className="stat-row">
-                <span className="stat-label">Expenses</span>
-                <span className="stat-value expense">{formatCurrency(summary.heinSummary.totalExpenses)}</span>
+              <div className="card-stats">
+                {Object.entries(vatBreakdown.byCategory)
+                  .sort(([, a], [, b]) => b - a)
+                  .map(([category, vat]) => (
+                    <div key={category} className="stat-row">
+                      <span className="stat-label">{category}</span>
+                      <span className="stat-value expense">{formatCurrency(vat)}</span>
+                    </div>
+                  ))}
               </div>
-              <div className="stat-row">
-                <span className="stat-label">Taxes</span>
-                <span className="stat-value tax">{formatCurrency(summary.heinSummary.totalTaxes)}</span>
+            </div>
+            <div className="overview-card">
+              <div className="card-header">
+                <span className="card-label">By Member</span>
               </div>
-              <div className="stat-row highlight">
-                <span className="stat-label">Net</span>
-                <span className={`stat-value ${summary.heinSummary.remainingBalance >= 0 ? 'positive' : 'negative'}`}>
-                  {formatCurrency(summary.heinSummary.remainingBalance)}
-                </span>
+              <div className="card-stats">
+                {members
+                  .filter((member) => vatBreakdown.byMember[member.name])
+                  .map((member) => (
+                    <div key={member.id} className="stat-row">
+                      <span className="stat-label">{member.name}</span>
+                      <span className="stat-value expense">{formatCurrency(vatBreakdown.byMember[member.name])}</span>
+                    </div>
+                  ))}
               </div>
             </div>
           </div>
-        </div>
-      </section>
+        </section>
+      )}
 
       {/* Balance Accounts Summary */}
       {accounts.length > 0 && (
@@ -200,7 +248,7 @@ export function SummaryOverview({ summary, accounts, paidExpenses, selectedMonth
                   <div className="balance-account-info">
                     <span className="balance-account-name">{account.name}</span>
                     <span className="balance-account-monthly">
-                      {formatCurrency(account.monthly_deduction)}/mo
+                      {formatCurrency(scheduledDeduction(account, deductions, currentBalanceMonth))}/mo
                     </span>
                   </div>
                   <div className="balance-account-progress">
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import type { OfflineTable, QueuedMutation } from '../types/budget';
+
+interface SyncStatusProps {
+  queuedChanges: QueuedMutation[];
+  isOnline: boolean;
+  isSyncing: boolean;
+  onSync: () => void;
+  onResolve: (mutation: QueuedMutation, keepMine: boolean) => Promise<boolean>;
+}
+
+const TABLE_LABELS: Record<OfflineTable, string> = {
+  incomes: 'Income',
+  taxes: 'Tax',
+  expenses: 'Expense',
+  unnecessary_expenses: 'Unnecessary expense',
+};
+
+const OP_LABELS = { insert: 'added', update: 'edited', delete: 'deleted' } as const;
+
+export function SyncStatus({ queuedChanges, isOnline, isSyncing, onSync, onResolve }: SyncStatusProps) {
+  const [resolvingId, setResolvingId] = useState<number | null>(null);
+
+  const conflicts = queuedChanges.filter((m) => m.conflict);
+  const waiting = queuedChanges.length - conflicts.length;
+
+  if (isOnline && queuedChanges.length === 0) return null;
+
+  const handleResolve = async (mutation: QueuedMutation, keepMine: boolean) => {
+    if (!keepMine && !confirm('Discard your change and keep the version from the other device?')) return;
+
+    setResolvingId(mutation.id ?? null);
+    if (!(await onResolve(mutation, keepMine)) && keepMine) {
+      alert("Your version couldn't be saved yet - check your connection and try again.");
+    }
+    setResolvingId(null);
+  };
+
+  const plural = (n: number) => `${n} change${n === 1 ? '' : 's'}`;
+
+  return (
+    <div className={`sync-status ${isOnline ? '' : 'offline'}`}>
+      <div className="sync-status-bar">
+        <span className="sync-status-text">
+          {!isOnline
+            ? `Offline${waiting > 0 ? ` - ${plural(waiting)} saved on this device` : ' - changes will be saved on this device'}`
+            : isSyncing
+              ? `Syncing ${plural(waiting)}...`
+              : waiting > 0
+                ? `${plural(waiting)} waiting to sync`
+                : `${plural(conflicts.length)} need${conflicts.length === 1 ? 's' : ''} your attention`}
+        </span>
+        {isOnline && waiting > 0 && (
+          <button className="btn-link" onClick={onSync} disabled={isSyncing}>
+            Sync now
+          </button>
+        )}
+      </div>
+
+      {conflicts.length > 0 && (
+        <ul className="sync-conflicts">
+          {conflicts.map((mutation) => (
+            <li key={mutation.id} className="sync-conflict">
+              <div className="entry-info">
+                <span className="entry-description">
+                  {TABLE_LABELS[mutation.table]} {OP_LABELS[mutation.op]} here
+                  {typeof mutation.data.description === 'string' && `: ${mutation.data.description}`}
+                </span>
+                <span className="rule-meta">{mutation.conflict}</span>
+              </div>
+              <div className="entry-actions">
+                <button
+                  className="btn-secondary"
+                  onClick={() => handleResolve(mutation, true)}
+                  disabled={resolvingId !== null || !isOnline}
+                >
+                  Keep Mine
+                </button>
+                <button
+                  className="btn-secondary"
+                  onClick={() => handleResolve(mutation, false)}
+                  disabled={resolvingId !== null}
+                >
+                  Discard Mine
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import type { FamilyMember, HouseholdMember, TaxProfile, TaxProfileFormData } from '../types/budget';
+
+interface TaxProfilesProps {
+  profiles: TaxProfile[];
+  members: HouseholdMember[];
+  error: string | null;
+  onSave: (data: TaxProfileFormData) => Promise<boolean>;
+}
+
+/** Format currency for display in ZAR */
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+  }).format(amount);
+}
+
+/** Summarise a profile, e.g. "Born 1980-04-12 · 3 on medical aid · R2 500,00 retirement" */
+function describeProfile(profile: TaxProfile | undefined): string {
+  if (!profile) return 'No details yet - PAYE uses the primary rebate only';
+
+  const parts = [
+    profile.birth_date ? `Born ${profile.birth_date}` : 'No birth date',
+    profile.medical_scheme_members > 0 ? `${profile.medical_scheme_members} on medical aid` : 'No medical aid',
+  ];
+  if (Number(profile.retirement_contribution) > 0) {
+    parts.push(`${formatCurrency(Number(profile.retirement_contribution))} retirement`);
+  }
+  if (!profile.uif_contributor) parts.push('No UIF');
+  return parts.join(' · ');
+}
+
+export function TaxProfiles({ profiles, members, error, onSave }: TaxProfilesProps) {
+  const [editingMember, setEditingMember] = useState<FamilyMember | null>(null);
+  const [birthDate, setBirthDate] = useState('');
+  const [schemeMembers, setSchemeMembers] = useState('0');
+  const [retirement, setRetirement] = useState('');
+  const [uifContributor, setUifContributor] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleEdit = (member: FamilyMember) => {
+    const profile = profiles.find((p) => p.member === member);
+    setEditingMember(member);
+    setBirthDate(profile?.birth_date ?? '');
+    setSchemeMembers(String(profile?.medical_scheme_members ?? 0));
+    setRetirement(Number(profile?.retirement_contribution) > 0 ? String(profile?.retirement_contribution) : '');
+    setUifContributor(profile?.uif_contributor ?? true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingMember) return;
+
+    setSubmitting(true);
+    const success = await onSave({
+      member: editingMember,
+      birth_date: birthDate || null,
+      medical_scheme_members: Math.max(0, parseInt(schemeMembers) || 0),
+      retirement_contribution: retirement ? parseFloat(retirement) : 0,
+      uif_contributor: uifContributor,
+    });
+    if (success) {
+      setEditingMember(null);
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="section tax-profiles-section">
+      <div className="section-header">
+        <h2>Tax Details</h2>
+      </div>
+
+      <p className="section-description">
+        What the PAYE calculator needs besides salary: birth dates for the age rebates, how many people each member's
+        medical aid covers, and their monthly retirement fund contributions.
+      </p>
+
+      {error && <div className="section-error">{error}</div>}
+
+      {editingMember && (
+        <form className="add-form" onSubmit={handleSubmit}>
+          <div className="form-header">
+            <span className="form-title">{editingMember}'s Tax Details</span>
+            <button type="button" className="btn-cancel" onClick={() => setEditingMember(null)}>
+              Cancel
+            </button>
+          </div>
+          <div className="form-row">
+            <label className="schedule-field">
+              <span>Born</span>
+              <input type="date" value={birthDate} onChange={(e) => setBirthDate(e.target.value)} />
+            </label>
+            <label className="schedule-field">
+              <span>On medical aid</span>
+              <input
+                type="number"
+                value={schemeMembers}
+                onChange={(e) => setSchemeMembers(e.target.value)}
+                min="0"
+                step="1"
+              />
+            </label>
+            <input
+              type="number"
+              placeholder="Retirement contributions per month"
+              value={retirement}
+              onChange={(e) => setRetirement(e.target.value)}
+              min="0"
+              step="0.01"
+            />
+            <label className="option-checkbox">
+              <input type="checkbox" checked={uifContributor} onChange={(e) => setUifContributor(e.target.checked)} />
+              <span>Pays UIF</span>
+            </label>
+            <button type="submit" className="btn-submit" disabled={submitting}>
+              {submitting ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <ul className="entries-list">
+        {members.map((m) => (
+          <li key={m.id} className="entry-item">
+            <div className="entry-info">
+              <span className="entry-description">{m.name}</span>
+              <span className="rule-meta">{describeProfile(profiles.find((p) => p.member === m.name))}</span>
+            </div>
+            <div className="entry-actions">
+              <button className="btn-edit" onClick={() => handleEdit(m.name)} title="Edit">
+                <span className="btn-icon-text">Edit</span>
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,8 +1,13 @@
 import { useState } from 'react';
-import type { FamilyMember, Tax, TaxFormData } from '../types/budget';
+import { PAYE_DESCRIPTION, proposeTaxes, UIF_DESCRIPTION } from '../lib/paye';
+import type { FamilyMember, HouseholdMember, Income, PayeProposal, Tax, TaxFormData, TaxProfile } from '../types/budget';
 
 interface TaxSectionProps {
   taxes: Tax[];
+  members: HouseholdMember[];
+  incomes: Income[];
+  taxProfiles: TaxProfile[];
+  selectedMonth: string;
   onAdd: (data: TaxFormData) => Promise<boolean>;
   onDelete: (id: string) => Promise<boolean>;
   onUpdate: (id: string, data: TaxFormData) => Promise<boolean>;
@@ -16,10 +21,26 @@ function formatCurrency(amount: number): string {
   }).format(amount);
 }
 
-export function TaxSection({ taxes, onAdd, onDelete, onUpdate }: TaxSectionProps) {
+/** Tax year label, e.g. 2026 -> "2025/26" */
+function formatTaxYear(taxYear: number): string {
+  return `${taxYear - 1}/${String(taxYear).slice(2)}`;
+}
+
+export function TaxSection({
+  taxes,
+  members,
+  incomes,
+  taxProfiles,
+  selectedMonth,
+  onAdd,
+  onDelete,
+  onUpdate,
+}: TaxSectionProps) {
+  const defaultMember = members[0]?.name ?? '';
   const [isAdding, setIsAdding] = useState(false);
+  const [proposals, setProposals] = useState<PayeProposal[] | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [member, setMember] = useState<FamilyMember>('Nikkie');
+  const [member, setMember] = useState<FamilyMember>(defaultMember);
   const [description, setDescription] = useState('');
   const [amount, setAmount] = useState('');
   const [submitting, setSubmitting] = useState(false);
@@ -27,7 +48,7 @@ export function TaxSection({ taxes, onAdd, onDelete, onUpdate }: TaxSectionProps
   const resetForm = () => {
     setDescription('');
     setAmount('');
-    setMember('Nikkie');
+    setMember(defaultMember);
     setIsAdding(false);
     setEditingId(null);
   };
@@ -65,24 +86,119 @@ export function TaxSection({ taxes, onAdd, onDelete, onUpdate }: TaxSectionProps
     resetForm();
   };
 
+  /** Find the tax row the calculator would replace, matching PAYE/UIF regardless of case */
+  const findTaxRow = (member: FamilyMember, description: string) =>
+    taxes.find((t) => t.member === member && t.description.trim().toUpperCase() === description);
+
+  const handleCalculate = () => {
+    if (proposals) {
+      setProposals(null);
+      return;
+    }
+    const memberOrder = members.map((m) => m.name);
+    setProposals(
+      proposeTaxes(selectedMonth, incomes, taxProfiles).sort(
+        (a, b) => memberOrder.indexOf(a.member) - memberOrder.indexOf(b.member)
+      )
+    );
+  };
+
+  /** Add the proposed PAYE and UIF rows, or update the ones already there */
+  const handleApplyProposals = async () => {
+    if (!proposals) return;
+
+    setSubmitting(true);
+    let success = true;
+    for (const proposal of proposals) {
+      const rows: [string, number][] = [[PAYE_DESCRIPTION, proposal.paye], [UIF_DESCRIPTION, proposal.uif]];
+      for (const [description, amount] of rows) {
+        const existing = findTaxRow(proposal.member, description);
+        if (existing) {
+          if (Number(existing.amount) !== amount) {
+            success = (await onUpdate(existing.id, { member: proposal.member, description: existing.description, amount })) && success;
+          }
+        } else if (amount > 0) {
+          success = (await onAdd({ member: proposal.member, description, amount })) && success;
+        }
+      }
+    }
+    if (success) {
+      setProposals(null);
+    }
+    setSubmitting(false);
+  };
+
   const handleDelete = async (id: string) => {
     if (confirm('Are you sure you want to delete this tax entry?')) {
       await onDelete(id);
     }
   };
 
-  const nikkieTaxes = taxes.filter((t) => t.member === 'Nikkie');
-  const heinTaxes = taxes.filter((t) => t.member === 'Hein');
-
   return (
     <div className="section tax-section">
       <div className="section-header">
         <h2>Taxes & Deductions</h2>
-        <button className="btn-add" onClick={() => { resetForm(); setIsAdding(!isAdding); }}>
-          {isAdding ? 'Cancel' : '+ Add Tax'}
-        </button>
+        <div className="section-header-actions">
+          <button className="btn-secondary" onClick={handleCalculate}>
+            {proposals ? 'Close Calculator' : 'Calculate PAYE'}
+          </button>
+          <button className="btn-add" onClick={() => { resetForm(); setIsAdding(!isAdding); }}>
+            {isAdding ? 'Cancel' : '+ Add Tax'}
+          </button>
+        </div>
       </div>
 
+      {proposals && (
+        <div className="paye-calculator">
+          {proposals.length === 0 ? (
+            <p className="no-entries">Add Salary incomes for this month to calculate PAYE.</p>
+          ) : (
+            <>
+              <p className="paye-calculator-note">
+                Tax year {formatTaxYear(proposals[0].taxYear)}
+                {proposals[0].tablesYear !== proposals[0].taxYear &&
+                  ` - using the ${formatTaxYear(proposals[0].tablesYear)} tables until this year's are added`}
+              </p>
+              <ul className="entries-list">
+                {proposals.map((proposal) => {
+                  const currentPaye = findTaxRow(proposal.member, PAYE_DESCRIPTION);
+                  const currentUif = findTaxRow(proposal.member, UIF_DESCRIPTION);
+                  return (
+                    <li key={proposal.member} className="entry-item paye-proposal">
+                      <div className="entry-info">
+                        <span className="entry-description">{proposal.member}</span>
+                        <span className="rule-meta">
+                          {[
+                            `Salary ${formatCurrency(proposal.grossSalary)}`,
+                            proposal.retirementDeduction > 0 && `retirement −${formatCurrency(proposal.retirementDeduction)}`,
+                            `rebates ${formatCurrency(proposal.rebates / 12)}`,
+                            proposal.medicalCredits > 0 && `medical credits ${formatCurrency(proposal.medicalCredits)}`,
+                          ].filter(Boolean).join(' · ')}
+                        </span>
+                        {(currentPaye || currentUif) && (
+                          <span className="rule-meta">
+                            Now: PAYE {formatCurrency(Number(currentPaye?.amount ?? 0))} · UIF {formatCurrency(Number(currentUif?.amount ?? 0))}
+                          </span>
+                        )}
+                      </div>
+                      <div className="paye-amounts">
+                        <span className="entry-amount taxes">PAYE {formatCurrency(proposal.paye)}</span>
+                        <span className="entry-amount taxes">UIF {formatCurrency(proposal.uif)}</span>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+              <div className="form-row">
+                <button className="btn-submit" onClick={handleApplyProposals} disabled={submitting}>
+                  {submitting ? 'Saving...' : 'Use These Amounts'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
       {isAdding && (
         <form className="add-form" onSubmit={handleSubmit}>
           <div className="form-header">
@@ -95,8 +211,11 @@ export function TaxSection({ taxes, onAdd, onDelete, onUpdate }: TaxSectionProps
           </div>
           <div className="form-row">
             <select value={member} onChange={(e) => setMember(e.target.value as FamilyMember)}>
-              <option value="Nikkie">Nikkie</option>
-              <option value="Hein">Hein</option>
+              {members.map((m) => (
+                <option key={m.id} value={m.name}>
+                  {m.name}
+                </option>
+              ))}
             </select>
             <input
               type="text"
@@ -122,73 +241,44 @@ export function TaxSection({ taxes, onAdd, onDelete, onUpdate }: TaxSectionProps
       )}
 
       <div className="entries-grid">
-        <div className="entries-column">
-          <h4>Nikkie's Taxes</h4>
-          {nikkieTaxes.length === 0 ? (
-            <p className="no-entries">No tax entries</p>
-          ) : (
-            <ul className="entries-list">
-              {nikkieTaxes.map((tax) => (
-                <li key={tax.id} className="entry-item">
-                  <div className="entry-info">
-                    <span className="entry-description">{tax.description}</span>
-                    <span className="entry-amount taxes">{formatCurrency(Number(tax.amount))}</span>
-                  </div>
-                  <div className="entry-actions">
-                    <button
-                      className="btn-edit"
-                      onClick={() => handleEdit(tax)}
-                      title="Edit"
-                    >
-                      <span className="btn-icon-text">Edit</span>
-                    </button>
-                    <button
-                      className="btn-delete"
-                      onClick={() => handleDelete(tax.id)}
-                      title="Delete"
-                    >
-                      <span className="btn-icon-text">Delete</span>
-                    </button>
-                  </div>
-                </li>
-              ))}
-            </ul>
-          )}
-        </div>
-
-        <div className="entries-column">
-          <h4>Hein's Taxes</h4>
-          {heinTaxes.length === 0 ? (
-            <p className="no-entries">No tax entries</p>
-          ) : (
-            <ul className="entries-list">
-              {heinTaxes.map((tax) => (
-                <li key={tax.id} className="entry-item">
-                  <div className="entry-info">
-                    <span className="entry-description">{tax.description}</span>
-                    <span className="entry-amount taxes">{formatCurrency(Number(tax.amount))}</span>
-                  </div>
-                  <div className="entry-actions">
-                    <button
-                      className="btn-edit"
-                      onClick={() => handleEdit(tax)}
-                      title="Edit"
-                    >
-                      <span className="btn-icon-text">Edit</span>
-                    </button>
-                    <button
-                      className="btn-delete"
-                      onClick={() => handleDelete(tax.id)}
-                      title="Delete"
-                    >
-                      <span className="btn-icon-text">Delete</span>
-                    </button>
-                  </div>
-                </li>
-              ))}
-            </ul>
-          )}
-        </div>
+        {members.map((m) => {
+          const memberTaxes = taxes.filter((t) => t.member === m.name);
+          return (
+            <div key={m.id} className="entries-column">
+              <h4>{m.name}'s Taxes</h4>
+              {memberTaxes.length === 0 ? (
+                <p className="no-entries">No tax entries</p>
+              ) : (
+                <ul className="entries-list">
+                  {memberTaxes.map((tax) => (
+                    <li key={tax.id} className="entry-item">
+                      <div className="entry-info">
+                        <span className="entry-description">{tax.description}</span>
+                        <span className="entry-amount taxes">{formatCurrency(Number(tax.amount))}</span>
+                      </div>
+                      <div className="entry-actions">
+                        <button
+                          className="btn-edit"
+                          onClick={() => handleEdit(tax)}
+                          title="Edit"
+                        >
+                          <span className="btn-icon-text">Edit</span>
+                        </button>
+                        <button
+                          className="btn-delete"
+                          onClick={() => handleDelete(tax.id)}
+                          title="Delete"
+                        >
+                          <span className="btn-icon-text">Delete</span>
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
       </div>
     </div>
   );
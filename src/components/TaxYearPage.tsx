@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { taxYearReportsToCsv } from '../lib/taxYearReport';
+import type { HouseholdMember, TaxYearReport } from '../types/budget';
+
+interface TaxYearPageProps {
+  taxYear: number;
+  reports: TaxYearReport[];
+  members: HouseholdMember[];
+  onTaxYearChange: (taxYear: number) => void;
+}
+
+/** Format currency in ZAR */
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+    minimumFractionDigits: 2,
+  }).format(amount);
+}
+
+/** Tax year label, e.g. 2026 -> "2025/26" */
+function formatTaxYear(taxYear: number): string {
+  return `${taxYear - 1}/${String(taxYear).slice(2)}`;
+}
+
+/** Short month for the monthly table, e.g. "Mar 2025" */
+function formatShortMonth(month: string): string {
+  const [year, monthNum] = month.split('-');
+  const date = new Date(parseInt(year), parseInt(monthNum) - 1);
+  return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+}
+
+export function TaxYearPage({ taxYear, reports, members, onTaxYearChange }: TaxYearPageProps) {
+  const [expandedMember, setExpandedMember] = useState<string | null>(null);
+
+  const handleExport = () => {
+    const blob = new Blob([taxYearReportsToCsv(reports)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `tax-year-${formatTaxYear(taxYear).replace('/', '-')}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const usesOlderTables = reports.some((r) => r.tablesYear !== r.taxYear);
+
+  return (
+    <div className="summary-overview tax-year-page">
+      <div className="overview-header">
+        <h2>Tax Year {formatTaxYear(taxYear)}</h2>
+        <p className="overview-subtitle">
+          1 March {taxYear - 1} to the end of February {taxYear} - check it against your IRP5 and the eFiling auto-assessment
+        </p>
+        <div className="tax-year-controls">
+          <button className="btn-secondary" onClick={() => onTaxYearChange(taxYear - 1)}>
+            ← {formatTaxYear(taxYear - 1)}
+          </button>
+          <button className="btn-secondary" onClick={() => onTaxYearChange(taxYear + 1)}>
+            {formatTaxYear(taxYear + 1)} →
+          </button>
+          <button className="btn-primary" onClick={handleExport} disabled={reports.length === 0}>
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      {reports.length === 0 ? (
+        <section className="overview-section">
+          <p className="no-entries">No incomes or taxes in this tax year.</p>
+        </section>
+      ) : (
+        <section className="overview-section">
+          <h3>Per Member</h3>
+          <p className="section-description">
+            Estimates only: other income is taxed in full, interest above the exemption is added, and your retirement
+            contributions from Tax Details plus expenses marked <strong>Tax deductible</strong> are deducted.
+            {usesOlderTables && ` This year's tables aren't in the app yet, so the ${formatTaxYear(reports[0].tablesYear)} ones were used.`}
+          </p>
+
+          <div className="overview-cards">
+            {reports.map((report) => {
+              const member = members.find((m) => m.name === report.member);
+              const taxableInterest = Math.max(0, report.interestIncome - report.interestExemption);
+              const expanded = expandedMember === report.member;
+              return (
+                <div
+                  key={report.member}
+                  className="overview-card member"
+                  style={{ '--member-color': member?.color } as React.CSSProperties}
+                >
+                  <div className="card-header">
+                    <span className="card-label">{report.member}</span>
+                  </div>
+                  <div className="card-stats">
+                    <div className="stat-row">
+                      <span className="stat-label">Gross Salary</span>
+                      <span className="stat-value income">{formatCurrency(report.grossSalary)}</span>
+                    </div>
+                    <div className="stat-row">
+                      <span className="stat-label">Other Income</span>
+                      <span className="stat-value income">{formatCurrency(report.otherIncome)}</span>
+                    </div>
+                    <div className="stat-row">
+                      <span className="stat-label">
+                        Interest (exempt up to {formatCurrency(report.interestExemption)})
+                      </span>
+                      <span className="stat-value income">{formatCurrency(report.interestIncome)}</span>
+                    </div>
+                    {taxableInterest > 0 && (
+                      <div className="stat-row">
+                        <span className="stat-label">Taxable Interest</span>
+                        <span className="stat-value tax">{formatCurrency(taxableInterest)}</span>
+                      </div>
+                    )}
+                    <div className="stat-row">
+                      <span className="stat-label">Retirement Deduction</span>
+                      <span className="stat-value">{formatCurrency(report.retirementDeduction)}</span>
+                    </div>
+                    <div className="stat-row">
+                      <span className="stat-label">Deductible Expenses</span>
+                      <span className="stat-value">{formatCurrency(report.deductibleExpenses)}</span>
+                    </div>
+                    <div className="stat-row">
+                      <span className="stat-label">Taxable Income</span>
+                      <span className="stat-value">{formatCurrency(report.taxableIncome)}</span>
+                    </div>
+                    <div className="stat-row">
+                      <span className="stat-label">Estimated Tax</span>
+                      <span className="stat-value tax">{formatCurrency(report.estimatedTax)}</span>
+                    </div>
+                    <div className="stat-row">
+                      <span className="stat-label">PAYE Withheld</span>
+                      <span className="stat-value tax">{formatCurrency(report.payeWithheld)}</span>
+                    </div>
+                    {report.otherTaxes > 0 && (
+                      <div className="stat-row">
+                        <span className="stat-label">UIF & Other Taxes</span>
+                        <span className="stat-value tax">{formatCurrency(report.otherTaxes)}</span>
+                      </div>
+                    )}
+                    <div className="stat-row highlight">
+                      <span className="stat-label">{report.balance > 0 ? 'Estimated Owing' : 'Estimated Refund'}</span>
+                      <span className="stat-value">{formatCurrency(Math.abs(report.balance))}</span>
+                    </div>
+                  </div>
+                  <button
+                    className="btn-link tax-year-months-toggle"
+                    onClick={() => setExpandedMember(expanded ? null : report.member)}
+                  >
+                    {expanded ? 'Hide months' : 'Show months'}
+                  </button>
+                  {expanded && (
+                    <div className="projection-table-wrapper">
+                      <table className="projection-table">
+                        <thead>
+                          <tr>
+                            <th>Month</th>
+                            <th>Salary</th>
+                            <th>Other</th>
+                            <th>Interest</th>
+                            <th>PAYE</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {report.months.map((row) => (
+                            <tr key={row.month}>
+                              <td>{formatShortMonth(row.month)}</td>
+                              <td>{formatCurrency(row.grossSalary)}</td>
+                              <td>{formatCurrency(row.otherIncome)}</td>
+                              <td>{formatCurrency(row.interestIncome)}</td>
+                              <td>{formatCurrency(row.payeWithheld)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
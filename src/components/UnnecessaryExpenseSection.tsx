@@ -1,8 +1,11 @@
 import { useState } from 'react';
-import type { FamilyMember, UnnecessaryExpense, UnnecessaryExpenseFormData } from '../types/budget';
+import { attachmentsFor } from '../hooks/useExpenseAttachments';
+import type { FamilyMember, HouseholdMember, UnnecessaryExpense, UnnecessaryExpenseFormData } from '../types/budget';
+import { ExpenseAttachments, type AttachmentHandlers } from './ExpenseAttachments';
 
-interface UnnecessaryExpenseSectionProps {
+interface UnnecessaryExpenseSectionProps extends AttachmentHandlers {
   unnecessaryExpenses: UnnecessaryExpense[];
+  members: HouseholdMember[];
   onAdd: (data: UnnecessaryExpenseFormData) => Promise<boolean>;
   onDelete: (id: string) => Promise<boolean>;
   onUpdate: (id: string, data: UnnecessaryExpenseFormData) => Promise<boolean>;
@@ -18,23 +21,30 @@ function formatCurrency(amount: number): string {
 
 export function UnnecessaryExpenseSection({
   unnecessaryExpenses,
+  members,
   onAdd,
   onDelete,
   onUpdate,
+  attachments,
+  onUploadAttachment,
+  onOpenAttachment,
+  onDeleteAttachment,
 }: UnnecessaryExpenseSectionProps) {
+  const defaultMember = members[0]?.name ?? '';
   const [isAdding, setIsAdding] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [member, setMember] = useState<FamilyMember>('Nikkie');
+  const [member, setMember] = useState<FamilyMember>(defaultMember);
   const [description, setDescription] = useState('');
   const [amount, setAmount] = useState('');
   const [note, setNote] = useState('');
   const [submitting, setSubmitting] = useState(false);
+  const [filesOpenId, setFilesOpenId] = useState<string | null>(null); // Expense whose attachments are showing
 
   const resetForm = () => {
     setDescription('');
     setAmount('');
     setNote('');
-    setMember('Nikkie');
+    setMember(defaultMember);
     setIsAdding(false);
     setEditingId(null);
   };
@@ -94,12 +104,7 @@ export function UnnecessaryExpenseSection({
     await onUpdate(expense.id, data);
   };
 
-  const nikkieExpenses = unnecessaryExpenses.filter((e) => e.member === 'Nikkie');
-  const heinExpenses = unnecessaryExpenses.filter((e) => e.member === 'Hein');
-
-  const totalNikkie = nikkieExpenses.reduce((sum, e) => sum + Number(e.amount), 0);
-  const totalHein = heinExpenses.reduce((sum, e) => sum + Number(e.amount), 0);
-  const total = totalNikkie + totalHein;
+  const total = unnecessaryExpenses.reduce((sum, e) => sum + Number(e.amount), 0);
 
   return (
     <div className="section unnecessary-expense-section">
@@ -127,8 +132,11 @@ export function UnnecessaryExpenseSection({
           </div>
           <div className="form-row">
             <select value={member} onChange={(e) => setMember(e.target.value as FamilyMember)}>
-              <option value="Nikkie">Nikkie</option>
-              <option value="Hein">Hein</option>
+              {members.map((m) => (
+                <option key={m.id} value={m.name}>
+                  {m.name}
+                </option>
+              ))}
             </select>
             <input
               type="text"
@@ -154,103 +162,86 @@ export function UnnecessaryExpenseSection({
       )}
 
       <div className="entries-grid">
-        <div className="entries-column">
-          <h4>Nikkie's Unnecessary ({formatCurrency(totalNikkie)})</h4>
-          {nikkieExpenses.length === 0 ? (
-            <p className="no-entries">No unnecessary expenses</p>
-          ) : (
-            <ul className="entries-list">
-              {nikkieExpenses.map((expense) => (
-                <li key={expense.id} className="entry-item">
-                  <div className="entry-info">
-                    <span className="entry-category disc-expense">DSC</span>
-                    <span className="entry-description">{expense.description}</span>
-                    <span className="entry-amount expense">{formatCurrency(Number(expense.amount))}</span>
-                  </div>
-                  <div className="entry-actions">
-                    <button
-                      className="btn-edit"
-                      onClick={() => handleEdit(expense)}
-                      title="Edit"
-                    >
-                      <span className="btn-icon-text">Edit</span>
-                    </button>
-                    <button
-                      className="btn-delete"
-                      onClick={() => handleDelete(expense.id)}
-                      title="Delete"
-                    >
-                      <span className="btn-icon-text">Delete</span>
-                    </button>
-                  </div>
-                  <div className="entry-note-inline">
-                    <input
-                      type="text"
-                      className="inline-note-input"
-                      placeholder="Add a note..."
-                      defaultValue={expense.note || ''}
-                      onBlur={(e) => handleNoteUpdate(expense, e.target.value)}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter') {
-                          e.currentTarget.blur();
-                        }
-                      }}
-                    />
-                  </div>
-                </li>
-              ))}
-            </ul>
-          )}
-        </div>
-
-        <div className="entries-column">
-          <h4>Hein's Unnecessary ({formatCurrency(totalHein)})</h4>
-          {heinExpenses.length === 0 ? (
-            <p className="no-entries">No unnecessary expenses</p>
-          ) : (
-            <ul className="entries-list">
-              {heinExpenses.map((expense) => (
-                <li key={expense.id} className="entry-item">
-                  <div className="entry-info">
-                    <span className="entry-category disc-expense">DSC</span>
-                    <span className="entry-description">{expense.description}</span>
-                    <span className="entry-amount expense">{formatCurrency(Number(expense.amount))}</span>
-                  </div>
-                  <div className="entry-actions">
-                    <button
-                      className="btn-edit"
-                      onClick={() => handleEdit(expense)}
-                      title="Edit"
-                    >
-                      <span className="btn-icon-text">Edit</span>
-                    </button>
-                    <button
-                      className="btn-delete"
-                      onClick={() => handleDelete(expense.id)}
-                      title="Delete"
-                    >
-                      <span className="btn-icon-text">Delete</span>
-                    </button>
-                  </div>
-                  <div className="entry-note-inline">
-                    <input
-                      type="text"
-                      className="inline-note-input"
-                      placeholder="Add a note..."
-                      defaultValue={expense.note || ''}
-                      onBlur={(e) => handleNoteUpdate(expense, e.target.value)}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter') {
-                          e.currentTarget.blur();
-                        }
-                      }}
-                    />
-                  </div>
-                </li>
-              ))}
-            </ul>
-          )}
-        </div>
+        {members.map((m) => {
+          const memberExpenses = unnecessaryExpenses.filter((e) => e.member === m.name);
+          const memberTotal = memberExpenses.reduce((sum, e) => sum + Number(e.amount), 0);
+          return (
+            <div key={m.id} className="entries-column">
+              <h4>{m.name}'s Unnecessary ({formatCurrency(memberTotal)})</h4>
+              {memberExpenses.length === 0 ? (
+                <p className="no-entries">No unnecessary expenses</p>
+              ) : (
+                <ul className="entries-list">
+                  {memberExpenses.map((expense) => {
+                    const expenseAttachments = attachmentsFor(attachments, 'unnecessary_expense', expense.id);
+                    return (
+                      <li key={expense.id} className="entry-item">
+                        <div className="entry-info">
+                          <span className="entry-category disc-expense">DSC</span>
+                          <span className="entry-description">
+                            {expense.description}
+                            {expenseAttachments.length > 0 && (
+                              <span className="attachment-badge" title={`${expenseAttachments.length} attached`}>
+                                📎 {expenseAttachments.length}
+                              </span>
+                            )}
+                          </span>
+                          <span className="entry-amount expense">{formatCurrency(Number(expense.amount))}</span>
+                        </div>
+                        <div className="entry-actions">
+                          <button
+                            className="btn-edit"
+                            onClick={() => setFilesOpenId(filesOpenId === expense.id ? null : expense.id)}
+                            title="Receipts and invoices"
+                          >
+                            <span className="btn-icon-text">{filesOpenId === expense.id ? 'Close' : 'Files'}</span>
+                          </button>
+                          <button
+                            className="btn-edit"
+                            onClick={() => handleEdit(expense)}
+                            title="Edit"
+                          >
+                            <span className="btn-icon-text">Edit</span>
+                          </button>
+                          <button
+                            className="btn-delete"
+                            onClick={() => handleDelete(expense.id)}
+                            title="Delete"
+                          >
+                            <span className="btn-icon-text">Delete</span>
+                          </button>
+                        </div>
+                        <div className="entry-note-inline">
+                          <input
+                            type="text"
+                            className="inline-note-input"
+                            placeholder="Add a note..."
+                            defaultValue={expense.note || ''}
+                            onBlur={(e) => handleNoteUpdate(expense, e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') {
+                                e.currentTarget.blur();
+                              }
+                            }}
+                          />
+                        </div>
+                        {filesOpenId === expense.id && (
+                          <ExpenseAttachments
+                            parentId={expense.id}
+                            attachments={expenseAttachments}
+                            onUploadAttachment={onUploadAttachment}
+                            onOpenAttachment={onOpenAttachment}
+                            onDeleteAttachment={onDeleteAttachment}
+                          />
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          );
+        })}
       </div>
     </div>
   );
@@ -0,0 +1,263 @@
+import type { YearReview } from '../types/budget';
+
+interface YearReviewPageProps {
+  review: YearReview;
+  onYearChange: (year: number) => void;
+}
+
+/** Format currency in ZAR */
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-ZA', {
+    style: 'currency',
+    currency: 'ZAR',
+    minimumFractionDigits: 2,
+  }).format(amount);
+}
+
+/** Short month for the tables, e.g. "Mar" */
+function formatMonthName(month: string): string {
+  const [year, monthNum] = month.split('-');
+  return new Date(parseInt(year), parseInt(monthNum) - 1).toLocaleDateString('en-US', { month: 'short' });
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? '-' : `${rate.toFixed(0)}%`;
+}
+
+/** A change on the month before, e.g. "+R 120.00"; nothing when there was no change */
+function formatChange(change: number | null): string {
+  if (change === null || Math.abs(change) < 0.005) return '';
+  return `${change > 0 ? '+' : '−'}${formatCurrency(Math.abs(change))}`;
+}
+
+const TREND_SERIES = [
+  { key: 'netIncome', label: 'Net Income', className: 'income' },
+  { key: 'totalExpenses', label: 'Expenses', className: 'expenses' },
+  { key: 'totalUnnecessaryExpenses', label: 'Discretionary', className: 'unnecessary' },
+] as const;
+
+export function YearReviewPage({ review, onYearChange }: YearReviewPageProps) {
+  const { year, months, categories, totals } = review;
+  const hasData = months.some((m) => m.summary.totalIncome > 0 || m.summary.totalExpenses > 0 || m.summary.totalUnnecessaryExpenses > 0);
+  const hasDebt = months.some((m) => m.debtPayments !== 0 || m.debtCharges !== 0 || m.debtPaidDown !== 0);
+  const trendMax = Math.max(1, ...months.flatMap((m) => TREND_SERIES.map((s) => m.summary[s.key])));
+
+  return (
+    <div className="summary-overview year-review-page">
+      <div className="overview-header">
+        <h2>{year} in Review</h2>
+        <p className="overview-subtitle">January to December {year}, month by month</p>
+        <div className="tax-year-controls">
+          <button className="btn-secondary" onClick={() => onYearChange(year - 1)}>
+            ← {year - 1}
+          </button>
+          <button className="btn-secondary" onClick={() => onYearChange(year + 1)}>
+            {year + 1} →
+          </button>
+        </div>
+      </div>
+
+      {!hasData ? (
+        <section className="overview-section">
+          <p className="no-entries">No incomes or expenses in {year}.</p>
+        </section>
+      ) : (
+        <>
+          <section className="overview-section">
+            <h3>The Year</h3>
+            <div className="quick-stats-grid">
+              <div className="quick-stat">
+                <span className="quick-stat-value">{formatCurrency(totals.netIncome)}</span>
+                <span className="quick-stat-label">Net Income</span>
+              </div>
+              <div className="quick-stat">
+                <span className="quick-stat-value">{formatCurrency(totals.totalExpenses)}</span>
+                <span className="quick-stat-label">Expenses</span>
+              </div>
+              <div className="quick-stat">
+                <span className="quick-stat-value">{formatCurrency(totals.totalUnnecessaryExpenses)}</span>
+                <span className="quick-stat-label">Discretionary</span>
+              </div>
+              <div className="quick-stat">
+                <span className={`quick-stat-value ${totals.saved >= 0 ? 'positive' : 'negative'}`}>
+                  {formatRate(totals.savingsRate)}
+                </span>
+                <span className="quick-stat-label">Savings Rate</span>
+              </div>
+              {hasDebt && (
+                <div className="quick-stat">
+                  <span className={`quick-stat-value ${totals.debtPaidDown >= 0 ? 'positive' : 'negative'}`}>
+                    {formatCurrency(totals.debtPaidDown)}
+                  </span>
+                  <span className="quick-stat-label">Debt Paid Down</span>
+                </div>
+              )}
+            </div>
+          </section>
+
+          <section className="overview-section">
+            <h3>Income vs Spending</h3>
+            <div className="year-trend-legend">
+              {TREND_SERIES.map((series) => (
+                <span key={series.key} className={`year-trend-key ${series.className}`}>{series.label}</span>
+              ))}
+            </div>
+            <div className="year-trend-chart">
+              {months.map((m) => (
+                <div key={m.month} className="year-trend-month">
+                  <div className="year-trend-bars">
+                    {TREND_SERIES.map((series) => (
+                      <div
+                        key={series.key}
+                        className={`year-trend-bar ${series.className}`}
+                        style={{ height: `${(Math.max(0, m.summary[series.key]) / trendMax) * 100}%` }}
+                        title={`${series.label}: ${formatCurrency(m.summary[series.key])}`}
+                      />
+                    ))}
+                  </div>
+                  <span className="year-trend-label">{formatMonthName(m.month)}</span>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section className="overview-section">
+            <h3>Month by Month</h3>
+            <p className="section-description">
+              Saved is what was left over plus Savings expenses; the savings rate is saved as a share of net income.
+            </p>
+            <div className="projection-table-wrapper">
+              <table className="projection-table">
+                <thead>
+                  <tr>
+                    <th>Month</th>
+                    <th>Income</th>
+                    <th>Taxes</th>
+                    <th>Net Income</th>
+                    <th>Expenses</th>
+                    <th>Discretionary</th>
+                    <th>Left Over</th>
+                    <th>Saved</th>
+                    <th>Savings Rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {months.map(({ month, summary, saved, savingsRate }) => (
+                    <tr key={month}>
+                      <td>{formatMonthName(month)}</td>
+                      <td>{formatCurrency(summary.totalIncome)}</td>
+                      <td>{formatCurrency(summary.totalTaxes)}</td>
+                      <td>{formatCurrency(summary.netIncome)}</td>
+                      <td>{formatCurrency(summary.totalExpenses)}</td>
+                      <td>{formatCurrency(summary.totalUnnecessaryExpenses)}</td>
+                      <td className={summary.remainingBalance >= 0 ? 'positive' : 'negative'}>
+                        {formatCurrency(summary.remainingBalance)}
+                      </td>
+                      <td>{formatCurrency(saved)}</td>
+                      <td>{formatRate(savingsRate)}</td>
+                    </tr>
+                  ))}
+                  <tr className="year-review-total">
+                    <td>Total</td>
+                    <td>{formatCurrency(totals.totalIncome)}</td>
+                    <td>{formatCurrency(totals.totalTaxes)}</td>
+                    <td>{formatCurrency(totals.netIncome)}</td>
+                    <td>{formatCurrency(totals.totalExpenses)}</td>
+                    <td>{formatCurrency(totals.totalUnnecessaryExpenses)}</td>
+                    <td className={totals.remainingBalance >= 0 ? 'positive' : 'negative'}>
+                      {formatCurrency(totals.remainingBalance)}
+                    </td>
+                    <td>{formatCurrency(totals.saved)}</td>
+                    <td>{formatRate(totals.savingsRate)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          {categories.length > 0 && (
+            <section className="overview-section">
+              <h3>Expenses by Category</h3>
+              <p className="section-description">
+                Each category's expenses in full, VAT included, with the change on the month before.
+              </p>
+              <div className="projection-table-wrapper">
+                <table className="projection-table year-category-table">
+                  <thead>
+                    <tr>
+                      <th>Category</th>
+                      {months.map((m) => (
+                        <th key={m.month}>{formatMonthName(m.month)}</th>
+                      ))}
+                      <th>Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {categories.map((trend) => (
+                      <tr key={trend.category}>
+                        <td>{trend.category}</td>
+                        {trend.amounts.map((amount, i) => {
+                          const change = trend.changes[i];
+                          return (
+                            <td key={months[i].month}>
+                              {amount > 0 ? formatCurrency(amount) : '-'}
+                              {formatChange(change) && (
+                                <span className={`year-category-change ${change !== null && change > 0 ? 'up' : 'down'}`}>
+                                  {formatChange(change)}
+                                </span>
+                              )}
+                            </td>
+                          );
+                        })}
+                        <td>{formatCurrency(trend.total)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          )}
+
+          {hasDebt && (
+            <section className="overview-section">
+              <h3>Debt Paid Down</h3>
+              <p className="section-description">
+                From the balance ledger: payments less the interest and fees added, adjustments and top-ups included.
+              </p>
+              <div className="projection-table-wrapper">
+                <table className="projection-table">
+                  <thead>
+                    <tr>
+                      <th>Month</th>
+                      <th>Payments</th>
+                      <th>Interest & Fees</th>
+                      <th>Paid Down</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {months.map((m) => (
+                      <tr key={m.month}>
+                        <td>{formatMonthName(m.month)}</td>
+                        <td>{formatCurrency(m.debtPayments)}</td>
+                        <td>{formatCurrency(m.debtCharges)}</td>
+                        <td className={m.debtPaidDown >= 0 ? 'positive' : 'negative'}>{formatCurrency(m.debtPaidDown)}</td>
+                      </tr>
+                    ))}
+                    <tr className="year-review-total">
+                      <td>Total</td>
+                      <td>{formatCurrency(totals.debtPayments)}</td>
+                      <td>{formatCurrency(totals.debtCharges)}</td>
+                      <td className={totals.debtPaidDown >= 0 ? 'positive' : 'negative'}>
+                        {formatCurrency(totals.debtPaidDown)}
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react';
+import type { Household } from '../types/budget';
+
+/** The signed-in user's current household, provided by AuthGate */
+export interface ActiveHousehold {
+  householdId: string;
+  household: Household;
+  households: Household[];
+  userEmail: string;
+  switchHousehold: (id: string) => void;
+  createHousehold: (name: string, memberNames?: string[]) => Promise<boolean>;
+  signOut: () => Promise<void>;
+}
+
+export const ActiveHouseholdContext = createContext<ActiveHousehold | null>(null);
+
+/** Access the active household - data hooks use this to scope every query */
+export function useActiveHousehold(): ActiveHousehold {
+  const context = useContext(ActiveHouseholdContext);
+  if (!context) {
+    throw new Error('useActiveHousehold must be used inside <AuthGate>');
+  }
+  return context;
+}
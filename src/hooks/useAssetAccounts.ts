@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, TABLES } from '../lib/supabase';
+import { useActiveHousehold } from './useActiveHousehold';
+import type { AssetAccount, AssetAccountFormData, AssetValuation, AssetValuationFormData } from '../types/budget';
+
+/** Custom hook for the household's asset accounts and their valuations */
+export function useAssetAccounts() {
+  const { householdId } = useActiveHousehold();
+  const [assets, setAssets] = useState<AssetAccount[]>([]);
+  const [valuations, setValuations] = useState<AssetValuation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Fetch the asset accounts and every valuation */
+  const fetchAssets = useCallback(async () => {
+    try {
+      setError(null);
+      const [assetsResult, valuationsResult] = await Promise.all([
+        supabase
+          .from(TABLES.ASSET_ACCOUNTS)
+          .select('*')
+          .eq('household_id', householdId)
+          .order('name', { ascending: true }),
+        supabase
+          .from(TABLES.ASSET_VALUATIONS)
+          .select('*')
+          .eq('household_id', householdId)
+          .order('month', { ascending: true }),
+      ]);
+
+      if (assetsResult.error) throw assetsResult.error;
+      if (valuationsResult.error) throw valuationsResult.error;
+      setAssets(assetsResult.data || []);
+      setValuations(valuationsResult.data || []);
+    } catch (err) {
+      console.error('Error fetching asset accounts:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch asset accounts');
+    } finally {
+      setLoading(false);
+    }
+  }, [householdId]);
+
+  useEffect(() => {
+    fetchAssets();
+  }, [fetchAssets]);
+
+  /** Add a new asset account */
+  const addAsset = async (data: AssetAccountFormData): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: insertError } = await supabase
+        .from(TABLES.ASSET_ACCOUNTS)
+        .insert({ ...data, household_id: householdId });
+
+      if (insertError) throw insertError;
+      await fetchAssets();
+      return true;
+    } catch (err) {
+      console.error('Error adding asset account:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add asset account');
+      return false;
+    }
+  };
+
+  /** Update an asset account */
+  const updateAsset = async (id: string, data: AssetAccountFormData): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: updateError } = await supabase
+        .from(TABLES.ASSET_ACCOUNTS)
+        .update(data)
+        .eq('id', id);
+
+      if (updateError) throw updateError;
+      await fetchAssets();
+      return true;
+    } catch (err) {
+      console.error('Error updating asset account:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update asset account');
+      return false;
+    }
+  };
+
+  /** Delete an asset account along with its valuations */
+  const deleteAsset = async (id: string): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: deleteError } = await supabase
+        .from(TABLES.ASSET_ACCOUNTS)
+        .delete()
+        .eq('id', id);
+
+      if (deleteError) throw deleteError;
+      await fetchAssets();
+      return true;
+    } catch (err) {
+      console.error('Error deleting asset account:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete asset account');
+      return false;
+    }
+  };
+
+  /** Record what an asset was worth at the end of a month, replacing that month's valuation if it has one */
+  const recordValuation = async (data: AssetValuationFormData): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: upsertError } = await supabase
+        .from(TABLES.ASSET_VALUATIONS)
+        .upsert({ ...data, household_id: householdId }, { onConflict: 'account_id,month' });
+
+      if (upsertError) throw upsertError;
+      await fetchAssets();
+      return true;
+    } catch (err) {
+      console.error('Error recording valuation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record valuation');
+      return false;
+    }
+  };
+
+  /** Delete a valuation */
+  const deleteValuation = async (id: string): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: deleteError } = await supabase
+        .from(TABLES.ASSET_VALUATIONS)
+        .delete()
+        .eq('id', id);
+
+      if (deleteError) throw deleteError;
+      await fetchAssets();
+      return true;
+    } catch (err) {
+      console.error('Error deleting valuation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete valuation');
+      return false;
+    }
+  };
+
+  return {
+    assets,
+    valuations,
+    loading,
+    error,
+    addAsset,
+    updateAsset,
+    deleteAsset,
+    recordValuation,
+    deleteValuation,
+    refetch: fetchAssets,
+  };
+}
@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+
+/** Custom hook for Supabase Auth session management */
+export function useAuth() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setLoading(false);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  /** Sign in with email and password */
+  const signIn = async (email: string, password: string): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: signInError } = await supabase.auth.signInWithPassword({ email, password });
+      if (signInError) throw signInError;
+      return true;
+    } catch (err) {
+      console.error('Error signing in:', err);
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+      return false;
+    }
+  };
+
+  /** Create an account - depending on project settings the user may need to confirm their email first */
+  const signUp = async (email: string, password: string): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: signUpError } = await supabase.auth.signUp({ email, password });
+      if (signUpError) throw signUpError;
+      return true;
+    } catch (err) {
+      console.error('Error signing up:', err);
+      setError(err instanceof Error ? err.message : 'Failed to sign up');
+      return false;
+    }
+  };
+
+  const signOut = async (): Promise<void> => {
+    const { error: signOutError } = await supabase.auth.signOut();
+    if (signOutError) {
+      console.error('Error signing out:', signOutError);
+    }
+  };
+
+  return {
+    session,
+    loading,
+    error,
+    signIn,
+    signUp,
+    signOut,
+  };
+}
@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { BACKUP_TABLES, BACKUP_VERSION, withNewIds } from '../lib/backup';
+import { useActiveHousehold } from './useActiveHousehold';
+import type { BackupFile, BackupTableName, BackupTables, RestoreMode } from '../types/budget';
+
+/** Rows per request - keeps large tables under the API row limit and URL length */
+const PAGE_SIZE = 500;
+
+/**
+ * Tables whose rows are matched on these columns instead of their ID: members
+ * are referenced by name everywhere, a household has one set of rollover and
+ * split rules and a member has one tax profile
+ */
+const NATURAL_KEYS: Partial<Record<BackupTableName, string>> = {
+  household_members: 'household_id,name',
+  rollover_rules: 'household_id',
+  split_rules: 'household_id',
+  tax_profiles: 'household_id,member',
+};
+
+/** Rows in the backup whose IDs already exist in the database, per table */
+export type BackupConflicts = Partial<Record<BackupTableName, number>>;
+
+/**
+ * Hook for exporting every table of the active household to a JSON file
+ * and restoring such a file
+ */
+export function useBackup() {
+  const { householdId, household } = useActiveHousehold();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Fetch all rows of a table for this household, page by page */
+  const fetchAll = async (table: BackupTableName) => {
+    const rows: Record<string, unknown>[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error: fetchError } = await supabase
+        .from(table)
+        .select('*')
+        .eq('household_id', householdId)
+        .order('created_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (fetchError) throw fetchError;
+      rows.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) return rows;
+    }
+  };
+
+  /** Download a JSON backup of the whole household */
+  const exportBackup = async (): Promise<boolean> => {
+    try {
+      setBusy(true);
+      setError(null);
+
+      const tables = {} as Record<BackupTableName, unknown[]>;
+      for (const table of BACKUP_TABLES) {
+        tables[table] = await fetchAll(table);
+      }
+
+      const backup: BackupFile = {
+        app: 'fambudget',
+        version: BACKUP_VERSION,
+        exported_at: new Date().toISOString(),
+        household: { id: householdId, name: household.name },
+        tables: tables as unknown as BackupTables,
+      };
+
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `fambudget-backup-${backup.exported_at.slice(0, 10)}.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      return true;
+    } catch (err) {
+      console.error('Error exporting backup:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export backup');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  /** Count the backup rows whose IDs are already in the database */
+  const findConflicts = async (backup: BackupFile): Promise<BackupConflicts | null> => {
+    try {
+      setBusy(true);
+      setError(null);
+
+      const conflicts: BackupConflicts = {};
+      for (const table of BACKUP_TABLES) {
+        if (table === 'rollover_rules' || table === 'split_rules') {
+          if (backup.tables[table].length === 0) continue;
+          const { count: existing, error: countError } = await supabase
+            .from(table)
+            .select('id', { count: 'exact', head: true })
+            .eq('household_id', householdId);
+          if (countError) throw countError;
+          if (existing) conflicts[table] = existing;
+          continue;
+        }
+
+        // Members and tax profiles are matched by member name, everything else by ID
+        const key = table === 'household_members' ? 'name' : table === 'tax_profiles' ? 'member' : 'id';
+        const values = table === 'household_members'
+          ? backup.tables.household_members.map((member) => member.name)
+          : table === 'tax_profiles'
+            ? backup.tables.tax_profiles.map((profile) => profile.member)
+            : backup.tables[table].map((row) => row.id);
+        let count = 0;
+        for (let i = 0; i < values.length; i += PAGE_SIZE) {
+          let query = supabase.from(table).select('id').in(key, values.slice(i, i + PAGE_SIZE));
+          if (key !== 'id') query = query.eq('household_id', householdId);
+
+          const { data, error: fetchError } = await query;
+          if (fetchError) throw fetchError;
+          count += data?.length ?? 0;
+        }
+        if (count > 0) conflicts[table] = count;
+      }
+      return conflicts;
+    } catch (err) {
+      console.error('Error checking backup conflicts:', err);
+      setError(err instanceof Error ? err.message : 'Failed to check backup');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  /**
+   * Replay a validated backup into the active household. "skip" keeps rows
+   * that already exist, "overwrite" replaces them with the backup's version
+   * and "copy" inserts everything under new IDs.
+   */
+  const restoreBackup = async (backup: BackupFile, mode: RestoreMode): Promise<boolean> => {
+    try {
+      setBusy(true);
+      setError(null);
+
+      const tables = mode === 'copy' ? withNewIds(backup.tables) : backup.tables;
+
+      for (const table of BACKUP_TABLES) {
+        // Rollover history isn't part of a backup, so restored rows no longer belong to a rollover
+        const rows = (tables[table] as { id: string }[]).map((row) => ({
+          ...row,
+          household_id: householdId,
+          ...('rollover_id' in row ? { rollover_id: null } : {}),
+        }));
+        const naturalKey = NATURAL_KEYS[table];
+
+        for (let i = 0; i < rows.length; i += PAGE_SIZE) {
+          const chunk = rows.slice(i, i + PAGE_SIZE);
+          // Rows matched on a natural key keep the IDs they already have
+          const { error: upsertError } = naturalKey
+            ? await supabase.from(table).upsert(
+                chunk.map((item) => {
+                  const row: Partial<typeof item> = { ...item };
+                  delete row.id;
+                  return row;
+                }),
+                { onConflict: naturalKey, ignoreDuplicates: mode !== 'overwrite' }
+              )
+            : await supabase.from(table).upsert(chunk, { ignoreDuplicates: mode === 'skip' });
+
+          if (upsertError) throw new Error(`${table}: ${upsertError.message}`);
+        }
+      }
+      return true;
+    } catch (err) {
+      console.error('Error restoring backup:', err);
+      setError(err instanceof Error ? err.message : 'Failed to restore backup');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return {
+    busy,
+    error,
+    exportBackup,
+    findConflicts,
+    restoreBackup,
+  };
+}
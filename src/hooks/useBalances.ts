@@ -1,53 +1,38 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { addMonths, balanceAfterMonth, buildAmortisationSchedule } from '../lib/amortisation';
+import { ledgerBalance, pendingInterest, pendingPayments } from '../lib/balanceLedger';
+import { mergeRowChange } from '../lib/realtime';
 import { supabase, TABLES } from '../lib/supabase';
-import type { BalanceAccount, BalanceAccountFormData, BalanceHistory, Expense } from '../types/budget';
-
-/** Generate list of months from December 2025 through December 2026 */
-export function getBalanceMonthOptions(): { value: string; label: string }[] {
-  const options: { value: string; label: string }[] = [];
-  
-  // Start from December 2025
-  const startDate = new Date(2025, 11, 1); // December 2025
-  const endDate = new Date(2026, 11, 1); // December 2026
-  
-  const currentDate = new Date(startDate);
-  while (currentDate <= endDate) {
-    const value = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}`;
-    const label = currentDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
-    options.push({ value, label });
-    currentDate.setMonth(currentDate.getMonth() + 1);
-  }
-  
-  return options;
-}
+import { useActiveHousehold } from './useActiveHousehold';
+import { useRealtimeChanges } from './useRealtimeChanges';
+import type {
+  BalanceAccount,
+  BalanceAccountFormData,
+  BalanceDeduction,
+  BalanceEntryFormData,
+  BalanceHistory,
+  DebtPlan,
+  Expense,
+  RemoteChange,
+} from '../types/budget';
+
+/** Tables whose changes from other devices are merged in as they happen */
+const REALTIME_TABLES = [TABLES.BALANCE_ACCOUNTS, TABLES.BALANCE_HISTORY, TABLES.EXPENSES];
 
-/** Calculate the current balance for an account based on months elapsed */
+/**
+ * Balance of an account after the month's deduction, following its
+ * amortisation schedule and deduction changes - interest and fees included
+ */
 export function calculateCurrentBalance(
-  initialBalance: number,
-  monthlyDeduction: number,
-  startMonth: string,
-  currentMonth: string
+  account: BalanceAccount,
+  currentMonth: string,
+  deductions: BalanceDeduction[] = []
 ): number {
-  const [startYear, startMonthNum] = startMonth.split('-').map(Number);
-  const [currentYear, currentMonthNum] = currentMonth.split('-').map(Number);
-  
-  const startDate = new Date(startYear, startMonthNum - 1, 1);
-  const currentDate = new Date(currentYear, currentMonthNum - 1, 1);
-  
-  // Calculate months elapsed (including start month)
-  const monthsElapsed = 
-    (currentDate.getFullYear() - startDate.getFullYear()) * 12 +
-    (currentDate.getMonth() - startDate.getMonth());
-  
-  if (monthsElapsed < 0) {
-    return initialBalance; // Haven't started deducting yet
-  }
-  
-  // Deduct for each month including the current one
-  const totalDeductions = monthlyDeduction * (monthsElapsed + 1);
-  const currentBalance = initialBalance - totalDeductions;
-  
-  return Math.max(0, currentBalance); // Don't go below zero
+  return balanceAfterMonth(
+    buildAmortisationSchedule(account, { until: currentMonth, deductions }),
+    account.initial_balance,
+    currentMonth
+  );
 }
 
 /** Get the current month in YYYY-MM format */
@@ -56,24 +41,54 @@ export function getCurrentBalanceMonth(): string {
   return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
 }
 
+/** Account with its balance in the ledger as of this month */
+function withCurrentBalance(account: BalanceAccount, history: BalanceHistory[]): BalanceAccount {
+  return {
+    ...account,
+    current_balance: ledgerBalance(account, history, getCurrentBalanceMonth()),
+  };
+}
+
 interface UseBalancesReturn {
   accounts: BalanceAccount[];
-  history: BalanceHistory[];
+  history: BalanceHistory[]; // Ledger entries of every account, newest month first
+  deductions: BalanceDeduction[]; // Deduction changes of every account
   paidExpenses: Expense[]; // All paid expenses linked to balance accounts
   loading: boolean;
   error: string | null;
+  ledgerError: string | null; // Posting payments, interest or fees to the ledger failed
   addAccount: (data: BalanceAccountFormData) => Promise<void>;
   updateAccount: (id: string, data: Partial<BalanceAccountFormData>) => Promise<void>;
   deleteAccount: (id: string) => Promise<void>;
+  addEntry: (data: BalanceEntryFormData) => Promise<void>;
+  deleteEntry: (id: string) => Promise<void>;
+  adoptDebtPlan: (plan: DebtPlan) => Promise<void>;
   refreshBalances: () => Promise<void>;
+  lastRemoteChange: RemoteChange | null; // Latest change made by someone else
 }
 
 export function useBalances(): UseBalancesReturn {
+  const { householdId } = useActiveHousehold();
   const [accounts, setAccounts] = useState<BalanceAccount[]>([]);
   const [history, setHistory] = useState<BalanceHistory[]>([]);
+  const [deductions, setDeductions] = useState<BalanceDeduction[]>([]);
   const [paidExpenses, setPaidExpenses] = useState<Expense[]>([]);
+  const [paidExpensesLoaded, setPaidExpensesLoaded] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [ledgerError, setLedgerError] = useState<string | null>(null);
+  const syncing = useRef(false);
+
+  const fetchHistory = useCallback(async () => {
+    const { data, error: historyError } = await supabase
+      .from(TABLES.BALANCE_HISTORY)
+      .select('*')
+      .eq('household_id', householdId)
+      .order('month', { ascending: false });
+
+    if (historyError) throw historyError;
+    return (data || []) as BalanceHistory[];
+  }, [householdId]);
 
   const fetchData = useCallback(async () => {
     try {
@@ -84,22 +99,28 @@ export function useBalances(): UseBalancesReturn {
       const { data: accountsData, error: accountsError } = await supabase
         .from(TABLES.BALANCE_ACCOUNTS)
         .select('*')
+        .eq('household_id', householdId)
         .order('name');
 
       if (accountsError) throw accountsError;
 
-      // Fetch balance history
-      const { data: historyData, error: historyError } = await supabase
-        .from(TABLES.BALANCE_HISTORY)
+      // Fetch the balance ledger
+      const historyData = await fetchHistory();
+
+      // Fetch deduction changes
+      const { data: deductionsData, error: deductionsError } = await supabase
+        .from(TABLES.BALANCE_DEDUCTIONS)
         .select('*')
-        .order('month', { ascending: false });
+        .eq('household_id', householdId)
+        .order('from_month');
 
-      if (historyError) throw historyError;
+      if (deductionsError) throw deductionsError;
 
       // Fetch all paid expenses that are linked to balance accounts
       const { data: paidExpensesData, error: paidError } = await supabase
         .from(TABLES.EXPENSES)
         .select('*')
+        .eq('household_id', householdId)
         .not('balance_account_id', 'is', null)
         .eq('is_paid', true)
         .order('month', { ascending: false });
@@ -109,46 +130,113 @@ export function useBalances(): UseBalancesReturn {
         console.warn('Error fetching paid expenses:', paidError);
       }
 
-      // Calculate current balances for each account
-      const currentMonth = getCurrentBalanceMonth();
-      const accountsWithCurrentBalance = (accountsData || []).map((account: BalanceAccount) => ({
-        ...account,
-        current_balance: calculateCurrentBalance(
-          account.initial_balance,
-          account.monthly_deduction,
-          account.start_month,
-          currentMonth
-        ),
-      }));
-
-      setAccounts(accountsWithCurrentBalance);
-      setHistory(historyData || []);
+      setAccounts(accountsData || []);
+      setHistory(historyData);
+      setDeductions(deductionsData || []);
       setPaidExpenses(paidExpensesData || []);
+      setPaidExpensesLoaded(!paidError);
     } catch (err) {
       console.error('Error fetching balance data:', err);
       setError(err instanceof Error ? err.message : 'Failed to load balance data');
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [householdId, fetchHistory]);
 
   useEffect(() => {
     fetchData();
   }, [fetchData]);
 
+  /**
+   * Bring the ledger up to date: post a payment for every paid expense linked
+   * to an account, and once the payments are in, the interest and fees of the
+   * months that have ended. Every device does this, so posting is idempotent -
+   * payments are keyed by their expense and the database takes one interest
+   * and one fee entry per account and month.
+   */
+  useEffect(() => {
+    // Without every paid expense, payments that are still valid would look stale
+    if (loading || error || !paidExpensesLoaded || syncing.current) return;
+
+    const payments = pendingPayments(paidExpenses, history);
+    const charges = payments.post.length > 0 || payments.remove.length > 0
+      ? []
+      : accounts.flatMap((account) => pendingInterest(account, history, addMonths(getCurrentBalanceMonth(), -1)));
+    if (payments.post.length === 0 && payments.remove.length === 0 && charges.length === 0) return;
+
+    const postEntries = async () => {
+      syncing.current = true;
+      try {
+        if (payments.remove.length > 0) {
+          const { error: removeError } = await supabase
+            .from(TABLES.BALANCE_HISTORY)
+            .delete()
+            .in('id', payments.remove);
+
+          if (removeError) throw removeError;
+        }
+        if (payments.post.length > 0) {
+          const { error: postError } = await supabase
+            .from(TABLES.BALANCE_HISTORY)
+            .upsert(payments.post.map((entry) => ({ ...entry, household_id: householdId })), { onConflict: 'expense_id' });
+
+          if (postError) throw postError;
+        }
+        if (charges.length > 0) {
+          const { error: chargeError } = await supabase
+            .from(TABLES.BALANCE_HISTORY)
+            .insert(charges.map((entry) => ({ ...entry, household_id: householdId })));
+
+          // 23505: another device posted the same month first - its entries come in with the refetch
+          if (chargeError && chargeError.code !== '23505') throw chargeError;
+        }
+        setLedgerError(null);
+        setHistory(await fetchHistory());
+      } catch (err) {
+        console.error('Error posting to the balance ledger:', err);
+        setLedgerError(err instanceof Error ? err.message : 'Failed to update the balance ledger');
+      } finally {
+        syncing.current = false;
+      }
+    };
+    postEntries();
+  }, [accounts, history, paidExpenses, paidExpensesLoaded, loading, error, householdId, fetchHistory]);
+
+  // Merge changes made in other tabs and on other devices, keeping each list's order
+  const lastRemoteChange = useRealtimeChanges('balances', REALTIME_TABLES, (table, change) => {
+    switch (table) {
+      case TABLES.BALANCE_ACCOUNTS:
+        setAccounts((rows) => mergeRowChange(rows, change, () => true).sort((a, b) => a.name.localeCompare(b.name)));
+        break;
+      case TABLES.BALANCE_HISTORY:
+        setHistory((rows) => mergeRowChange(rows, change, () => true).sort((a, b) => b.month.localeCompare(a.month)));
+        break;
+      case TABLES.EXPENSES:
+        setPaidExpenses((rows) =>
+          mergeRowChange(rows, change, (e) => Boolean(e.balance_account_id) && e.is_paid)
+            .sort((a, b) => b.month.localeCompare(a.month))
+        );
+        break;
+    }
+  });
+
   const addAccount = useCallback(async (data: BalanceAccountFormData) => {
     const { error } = await supabase.from(TABLES.BALANCE_ACCOUNTS).insert({
+      household_id: householdId,
       name: data.name,
       description: data.description,
       initial_balance: data.initial_balance,
       current_balance: data.initial_balance, // Initially same as initial
       monthly_deduction: data.monthly_deduction,
       start_month: data.start_month,
+      annual_rate: data.annual_rate,
+      compounding: data.compounding,
+      monthly_fee: data.monthly_fee,
     });
 
     if (error) throw error;
     await fetchData();
-  }, [fetchData]);
+  }, [householdId, fetchData]);
 
   const updateAccount = useCallback(async (id: string, data: Partial<BalanceAccountFormData>) => {
     const { error } = await supabase
@@ -177,19 +265,75 @@ export function useBalances(): UseBalancesReturn {
     await fetchData();
   }, [fetchData]);
 
+  const addEntry = useCallback(async (data: BalanceEntryFormData) => {
+    const { error } = await supabase.from(TABLES.BALANCE_HISTORY).insert({
+      household_id: householdId,
+      account_id: data.account_id,
+      month: data.month,
+      kind: data.kind,
+      amount: data.amount,
+      note: data.note,
+    });
+
+    if (error) throw error;
+    await fetchData();
+  }, [householdId, fetchData]);
+
+  const deleteEntry = useCallback(async (id: string) => {
+    const { error } = await supabase
+      .from(TABLES.BALANCE_HISTORY)
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    await fetchData();
+  }, [fetchData]);
+
+  /**
+   * Put a debt plan in place: the plan's deduction changes replace any from
+   * its first month on, for the accounts in the plan. Earlier months keep
+   * their deductions.
+   */
+  const adoptDebtPlan = useCallback(async (plan: DebtPlan) => {
+    const accountIds = plan.accounts.map((a) => a.accountId);
+    const { error: deleteError } = await supabase
+      .from(TABLES.BALANCE_DEDUCTIONS)
+      .delete()
+      .in('account_id', accountIds)
+      .gte('from_month', plan.startMonth);
+
+    if (deleteError) throw deleteError;
+
+    if (plan.deductions.length > 0) {
+      const { error: insertError } = await supabase
+        .from(TABLES.BALANCE_DEDUCTIONS)
+        .insert(plan.deductions.map((d) => ({ ...d, household_id: householdId })));
+
+      if (insertError) throw insertError;
+    }
+    await fetchData();
+  }, [householdId, fetchData]);
+
   const refreshBalances = useCallback(async () => {
     await fetchData();
   }, [fetchData]);
 
   return {
-    accounts,
+    // Balances as of this month, from the ledger
+    accounts: accounts.map((account) => withCurrentBalance(account, history)),
     history,
+    deductions,
     paidExpenses,
     loading,
     error,
+    ledgerError,
     addAccount,
     updateAccount,
     deleteAccount,
+    addEntry,
+    deleteEntry,
+    adoptDebtPlan,
     refreshBalances,
+    lastRemoteChange,
   };
 }
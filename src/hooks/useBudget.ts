@@ -1,13 +1,23 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { supabase, TABLES } from '../lib/supabase';
+import { listMutations, queueMutations, readCachedMonth, removeMutation, writeCachedMonth } from '../lib/offlineStore';
+import { applyQueuedMutations, forceMutation, isNetworkError, syncQueuedMutations } from '../lib/offlineSync';
+import { mergeRowChange } from '../lib/realtime';
+import { calculateHouseholdSummary } from '../lib/summary';
+import { expenseTotal } from '../lib/vat';
+import { useActiveHousehold } from './useActiveHousehold';
+import { useRealtimeChanges } from './useRealtimeChanges';
 import type {
+  DueSchedule,
   Expense,
   ExpenseFormData,
   FamilyMember,
-  HouseholdSummary,
   Income,
   IncomeFormData,
-  MemberSummary,
+  MonthRollover,
+  OfflineTable,
+  QueuedMutation,
+  SplitRulesFormData,
   Tax,
   TaxFormData,
   UnnecessaryExpense,
@@ -35,227 +45,137 @@ export function formatMonth(month: string): string {
   return date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
 }
 
-/** Calculate member summary */
-function calculateMemberSummary(
-  member: FamilyMember,
-  incomes: Income[],
-  taxes: Tax[],
-  expenses: Expense[],
-  unnecessaryExpenses: UnnecessaryExpense[]
-): MemberSummary {
-  const memberIncomes = incomes.filter((i) => i.member === member);
-  const memberTaxes = taxes.filter((t) => t.member === member);
-  const memberExpenses = expenses.filter((e) => e.member === member);
-  const memberUnnecessaryExpenses = unnecessaryExpenses.filter((u) => u.member === member);
-
-  // Separate salary income from other income
-  const grossIncome = memberIncomes
-    .filter((i) => i.income_type === 'Salary')
-    .reduce((sum, i) => sum + Number(i.amount), 0);
-  const otherIncome = memberIncomes
-    .filter((i) => i.income_type === 'Other')
-    .reduce((sum, i) => sum + Number(i.amount), 0);
-  const totalIncome = grossIncome + otherIncome;
-  const totalTaxes = memberTaxes.reduce((sum, t) => sum + Number(t.amount), 0);
-  const totalExpenses = memberExpenses.reduce((sum, e) => sum + Number(e.amount), 0);
-  const totalUnnecessaryExpenses = memberUnnecessaryExpenses.reduce((sum, u) => sum + Number(u.amount), 0);
-  // Net income = Gross Income - Taxes + Other Income
-  const netIncome = grossIncome - totalTaxes + otherIncome;
-  const remainingBalance = netIncome - totalExpenses - totalUnnecessaryExpenses;
-
-  return {
-    member,
-    grossIncome,
-    otherIncome,
-    totalIncome,
-    totalTaxes,
-    netIncome,
-    totalExpenses,
-    totalUnnecessaryExpenses,
-    remainingBalance,
-  };
+/** Unnecessary expenses were added later - treat a database without the table as having none */
+function emptyIfMissing<T>(err: unknown): { rows: T[]; fromServer: boolean } {
+  if (err instanceof Error && err.message.includes('does not exist')) {
+    return { rows: [], fromServer: true };
+  }
+  throw err;
 }
 
-/** Calculate household summary */
-function calculateHouseholdSummary(
-  incomes: Income[],
-  taxes: Tax[],
-  expenses: Expense[],
-  unnecessaryExpenses: UnnecessaryExpense[]
-): HouseholdSummary {
-  const nikkieSummary = calculateMemberSummary('Nikkie', incomes, taxes, expenses, unnecessaryExpenses);
-  const heinSummary = calculateMemberSummary('Hein', incomes, taxes, expenses, unnecessaryExpenses);
-
-  const grossIncome = nikkieSummary.grossIncome + heinSummary.grossIncome;
-  const otherIncome = nikkieSummary.otherIncome + heinSummary.otherIncome;
-  const totalIncome = nikkieSummary.totalIncome + heinSummary.totalIncome;
-  const totalTaxes = nikkieSummary.totalTaxes + heinSummary.totalTaxes;
-  const totalExpenses = nikkieSummary.totalExpenses + heinSummary.totalExpenses;
-  const totalUnnecessaryExpenses = nikkieSummary.totalUnnecessaryExpenses + heinSummary.totalUnnecessaryExpenses;
-  const netIncome = grossIncome - totalTaxes + otherIncome;
-  const remainingBalance = netIncome - totalExpenses - totalUnnecessaryExpenses;
+/** How often queued changes are retried while some are still waiting */
+const SYNC_RETRY_MS = 30000;
 
-  return {
-    grossIncome,
-    otherIncome,
-    totalIncome,
-    totalTaxes,
-    netIncome,
-    totalExpenses,
-    totalUnnecessaryExpenses,
-    remainingBalance,
-    nikkieSummary,
-    heinSummary,
-  };
-}
+/** Tables whose changes from other devices are merged in as they happen */
+const REALTIME_TABLES = [TABLES.INCOMES, TABLES.TAXES, TABLES.EXPENSES, TABLES.UNNECESSARY_EXPENSES];
 
+/** A queued change before it is stamped with the household and queue time */
+type Change = Pick<QueuedMutation, 'table' | 'op' | 'row_id' | 'month' | 'data' | 'base_updated_at'>;
 
 /** Custom hook for budget data management */
-export function useBudget(selectedMonth: string) {
-  const [incomes, setIncomes] = useState<Income[]>([]);
-  const [taxes, setTaxes] = useState<Tax[]>([]);
-  const [expenses, setExpenses] = useState<Expense[]>([]);
-  const [unnecessaryExpenses, setUnnecessaryExpenses] = useState<UnnecessaryExpense[]>([]);
+export function useBudget(selectedMonth: string, members: FamilyMember[], splitRules: SplitRulesFormData) {
+  const { householdId } = useActiveHousehold();
+  // Rows as last fetched from Supabase (or this device's copy of them when offline)
+  const [savedIncomes, setIncomes] = useState<Income[]>([]);
+  const [savedTaxes, setTaxes] = useState<Tax[]>([]);
+  const [savedExpenses, setExpenses] = useState<Expense[]>([]);
+  const [savedUnnecessaryExpenses, setUnnecessaryExpenses] = useState<UnnecessaryExpense[]>([]);
+  const [queuedChanges, setQueuedChanges] = useState<QueuedMutation[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isCarryingOver, setIsCarryingOver] = useState(false);
-  
-  // Track which months have been auto-carried over to prevent duplicate carries
-  const carriedOverMonths = useRef<Set<string>>(new Set());
+  const [rollover, setRollover] = useState<MonthRollover | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  // Only one replay runs at a time; a request during it triggers another pass
+  const syncing = useRef(false);
+  const syncRequested = useRef(false);
+
+  /** Fetch one table's rows for a month, falling back to this device's copy when offline */
+  const loadMonth = useCallback(async <T,>(table: OfflineTable, month: string) => {
+    const { data, error: fetchError } = await supabase
+      .from(table)
+      .select('*')
+      .eq('household_id', householdId)
+      .eq('month', month)
+      .order('created_at', { ascending: false });
+
+    if (fetchError) {
+      if (!isNetworkError(fetchError)) throw fetchError;
+      const cached = await readCachedMonth<T>(householdId, table, month).catch(() => null);
+      return { rows: cached ?? [], fromServer: false };
+    }
+
+    const rows: T[] = data || [];
+    writeCachedMonth(householdId, table, month, rows).catch((err) => {
+      console.error('Error caching budget data:', err);
+    });
+    return { rows, fromServer: true };
+  }, [householdId]);
+
+  /** Re-read the offline queue so pending changes show up */
+  const refreshQueue = useCallback(async () => {
+    try {
+      setQueuedChanges(await listMutations(householdId));
+    } catch (err) {
+      console.error('Error reading offline changes:', err);
+    }
+  }, [householdId]);
 
   /** Fetch data without triggering auto carry-forward */
   const fetchDataWithoutAutoCarry = useCallback(async () => {
     try {
       const [incomesResult, taxesResult, expensesResult, unnecessaryExpensesResult] = await Promise.all([
-        supabase
-          .from(TABLES.INCOMES)
-          .select('*')
-          .eq('month', selectedMonth)
-          .order('created_at', { ascending: false }),
-        supabase
-          .from(TABLES.TAXES)
-          .select('*')
-          .eq('month', selectedMonth)
-          .order('created_at', { ascending: false }),
-        supabase
-          .from(TABLES.EXPENSES)
-          .select('*')
-          .eq('month', selectedMonth)
-          .order('created_at', { ascending: false }),
-        supabase
-          .from(TABLES.UNNECESSARY_EXPENSES)
-          .select('*')
-          .eq('month', selectedMonth)
-          .order('created_at', { ascending: false }),
+        loadMonth<Income>(TABLES.INCOMES, selectedMonth),
+        loadMonth<Tax>(TABLES.TAXES, selectedMonth),
+        loadMonth<Expense>(TABLES.EXPENSES, selectedMonth),
+        loadMonth<UnnecessaryExpense>(TABLES.UNNECESSARY_EXPENSES, selectedMonth).catch(emptyIfMissing<UnnecessaryExpense>),
       ]);
 
-      if (incomesResult.error) throw incomesResult.error;
-      if (taxesResult.error) throw taxesResult.error;
-      if (expensesResult.error) throw expensesResult.error;
-
-      setIncomes(incomesResult.data || []);
-      setTaxes(taxesResult.data || []);
-      setExpenses(expensesResult.data || []);
-      setUnnecessaryExpenses(unnecessaryExpensesResult.data || []);
+      setIncomes(incomesResult.rows);
+      setTaxes(taxesResult.rows);
+      setExpenses(expensesResult.rows);
+      setUnnecessaryExpenses(unnecessaryExpensesResult.rows);
     } catch (err) {
       console.error('Error fetching data:', err);
     }
-  }, [selectedMonth]);
+  }, [selectedMonth, loadMonth]);
 
-  /** Auto carry forward all data from previous month */
-  const autoCarryForwardFromPreviousMonth = useCallback(async (): Promise<boolean> => {
-    setIsCarryingOver(true);
+  /** Fetch the selected month's rollover record, if it has one */
+  const fetchRollover = useCallback(async () => {
     try {
-      const previousMonth = getPreviousMonth(selectedMonth);
-
-      // Fetch all data from previous month
-      const [incomesResult, taxesResult, expensesResult] = await Promise.all([
-        supabase
-          .from(TABLES.INCOMES)
-          .select('*')
-          .eq('month', previousMonth)
-          .order('created_at', { ascending: true }),
-        supabase
-          .from(TABLES.TAXES)
-          .select('*')
-          .eq('month', previousMonth)
-          .order('created_at', { ascending: true }),
-        supabase
-          .from(TABLES.EXPENSES)
-          .select('*')
-          .eq('month', previousMonth)
-          .order('created_at', { ascending: true }),
-      ]);
-
-      if (incomesResult.error) throw incomesResult.error;
-      if (taxesResult.error) throw taxesResult.error;
-      if (expensesResult.error) throw expensesResult.error;
-
-      const prevIncomes = incomesResult.data || [];
-      const prevTaxes = taxesResult.data || [];
-      const prevExpenses = expensesResult.data || [];
-
-      // If no previous data, nothing to carry forward
-      if (prevIncomes.length === 0 && prevTaxes.length === 0 && prevExpenses.length === 0) {
-        return true;
-      }
-
-      // Create new records for current month
-      const newIncomes = prevIncomes.map((income) => ({
-        member: income.member,
-        income_type: income.income_type,
-        description: income.description,
-        amount: income.amount,
-        month: selectedMonth,
-      }));
-
-      const newTaxes = prevTaxes.map((tax) => ({
-        member: tax.member,
-        description: tax.description,
-        amount: tax.amount,
-        month: selectedMonth,
-      }));
+      const { data, error: fetchError } = await supabase
+        .from(TABLES.MONTH_ROLLOVERS)
+        .select('*')
+        .eq('household_id', householdId)
+        .eq('month', selectedMonth)
+        .maybeSingle();
 
-      const newExpenses = prevExpenses.map((expense) => ({
-        member: expense.member,
-        category: expense.category,
-        description: expense.description,
-        amount: expense.amount,
-        is_shared: expense.is_shared,
-        is_recurring: expense.is_recurring,
-        is_paid: expense.is_paid,
-        include_vat: expense.include_vat,
-        note: expense.note,
-        balance_account_id: expense.balance_account_id,
-        month: selectedMonth,
-      }));
-
-      // Insert all new records
-      if (newIncomes.length > 0) {
-        const { error: incomeError } = await supabase.from(TABLES.INCOMES).insert(newIncomes);
-        if (incomeError) throw incomeError;
-      }
-      if (newTaxes.length > 0) {
-        const { error: taxError } = await supabase.from(TABLES.TAXES).insert(newTaxes);
-        if (taxError) throw taxError;
-      }
-      if (newExpenses.length > 0) {
-        const { error: expenseError } = await supabase.from(TABLES.EXPENSES).insert(newExpenses);
-        if (expenseError) throw expenseError;
-      }
+      if (fetchError) throw fetchError;
+      setRollover(data);
+    } catch (err) {
+      // Offline, or a database without the rollover tables yet
+      console.error('Error fetching month rollover:', err);
+      setRollover(null);
+    }
+  }, [selectedMonth, householdId]);
+
+  /**
+   * Ask the server to copy the previous month into the selected one. The
+   * database runs each month's rollover once, however many devices ask;
+   * `manual` also copies into a month that has entries or was undone.
+   */
+  const runRollover = useCallback(async (manual: boolean): Promise<boolean> => {
+    setIsCarryingOver(true);
+    try {
+      const { data, error: rpcError } = await supabase.rpc('rollover_month', {
+        p_household_id: householdId,
+        p_month: selectedMonth,
+        p_manual: manual,
+      });
 
-      // Refresh data after carry over
+      if (rpcError) throw rpcError;
+      setRollover(data?.id ? data : null);
       await fetchDataWithoutAutoCarry();
       return true;
     } catch (err) {
-      console.error('Error auto carrying over from previous month:', err);
-      // Remove from carried over set so user can retry
-      carriedOverMonths.current.delete(selectedMonth);
+      console.error('Error rolling over from previous month:', err);
       return false;
     } finally {
       setIsCarryingOver(false);
     }
-  }, [selectedMonth, fetchDataWithoutAutoCarry]);
+  }, [selectedMonth, householdId, fetchDataWithoutAutoCarry]);
 
   /** Fetch all data for the selected month */
   const fetchData = useCallback(async () => {
@@ -264,56 +184,41 @@ export function useBudget(selectedMonth: string) {
 
     try {
       const [incomesResult, taxesResult, expensesResult, unnecessaryExpensesResult] = await Promise.all([
-        supabase
-          .from(TABLES.INCOMES)
-          .select('*')
-          .eq('month', selectedMonth)
-          .order('created_at', { ascending: false }),
-        supabase
-          .from(TABLES.TAXES)
-          .select('*')
-          .eq('month', selectedMonth)
-          .order('created_at', { ascending: false }),
-        supabase
-          .from(TABLES.EXPENSES)
-          .select('*')
-          .eq('month', selectedMonth)
-          .order('created_at', { ascending: false }),
-        supabase
-          .from(TABLES.UNNECESSARY_EXPENSES)
-          .select('*')
-          .eq('month', selectedMonth)
-          .order('created_at', { ascending: false }),
+        loadMonth<Income>(TABLES.INCOMES, selectedMonth),
+        loadMonth<Tax>(TABLES.TAXES, selectedMonth),
+        loadMonth<Expense>(TABLES.EXPENSES, selectedMonth),
+        // Don't throw for unnecessary expenses - table might not exist yet
+        loadMonth<UnnecessaryExpense>(TABLES.UNNECESSARY_EXPENSES, selectedMonth).catch(emptyIfMissing<UnnecessaryExpense>),
       ]);
 
-      if (incomesResult.error) throw incomesResult.error;
-      if (taxesResult.error) throw taxesResult.error;
-      if (expensesResult.error) throw expensesResult.error;
-      // Don't throw for unnecessary expenses - table might not exist yet
-      if (unnecessaryExpensesResult.error && !unnecessaryExpensesResult.error.message.includes('does not exist')) {
-        throw unnecessaryExpensesResult.error;
-      }
-
-      const fetchedIncomes = incomesResult.data || [];
-      const fetchedTaxes = taxesResult.data || [];
-      const fetchedExpenses = expensesResult.data || [];
-      const fetchedUnnecessaryExpenses = unnecessaryExpensesResult.data || [];
+      const fetchedIncomes = incomesResult.rows;
+      const fetchedTaxes = taxesResult.rows;
+      const fetchedExpenses = expensesResult.rows;
 
       setIncomes(fetchedIncomes);
       setTaxes(fetchedTaxes);
       setExpenses(fetchedExpenses);
-      setUnnecessaryExpenses(fetchedUnnecessaryExpenses);
+      setUnnecessaryExpenses(unnecessaryExpensesResult.rows);
+
+      // Entries added offline for this month count as data - rolling over as well would duplicate them
+      const queued = await listMutations(householdId).catch(() => []);
+      const hasQueuedEntries = queued.some((m) => m.op === 'insert' && m.month === selectedMonth);
 
-      // Auto carry-forward if current month has no data and we haven't already carried over
+      // Roll over into an empty month. Only decided on fresh server data: an empty
+      // offline copy just means the month was never fetched here. The server
+      // re-checks, so a month another device already filled is left alone.
       if (
+        incomesResult.fromServer &&
         fetchedIncomes.length === 0 &&
         fetchedTaxes.length === 0 &&
         fetchedExpenses.length === 0 &&
-        !carriedOverMonths.current.has(selectedMonth)
+        !hasQueuedEntries
       ) {
-        // Mark as carried over before starting to prevent race conditions
-        carriedOverMonths.current.add(selectedMonth);
-        await autoCarryForwardFromPreviousMonth();
+        await runRollover(false);
+      } else if (incomesResult.fromServer) {
+        await fetchRollover();
+      } else {
+        setRollover(null);
       }
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to fetch data';
@@ -322,137 +227,186 @@ export function useBudget(selectedMonth: string) {
     } finally {
       setLoading(false);
     }
-  }, [selectedMonth, autoCarryForwardFromPreviousMonth]);
+  }, [selectedMonth, householdId, loadMonth, runRollover, fetchRollover]);
 
   useEffect(() => {
     fetchData();
   }, [fetchData]);
 
-  /** Add income */
-  const addIncome = async (data: IncomeFormData): Promise<boolean> => {
-    try {
-      const { error } = await supabase.from(TABLES.INCOMES).insert({
-        ...data,
-        month: selectedMonth,
-      });
-      if (error) throw error;
-      await fetchData();
-      return true;
-    } catch (err) {
-      console.error('Error adding income:', err);
-      return false;
+  // Merge changes made in other tabs and on other devices into the month on screen
+  const lastRemoteChange = useRealtimeChanges('budget', REALTIME_TABLES, (table, change) => {
+    const inMonth = (row: { month: string }) => row.month === selectedMonth;
+    switch (table) {
+      case TABLES.INCOMES:
+        setIncomes((rows) => mergeRowChange(rows, change, inMonth));
+        break;
+      case TABLES.TAXES:
+        setTaxes((rows) => mergeRowChange(rows, change, inMonth));
+        break;
+      case TABLES.EXPENSES:
+        setExpenses((rows) => mergeRowChange(rows, change, inMonth));
+        break;
+      case TABLES.UNNECESSARY_EXPENSES:
+        setUnnecessaryExpenses((rows) => mergeRowChange(rows, change, inMonth));
+        break;
     }
-  };
+  });
 
-  /** Delete income */
-  const deleteIncome = async (id: string): Promise<boolean> => {
-    try {
-      const { error } = await supabase.from(TABLES.INCOMES).delete().eq('id', id);
-      if (error) throw error;
-      await fetchData();
-      return true;
-    } catch (err) {
-      console.error('Error deleting income:', err);
-      return false;
+  /** Replay queued changes to Supabase, then refresh what's on screen */
+  const syncQueuedChanges = useCallback(async () => {
+    if (syncing.current) {
+      syncRequested.current = true;
+      return;
     }
-  };
 
-  /** Update income */
-  const updateIncome = async (id: string, data: IncomeFormData): Promise<boolean> => {
+    syncing.current = true;
     try {
-      const { error } = await supabase.from(TABLES.INCOMES).update(data).eq('id', id);
-      if (error) throw error;
-      await fetchData();
-      return true;
+      do {
+        syncRequested.current = false;
+        if (!navigator.onLine) break;
+
+        setIsSyncing(true);
+        const { synced } = await syncQueuedMutations(householdId);
+        if (synced > 0) await fetchDataWithoutAutoCarry();
+      } while (syncRequested.current);
     } catch (err) {
-      console.error('Error updating income:', err);
-      return false;
+      console.error('Error syncing offline changes:', err);
+    } finally {
+      syncing.current = false;
+      setIsSyncing(false);
+      await refreshQueue();
     }
-  };
+  }, [householdId, fetchDataWithoutAutoCarry, refreshQueue]);
 
-  /** Add tax */
-  const addTax = async (data: TaxFormData): Promise<boolean> => {
+  useEffect(() => {
+    syncQueuedChanges();
+  }, [syncQueuedChanges]);
+
+  // Replay as soon as the connection comes back
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncQueuedChanges();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncQueuedChanges]);
+
+  // The browser can report online while Supabase is unreachable (e.g. weak signal), so keep retrying
+  const hasWaitingChanges = queuedChanges.some((m) => !m.conflict);
+  useEffect(() => {
+    if (!hasWaitingChanges) return;
+    const timer = window.setInterval(syncQueuedChanges, SYNC_RETRY_MS);
+    return () => window.clearInterval(timer);
+  }, [hasWaitingChanges, syncQueuedChanges]);
+
+  /**
+   * Save changes on this device first, then send them to Supabase. Works the
+   * same offline: the queue is replayed when the connection returns.
+   */
+  const queueChanges = async (changes: Change[]): Promise<boolean> => {
     try {
-      const { error } = await supabase.from(TABLES.TAXES).insert({
-        ...data,
-        month: selectedMonth,
-      });
-      if (error) throw error;
-      await fetchData();
+      const queuedAt = new Date().toISOString();
+      await queueMutations(
+        changes.map((change) => ({ ...change, household_id: householdId, queued_at: queuedAt, conflict: null }))
+      );
+      await refreshQueue();
+      syncQueuedChanges();
       return true;
     } catch (err) {
-      console.error('Error adding tax:', err);
+      console.error('Error saving budget change:', err);
       return false;
     }
   };
 
-  /** Delete tax */
-  const deleteTax = async (id: string): Promise<boolean> => {
+  /** Queue new rows for a month; IDs are assigned here so later edits can refer to them offline */
+  const queueInserts = (table: OfflineTable, rows: object[], month: string) =>
+    queueChanges(rows.map((row) => ({
+      table,
+      op: 'insert',
+      row_id: crypto.randomUUID(),
+      month,
+      data: { ...row },
+      base_updated_at: null,
+    })));
+
+  /** Queue an edit or delete against the version of the row last fetched from Supabase */
+  const queueRowChange = (
+    table: OfflineTable,
+    savedRows: { id: string; updated_at?: string | null }[],
+    id: string,
+    op: 'update' | 'delete',
+    data: object = {}
+  ) =>
+    queueChanges([{
+      table,
+      op,
+      row_id: id,
+      month: selectedMonth,
+      data: { ...data },
+      base_updated_at: savedRows.find((r) => r.id === id)?.updated_at ?? null,
+    }]);
+
+  /**
+   * Settle a conflicting change: push this device's version, or drop it and
+   * keep the server's. A failed push records the new reason on the change.
+   */
+  const resolveConflict = async (mutation: QueuedMutation, keepMine: boolean): Promise<boolean> => {
     try {
-      const { error } = await supabase.from(TABLES.TAXES).delete().eq('id', id);
-      if (error) throw error;
-      await fetchData();
+      if (keepMine) {
+        const result = await forceMutation(mutation);
+        if (result.status !== 'synced') return false;
+      } else {
+        await removeMutation(mutation.id as number);
+      }
+      await fetchDataWithoutAutoCarry();
       return true;
     } catch (err) {
-      console.error('Error deleting tax:', err);
+      console.error('Error resolving offline change:', err);
       return false;
+    } finally {
+      // Later changes to the same row were held back by the conflict
+      syncQueuedChanges();
     }
   };
 
+  /** Add income */
+  const addIncome = (data: IncomeFormData) => queueInserts(TABLES.INCOMES, [data], selectedMonth);
+
+  /** Delete income */
+  const deleteIncome = (id: string) => queueRowChange(TABLES.INCOMES, savedIncomes, id, 'delete');
+
+  /** Update income */
+  const updateIncome = (id: string, data: IncomeFormData) =>
+    queueRowChange(TABLES.INCOMES, savedIncomes, id, 'update', data);
+
+  /** Add tax */
+  const addTax = (data: TaxFormData) => queueInserts(TABLES.TAXES, [data], selectedMonth);
+
+  /** Delete tax */
+  const deleteTax = (id: string) => queueRowChange(TABLES.TAXES, savedTaxes, id, 'delete');
+
   /** Update tax */
-  const updateTax = async (id: string, data: TaxFormData): Promise<boolean> => {
-    try {
-      const { error } = await supabase.from(TABLES.TAXES).update(data).eq('id', id);
-      if (error) throw error;
-      await fetchData();
-      return true;
-    } catch (err) {
-      console.error('Error updating tax:', err);
-      return false;
-    }
-  };
+  const updateTax = (id: string, data: TaxFormData) => queueRowChange(TABLES.TAXES, savedTaxes, id, 'update', data);
 
   /** Add expense */
-  const addExpense = async (data: ExpenseFormData): Promise<boolean> => {
-    try {
-      const { error } = await supabase.from(TABLES.EXPENSES).insert({
-        ...data,
-        month: selectedMonth,
-      });
-      if (error) throw error;
-      await fetchData();
-      return true;
-    } catch (err) {
-      console.error('Error adding expense:', err);
-      return false;
-    }
-  };
+  const addExpense = (data: ExpenseFormData) => queueInserts(TABLES.EXPENSES, [data], selectedMonth);
 
   /** Delete expense */
-  const deleteExpense = async (id: string): Promise<boolean> => {
-    try {
-      const { error } = await supabase.from(TABLES.EXPENSES).delete().eq('id', id);
-      if (error) throw error;
-      await fetchData();
-      return true;
-    } catch (err) {
-      console.error('Error deleting expense:', err);
-      return false;
-    }
-  };
+  const deleteExpense = (id: string) => queueRowChange(TABLES.EXPENSES, savedExpenses, id, 'delete');
 
   /** Update expense */
-  const updateExpense = async (id: string, data: ExpenseFormData): Promise<boolean> => {
-    try {
-      const { error } = await supabase.from(TABLES.EXPENSES).update(data).eq('id', id);
-      if (error) throw error;
-      await fetchData();
-      return true;
-    } catch (err) {
-      console.error('Error updating expense:', err);
-      return false;
-    }
-  };
+  const updateExpense = (id: string, data: ExpenseFormData) =>
+    queueRowChange(TABLES.EXPENSES, savedExpenses, id, 'update', data);
+
+  /** Insert many expenses at once (bank statement import) into the given month */
+  const importExpenses = (rows: ExpenseFormData[], month: string) => queueInserts(TABLES.EXPENSES, rows, month);
 
   /** Get expense summary by category */
   const getExpensesByCategory = (member?: FamilyMember) => {
@@ -460,7 +414,7 @@ export function useBudget(selectedMonth: string) {
     const byCategory: Record<string, number> = {};
 
     filtered.forEach((expense) => {
-      byCategory[expense.category] = (byCategory[expense.category] || 0) + Number(expense.amount);
+      byCategory[expense.category] = (byCategory[expense.category] || 0) + expenseTotal(expense);
     });
 
     return byCategory;
@@ -469,16 +423,8 @@ export function useBudget(selectedMonth: string) {
   /** Fetch expenses from previous month */
   const fetchPreviousMonthExpenses = async (): Promise<Expense[]> => {
     try {
-      const previousMonth = getPreviousMonth(selectedMonth);
-
-      const { data, error: fetchError } = await supabase
-        .from(TABLES.EXPENSES)
-        .select('*')
-        .eq('month', previousMonth)
-        .order('created_at', { ascending: true });
-
-      if (fetchError) throw fetchError;
-      return data || [];
+      const { rows } = await loadMonth<Expense>(TABLES.EXPENSES, getPreviousMonth(selectedMonth));
+      return [...rows].reverse();
     } catch (err) {
       console.error('Error fetching previous month expenses:', err);
       return [];
@@ -488,16 +434,8 @@ export function useBudget(selectedMonth: string) {
   /** Fetch incomes from previous month */
   const fetchPreviousMonthIncomes = async (): Promise<Income[]> => {
     try {
-      const previousMonth = getPreviousMonth(selectedMonth);
-
-      const { data, error: fetchError } = await supabase
-        .from(TABLES.INCOMES)
-        .select('*')
-        .eq('month', previousMonth)
-        .order('created_at', { ascending: true });
-
-      if (fetchError) throw fetchError;
-      return data || [];
+      const { rows } = await loadMonth<Income>(TABLES.INCOMES, getPreviousMonth(selectedMonth));
+      return [...rows].reverse();
     } catch (err) {
       console.error('Error fetching previous month incomes:', err);
       return [];
@@ -507,16 +445,8 @@ export function useBudget(selectedMonth: string) {
   /** Fetch taxes from previous month */
   const fetchPreviousMonthTaxes = async (): Promise<Tax[]> => {
     try {
-      const previousMonth = getPreviousMonth(selectedMonth);
-
-      const { data, error: fetchError } = await supabase
-        .from(TABLES.TAXES)
-        .select('*')
-        .eq('month', previousMonth)
-        .order('created_at', { ascending: true });
-
-      if (fetchError) throw fetchError;
-      return data || [];
+      const { rows } = await loadMonth<Tax>(TABLES.TAXES, getPreviousMonth(selectedMonth));
+      return [...rows].reverse();
     } catch (err) {
       console.error('Error fetching previous month taxes:', err);
       return [];
@@ -524,111 +454,107 @@ export function useBudget(selectedMonth: string) {
   };
 
   /** Carry over expenses from previous month */
-  const carryOverExpenses = async (expensesToCarry: Expense[]): Promise<boolean> => {
-    try {
-      // Create new expenses for current month without id and created_at
-      const newExpenses = expensesToCarry.map((expense) => ({
+  const carryOverExpenses = (expensesToCarry: Expense[]) =>
+    queueInserts(
+      TABLES.EXPENSES,
+      // New expenses for current month without id and created_at
+      expensesToCarry.map((expense) => ({
         member: expense.member,
         category: expense.category,
         description: expense.description,
         amount: expense.amount,
-        month: selectedMonth,
-      }));
-
-      const { error } = await supabase.from(TABLES.EXPENSES).insert(newExpenses);
-      if (error) throw error;
-      await fetchDataWithoutAutoCarry();
-      return true;
-    } catch (err) {
-      console.error('Error carrying over expenses:', err);
-      return false;
-    }
-  };
+      })),
+      selectedMonth
+    );
+
+  /** Add the expenses recurring schedules make due this month */
+  const addScheduledExpenses = (due: DueSchedule[]) =>
+    queueInserts(
+      TABLES.EXPENSES,
+      due.map(({ schedule, amount }) => ({
+        member: schedule.member,
+        category: schedule.category,
+        description: schedule.description,
+        amount,
+        is_shared: schedule.is_shared,
+        include_vat: schedule.include_vat,
+        balance_account_id: schedule.balance_account_id,
+        savings_goal_id: schedule.savings_goal_id,
+        schedule_id: schedule.id,
+      })),
+      selectedMonth
+    );
 
   /** Carry over incomes from previous month */
-  const carryOverIncomes = async (incomesToCarry: Income[]): Promise<boolean> => {
-    try {
-      const newIncomes = incomesToCarry.map((income) => ({
+  const carryOverIncomes = (incomesToCarry: Income[]) =>
+    queueInserts(
+      TABLES.INCOMES,
+      incomesToCarry.map((income) => ({
         member: income.member,
         income_type: income.income_type,
         description: income.description,
         amount: income.amount,
-        month: selectedMonth,
-      }));
-
-      const { error } = await supabase.from(TABLES.INCOMES).insert(newIncomes);
-      if (error) throw error;
-      await fetchDataWithoutAutoCarry();
-      return true;
-    } catch (err) {
-      console.error('Error carrying over incomes:', err);
-      return false;
-    }
-  };
+      })),
+      selectedMonth
+    );
 
   /** Carry over taxes from previous month */
-  const carryOverTaxes = async (taxesToCarry: Tax[]): Promise<boolean> => {
-    try {
-      const newTaxes = taxesToCarry.map((tax) => ({
+  const carryOverTaxes = (taxesToCarry: Tax[]) =>
+    queueInserts(
+      TABLES.TAXES,
+      taxesToCarry.map((tax) => ({
         member: tax.member,
         description: tax.description,
         amount: tax.amount,
-        month: selectedMonth,
-      }));
+      })),
+      selectedMonth
+    );
 
-      const { error } = await supabase.from(TABLES.TAXES).insert(newTaxes);
-      if (error) throw error;
-      await fetchDataWithoutAutoCarry();
-      return true;
-    } catch (err) {
-      console.error('Error carrying over taxes:', err);
-      return false;
-    }
-  };
+  /** Roll the previous month over by hand, e.g. after undoing the automatic rollover */
+  const rolloverMonth = () => runRollover(true);
 
-  /** Add unnecessary expense */
-  const addUnnecessaryExpense = async (data: UnnecessaryExpenseFormData): Promise<boolean> => {
+  /** Undo the selected month's rollover, deleting every row it copied in */
+  const undoRollover = async (): Promise<boolean> => {
     try {
-      const { error } = await supabase.from(TABLES.UNNECESSARY_EXPENSES).insert({
-        ...data,
-        month: selectedMonth,
+      const { data, error: rpcError } = await supabase.rpc('revert_month_rollover', {
+        p_household_id: householdId,
+        p_month: selectedMonth,
       });
-      if (error) throw error;
+
+      if (rpcError) throw rpcError;
+      setRollover(data);
       await fetchDataWithoutAutoCarry();
       return true;
     } catch (err) {
-      console.error('Error adding unnecessary expense:', err);
+      console.error('Error undoing month rollover:', err);
       return false;
     }
   };
 
+  /** Add unnecessary expense */
+  const addUnnecessaryExpense = (data: UnnecessaryExpenseFormData) =>
+    queueInserts(TABLES.UNNECESSARY_EXPENSES, [data], selectedMonth);
+
   /** Delete unnecessary expense */
-  const deleteUnnecessaryExpense = async (id: string): Promise<boolean> => {
-    try {
-      const { error } = await supabase.from(TABLES.UNNECESSARY_EXPENSES).delete().eq('id', id);
-      if (error) throw error;
-      await fetchDataWithoutAutoCarry();
-      return true;
-    } catch (err) {
-      console.error('Error deleting unnecessary expense:', err);
-      return false;
-    }
-  };
+  const deleteUnnecessaryExpense = (id: string) =>
+    queueRowChange(TABLES.UNNECESSARY_EXPENSES, savedUnnecessaryExpenses, id, 'delete');
 
   /** Update unnecessary expense */
-  const updateUnnecessaryExpense = async (id: string, data: UnnecessaryExpenseFormData): Promise<boolean> => {
-    try {
-      const { error } = await supabase.from(TABLES.UNNECESSARY_EXPENSES).update(data).eq('id', id);
-      if (error) throw error;
-      await fetchDataWithoutAutoCarry();
-      return true;
-    } catch (err) {
-      console.error('Error updating unnecessary expense:', err);
-      return false;
-    }
-  };
-
-  const summary = calculateHouseholdSummary(incomes, taxes, expenses, unnecessaryExpenses);
+  const updateUnnecessaryExpense = (id: string, data: UnnecessaryExpenseFormData) =>
+    queueRowChange(TABLES.UNNECESSARY_EXPENSES, savedUnnecessaryExpenses, id, 'update', data);
+
+  // What's on screen: the saved rows with this device's unsynced changes applied
+  const incomes = applyQueuedMutations(savedIncomes, queuedChanges, TABLES.INCOMES, selectedMonth);
+  const taxes = applyQueuedMutations(savedTaxes, queuedChanges, TABLES.TAXES, selectedMonth);
+  const expenses = applyQueuedMutations(savedExpenses, queuedChanges, TABLES.EXPENSES, selectedMonth);
+  const unnecessaryExpenses = applyQueuedMutations(
+    savedUnnecessaryExpenses,
+    queuedChanges,
+    TABLES.UNNECESSARY_EXPENSES,
+    selectedMonth
+  );
+
+  const summary = calculateHouseholdSummary(members, splitRules, incomes, taxes, expenses, unnecessaryExpenses);
 
   return {
     incomes,
@@ -638,6 +564,9 @@ export function useBudget(selectedMonth: string) {
     loading,
     error,
     isCarryingOver,
+    rollover,
+    rolloverMonth,
+    undoRollover,
     summary,
     addIncome,
     deleteIncome,
@@ -648,6 +577,7 @@ export function useBudget(selectedMonth: string) {
     addExpense,
     deleteExpense,
     updateExpense,
+    importExpenses,
     addUnnecessaryExpense,
     deleteUnnecessaryExpense,
     updateUnnecessaryExpense,
@@ -656,8 +586,15 @@ export function useBudget(selectedMonth: string) {
     fetchPreviousMonthIncomes,
     fetchPreviousMonthTaxes,
     carryOverExpenses,
+    addScheduledExpenses,
     carryOverIncomes,
     carryOverTaxes,
+    queuedChanges,
+    isOnline,
+    isSyncing,
+    syncQueuedChanges,
+    resolveConflict,
+    lastRemoteChange,
     refetch: fetchData,
   };
 }
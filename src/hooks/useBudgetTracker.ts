@@ -1,18 +1,29 @@
 import { useCallback, useEffect, useState } from 'react';
+import { matchExpensesToBudgets } from '../lib/budgetTracking';
+import { mergeRowChange } from '../lib/realtime';
+import { expenseTotal } from '../lib/vat';
 import { supabase } from '../lib/supabase';
+import { useActiveHousehold } from './useActiveHousehold';
+import { useRealtimeChanges } from './useRealtimeChanges';
 import type {
     BudgetEntry,
     BudgetEntryFormData,
     BudgetExpense,
     BudgetExpenseFormData,
     BudgetWithExpenses,
+    Expense,
 } from '../types/budget';
 
 const BUDGET_ENTRIES_TABLE = 'budget_entries';
 const BUDGET_EXPENSES_TABLE = 'budget_expenses';
+const REALTIME_TABLES = [BUDGET_ENTRIES_TABLE, BUDGET_EXPENSES_TABLE];
 
-/** Custom hook for budget tracker management */
-export function useBudgetTracker(selectedMonth: string) {
+/**
+ * Custom hook for budget tracker management. The month's regular expenses
+ * count against the budget with their category and member.
+ */
+export function useBudgetTracker(selectedMonth: string, regularExpenses: Expense[]) {
+  const { householdId } = useActiveHousehold();
   const [budgets, setBudgets] = useState<BudgetEntry[]>([]);
   const [budgetExpenses, setBudgetExpenses] = useState<Record<string, BudgetExpense[]>>({});
   const [loading, setLoading] = useState(true);
@@ -21,10 +32,10 @@ export function useBudgetTracker(selectedMonth: string) {
   /** Fetch budget entries for selected month */
   const fetchBudgets = useCallback(async () => {
     try {
-      setLoading(true);
       const { data, error: fetchError } = await supabase
         .from(BUDGET_ENTRIES_TABLE)
         .select('*')
+        .eq('household_id', householdId)
         .eq('month', selectedMonth)
         .order('created_at', { ascending: false });
 
@@ -34,7 +45,7 @@ export function useBudgetTracker(selectedMonth: string) {
       console.error('Error fetching budgets:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch budgets');
     }
-  }, [selectedMonth]);
+  }, [selectedMonth, householdId]);
 
   /** Fetch expenses for all budgets */
   const fetchBudgetExpenses = useCallback(async (budgetIds: string[]) => {
@@ -47,6 +58,7 @@ export function useBudgetTracker(selectedMonth: string) {
       const { data, error: fetchError } = await supabase
         .from(BUDGET_EXPENSES_TABLE)
         .select('*')
+        .eq('household_id', householdId)
         .in('budget_id', budgetIds)
         .order('date', { ascending: false });
 
@@ -65,7 +77,7 @@ export function useBudgetTracker(selectedMonth: string) {
     } catch (err) {
       console.error('Error fetching budget expenses:', err);
     }
-  }, []);
+  }, [householdId]);
 
   /** Load data when component mounts or month changes */
   useEffect(() => {
@@ -88,11 +100,35 @@ export function useBudgetTracker(selectedMonth: string) {
     }
   }, [budgets, fetchBudgetExpenses]);
 
+  // Merge changes made in other tabs and on other devices. New budgets load
+  // their expenses through the effect above.
+  const lastRemoteChange = useRealtimeChanges('budget-tracker', REALTIME_TABLES, (table, change) => {
+    if (table === BUDGET_ENTRIES_TABLE) {
+      setBudgets((rows) => mergeRowChange(rows, change, (b) => b.month === selectedMonth));
+      return;
+    }
+
+    setBudgetExpenses((grouped) => {
+      const budgetIds = new Set(Object.keys(grouped));
+      if (change.eventType !== 'DELETE' && budgets.some((b) => b.id === change.new.budget_id)) {
+        budgetIds.add(String(change.new.budget_id));
+      }
+
+      const merged: Record<string, BudgetExpense[]> = {};
+      budgetIds.forEach((budgetId) => {
+        merged[budgetId] = mergeRowChange(grouped[budgetId] ?? [], change, (e) => e.budget_id === budgetId)
+          .sort((a, b) => b.date.localeCompare(a.date));
+      });
+      return merged;
+    });
+  });
+
   /** Add a new budget entry */
   const addBudget = async (data: BudgetEntryFormData): Promise<boolean> => {
     try {
       const { error: insertError } = await supabase.from(BUDGET_ENTRIES_TABLE).insert({
         ...data,
+        household_id: householdId,
         month: selectedMonth,
       });
 
@@ -155,6 +191,7 @@ export function useBudgetTracker(selectedMonth: string) {
   const addBudgetExpense = async (budgetId: string, data: BudgetExpenseFormData): Promise<boolean> => {
     try {
       const { error: insertError } = await supabase.from(BUDGET_EXPENSES_TABLE).insert({
+        household_id: householdId,
         budget_id: budgetId,
         ...data,
       });
@@ -217,14 +254,14 @@ export function useBudgetTracker(selectedMonth: string) {
     }
   };
 
-  /** Get budget with expenses and calculations */
-  const getBudgetWithExpenses = useCallback(
-    (budgetId: string): BudgetWithExpenses | null => {
-      const budget = budgets.find((b) => b.id === budgetId);
-      if (!budget) return null;
-
-      const expenses = budgetExpenses[budgetId] || [];
-      const totalSpent = expenses.reduce((sum, exp) => sum + Number(exp.amount), 0);
+  /** Combine a budget with its own expenses and the regular expenses matched to it */
+  const withSpending = useCallback(
+    (budget: BudgetEntry, matched: Record<string, Expense[]>): BudgetWithExpenses => {
+      const expenses = budgetExpenses[budget.id] || [];
+      const matchedExpenses = matched[budget.id] || [];
+      const trackedSpent = expenses.reduce((sum, exp) => sum + Number(exp.amount), 0);
+      const regularSpent = matchedExpenses.reduce((sum, exp) => sum + expenseTotal(exp), 0);
+      const totalSpent = trackedSpent + regularSpent;
       const remainingBalance = Number(budget.budget_amount) - totalSpent;
       const percentageUsed = budget.budget_amount > 0 
         ? (totalSpent / Number(budget.budget_amount)) * 100 
@@ -233,33 +270,32 @@ export function useBudgetTracker(selectedMonth: string) {
       return {
         budget,
         expenses,
+        regularExpenses: matchedExpenses,
+        trackedSpent,
+        regularSpent,
         totalSpent,
         remainingBalance,
         percentageUsed,
       };
     },
-    [budgets, budgetExpenses]
+    [budgetExpenses]
+  );
+
+  /** Get budget with expenses and calculations */
+  const getBudgetWithExpenses = useCallback(
+    (budgetId: string): BudgetWithExpenses | null => {
+      const budget = budgets.find((b) => b.id === budgetId);
+      if (!budget) return null;
+      return withSpending(budget, matchExpensesToBudgets(budgets, regularExpenses));
+    },
+    [budgets, regularExpenses, withSpending]
   );
 
   /** Get all budgets with their expenses */
   const getAllBudgetsWithExpenses = useCallback((): BudgetWithExpenses[] => {
-    return budgets.map((budget) => {
-      const expenses = budgetExpenses[budget.id] || [];
-      const totalSpent = expenses.reduce((sum, exp) => sum + Number(exp.amount), 0);
-      const remainingBalance = Number(budget.budget_amount) - totalSpent;
-      const percentageUsed = budget.budget_amount > 0 
-        ? (totalSpent / Number(budget.budget_amount)) * 100 
-        : 0;
-
-      return {
-        budget,
-        expenses,
-        totalSpent,
-        remainingBalance,
-        percentageUsed,
-      };
-    });
-  }, [budgets, budgetExpenses]);
+    const matched = matchExpensesToBudgets(budgets, regularExpenses);
+    return budgets.map((budget) => withSpending(budget, matched));
+  }, [budgets, regularExpenses, withSpending]);
 
   return {
     budgets,
@@ -273,5 +309,6 @@ export function useBudgetTracker(selectedMonth: string) {
     deleteBudgetExpense,
     getBudgetWithExpenses,
     getAllBudgetsWithExpenses,
+    lastRemoteChange,
   };
 }
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getForecastRange } from '../lib/cashFlow';
+import { supabase, TABLES } from '../lib/supabase';
+import { useActiveHousehold } from './useActiveHousehold';
+import type { Expense, Income, ScheduledAmount, Tax } from '../types/budget';
+
+/**
+ * Custom hook for what the cash-flow forecast is built from: the base month's
+ * incomes, taxes and expenses, and what recurring schedules fall due for in
+ * the months after it
+ */
+export function useCashFlowForecast(baseMonth: string) {
+  const { householdId } = useActiveHousehold();
+  const [incomes, setIncomes] = useState<Income[]>([]);
+  const [taxes, setTaxes] = useState<Tax[]>([]);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [scheduled, setScheduled] = useState<ScheduledAmount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Fetch the base month's entries and the schedules due over the forecast */
+  const fetchForecast = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const { from, to } = getForecastRange(baseMonth);
+
+      const [incomesResult, taxesResult, expensesResult, scheduledResult] = await Promise.all([
+        supabase.from(TABLES.INCOMES).select('*').eq('household_id', householdId).eq('month', baseMonth),
+        supabase.from(TABLES.TAXES).select('*').eq('household_id', householdId).eq('month', baseMonth),
+        supabase.from(TABLES.EXPENSES).select('*').eq('household_id', householdId).eq('month', baseMonth),
+        supabase.rpc('scheduled_amounts', { p_household_id: householdId, p_from: from, p_to: to }),
+      ]);
+
+      if (incomesResult.error) throw incomesResult.error;
+      if (taxesResult.error) throw taxesResult.error;
+      if (expensesResult.error) throw expensesResult.error;
+      if (scheduledResult.error) throw scheduledResult.error;
+
+      setIncomes(incomesResult.data || []);
+      setTaxes(taxesResult.data || []);
+      setExpenses(expensesResult.data || []);
+      setScheduled(scheduledResult.data || []);
+    } catch (err) {
+      console.error('Error fetching cash-flow forecast:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch cash-flow forecast');
+    } finally {
+      setLoading(false);
+    }
+  }, [householdId, baseMonth]);
+
+  useEffect(() => {
+    fetchForecast();
+  }, [fetchForecast]);
+
+  return {
+    incomes,
+    taxes,
+    expenses,
+    scheduled,
+    loading,
+    error,
+    refetch: fetchForecast,
+  };
+}
@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, TABLES } from '../lib/supabase';
+import { useActiveHousehold } from './useActiveHousehold';
+import type { CategorisationRule, CategorisationRuleFormData, Expense } from '../types/budget';
+
+/** How many recent expenses "learn from my expenses" looks at */
+const LEARNING_SAMPLE_SIZE = 1000;
+
+/** Custom hook for expense categorisation rules */
+export function useCategorisationRules() {
+  const { householdId } = useActiveHousehold();
+  const [rules, setRules] = useState<CategorisationRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Fetch all rules in priority order */
+  const fetchRules = useCallback(async () => {
+    try {
+      setError(null);
+      const { data, error: fetchError } = await supabase
+        .from(TABLES.CATEGORISATION_RULES)
+        .select('*')
+        .eq('household_id', householdId)
+        .order('priority', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setRules(data || []);
+    } catch (err) {
+      console.error('Error fetching categorisation rules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch categorisation rules');
+    } finally {
+      setLoading(false);
+    }
+  }, [householdId]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  /** Add rules at the end of the priority order */
+  const addRules = async (data: CategorisationRuleFormData[]): Promise<boolean> => {
+    try {
+      setError(null);
+      const nextPriority = rules.reduce((max, r) => Math.max(max, r.priority), -1) + 1;
+      const { error: insertError } = await supabase.from(TABLES.CATEGORISATION_RULES).insert(
+        data.map((rule, index) => ({
+          ...rule,
+          household_id: householdId,
+          priority: nextPriority + index,
+        }))
+      );
+
+      if (insertError) throw insertError;
+      await fetchRules();
+      return true;
+    } catch (err) {
+      console.error('Error adding categorisation rules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add rule');
+      return false;
+    }
+  };
+
+  const addRule = (data: CategorisationRuleFormData) => addRules([data]);
+
+  const updateRule = async (id: string, data: CategorisationRuleFormData): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: updateError } = await supabase
+        .from(TABLES.CATEGORISATION_RULES)
+        .update(data)
+        .eq('id', id);
+
+      if (updateError) throw updateError;
+      await fetchRules();
+      return true;
+    } catch (err) {
+      console.error('Error updating categorisation rule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update rule');
+      return false;
+    }
+  };
+
+  const deleteRule = async (id: string): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: deleteError } = await supabase
+        .from(TABLES.CATEGORISATION_RULES)
+        .delete()
+        .eq('id', id);
+
+      if (deleteError) throw deleteError;
+      await fetchRules();
+      return true;
+    } catch (err) {
+      console.error('Error deleting categorisation rule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete rule');
+      return false;
+    }
+  };
+
+  /** Swap a rule with its neighbour in the priority order */
+  const moveRule = async (id: string, direction: -1 | 1): Promise<boolean> => {
+    const index = rules.findIndex((r) => r.id === id);
+    const neighbour = rules[index + direction];
+    if (index === -1 || !neighbour) return false;
+
+    try {
+      const current = rules[index];
+      const [first, second] = await Promise.all([
+        supabase.from(TABLES.CATEGORISATION_RULES).update({ priority: index + direction }).eq('id', current.id),
+        supabase.from(TABLES.CATEGORISATION_RULES).update({ priority: index }).eq('id', neighbour.id),
+      ]);
+
+      if (first.error) throw first.error;
+      if (second.error) throw second.error;
+      await fetchRules();
+      return true;
+    } catch (err) {
+      console.error('Error reordering categorisation rules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to reorder rules');
+      return false;
+    }
+  };
+
+  /** Recent expenses across all months, used to learn new rules */
+  const fetchLearningExpenses = async (): Promise<Expense[]> => {
+    try {
+      const { data, error: fetchError } = await supabase
+        .from(TABLES.EXPENSES)
+        .select('*')
+        .eq('household_id', householdId)
+        .order('created_at', { ascending: false })
+        .limit(LEARNING_SAMPLE_SIZE);
+
+      if (fetchError) throw fetchError;
+      return data || [];
+    } catch (err) {
+      console.error('Error fetching expenses to learn from:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load expenses');
+      return [];
+    }
+  };
+
+  return {
+    rules,
+    loading,
+    error,
+    addRule,
+    addRules,
+    updateRule,
+    deleteRule,
+    moveRule,
+    fetchLearningExpenses,
+    refetch: fetchRules,
+  };
+}
@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, TABLES } from '../lib/supabase';
+import { useActiveHousehold } from './useActiveHousehold';
+import { useRealtimeChanges } from './useRealtimeChanges';
+import type { AttachmentParent, ExpenseAttachment } from '../types/budget';
+
+const STORAGE_BUCKET = 'financial-statements';
+
+/** Column on expense_attachments that points at each kind of entry */
+const PARENT_COLUMNS: Record<AttachmentParent, 'expense_id' | 'unnecessary_expense_id' | 'budget_expense_id'> = {
+  expense: 'expense_id',
+  unnecessary_expense: 'unnecessary_expense_id',
+  budget_expense: 'budget_expense_id',
+};
+
+/** The attachments belonging to one entry */
+export function attachmentsFor(
+  attachments: ExpenseAttachment[],
+  parent: AttachmentParent,
+  parentId: string
+): ExpenseAttachment[] {
+  return attachments.filter((a) => a[PARENT_COLUMNS[parent]] === parentId);
+}
+
+/** Entries deleted through the offline queue, so their deletes reach the server later */
+const REALTIME_TABLES = [TABLES.EXPENSES, TABLES.UNNECESSARY_EXPENSES];
+
+/** How long a link from openAttachment stays valid, in seconds */
+const SIGNED_URL_SECONDS = 3600;
+
+/**
+ * Custom hook for receipts and invoices attached to expenses.
+ *
+ * Deleting an entry deletes its attachment rows in the database, which queues
+ * their files in storage_cleanup. Every fetch removes the queued files first,
+ * so storage is tidied up whenever the attachments are reloaded - including
+ * when the delete of an entry with attachments arrives over realtime.
+ */
+export function useExpenseAttachments() {
+  const { householdId } = useActiveHousehold();
+  const [attachments, setAttachments] = useState<ExpenseAttachment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Remove the files of deleted attachments; failures stay queued for the next fetch */
+  const cleanUpStorage = useCallback(async () => {
+    const { data, error: queueError } = await supabase
+      .from(TABLES.STORAGE_CLEANUP)
+      .select('id, file_path')
+      .eq('household_id', householdId);
+
+    if (queueError || !data || data.length === 0) {
+      if (queueError) console.warn('Error reading storage cleanup queue:', queueError);
+      return;
+    }
+
+    const { error: removeError } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .remove(data.map((row) => row.file_path));
+
+    if (removeError) {
+      console.warn('Error deleting attachment files from storage:', removeError);
+      return;
+    }
+
+    const { error: deleteError } = await supabase
+      .from(TABLES.STORAGE_CLEANUP)
+      .delete()
+      .in('id', data.map((row) => row.id));
+
+    if (deleteError) console.warn('Error clearing storage cleanup queue:', deleteError);
+  }, [householdId]);
+
+  /** Fetch every attachment in the household, after clearing out files left by deleted ones */
+  const fetchAttachments = useCallback(async () => {
+    try {
+      setError(null);
+      await cleanUpStorage();
+
+      const { data, error: fetchError } = await supabase
+        .from(TABLES.EXPENSE_ATTACHMENTS)
+        .select('*')
+        .eq('household_id', householdId)
+        .order('created_at', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setAttachments(data || []);
+    } catch (err) {
+      console.error('Error fetching attachments:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch attachments');
+    } finally {
+      setLoading(false);
+    }
+  }, [householdId, cleanUpStorage]);
+
+  useEffect(() => {
+    fetchAttachments();
+  }, [fetchAttachments]);
+
+  // Expense deletes are queued and only reach the server on sync, from this or another device
+  useRealtimeChanges('attachments', REALTIME_TABLES, (table, change) => {
+    if (change.eventType !== 'DELETE') return;
+    const parent: AttachmentParent = table === TABLES.EXPENSES ? 'expense' : 'unnecessary_expense';
+    if (attachmentsFor(attachments, parent, String(change.old.id)).length > 0) {
+      fetchAttachments();
+    }
+  });
+
+  /** Upload a file and attach it to an expense, discretionary expense or budget expense */
+  const uploadAttachment = async (parent: AttachmentParent, parentId: string, file: File): Promise<boolean> => {
+    try {
+      setError(null);
+
+      // The household folder is what the storage policies check
+      const filePath = `${householdId}/attachments/${Date.now()}-${file.name}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .upload(filePath, file, { cacheControl: '3600', upsert: false });
+
+      if (uploadError) throw uploadError;
+
+      const { error: insertError } = await supabase
+        .from(TABLES.EXPENSE_ATTACHMENTS)
+        .insert({
+          household_id: householdId,
+          [PARENT_COLUMNS[parent]]: parentId,
+          filename: file.name,
+          file_path: filePath,
+          file_size: file.size,
+          content_type: file.type,
+        });
+
+      if (insertError) {
+        // Don't leave an orphaned file behind if the row couldn't be saved
+        await supabase.storage.from(STORAGE_BUCKET).remove([filePath]);
+        throw insertError;
+      }
+
+      await fetchAttachments();
+      return true;
+    } catch (err) {
+      console.error('Error uploading attachment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to upload attachment');
+      return false;
+    }
+  };
+
+  /** A temporary link to view an attachment; null if it couldn't be created */
+  const openAttachment = async (attachment: ExpenseAttachment): Promise<string | null> => {
+    try {
+      setError(null);
+      const { data, error: urlError } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .createSignedUrl(attachment.file_path, SIGNED_URL_SECONDS);
+
+      if (urlError) throw urlError;
+      return data.signedUrl;
+    } catch (err) {
+      console.error('Error opening attachment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to open attachment');
+      return null;
+    }
+  };
+
+  /** Delete an attachment; its file is queued for cleanup and removed by the refetch */
+  const deleteAttachment = async (attachment: ExpenseAttachment): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: deleteError } = await supabase
+        .from(TABLES.EXPENSE_ATTACHMENTS)
+        .delete()
+        .eq('id', attachment.id);
+
+      if (deleteError) throw deleteError;
+      await fetchAttachments();
+      return true;
+    } catch (err) {
+      console.error('Error deleting attachment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete attachment');
+      return false;
+    }
+  };
+
+  return {
+    attachments,
+    loading,
+    error,
+    uploadAttachment,
+    openAttachment,
+    deleteAttachment,
+    refetch: fetchAttachments,
+  };
+}
@@ -1,5 +1,7 @@
 import { useEffect, useState } from 'react';
+import { extractPdfLines } from '../lib/pdfStatements';
 import { supabase } from '../lib/supabase';
+import { useActiveHousehold } from './useActiveHousehold';
 import type { FamilyMember, FinancialStatement } from '../types/budget';
 
 const STORAGE_BUCKET = 'financial-statements';
@@ -8,6 +10,7 @@ const STORAGE_BUCKET = 'financial-statements';
  * Hook for managing financial statements CRUD operations
  */
 export function useFinancialStatements(month: string) {
+  const { householdId } = useActiveHousehold();
   const [statements, setStatements] = useState<FinancialStatement[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -20,6 +23,7 @@ export function useFinancialStatements(month: string) {
       const { data, error: fetchError } = await supabase
         .from('financial_statements')
         .select('*')
+        .eq('household_id', householdId)
         .eq('month', month)
         .order('created_at', { ascending: false });
 
@@ -38,7 +42,7 @@ export function useFinancialStatements(month: string) {
   useEffect(() => {
     fetchStatements();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [month]);
+  }, [month, householdId]);
 
   const uploadStatement = async (
     file: File,
@@ -48,8 +52,8 @@ export function useFinancialStatements(month: string) {
     try {
       setError(null);
 
-      // Create unique file path
-      const fileName = `${month}/${Date.now()}-${file.name}`;
+      // Create unique file path - the household folder is what the storage policies check
+      const fileName = `${householdId}/${month}/${Date.now()}-${file.name}`;
 
       // Upload file to Supabase Storage
       const { error: uploadError } = await supabase.storage
@@ -89,6 +93,7 @@ export function useFinancialStatements(month: string) {
       const { error: insertError } = await supabase
         .from('financial_statements')
         .insert({
+          household_id: householdId,
           month,
           filename: file.name,
           file_path: fileName,
@@ -140,6 +145,29 @@ export function useFinancialStatements(month: string) {
     }
   };
 
+  /**
+   * Read the text of a PDF statement, line by line. The file comes from the
+   * household's own storage and is read in the browser - nothing is sent
+   * anywhere else.
+   */
+  const readStatementLines = async (statement: FinancialStatement): Promise<string[] | null> => {
+    try {
+      setError(null);
+
+      const { data, error: downloadError } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .download(statement.file_path);
+
+      if (downloadError) throw downloadError;
+      return await extractPdfLines(await data.arrayBuffer());
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to read statement';
+      setError(message);
+      console.error('Error reading financial statement:', err);
+      return null;
+    }
+  };
+
   const deleteStatement = async (id: string, filePath: string): Promise<boolean> => {
     try {
       setError(null);
@@ -177,6 +205,7 @@ export function useFinancialStatements(month: string) {
     error,
     uploadStatement,
     downloadStatement,
+    readStatementLines,
     deleteStatement,
     refresh: fetchStatements
   };
@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, TABLES } from '../lib/supabase';
+import { useActiveHousehold } from './useActiveHousehold';
+import type { HouseholdInvite } from '../types/budget';
+
+/** Custom hook for inviting other sign-in accounts into the active household */
+export function useHouseholdInvites() {
+  const { householdId } = useActiveHousehold();
+  const [invites, setInvites] = useState<HouseholdInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchInvites = useCallback(async () => {
+    try {
+      setError(null);
+      const { data, error: fetchError } = await supabase
+        .from(TABLES.HOUSEHOLD_INVITES)
+        .select('*')
+        .eq('household_id', householdId)
+        .order('created_at', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setInvites(data || []);
+    } catch (err) {
+      console.error('Error fetching household invites:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch invites');
+    } finally {
+      setLoading(false);
+    }
+  }, [householdId]);
+
+  useEffect(() => {
+    fetchInvites();
+  }, [fetchInvites]);
+
+  /** Invite an email address - it joins the household on its next sign-in */
+  const addInvite = async (email: string): Promise<boolean> => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error: insertError } = await supabase.from(TABLES.HOUSEHOLD_INVITES).insert({
+        household_id: householdId,
+        email: email.toLowerCase(),
+        invited_by: user?.id ?? null,
+      });
+
+      if (insertError) throw insertError;
+      await fetchInvites();
+      return true;
+    } catch (err) {
+      console.error('Error adding household invite:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add invite');
+      return false;
+    }
+  };
+
+  const deleteInvite = async (id: string): Promise<boolean> => {
+    try {
+      const { error: deleteError } = await supabase
+        .from(TABLES.HOUSEHOLD_INVITES)
+        .delete()
+        .eq('id', id);
+
+      if (deleteError) throw deleteError;
+      await fetchInvites();
+      return true;
+    } catch (err) {
+      console.error('Error deleting household invite:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete invite');
+      return false;
+    }
+  };
+
+  return {
+    invites,
+    loading,
+    error,
+    addInvite,
+    deleteInvite,
+    refetch: fetchInvites,
+  };
+}
@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useState } from 'react';
+import { readCachedMembers, writeCachedMembers } from '../lib/offlineStore';
+import { isNetworkError } from '../lib/offlineSync';
+import { supabase, TABLES } from '../lib/supabase';
+import { useActiveHousehold } from './useActiveHousehold';
+import type { HouseholdMember, HouseholdMemberFormData } from '../types/budget';
+
+/** Palette offered when adding a new member */
+export const MEMBER_COLORS = [
+  '#0891b2',
+  '#1e40af',
+  '#db2777',
+  '#16a34a',
+  '#ea580c',
+  '#7c3aed',
+  '#ca8a04',
+  '#64748b',
+];
+
+/** Join member names for display, e.g. "Nikkie, Hein & Sam" */
+export function formatMemberNames(members: HouseholdMember[]): string {
+  const names = members.map((m) => m.name);
+  if (names.length <= 1) return names.join('');
+  return `${names.slice(0, -1).join(', ')} & ${names[names.length - 1]}`;
+}
+
+/** Custom hook for household member management */
+export function useHouseholdMembers() {
+  const { householdId } = useActiveHousehold();
+  const [members, setMembers] = useState<HouseholdMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Fetch all household members in display order, falling back to this device's copy when offline */
+  const fetchMembers = useCallback(async () => {
+    try {
+      setError(null);
+      const { data, error: fetchError } = await supabase
+        .from(TABLES.HOUSEHOLD_MEMBERS)
+        .select('*')
+        .eq('household_id', householdId)
+        .order('sort_order', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (fetchError) {
+        const cached = isNetworkError(fetchError) ? await readCachedMembers(householdId).catch(() => null) : null;
+        if (!cached) throw fetchError;
+        setMembers(cached);
+        return;
+      }
+
+      const rows: HouseholdMember[] = data || [];
+      setMembers(rows);
+      writeCachedMembers(householdId, rows).catch((err) => {
+        console.error('Error caching household members:', err);
+      });
+    } catch (err) {
+      console.error('Error fetching household members:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch household members');
+    } finally {
+      setLoading(false);
+    }
+  }, [householdId]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  /** Add a member at the end of the display order */
+  const addMember = async (data: HouseholdMemberFormData): Promise<boolean> => {
+    try {
+      const nextOrder = members.reduce((max, m) => Math.max(max, m.sort_order), -1) + 1;
+      const { error: insertError } = await supabase.from(TABLES.HOUSEHOLD_MEMBERS).insert({
+        household_id: householdId,
+        name: data.name,
+        color: data.color,
+        sort_order: nextOrder,
+      });
+
+      if (insertError) throw insertError;
+      await fetchMembers();
+      return true;
+    } catch (err) {
+      console.error('Error adding household member:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add member');
+      return false;
+    }
+  };
+
+  /** Update a member - renames cascade to all entries via the foreign keys */
+  const updateMember = async (id: string, data: HouseholdMemberFormData): Promise<boolean> => {
+    try {
+      const { error: updateError } = await supabase
+        .from(TABLES.HOUSEHOLD_MEMBERS)
+        .update(data)
+        .eq('id', id);
+
+      if (updateError) throw updateError;
+      await fetchMembers();
+      return true;
+    } catch (err) {
+      console.error('Error updating household member:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update member');
+      return false;
+    }
+  };
+
+  /** Delete a member - fails while any income, tax or expense still references them */
+  const deleteMember = async (id: string): Promise<boolean> => {
+    try {
+      const { error: deleteError } = await supabase
+        .from(TABLES.HOUSEHOLD_MEMBERS)
+        .delete()
+        .eq('id', id);
+
+      if (deleteError) throw deleteError;
+      await fetchMembers();
+      return true;
+    } catch (err) {
+      console.error('Error deleting household member:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete member');
+      return false;
+    }
+  };
+
+  /** Swap a member with its neighbour in the display order */
+  const moveMember = async (id: string, direction: -1 | 1): Promise<boolean> => {
+    const index = members.findIndex((m) => m.id === id);
+    const neighbour = members[index + direction];
+    if (index === -1 || !neighbour) return false;
+
+    try {
+      const current = members[index];
+      const [first, second] = await Promise.all([
+        supabase.from(TABLES.HOUSEHOLD_MEMBERS).update({ sort_order: index + direction }).eq('id', current.id),
+        supabase.from(TABLES.HOUSEHOLD_MEMBERS).update({ sort_order: index }).eq('id', neighbour.id),
+      ]);
+
+      if (first.error) throw first.error;
+      if (second.error) throw second.error;
+      await fetchMembers();
+      return true;
+    } catch (err) {
+      console.error('Error reordering household members:', err);
+      setError(err instanceof Error ? err.message : 'Failed to reorder members');
+      return false;
+    }
+  };
+
+  return {
+    members,
+    loading,
+    error,
+    addMember,
+    updateMember,
+    deleteMember,
+    moveMember,
+    refetch: fetchMembers,
+  };
+}
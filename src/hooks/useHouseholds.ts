@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useState } from 'react';
+import { readCachedHouseholds, writeCachedHouseholds } from '../lib/offlineStore';
+import { isNetworkError } from '../lib/offlineSync';
+import { supabase, TABLES } from '../lib/supabase';
+import type { Household } from '../types/budget';
+
+const ACTIVE_HOUSEHOLD_KEY = 'fambudget.activeHousehold';
+
+/**
+ * Custom hook for the households the signed-in user belongs to.
+ * Pending invites for the user's email are accepted on load, so the
+ * caller should remount this hook whenever the signed-in user changes.
+ * Without a connection the list last fetched on this device is used.
+ */
+export function useHouseholds(userId: string) {
+  const [households, setHouseholds] = useState<Household[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(
+    () => localStorage.getItem(ACTIVE_HOUSEHOLD_KEY)
+  );
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHouseholds = useCallback(async () => {
+    try {
+      setError(null);
+
+      const { error: inviteError } = await supabase.rpc('accept_household_invites');
+      if (inviteError) {
+        console.warn('Error accepting household invites:', inviteError);
+      }
+
+      // RLS only returns households this user belongs to
+      const { data, error: fetchError } = await supabase
+        .from(TABLES.HOUSEHOLDS)
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (fetchError) {
+        const cached = isNetworkError(fetchError) ? await readCachedHouseholds(userId).catch(() => null) : null;
+        if (!cached) throw fetchError;
+        setHouseholds(cached);
+        return;
+      }
+
+      const rows: Household[] = data || [];
+      setHouseholds(rows);
+      writeCachedHouseholds(userId, rows).catch((err) => {
+        console.error('Error caching households:', err);
+      });
+    } catch (err) {
+      console.error('Error fetching households:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch households');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchHouseholds();
+  }, [fetchHouseholds]);
+
+  // Fall back to the first household when the stored one is gone or belongs to another user
+  const household = households.find((h) => h.id === activeId) ?? households[0] ?? null;
+
+  const switchHousehold = (id: string) => {
+    localStorage.setItem(ACTIVE_HOUSEHOLD_KEY, id);
+    setActiveId(id);
+  };
+
+  /** Create a household owned by the current user and make it active */
+  const createHousehold = async (name: string, memberNames: string[] = []): Promise<boolean> => {
+    try {
+      setError(null);
+      const { data, error: createError } = await supabase.rpc('create_household', {
+        p_name: name,
+        p_member_names: memberNames,
+      });
+
+      if (createError) throw createError;
+      await fetchHouseholds();
+      switchHousehold(data as string);
+      return true;
+    } catch (err) {
+      console.error('Error creating household:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create household');
+      return false;
+    }
+  };
+
+  return {
+    households,
+    household,
+    loading,
+    error,
+    switchHousehold,
+    createHousehold,
+    refetch: fetchHouseholds,
+  };
+}
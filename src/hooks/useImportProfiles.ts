@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, TABLES } from '../lib/supabase';
+import { useActiveHousehold } from './useActiveHousehold';
+import type { ImportProfile, ImportProfileFormData } from '../types/budget';
+
+/** Custom hook for saved bank statement import profiles */
+export function useImportProfiles() {
+  const { householdId } = useActiveHousehold();
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProfiles = useCallback(async () => {
+    try {
+      setError(null);
+      const { data, error: fetchError } = await supabase
+        .from(TABLES.IMPORT_PROFILES)
+        .select('*')
+        .eq('household_id', householdId)
+        .order('name', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setProfiles(data || []);
+    } catch (err) {
+      console.error('Error fetching import profiles:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch import profiles');
+    } finally {
+      setLoading(false);
+    }
+  }, [householdId]);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles]);
+
+  /** Save a profile - a profile with the same name is overwritten */
+  const saveProfile = async (data: ImportProfileFormData): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: upsertError } = await supabase
+        .from(TABLES.IMPORT_PROFILES)
+        .upsert({ ...data, household_id: householdId }, { onConflict: 'household_id,name' });
+
+      if (upsertError) throw upsertError;
+      await fetchProfiles();
+      return true;
+    } catch (err) {
+      console.error('Error saving import profile:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save import profile');
+      return false;
+    }
+  };
+
+  const deleteProfile = async (id: string): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: deleteError } = await supabase
+        .from(TABLES.IMPORT_PROFILES)
+        .delete()
+        .eq('id', id);
+
+      if (deleteError) throw deleteError;
+      await fetchProfiles();
+      return true;
+    } catch (err) {
+      console.error('Error deleting import profile:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete import profile');
+      return false;
+    }
+  };
+
+  return {
+    profiles,
+    loading,
+    error,
+    saveProfile,
+    deleteProfile,
+    refetch: fetchProfiles,
+  };
+}
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getMonthRange } from '../lib/months';
+import { supabase, TABLES } from '../lib/supabase';
+import { useActiveHousehold } from './useActiveHousehold';
+import { getCurrentMonth } from './useBudget';
+import type { MonthRange } from '../types/budget';
+
+/** Where the household's months are kept - the oldest of them starts the range */
+const MONTH_COLUMNS: { table: string; column: string }[] = [
+  { table: TABLES.INCOMES, column: 'month' },
+  { table: TABLES.TAXES, column: 'month' },
+  { table: TABLES.EXPENSES, column: 'month' },
+  { table: TABLES.UNNECESSARY_EXPENSES, column: 'month' },
+  { table: TABLES.BALANCE_ACCOUNTS, column: 'start_month' },
+  { table: TABLES.BALANCE_HISTORY, column: 'month' },
+];
+
+/**
+ * Custom hook for the months the month pickers offer: from the household's
+ * earliest month with data up to `planningMonths` months after this one
+ */
+export function useMonthRange(planningMonths: number) {
+  const { householdId } = useActiveHousehold();
+  const [earliestMonth, setEarliestMonth] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Find the oldest month across the tables with months */
+  const fetchEarliestMonth = useCallback(async () => {
+    try {
+      setError(null);
+      const results = await Promise.all(
+        MONTH_COLUMNS.map(({ table, column }) =>
+          supabase
+            .from(table)
+            .select<string, Record<string, string>>(column)
+            .eq('household_id', householdId)
+            .order(column, { ascending: true })
+            .limit(1)
+        )
+      );
+
+      const months: string[] = [];
+      results.forEach(({ data, error: fetchError }, i) => {
+        if (fetchError) throw fetchError;
+        const month = data?.[0]?.[MONTH_COLUMNS[i].column];
+        if (month) months.push(month);
+      });
+      setEarliestMonth(months.length > 0 ? months.reduce((a, b) => (b < a ? b : a)) : null);
+    } catch (err) {
+      console.error('Error fetching earliest month:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch earliest month');
+    } finally {
+      setLoading(false);
+    }
+  }, [householdId]);
+
+  useEffect(() => {
+    fetchEarliestMonth();
+  }, [fetchEarliestMonth]);
+
+  const range: MonthRange = getMonthRange(earliestMonth, getCurrentMonth(), planningMonths);
+
+  return {
+    range,
+    loading,
+    error,
+    refetch: fetchEarliestMonth,
+  };
+}
@@ -0,0 +1,61 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useActiveHousehold } from './useActiveHousehold';
+import type { RowChange } from '../lib/realtime';
+import type { RemoteChange } from '../types/budget';
+
+/**
+ * Subscribe to changes of the active household's rows in the given tables,
+ * from any tab or device. `onChange` receives every change; the latest one
+ * made by another user is returned for an "updated by" indicator.
+ */
+export function useRealtimeChanges(channelName: string, tables: readonly string[], onChange: (table: string, change: RowChange) => void) {
+  const { householdId, userEmail } = useActiveHousehold();
+  const [lastRemoteChange, setLastRemoteChange] = useState<RemoteChange | null>(null);
+
+  // Always call the latest handler without resubscribing on every render
+  const onChangeRef = useRef(onChange);
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  });
+
+  const tableList = tables.join(',');
+
+  useEffect(() => {
+    const channel = supabase.channel(`${channelName}:${householdId}`);
+
+    tableList.split(',').forEach((table) => {
+      const handleChange = (change: RowChange) => {
+        onChangeRef.current(table, change);
+
+        if (change.eventType !== 'DELETE') {
+          const by = change.new.updated_by;
+          if (typeof by === 'string' && by !== userEmail) {
+            setLastRemoteChange({ by, table, event: change.eventType, at: new Date().toISOString() });
+          }
+        }
+      };
+
+      channel
+        .on<Record<string, unknown>>(
+          'postgres_changes',
+          { event: 'INSERT', schema: 'public', table, filter: `household_id=eq.${householdId}` },
+          handleChange
+        )
+        .on<Record<string, unknown>>(
+          'postgres_changes',
+          { event: 'UPDATE', schema: 'public', table, filter: `household_id=eq.${householdId}` },
+          handleChange
+        )
+        // Deletes can't be filtered and only carry the row's ID, so they arrive for every household
+        .on<Record<string, unknown>>('postgres_changes', { event: 'DELETE', schema: 'public', table }, handleChange);
+    });
+
+    channel.subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [channelName, householdId, userEmail, tableList]);
+
+  return lastRemoteChange;
+}
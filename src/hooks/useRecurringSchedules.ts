@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, TABLES } from '../lib/supabase';
+import { useActiveHousehold } from './useActiveHousehold';
+import type { DueSchedule, RecurringSchedule, RecurringScheduleFormData } from '../types/budget';
+
+/** Row returned by the due_recurring_schedules database function */
+interface DueScheduleRow {
+  schedule_id: string;
+  amount: number;
+  expense_id: string | null;
+}
+
+/** Custom hook for recurring expense schedules and what they make due in a month */
+export function useRecurringSchedules(selectedMonth: string) {
+  const { householdId } = useActiveHousehold();
+  const [schedules, setSchedules] = useState<RecurringSchedule[]>([]);
+  const [dueSchedules, setDueSchedules] = useState<DueSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Fetch all schedules */
+  const fetchSchedules = useCallback(async () => {
+    try {
+      setError(null);
+      const { data, error: fetchError } = await supabase
+        .from(TABLES.RECURRING_SCHEDULES)
+        .select('*')
+        .eq('household_id', householdId)
+        .order('description', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setSchedules(data || []);
+    } catch (err) {
+      console.error('Error fetching recurring schedules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch recurring schedules');
+    } finally {
+      setLoading(false);
+    }
+  }, [householdId]);
+
+  /**
+   * Fetch the schedules due in the selected month. The database works out the
+   * amounts, so they match the expenses a month rollover generates.
+   */
+  const fetchDueSchedules = useCallback(async () => {
+    try {
+      const { data, error: rpcError } = await supabase.rpc('due_recurring_schedules', {
+        p_household_id: householdId,
+        p_month: selectedMonth,
+      });
+
+      if (rpcError) throw rpcError;
+      const rows: DueScheduleRow[] = data || [];
+      setDueSchedules(
+        rows.flatMap((row) => {
+          const schedule = schedules.find((s) => s.id === row.schedule_id);
+          return schedule ? [{ schedule, amount: Number(row.amount), expense_id: row.expense_id }] : [];
+        })
+      );
+    } catch (err) {
+      // Offline, or a database without schedules yet - nothing is shown as due
+      console.error('Error fetching due schedules:', err);
+      setDueSchedules([]);
+    }
+  }, [householdId, selectedMonth, schedules]);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  useEffect(() => {
+    fetchDueSchedules();
+  }, [fetchDueSchedules]);
+
+  const addSchedule = async (data: RecurringScheduleFormData): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: insertError } = await supabase
+        .from(TABLES.RECURRING_SCHEDULES)
+        .insert({ ...data, household_id: householdId });
+
+      if (insertError) throw insertError;
+      await fetchSchedules();
+      return true;
+    } catch (err) {
+      console.error('Error adding recurring schedule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add schedule');
+      return false;
+    }
+  };
+
+  /** Update a schedule; expenses it already generated keep their amounts */
+  const updateSchedule = async (id: string, data: RecurringScheduleFormData): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: updateError } = await supabase
+        .from(TABLES.RECURRING_SCHEDULES)
+        .update(data)
+        .eq('id', id);
+
+      if (updateError) throw updateError;
+      await fetchSchedules();
+      return true;
+    } catch (err) {
+      console.error('Error updating recurring schedule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update schedule');
+      return false;
+    }
+  };
+
+  /** Delete a schedule; expenses it generated are kept */
+  const deleteSchedule = async (id: string): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: deleteError } = await supabase
+        .from(TABLES.RECURRING_SCHEDULES)
+        .delete()
+        .eq('id', id);
+
+      if (deleteError) throw deleteError;
+      await fetchSchedules();
+      return true;
+    } catch (err) {
+      console.error('Error deleting recurring schedule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete schedule');
+      return false;
+    }
+  };
+
+  return {
+    schedules,
+    dueSchedules,
+    loading,
+    error,
+    addSchedule,
+    updateSchedule,
+    deleteSchedule,
+    refetch: fetchSchedules,
+    refetchDue: fetchDueSchedules,
+  };
+}
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, TABLES } from '../lib/supabase';
+import { useActiveHousehold } from './useActiveHousehold';
+import type { RolloverRules, RolloverRulesFormData } from '../types/budget';
+
+/** What a household gets before it saves rules of its own - matches the column defaults */
+export const DEFAULT_ROLLOVER_RULES: RolloverRulesFormData = {
+  auto_rollover: true,
+  carry_incomes: true,
+  carry_taxes: true,
+  carry_expenses: 'all',
+  reset_paid: false,
+  planning_months: 12,
+};
+
+/** Custom hook for the household's month rollover rules */
+export function useRolloverRules() {
+  const { householdId } = useActiveHousehold();
+  const [rules, setRules] = useState<RolloverRules | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Fetch the rules; a household without a row yet uses the defaults */
+  const fetchRules = useCallback(async () => {
+    try {
+      setError(null);
+      const { data, error: fetchError } = await supabase
+        .from(TABLES.ROLLOVER_RULES)
+        .select('*')
+        .eq('household_id', householdId)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+      setRules(data);
+    } catch (err) {
+      console.error('Error fetching rollover rules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch rollover rules');
+    } finally {
+      setLoading(false);
+    }
+  }, [householdId]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  /** Save the rules; they apply from the next rollover on */
+  const saveRules = async (data: RolloverRulesFormData): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: upsertError } = await supabase
+        .from(TABLES.ROLLOVER_RULES)
+        .upsert({ ...data, household_id: householdId }, { onConflict: 'household_id' });
+
+      if (upsertError) throw upsertError;
+      await fetchRules();
+      return true;
+    } catch (err) {
+      console.error('Error saving rollover rules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save rollover rules');
+      return false;
+    }
+  };
+
+  return {
+    rules: rules ?? DEFAULT_ROLLOVER_RULES,
+    loading,
+    error,
+    saveRules,
+    refetch: fetchRules,
+  };
+}
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, TABLES } from '../lib/supabase';
+import { mergeRowChange } from '../lib/realtime';
+import { sortSavingsGoals } from '../lib/savingsGoals';
+import type { SavingsContribution } from '../lib/savingsGoals';
+import { useActiveHousehold } from './useActiveHousehold';
+import { useRealtimeChanges } from './useRealtimeChanges';
+import type { SavingsGoal, SavingsGoalFormData } from '../types/budget';
+
+/** Contributions follow expenses as they are added, edited and deleted anywhere */
+const REALTIME_TABLES = [TABLES.EXPENSES];
+
+/** Custom hook for the household's savings goals and the expenses contributing to them */
+export function useSavingsGoals() {
+  const { householdId } = useActiveHousehold();
+  const [goals, setGoals] = useState<SavingsGoal[]>([]);
+  const [contributions, setContributions] = useState<SavingsContribution[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Fetch the goals and every month's expenses linked to one */
+  const fetchGoals = useCallback(async () => {
+    try {
+      setError(null);
+      const [goalsResult, contributionsResult] = await Promise.all([
+        supabase.from(TABLES.SAVINGS_GOALS).select('*').eq('household_id', householdId),
+        supabase
+          .from(TABLES.EXPENSES)
+          .select('id, savings_goal_id, month, amount, include_vat')
+          .eq('household_id', householdId)
+          .not('savings_goal_id', 'is', null),
+      ]);
+
+      if (goalsResult.error) throw goalsResult.error;
+      if (contributionsResult.error) throw contributionsResult.error;
+      setGoals(sortSavingsGoals(goalsResult.data || []));
+      setContributions(contributionsResult.data || []);
+    } catch (err) {
+      console.error('Error fetching savings goals:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch savings goals');
+    } finally {
+      setLoading(false);
+    }
+  }, [householdId]);
+
+  useEffect(() => {
+    fetchGoals();
+  }, [fetchGoals]);
+
+  useRealtimeChanges('savings', REALTIME_TABLES, (_table, change) => {
+    setContributions((rows) => mergeRowChange(rows, change, (e) => Boolean(e.savings_goal_id)));
+  });
+
+  /** Add a new savings goal */
+  const addGoal = async (data: SavingsGoalFormData): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: insertError } = await supabase
+        .from(TABLES.SAVINGS_GOALS)
+        .insert({ ...data, household_id: householdId });
+
+      if (insertError) throw insertError;
+      await fetchGoals();
+      return true;
+    } catch (err) {
+      console.error('Error adding savings goal:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add savings goal');
+      return false;
+    }
+  };
+
+  /** Update a savings goal */
+  const updateGoal = async (id: string, data: SavingsGoalFormData): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: updateError } = await supabase
+        .from(TABLES.SAVINGS_GOALS)
+        .update(data)
+        .eq('id', id);
+
+      if (updateError) throw updateError;
+      await fetchGoals();
+      return true;
+    } catch (err) {
+      console.error('Error updating savings goal:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update savings goal');
+      return false;
+    }
+  };
+
+  /** Delete a savings goal; its expenses are kept and unlinked */
+  const deleteGoal = async (id: string): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: deleteError } = await supabase
+        .from(TABLES.SAVINGS_GOALS)
+        .delete()
+        .eq('id', id);
+
+      if (deleteError) throw deleteError;
+      await fetchGoals();
+      return true;
+    } catch (err) {
+      console.error('Error deleting savings goal:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete savings goal');
+      return false;
+    }
+  };
+
+  return {
+    goals,
+    contributions,
+    loading,
+    error,
+    addGoal,
+    updateGoal,
+    deleteGoal,
+    refetch: fetchGoals,
+  };
+}
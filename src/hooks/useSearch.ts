@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useActiveHousehold } from './useActiveHousehold';
+import type { SearchFilters, SearchResult } from '../types/budget';
+
+/** Most results one search returns */
+export const SEARCH_LIMIT = 200;
+
+/** Custom hook for searching entries across every month, in a single query */
+export function useSearch() {
+  const { householdId } = useActiveHousehold();
+  const [filters, setFilters] = useState<SearchFilters | null>(null); // What the results are for
+  const [results, setResults] = useState<SearchResult[] | null>(null); // null until the first search
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Search incomes, taxes, expenses, budget expenses and statements */
+  const search = async (nextFilters: SearchFilters): Promise<boolean> => {
+    try {
+      setSearching(true);
+      setError(null);
+      setFilters(nextFilters);
+
+      const { data, error: rpcError } = await supabase.rpc('search_entries', {
+        p_household_id: householdId,
+        p_query: nextFilters.query.trim(),
+        p_member: nextFilters.member,
+        p_category: nextFilters.category,
+        p_min_amount: nextFilters.min_amount,
+        p_max_amount: nextFilters.max_amount,
+        p_is_paid: nextFilters.is_paid,
+        p_from: nextFilters.from,
+        p_to: nextFilters.to,
+        p_limit: SEARCH_LIMIT,
+      });
+
+      if (rpcError) throw rpcError;
+      setResults(data || []);
+      return true;
+    } catch (err) {
+      console.error('Error searching entries:', err);
+      setError(err instanceof Error ? err.message : 'Failed to search');
+      return false;
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  /** Forget the last search */
+  const clear = () => {
+    setFilters(null);
+    setResults(null);
+    setError(null);
+  };
+
+  return {
+    filters,
+    results,
+    searching,
+    error,
+    search,
+    clear,
+  };
+}
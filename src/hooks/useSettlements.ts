@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, TABLES } from '../lib/supabase';
+import { useActiveHousehold } from './useActiveHousehold';
+import type { Settlement, SettlementFormData } from '../types/budget';
+
+/** Custom hook for the settlements recorded against a month's shared expenses */
+export function useSettlements(selectedMonth: string) {
+  const { householdId } = useActiveHousehold();
+  const [settlements, setSettlements] = useState<Settlement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Fetch the month's settlements, oldest first */
+  const fetchSettlements = useCallback(async () => {
+    try {
+      setError(null);
+      const { data, error: fetchError } = await supabase
+        .from(TABLES.SETTLEMENTS)
+        .select('*')
+        .eq('household_id', householdId)
+        .eq('month', selectedMonth)
+        .order('created_at', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setSettlements(data || []);
+    } catch (err) {
+      console.error('Error fetching settlements:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch settlements');
+    } finally {
+      setLoading(false);
+    }
+  }, [householdId, selectedMonth]);
+
+  useEffect(() => {
+    fetchSettlements();
+  }, [fetchSettlements]);
+
+  /** Record a payment between members */
+  const addSettlement = async (data: SettlementFormData): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: insertError } = await supabase
+        .from(TABLES.SETTLEMENTS)
+        .insert({ ...data, household_id: householdId });
+
+      if (insertError) throw insertError;
+      await fetchSettlements();
+      return true;
+    } catch (err) {
+      console.error('Error recording settlement:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record settlement');
+      return false;
+    }
+  };
+
+  /** Delete a settlement recorded by mistake */
+  const deleteSettlement = async (id: string): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: deleteError } = await supabase
+        .from(TABLES.SETTLEMENTS)
+        .delete()
+        .eq('id', id);
+
+      if (deleteError) throw deleteError;
+      await fetchSettlements();
+      return true;
+    } catch (err) {
+      console.error('Error deleting settlement:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete settlement');
+      return false;
+    }
+  };
+
+  return {
+    settlements,
+    loading,
+    error,
+    addSettlement,
+    deleteSettlement,
+    refetch: fetchSettlements,
+  };
+}
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, TABLES } from '../lib/supabase';
+import { useActiveHousehold } from './useActiveHousehold';
+import type { HouseholdMember, SplitMethod, SplitRulesFormData } from '../types/budget';
+
+/**
+ * Custom hook for how the household splits shared expenses. The method has a
+ * row of its own; custom percentages are kept on the members, so they follow
+ * renames and go when a member is removed.
+ */
+export function useSplitRules(members: HouseholdMember[]) {
+  const { householdId } = useActiveHousehold();
+  const [method, setMethod] = useState<SplitMethod>('equal');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Fetch the method; a household without a row yet splits equally */
+  const fetchRules = useCallback(async () => {
+    try {
+      setError(null);
+      const { data, error: fetchError } = await supabase
+        .from(TABLES.SPLIT_RULES)
+        .select('*')
+        .eq('household_id', householdId)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+      setMethod(data?.method ?? 'equal');
+    } catch (err) {
+      console.error('Error fetching split rules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch split rules');
+    } finally {
+      setLoading(false);
+    }
+  }, [householdId]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  /** Save the method and, for a custom split, each member's percentage - refetch the members afterwards */
+  const saveRules = async (data: SplitRulesFormData): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: upsertError } = await supabase
+        .from(TABLES.SPLIT_RULES)
+        .upsert({ household_id: householdId, method: data.method }, { onConflict: 'household_id' });
+      if (upsertError) throw upsertError;
+
+      if (data.method === 'custom') {
+        const results = await Promise.all(
+          members.map((member) =>
+            supabase
+              .from(TABLES.HOUSEHOLD_MEMBERS)
+              .update({ split_percent: data.percents[member.name] ?? 0 })
+              .eq('id', member.id)
+          )
+        );
+        const failed = results.find((result) => result.error);
+        if (failed?.error) throw failed.error;
+      }
+
+      await fetchRules();
+      return true;
+    } catch (err) {
+      console.error('Error saving split rules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save split rules');
+      return false;
+    }
+  };
+
+  const rules: SplitRulesFormData = {
+    method,
+    percents: Object.fromEntries(members.map((m) => [m.name, Number(m.split_percent ?? 0)])),
+  };
+
+  return {
+    rules,
+    loading,
+    error,
+    saveRules,
+    refetch: fetchRules,
+  };
+}
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, TABLES } from '../lib/supabase';
+import { useActiveHousehold } from './useActiveHousehold';
+import type { TaxProfile, TaxProfileFormData } from '../types/budget';
+
+/** Custom hook for members' tax profiles - at most one per member */
+export function useTaxProfiles() {
+  const { householdId } = useActiveHousehold();
+  const [profiles, setProfiles] = useState<TaxProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Fetch all profiles */
+  const fetchProfiles = useCallback(async () => {
+    try {
+      setError(null);
+      const { data, error: fetchError } = await supabase
+        .from(TABLES.TAX_PROFILES)
+        .select('*')
+        .eq('household_id', householdId);
+
+      if (fetchError) throw fetchError;
+      setProfiles(data || []);
+    } catch (err) {
+      console.error('Error fetching tax profiles:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch tax profiles');
+    } finally {
+      setLoading(false);
+    }
+  }, [householdId]);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles]);
+
+  /** Create or replace a member's profile */
+  const saveProfile = async (data: TaxProfileFormData): Promise<boolean> => {
+    try {
+      setError(null);
+      const { error: upsertError } = await supabase
+        .from(TABLES.TAX_PROFILES)
+        .upsert({ ...data, household_id: householdId }, { onConflict: 'household_id,member' });
+
+      if (upsertError) throw upsertError;
+      await fetchProfiles();
+      return true;
+    } catch (err) {
+      console.error('Error saving tax profile:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save tax profile');
+      return false;
+    }
+  };
+
+  return {
+    profiles,
+    loading,
+    error,
+    saveProfile,
+    refetch: fetchProfiles,
+  };
+}
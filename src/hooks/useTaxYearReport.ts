@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, TABLES } from '../lib/supabase';
+import { getTaxYearRange } from '../lib/taxYearReport';
+import { useActiveHousehold } from './useActiveHousehold';
+import type { Expense, Income, Tax } from '../types/budget';
+
+/** Custom hook for the incomes, taxes and deductible expenses of a whole tax year */
+export function useTaxYearReport(taxYear: number) {
+  const { householdId } = useActiveHousehold();
+  const [incomes, setIncomes] = useState<Income[]>([]);
+  const [taxes, setTaxes] = useState<Tax[]>([]);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Fetch every row between March and February of the tax year */
+  const fetchYear = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const { from, to } = getTaxYearRange(taxYear);
+
+      const [incomesResult, taxesResult, expensesResult] = await Promise.all([
+        supabase
+          .from(TABLES.INCOMES)
+          .select('*')
+          .eq('household_id', householdId)
+          .gte('month', from)
+          .lte('month', to),
+        supabase
+          .from(TABLES.TAXES)
+          .select('*')
+          .eq('household_id', householdId)
+          .gte('month', from)
+          .lte('month', to),
+        supabase
+          .from(TABLES.EXPENSES)
+          .select('*')
+          .eq('household_id', householdId)
+          .eq('is_tax_deductible', true)
+          .gte('month', from)
+          .lte('month', to),
+      ]);
+
+      if (incomesResult.error) throw incomesResult.error;
+      if (taxesResult.error) throw taxesResult.error;
+      if (expensesResult.error) throw expensesResult.error;
+
+      setIncomes(incomesResult.data || []);
+      setTaxes(taxesResult.data || []);
+      setExpenses(expensesResult.data || []);
+    } catch (err) {
+      console.error('Error fetching tax year:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch tax year');
+    } finally {
+      setLoading(false);
+    }
+  }, [householdId, taxYear]);
+
+  useEffect(() => {
+    fetchYear();
+  }, [fetchYear]);
+
+  return {
+    incomes,
+    taxes,
+    expenses,
+    loading,
+    error,
+    refetch: fetchYear,
+  };
+}
@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { getReviewYearRange } from '../lib/yearReview';
+import { useActiveHousehold } from './useActiveHousehold';
+import type { MonthlyTotal } from '../types/budget';
+
+/** Custom hook for a calendar year's monthly totals, fetched in a single aggregate query */
+export function useYearReview(year: number) {
+  const { householdId } = useActiveHousehold();
+  const [totals, setTotals] = useState<MonthlyTotal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Fetch the year's totals by month, member and category */
+  const fetchTotals = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const { from, to } = getReviewYearRange(year);
+
+      const { data, error: rpcError } = await supabase.rpc('monthly_totals', {
+        p_household_id: householdId,
+        p_from: from,
+        p_to: to,
+      });
+
+      if (rpcError) throw rpcError;
+      setTotals(data || []);
+    } catch (err) {
+      console.error('Error fetching year in review:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch year in review');
+    } finally {
+      setLoading(false);
+    }
+  }, [householdId, year]);
+
+  useEffect(() => {
+    fetchTotals();
+  }, [fetchTotals]);
+
+  return {
+    totals,
+    loading,
+    error,
+    refetch: fetchTotals,
+  };
+}
@@ -0,0 +1,123 @@
+import type { AmortisationRow, AmortisationSummary, BalanceAccount, BalanceDeduction } from '../types/budget';
+
+/** The account fields the schedule is worked out from */
+type AmortisingAccount = Pick<
+  BalanceAccount,
+  'id' | 'initial_balance' | 'monthly_deduction' | 'start_month' | 'annual_rate' | 'compounding' | 'monthly_fee'
+>;
+
+/** A deduction change, as stored or as proposed by a debt plan */
+type DeductionChange = Pick<BalanceDeduction, 'account_id' | 'from_month' | 'monthly_deduction'>;
+
+/** Schedules stop here (50 years) - a balance the deduction never clears would otherwise run forever */
+const MAX_MONTHS = 600;
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/** Month n months after a YYYY-MM month */
+export function addMonths(month: string, n: number): string {
+  const [year, monthNum] = month.split('-').map(Number);
+  const date = new Date(year, monthNum - 1 + n, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function daysInMonth(month: string): number {
+  const [year, monthNum] = month.split('-').map(Number);
+  return new Date(year, monthNum, 0).getDate();
+}
+
+/** The account's monthly deduction in a month: the latest change from that month or before, else its own */
+export function scheduledDeduction(account: AmortisingAccount, deductions: DeductionChange[], month: string): number {
+  const change = deductions
+    .filter((d) => d.account_id === account.id && d.from_month <= month)
+    .sort((a, b) => b.from_month.localeCompare(a.from_month))[0];
+  return Number(change ? change.monthly_deduction : account.monthly_deduction);
+}
+
+/**
+ * Interest a month adds to a balance. Banks accrue home loan, vehicle finance
+ * and credit card interest daily and add it at month end, so a 31-day month
+ * costs more than February; otherwise it is a twelfth of the annual rate.
+ */
+export function monthInterest(account: AmortisingAccount, balance: number, month: string): number {
+  const rate = Number(account.annual_rate ?? 0) / 100;
+  if (rate <= 0 || balance <= 0) return 0;
+  return account.compounding === 'daily'
+    ? roundCents((balance * rate * daysInMonth(month)) / 365)
+    : roundCents((balance * rate) / 12);
+}
+
+/**
+ * Month-by-month schedule from the start month: interest and fees are added
+ * to the opening balance, then the payment comes off - the final payment only
+ * clears what is left. Payments default to the monthly deduction in force,
+ * following any deduction changes. Runs until the balance is cleared, or up
+ * to `until` when given, or stops after a month in which the balance grew
+ * because the payment didn't cover interest and fees and no later change
+ * raises it.
+ */
+export function buildAmortisationSchedule(
+  account: AmortisingAccount,
+  options: { until?: string; payments?: (month: string) => number; deductions?: DeductionChange[] } = {}
+): AmortisationRow[] {
+  const deductions = options.deductions ?? [];
+  const payments = options.payments ?? ((month: string) => scheduledDeduction(account, deductions, month));
+  const fee = Number(account.monthly_fee ?? 0);
+  const rows: AmortisationRow[] = [];
+
+  let balance = Number(account.initial_balance);
+  for (let i = 0; i < MAX_MONTHS && balance > 0; i++) {
+    const month = addMonths(account.start_month, i);
+    if (options.until && month > options.until) break;
+
+    const interest = monthInterest(account, balance, month);
+    const due = roundCents(balance + interest + fee);
+    const payment = roundCents(Math.min(Math.max(0, payments(month)), due));
+    const closingBalance = roundCents(due - payment);
+    rows.push({
+      month,
+      openingBalance: balance,
+      interest,
+      fees: fee,
+      payment,
+      principal: roundCents(payment - interest - fee),
+      closingBalance,
+    });
+
+    const raisedLater = deductions.some((d) => d.account_id === account.id && d.from_month > month);
+    if (!options.until && closingBalance >= balance && !raisedLater) break;
+    balance = closingBalance;
+  }
+  return rows;
+}
+
+/** Balance after the month's payment, following the schedule; the initial balance before the start month */
+export function balanceAfterMonth(rows: AmortisationRow[], initialBalance: number, month: string): number {
+  const paid = rows.filter((row) => row.month <= month);
+  return paid.length > 0 ? paid[paid.length - 1].closingBalance : Number(initialBalance);
+}
+
+/** Remaining months, payoff month and interest of an account as of a month */
+export function summariseAmortisation(
+  account: AmortisingAccount,
+  asOfMonth: string,
+  deductions: DeductionChange[] = []
+): AmortisationSummary {
+  const rows = buildAmortisationSchedule(account, { deductions });
+  const last = rows[rows.length - 1];
+  const paysOff = Number(account.initial_balance) <= 0 || (last !== undefined && last.closingBalance <= 0);
+  const remaining = rows.filter((row) => row.month > asOfMonth);
+  const sum = (list: AmortisationRow[], pick: (row: AmortisationRow) => number) =>
+    roundCents(list.reduce((total, row) => total + pick(row), 0));
+
+  return {
+    paysOff,
+    monthsRemaining: paysOff ? remaining.length : null,
+    payoffMonth: paysOff && last ? last.month : null,
+    totalInterest: sum(rows, (row) => row.interest),
+    remainingInterest: sum(remaining, (row) => row.interest),
+    totalFees: sum(rows, (row) => row.fees),
+  };
+}
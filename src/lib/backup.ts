@@ -0,0 +1,465 @@
+import type { BackupFile, BackupTableName, BackupTables } from '../types/budget';
+
+/** Bump when the backup layout changes; older versions must stay restorable */
+export const BACKUP_VERSION = 1;
+
+/** Tables in the order they are restored, so referenced rows always exist first */
+export const BACKUP_TABLES: BackupTableName[] = [
+  'household_members',
+  'rollover_rules',
+  'split_rules',
+  'balance_accounts',
+  'balance_deductions',
+  'savings_goals',
+  'asset_accounts',
+  'asset_valuations',
+  'recurring_schedules',
+  'tax_profiles',
+  'incomes',
+  'taxes',
+  'expenses',
+  'unnecessary_expenses',
+  'settlements',
+  'balance_history',
+  'budget_entries',
+  'budget_expenses',
+  'financial_statements',
+  'expense_attachments',
+  'import_profiles',
+  'categorisation_rules',
+];
+
+interface FieldSpec {
+  type: 'string' | 'number' | 'boolean';
+  nullable?: boolean;
+  values?: readonly string[];
+  pattern?: RegExp;
+}
+
+const MONTH = /^\d{4}-\d{2}$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const CATEGORIES = [
+  'Housing', 'Utilities', 'Groceries', 'Transportation',
+  'Healthcare', 'Entertainment', 'Dining', 'Shopping',
+  'Education', 'Insurance', 'Savings', 'Other',
+] as const;
+
+const id: FieldSpec = { type: 'string' };
+const text: FieldSpec = { type: 'string' };
+const optionalText: FieldSpec = { type: 'string', nullable: true };
+const money: FieldSpec = { type: 'number' };
+const month: FieldSpec = { type: 'string', pattern: MONTH };
+const flag: FieldSpec = { type: 'boolean', nullable: true };
+const category: FieldSpec = { type: 'string', values: CATEGORIES };
+
+/** Columns of each table as described by the interfaces in src/types/budget.ts */
+const FIELD_SPECS: Record<BackupTableName, Record<string, FieldSpec>> = {
+  household_members: {
+    id,
+    name: text,
+    color: text,
+    sort_order: { type: 'number' },
+    split_percent: { type: 'number', nullable: true },
+    created_at: text,
+  },
+  rollover_rules: {
+    id,
+    auto_rollover: { type: 'boolean' },
+    carry_incomes: { type: 'boolean' },
+    carry_taxes: { type: 'boolean' },
+    carry_expenses: { type: 'string', values: ['all', 'recurring', 'none'] },
+    reset_paid: { type: 'boolean' },
+    planning_months: { type: 'number', nullable: true },
+    created_at: text,
+  },
+  split_rules: {
+    id,
+    method: { type: 'string', values: ['equal', 'income', 'custom'] },
+    created_at: text,
+  },
+  balance_accounts: {
+    id,
+    name: text,
+    description: optionalText,
+    initial_balance: money,
+    current_balance: money,
+    monthly_deduction: money,
+    start_month: month,
+    annual_rate: { type: 'number', nullable: true },
+    compounding: { type: 'string', nullable: true, values: ['monthly', 'daily'] },
+    monthly_fee: { type: 'number', nullable: true },
+    created_at: text,
+  },
+  balance_deductions: { id, account_id: text, from_month: month, monthly_deduction: money, created_at: text },
+  savings_goals: {
+    id,
+    name: text,
+    target_amount: money,
+    target_month: month,
+    starting_amount: money,
+    owner: optionalText,
+    priority: { type: 'string', values: ['high', 'medium', 'low'] },
+    created_at: text,
+  },
+  asset_accounts: {
+    id,
+    name: text,
+    kind: { type: 'string', values: ['bank', 'emergency_fund', 'tfsa', 'retirement_annuity', 'vehicle', 'property', 'other'] },
+    description: optionalText,
+    created_at: text,
+  },
+  asset_valuations: { id, account_id: text, month, value: money, note: optionalText, created_at: text },
+  recurring_schedules: {
+    id,
+    member: text,
+    category,
+    description: text,
+    amount: money,
+    frequency: { type: 'string', values: ['weekly', 'monthly', 'quarterly', 'annually'] },
+    interval_count: { type: 'number' },
+    start_month: month,
+    end_month: { ...month, nullable: true },
+    escalation_percent: money,
+    is_shared: flag,
+    include_vat: flag,
+    balance_account_id: optionalText,
+    savings_goal_id: optionalText,
+    created_at: text,
+  },
+  tax_profiles: {
+    id,
+    member: text,
+    birth_date: { type: 'string', nullable: true, pattern: DATE },
+    medical_scheme_members: { type: 'number' },
+    retirement_contribution: money,
+    uif_contributor: { type: 'boolean' },
+    created_at: text,
+  },
+  incomes: {
+    id,
+    member: text,
+    income_type: { type: 'string', values: ['Salary', 'Interest', 'Other'] },
+    description: text,
+    amount: money,
+    month,
+    created_at: text,
+  },
+  taxes: { id, member: text, description: text, amount: money, month, created_at: text },
+  expenses: {
+    id,
+    member: text,
+    category,
+    description: text,
+    amount: money,
+    month,
+    is_shared: flag,
+    is_recurring: flag,
+    is_paid: flag,
+    include_vat: flag,
+    is_tax_deductible: flag,
+    note: optionalText,
+    balance_account_id: optionalText,
+    savings_goal_id: optionalText,
+    schedule_id: optionalText,
+    created_at: text,
+  },
+  unnecessary_expenses: { id, member: text, description: text, amount: money, month, note: optionalText, created_at: text },
+  settlements: { id, month, from_member: text, to_member: text, amount: money, note: optionalText, created_at: text },
+  balance_history: {
+    id,
+    account_id: text,
+    month,
+    kind: { type: 'string', values: ['payment', 'interest', 'fee', 'adjustment', 'top_up'] },
+    amount: money,
+    expense_id: optionalText,
+    note: optionalText,
+    created_at: text,
+  },
+  budget_entries: {
+    id,
+    name: text,
+    description: optionalText,
+    budget_amount: money,
+    month,
+    member: text,
+    category,
+    created_at: text,
+  },
+  budget_expenses: {
+    id,
+    budget_id: text,
+    description: text,
+    amount: money,
+    date: { type: 'string', pattern: DATE },
+    created_at: text,
+  },
+  financial_statements: {
+    id,
+    month,
+    filename: text,
+    file_path: text,
+    file_size: { type: 'number' },
+    content_type: text,
+    uploaded_by: optionalText,
+    notes: optionalText,
+    created_at: text,
+  },
+  expense_attachments: {
+    id,
+    expense_id: optionalText,
+    unnecessary_expense_id: optionalText,
+    budget_expense_id: optionalText,
+    filename: text,
+    file_path: text,
+    file_size: { type: 'number' },
+    content_type: text,
+    created_at: text,
+  },
+  import_profiles: {
+    id,
+    name: text,
+    delimiter: text,
+    header_row: { type: 'number', nullable: true },
+    date_column: { type: 'number' },
+    description_column: { type: 'number' },
+    amount_column: { type: 'number', nullable: true },
+    debit_column: { type: 'number', nullable: true },
+    credit_column: { type: 'number', nullable: true },
+    date_format: { type: 'string', values: ['YMD', 'DMY', 'MDY'] },
+    invert_amounts: { type: 'boolean' },
+    default_member: optionalText,
+    default_category: category,
+    created_at: text,
+  },
+  categorisation_rules: {
+    id,
+    pattern: text,
+    match_type: { type: 'string', values: ['contains', 'wildcard', 'regex'] },
+    min_amount: { type: 'number', nullable: true },
+    max_amount: { type: 'number', nullable: true },
+    category,
+    member: optionalText,
+    is_shared: flag,
+    balance_account_id: optionalText,
+    priority: { type: 'number' },
+    created_at: text,
+  },
+};
+
+/** Stop reporting after this many problems - a wrong file would otherwise list thousands */
+const MAX_ERRORS = 25;
+
+function checkField(value: unknown, spec: FieldSpec): string | null {
+  if (value === null || value === undefined) {
+    return spec.nullable ? null : 'is missing';
+  }
+
+  // Postgres DECIMAL columns can arrive as numeric strings
+  if (spec.type === 'number') {
+    return typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value)))
+      ? null
+      : `should be a number, got ${JSON.stringify(value)}`;
+  }
+  if (typeof value !== spec.type) return `should be a ${spec.type}, got ${JSON.stringify(value)}`;
+  if (spec.values && !spec.values.includes(value as string)) return `has unknown value ${JSON.stringify(value)}`;
+  if (spec.pattern && !spec.pattern.test(value as string)) return `has invalid format ${JSON.stringify(value)}`;
+  return null;
+}
+
+/**
+ * Check that a parsed JSON file is a backup this version can restore: every
+ * row has the columns of its type, IDs are unique, and references between
+ * tables (members, budgets, balance and asset accounts, attachments' entries) point at rows in the backup.
+ */
+export function validateBackup(data: unknown): { backup: BackupFile | null; errors: string[] } {
+  const errors: string[] = [];
+  const addError = (message: string) => {
+    if (errors.length < MAX_ERRORS) errors.push(message);
+  };
+
+  if (typeof data !== 'object' || data === null) {
+    return { backup: null, errors: ['The file is not a JSON object'] };
+  }
+
+  const file = data as Partial<BackupFile>;
+  if (file.app !== 'fambudget') {
+    return { backup: null, errors: ['This is not a Family Budget Planner backup'] };
+  }
+  if (typeof file.version !== 'number' || file.version > BACKUP_VERSION) {
+    return { backup: null, errors: [`Backup version ${String(file.version)} is newer than this app supports (${BACKUP_VERSION})`] };
+  }
+  if (typeof file.tables !== 'object' || file.tables === null) {
+    return { backup: null, errors: ['The backup has no tables'] };
+  }
+
+  const tables = file.tables as Partial<Record<BackupTableName, unknown>>;
+  const ids = {} as Record<BackupTableName, Set<string>>;
+
+  BACKUP_TABLES.forEach((table) => {
+    ids[table] = new Set();
+    const rows = tables[table] ?? [];
+    if (!Array.isArray(rows)) {
+      addError(`${table} should be a list of rows`);
+      return;
+    }
+
+    rows.forEach((row: unknown, index) => {
+      if (typeof row !== 'object' || row === null) {
+        addError(`${table} row ${index + 1} is not an object`);
+        return;
+      }
+      const record = row as Record<string, unknown>;
+      Object.entries(FIELD_SPECS[table]).forEach(([field, spec]) => {
+        const problem = checkField(record[field], spec);
+        if (problem) addError(`${table} row ${index + 1}: ${field} ${problem}`);
+      });
+
+      const rowId = String(record.id);
+      if (ids[table].has(rowId)) addError(`${table} row ${index + 1}: duplicate id ${rowId}`);
+      ids[table].add(rowId);
+    });
+  });
+
+  if (errors.length > 0) return { backup: null, errors };
+
+  // Every table is now known to be a valid list of rows
+  const valid = BACKUP_TABLES.reduce((acc, table) => {
+    return { ...acc, [table]: tables[table] ?? [] };
+  }, {} as BackupTables);
+
+  const memberNames = new Set(valid.household_members.map((m) => m.name));
+  const checkMember = (table: BackupTableName, member: string | null, index: number) => {
+    if (member && !memberNames.has(member)) addError(`${table} row ${index + 1}: unknown member "${member}"`);
+  };
+  const checkAccount = (table: BackupTableName, accountId: string | null, index: number) => {
+    if (accountId && !ids.balance_accounts.has(accountId)) addError(`${table} row ${index + 1}: unknown balance account ${accountId}`);
+  };
+  const checkGoal = (table: BackupTableName, goalId: string | null | undefined, index: number) => {
+    if (goalId && !ids.savings_goals.has(goalId)) addError(`${table} row ${index + 1}: unknown savings goal ${goalId}`);
+  };
+
+  valid.tax_profiles.forEach((r, i) => checkMember('tax_profiles', r.member, i));
+  valid.incomes.forEach((r, i) => checkMember('incomes', r.member, i));
+  valid.taxes.forEach((r, i) => checkMember('taxes', r.member, i));
+  valid.savings_goals.forEach((r, i) => checkMember('savings_goals', r.owner, i));
+  valid.recurring_schedules.forEach((r, i) => {
+    checkMember('recurring_schedules', r.member, i);
+    checkAccount('recurring_schedules', r.balance_account_id, i);
+    checkGoal('recurring_schedules', r.savings_goal_id, i);
+  });
+  valid.expenses.forEach((r, i) => {
+    checkMember('expenses', r.member, i);
+    checkAccount('expenses', r.balance_account_id, i);
+    checkGoal('expenses', r.savings_goal_id, i);
+    if (r.schedule_id && !ids.recurring_schedules.has(r.schedule_id)) {
+      addError(`expenses row ${i + 1}: unknown recurring schedule ${r.schedule_id}`);
+    }
+  });
+  valid.unnecessary_expenses.forEach((r, i) => checkMember('unnecessary_expenses', r.member, i));
+  valid.settlements.forEach((r, i) => {
+    checkMember('settlements', r.from_member, i);
+    checkMember('settlements', r.to_member, i);
+  });
+  valid.budget_entries.forEach((r, i) => checkMember('budget_entries', r.member, i));
+  valid.financial_statements.forEach((r, i) => checkMember('financial_statements', r.uploaded_by, i));
+  valid.import_profiles.forEach((r, i) => checkMember('import_profiles', r.default_member, i));
+  valid.categorisation_rules.forEach((r, i) => {
+    checkMember('categorisation_rules', r.member, i);
+    checkAccount('categorisation_rules', r.balance_account_id, i);
+  });
+  valid.balance_history.forEach((r, i) => {
+    checkAccount('balance_history', r.account_id, i);
+    if (r.expense_id && !ids.expenses.has(r.expense_id)) {
+      addError(`balance_history row ${i + 1}: unknown expense ${r.expense_id}`);
+    }
+  });
+  valid.balance_deductions.forEach((r, i) => checkAccount('balance_deductions', r.account_id, i));
+  valid.asset_valuations.forEach((r, i) => {
+    if (!ids.asset_accounts.has(r.account_id)) addError(`asset_valuations row ${i + 1}: unknown asset account ${r.account_id}`);
+  });
+  valid.budget_expenses.forEach((r, i) => {
+    if (!ids.budget_entries.has(r.budget_id)) addError(`budget_expenses row ${i + 1}: unknown budget ${r.budget_id}`);
+  });
+  valid.expense_attachments.forEach((r, i) => {
+    if (r.expense_id && !ids.expenses.has(r.expense_id)) addError(`expense_attachments row ${i + 1}: unknown expense ${r.expense_id}`);
+    if (r.unnecessary_expense_id && !ids.unnecessary_expenses.has(r.unnecessary_expense_id)) {
+      addError(`expense_attachments row ${i + 1}: unknown unnecessary expense ${r.unnecessary_expense_id}`);
+    }
+    if (r.budget_expense_id && !ids.budget_expenses.has(r.budget_expense_id)) {
+      addError(`expense_attachments row ${i + 1}: unknown budget expense ${r.budget_expense_id}`);
+    }
+  });
+
+  if (errors.length > 0) return { backup: null, errors };
+
+  return {
+    backup: {
+      app: 'fambudget',
+      version: file.version,
+      exported_at: String(file.exported_at ?? ''),
+      household: file.household ?? { id: '', name: '' },
+      tables: valid,
+    },
+    errors,
+  };
+}
+
+/** Give every row a new ID and update the references to them, for restoring a copy */
+export function withNewIds(tables: BackupTables): BackupTables {
+  const newIds = new Map<string, string>();
+  const renew = <T extends { id: string }>(rows: T[]): T[] =>
+    rows.map((row) => {
+      const newId = crypto.randomUUID();
+      newIds.set(row.id, newId);
+      return { ...row, id: newId };
+    });
+  const ref = (oldId: string | null) => (oldId ? newIds.get(oldId) ?? null : null);
+
+  const balanceAccounts = renew(tables.balance_accounts);
+  const savingsGoals = renew(tables.savings_goals);
+  const recurringSchedules = renew(tables.recurring_schedules);
+  const budgetEntries = renew(tables.budget_entries);
+
+  return {
+    household_members: renew(tables.household_members),
+    rollover_rules: renew(tables.rollover_rules),
+    split_rules: renew(tables.split_rules),
+    balance_accounts: balanceAccounts,
+    balance_deductions: renew(tables.balance_deductions).map((r) => ({ ...r, account_id: ref(r.account_id) ?? r.account_id })),
+    savings_goals: savingsGoals,
+    asset_accounts: renew(tables.asset_accounts),
+    asset_valuations: renew(tables.asset_valuations).map((r) => ({ ...r, account_id: ref(r.account_id) ?? r.account_id })),
+    recurring_schedules: recurringSchedules.map((r) => ({
+      ...r,
+      balance_account_id: ref(r.balance_account_id),
+      savings_goal_id: ref(r.savings_goal_id),
+    })),
+    tax_profiles: renew(tables.tax_profiles),
+    incomes: renew(tables.incomes),
+    taxes: renew(tables.taxes),
+    expenses: renew(tables.expenses).map((r) => ({
+      ...r,
+      balance_account_id: ref(r.balance_account_id),
+      savings_goal_id: ref(r.savings_goal_id),
+      schedule_id: ref(r.schedule_id),
+    })),
+    unnecessary_expenses: renew(tables.unnecessary_expenses),
+    settlements: renew(tables.settlements),
+    balance_history: renew(tables.balance_history).map((r) => ({
+      ...r,
+      account_id: ref(r.account_id) ?? r.account_id,
+      expense_id: ref(r.expense_id),
+    })),
+    budget_entries: budgetEntries,
+    budget_expenses: renew(tables.budget_expenses).map((r) => ({ ...r, budget_id: ref(r.budget_id) ?? r.budget_id })),
+    financial_statements: renew(tables.financial_statements),
+    expense_attachments: renew(tables.expense_attachments).map((r) => ({
+      ...r,
+      expense_id: ref(r.expense_id),
+      unnecessary_expense_id: ref(r.unnecessary_expense_id),
+      budget_expense_id: ref(r.budget_expense_id),
+    })),
+    import_profiles: renew(tables.import_profiles),
+    categorisation_rules: renew(tables.categorisation_rules).map((r) => ({ ...r, balance_account_id: ref(r.balance_account_id) })),
+  };
+}
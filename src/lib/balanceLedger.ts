@@ -0,0 +1,159 @@
+import { addMonths, monthInterest, summariseAmortisation } from './amortisation';
+import { expenseTotal } from './vat';
+import type {
+  AmortisationSummary,
+  BalanceAccount,
+  BalanceDeduction,
+  BalanceHistory,
+  BalanceSnapshot,
+  Expense,
+} from '../types/budget';
+
+/** A ledger entry to post, before the database gives it an ID */
+type NewEntry = Pick<BalanceHistory, 'account_id' | 'month' | 'kind' | 'amount' | 'expense_id' | 'note'>;
+
+/** The entry fields a balance is worked out from */
+type BalanceChange = Pick<BalanceHistory, 'account_id' | 'month' | 'amount'>;
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function accountEntries<T extends BalanceChange>(account: BalanceAccount, entries: T[]): T[] {
+  return entries.filter((entry) => entry.account_id === account.id);
+}
+
+/** Balance of an account at the end of a month: the initial balance plus every entry up to it */
+export function ledgerBalance(account: BalanceAccount, entries: BalanceChange[], month: string): number {
+  return roundCents(
+    accountEntries(account, entries)
+      .filter((entry) => entry.month <= month)
+      .reduce((balance, entry) => balance + Number(entry.amount), Number(account.initial_balance))
+  );
+}
+
+/**
+ * Month-end snapshots of an account from its first month (the start month, or
+ * an earlier entry) up to `until`, oldest first
+ */
+export function buildMonthEndSnapshots(
+  account: BalanceAccount,
+  entries: BalanceHistory[],
+  until: string
+): BalanceSnapshot[] {
+  const own = accountEntries(account, entries);
+  const firstMonth = own.reduce((first, entry) => (entry.month < first ? entry.month : first), account.start_month);
+  const snapshots: BalanceSnapshot[] = [];
+
+  let balance = ledgerBalance(account, own, addMonths(firstMonth, -1));
+  for (let month = firstMonth; month <= until; month = addMonths(month, 1)) {
+    const inMonth = own.filter((entry) => entry.month === month);
+    const sum = (kinds: BalanceHistory['kind'][]) =>
+      roundCents(inMonth.filter((e) => kinds.includes(e.kind)).reduce((total, e) => total + Number(e.amount), 0));
+    const snapshot: BalanceSnapshot = {
+      month,
+      openingBalance: balance,
+      payments: -sum(['payment']) || 0, // Not -0 in a month without payments
+      interest: sum(['interest']),
+      fees: sum(['fee']),
+      adjustments: sum(['adjustment', 'top_up']),
+      closingBalance: roundCents(balance + inMonth.reduce((total, e) => total + Number(e.amount), 0)),
+    };
+    snapshots.push(snapshot);
+    balance = snapshot.closingBalance;
+  }
+  return snapshots;
+}
+
+/**
+ * Payment entries out of line with the paid expenses linked to balance
+ * accounts: expenses without a matching payment (or whose amount, month or
+ * account changed) to post, and payments whose expense is no longer paid or
+ * linked to remove
+ */
+export function pendingPayments(
+  paidExpenses: Expense[],
+  entries: BalanceHistory[]
+): { post: NewEntry[]; remove: string[] } {
+  const payments = new Map(entries.filter((e) => e.expense_id).map((e) => [e.expense_id, e]));
+  const linked = paidExpenses.filter((e) => e.is_paid && e.balance_account_id);
+
+  const post = linked
+    .map((expense): NewEntry => ({
+      account_id: expense.balance_account_id as string,
+      month: expense.month,
+      kind: 'payment',
+      amount: -roundCents(expenseTotal(expense)),
+      expense_id: expense.id,
+      note: expense.description,
+    }))
+    .filter((entry) => {
+      const posted = payments.get(entry.expense_id);
+      return (
+        !posted ||
+        posted.account_id !== entry.account_id ||
+        posted.month !== entry.month ||
+        Number(posted.amount) !== entry.amount
+      );
+    });
+
+  const linkedIds = new Set(linked.map((e) => e.id));
+  const remove = entries.filter((e) => e.expense_id && !linkedIds.has(e.expense_id)).map((e) => e.id);
+  return { post, remove };
+}
+
+/**
+ * Interest and fees the bank will have added for every month from the start
+ * month up to `throughMonth` that doesn't have them posted yet. Each month's
+ * interest is on its opening balance, so the postings build on each other;
+ * nothing is charged once the balance is cleared.
+ */
+export function pendingInterest(account: BalanceAccount, entries: BalanceHistory[], throughMonth: string): NewEntry[] {
+  const own = accountEntries(account, entries);
+  const fee = Number(account.monthly_fee ?? 0);
+  const pending: NewEntry[] = [];
+  const posted = (month: string, kind: BalanceHistory['kind']) =>
+    own.some((entry) => entry.month === month && entry.kind === kind);
+
+  let opening = ledgerBalance(account, own, addMonths(account.start_month, -1));
+  for (let month = account.start_month; month <= throughMonth; month = addMonths(month, 1)) {
+    if (opening > 0) {
+      const interest = monthInterest(account, opening, month);
+      if (interest > 0 && !posted(month, 'interest')) {
+        pending.push({ account_id: account.id, month, kind: 'interest', amount: interest, expense_id: null, note: null });
+      }
+      if (fee > 0 && !posted(month, 'fee')) {
+        pending.push({ account_id: account.id, month, kind: 'fee', amount: fee, expense_id: null, note: null });
+      }
+    }
+    opening = ledgerBalance(account, [...own, ...pending], month);
+  }
+  return pending;
+}
+
+/**
+ * Payoff figures of an account as of a month, going on from its ledger
+ * balance then: the schedule follows the deduction changes from the next
+ * month, and the totals add the interest and fees already posted
+ */
+export function summariseLedger(
+  account: BalanceAccount,
+  entries: BalanceHistory[],
+  deductions: BalanceDeduction[],
+  month: string
+): AmortisationSummary {
+  const own = accountEntries(account, entries).filter((entry) => entry.month <= month);
+  const ahead = summariseAmortisation(
+    { ...account, initial_balance: ledgerBalance(account, own, month), start_month: addMonths(month, 1) },
+    month,
+    deductions
+  );
+  const postedSum = (kind: BalanceHistory['kind']) =>
+    own.filter((entry) => entry.kind === kind).reduce((total, entry) => total + Number(entry.amount), 0);
+
+  return {
+    ...ahead,
+    totalInterest: roundCents(postedSum('interest') + ahead.totalInterest),
+    totalFees: roundCents(postedSum('fee') + ahead.totalFees),
+  };
+}
@@ -0,0 +1,52 @@
+import type { BudgetEntry, BudgetWithExpenses, Expense, OverspendAlert } from '../types/budget';
+
+/** Share of a budget (in percent) that counts as nearly used up */
+export const BUDGET_WARNING_PERCENT = 80;
+
+/**
+ * Work out which budget each of the month's regular expenses counts against:
+ * the oldest budget with the same category and member. An expense never
+ * counts against two budgets, so overlapping budgets don't double its spend.
+ */
+export function matchExpensesToBudgets(budgets: BudgetEntry[], expenses: Expense[]): Record<string, Expense[]> {
+  const oldestFirst = [...budgets].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const matched: Record<string, Expense[]> = {};
+
+  expenses.forEach((expense) => {
+    const budget = oldestFirst.find((b) => b.category === expense.category && b.member === expense.member);
+    if (!budget) return;
+    if (!matched[budget.id]) matched[budget.id] = [];
+    matched[budget.id].push(expense);
+  });
+
+  return matched;
+}
+
+/** Add up a set of budgets and flag it when the spend is close to or over the total */
+function checkGroup(scope: OverspendAlert['scope'], name: string, group: BudgetWithExpenses[]): OverspendAlert | null {
+  const budgeted = group.reduce((sum, b) => sum + Number(b.budget.budget_amount), 0);
+  const spent = group.reduce((sum, b) => sum + b.totalSpent, 0);
+
+  if (spent > budgeted) return { scope, name, budgeted, spent, level: 'over' };
+  if (budgeted > 0 && (spent / budgeted) * 100 >= BUDGET_WARNING_PERCENT) {
+    return { scope, name, budgeted, spent, level: 'warning' };
+  }
+  return null;
+}
+
+/** Categories and members whose budgets are close to or over their limit, worst first */
+export function findOverspending(budgets: BudgetWithExpenses[]): OverspendAlert[] {
+  const groupBy = (key: (b: BudgetWithExpenses) => string) =>
+    budgets.reduce((acc, b) => {
+      if (!acc[key(b)]) acc[key(b)] = [];
+      acc[key(b)].push(b);
+      return acc;
+    }, {} as Record<string, BudgetWithExpenses[]>);
+
+  const alerts = [
+    ...Object.entries(groupBy((b) => b.budget.category)).map(([name, group]) => checkGroup('category', name, group)),
+    ...Object.entries(groupBy((b) => b.budget.member)).map(([name, group]) => checkGroup('member', name, group)),
+  ].filter((alert): alert is OverspendAlert => alert !== null);
+
+  return alerts.sort((a, b) => b.spent / (b.budgeted || 1) - a.spent / (a.budgeted || 1));
+}
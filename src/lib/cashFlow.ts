@@ -0,0 +1,132 @@
+import { addMonths, buildAmortisationSchedule } from './amortisation';
+import { ledgerBalance } from './balanceLedger';
+import { calculateHouseholdSummary } from './summary';
+import type { SummaryIncome, SummaryTax } from './summary';
+import type {
+  BalanceAccount,
+  BalanceDeduction,
+  BalanceHistory,
+  CashFlowForecast,
+  CashFlowMonth,
+  Expense,
+  FamilyMember,
+  RecurringSchedule,
+  ScheduledAmount,
+  SplitRulesFormData,
+} from '../types/budget';
+
+/** How many months the forecast looks ahead */
+export const FORECAST_MONTHS = 12;
+
+/** The base month's entries the forecast repeats */
+export interface ForecastBase {
+  incomes: SummaryIncome[];
+  taxes: SummaryTax[];
+  expenses: Pick<Expense, 'member' | 'amount' | 'is_shared' | 'include_vat' | 'is_recurring' | 'schedule_id' | 'balance_account_id'>[];
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/** First and last month forecast after a base month */
+export function getForecastRange(baseMonth: string): { from: string; to: string } {
+  return { from: addMonths(baseMonth, 1), to: addMonths(baseMonth, FORECAST_MONTHS) };
+}
+
+/**
+ * Each month's balance account payments from `from` to `to`, going on from
+ * every account's ledger balance and following its deduction changes. An
+ * account's payments stop once it is paid off, and the month of its last
+ * payment lists it as paid off.
+ */
+function forecastDebtPayments(
+  accounts: BalanceAccount[],
+  entries: BalanceHistory[],
+  deductions: BalanceDeduction[],
+  from: string,
+  to: string
+): { payments: Record<string, number>; paidOff: Record<string, string[]> } {
+  const payments: Record<string, number> = {};
+  const paidOff: Record<string, string[]> = {};
+
+  accounts.forEach((account) => {
+    const start = account.start_month > from ? account.start_month : from;
+    const rows = buildAmortisationSchedule(
+      { ...account, initial_balance: ledgerBalance(account, entries, addMonths(start, -1)), start_month: start },
+      { until: to, deductions }
+    );
+    rows.forEach((row) => {
+      payments[row.month] = roundCents((payments[row.month] ?? 0) + row.payment);
+      if (row.payment > 0 && row.closingBalance <= 0) {
+        paidOff[row.month] = [...(paidOff[row.month] ?? []), account.name];
+      }
+    });
+  });
+  return { payments, paidOff };
+}
+
+/**
+ * Project the months after the base month: its incomes and taxes and its
+ * recurring expenses repeat every month, recurring schedules add what they
+ * fall due for, and balance accounts take their scheduled payments until they
+ * are paid off. Expenses linked to a balance account - recurring or from a
+ * schedule - are left out, since the account's own payments stand in for
+ * them. Discretionary spending isn't forecast.
+ */
+export function buildCashFlowForecast(
+  baseMonth: string,
+  members: FamilyMember[],
+  splitRules: SplitRulesFormData,
+  base: ForecastBase,
+  schedules: RecurringSchedule[],
+  scheduled: ScheduledAmount[],
+  accounts: BalanceAccount[],
+  entries: BalanceHistory[],
+  deductions: BalanceDeduction[]
+): CashFlowForecast {
+  const { from, to } = getForecastRange(baseMonth);
+  const debts = forecastDebtPayments(accounts, entries, deductions, from, to);
+  const recurring = base.expenses.filter((e) => e.is_recurring && !e.schedule_id && !e.balance_account_id);
+
+  let runningBalance = 0;
+  const months = Array.from({ length: FORECAST_MONTHS }, (_, i): CashFlowMonth => {
+    const month = addMonths(from, i);
+    const scheduledExpenses = scheduled
+      .filter((due) => due.month === month)
+      .flatMap((due) => {
+        const schedule = schedules.find((s) => s.id === due.schedule_id);
+        return schedule && !schedule.balance_account_id
+          ? [{ member: schedule.member, amount: Number(due.amount), is_shared: schedule.is_shared, include_vat: schedule.include_vat, month }]
+          : [];
+      });
+
+    const summary = calculateHouseholdSummary(
+      members,
+      splitRules,
+      base.incomes,
+      base.taxes,
+      [...recurring.map((e) => ({ ...e, month })), ...scheduledExpenses],
+      []
+    );
+    const debtRepayments = debts.payments[month] ?? 0;
+    const remainingBalance = summary.remainingBalance - debtRepayments;
+    runningBalance += remainingBalance;
+
+    return {
+      month,
+      summary,
+      debtRepayments,
+      remainingBalance,
+      runningBalance,
+      paidOff: debts.paidOff[month] ?? [],
+      isShortfall: remainingBalance < 0,
+    };
+  });
+
+  return {
+    baseMonth,
+    months,
+    firstShortfall: months.find((m) => m.isShortfall)?.month ?? null,
+  };
+}
@@ -0,0 +1,124 @@
+import type {
+  CategorisationRule,
+  ExpenseCategory,
+  Expense,
+  RuleMatchType,
+  RuleProposal,
+} from '../types/budget';
+
+/** Expenses needed before a merchant gets a proposed rule */
+const MIN_LEARN_MATCHES = 2;
+
+/** Share of a merchant's expenses that must agree on a category to propose a rule */
+const MIN_LEARN_AGREEMENT = 0.75;
+
+/** Turn a wildcard pattern ("WOOLWORTHS*", "UBER ?TRIP") into an anchored regex */
+function wildcardToRegExp(pattern: string): RegExp {
+  const escaped = pattern.trim().replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i');
+}
+
+/** Check a pattern against a description; an invalid regex never matches */
+export function patternMatches(pattern: string, matchType: RuleMatchType, description: string): boolean {
+  const text = description.trim();
+  if (!pattern.trim() || !text) return false;
+
+  switch (matchType) {
+    case 'contains':
+      return text.toLowerCase().includes(pattern.trim().toLowerCase());
+    case 'wildcard':
+      return wildcardToRegExp(pattern).test(text);
+    case 'regex':
+      try {
+        return new RegExp(pattern, 'i').test(text);
+      } catch {
+        return false;
+      }
+  }
+}
+
+/** Check whether a rule applies to an expense description and amount */
+export function ruleMatches(rule: CategorisationRule, description: string, amount: number): boolean {
+  if (!patternMatches(rule.pattern, rule.match_type, description)) return false;
+
+  const hasRange = rule.min_amount !== null || rule.max_amount !== null;
+  if (!hasRange) return true;
+  if (!Number.isFinite(amount) || amount <= 0) return false;
+  if (rule.min_amount !== null && amount < Number(rule.min_amount)) return false;
+  if (rule.max_amount !== null && amount > Number(rule.max_amount)) return false;
+  return true;
+}
+
+/** Find the first rule (by priority) that applies to an expense */
+export function findMatchingRule(
+  rules: CategorisationRule[],
+  description: string,
+  amount: number
+): CategorisationRule | null {
+  const ordered = [...rules].sort((a, b) => a.priority - b.priority);
+  return ordered.find((rule) => ruleMatches(rule, description, amount)) ?? null;
+}
+
+/** Merchant key for grouping descriptions, e.g. "WOOLWORTHS SANDTON 0412" → "WOOLWORTHS" */
+function merchantKey(description: string): string {
+  const words = description
+    .toUpperCase()
+    .replace(/[^A-Z&' ]+/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  if (words.length === 0) return '';
+  // Short first words ("PNP", "MR") aren't distinctive on their own
+  return words[0].length >= 4 || words.length === 1 ? words[0] : `${words[0]} ${words[1]}`;
+}
+
+/** The value shared by every item, or null when they differ */
+function unanimous<T>(values: T[]): T | null {
+  return values.every((v) => v === values[0]) ? values[0] ?? null : null;
+}
+
+/**
+ * Propose rules from how existing expenses were filed. Expenses are grouped by
+ * merchant; a merchant whose expenses mostly share a category gets a wildcard
+ * rule, unless an existing rule already files it that way.
+ */
+export function learnRulesFromExpenses(expenses: Expense[], rules: CategorisationRule[]): RuleProposal[] {
+  const groups = new Map<string, Expense[]>();
+  expenses.forEach((expense) => {
+    const key = merchantKey(expense.description);
+    if (key) groups.set(key, [...(groups.get(key) ?? []), expense]);
+  });
+
+  const proposals: RuleProposal[] = [];
+  groups.forEach((group, key) => {
+    if (group.length < MIN_LEARN_MATCHES) return;
+
+    const counts = new Map<ExpenseCategory, number>();
+    group.forEach((e) => counts.set(e.category, (counts.get(e.category) ?? 0) + 1));
+    const [category, count] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+    const agreement = count / group.length;
+    if (agreement < MIN_LEARN_AGREEMENT) return;
+
+    // Most recent expense decides whether existing rules already cover this merchant
+    const latest = [...group].sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+    if (findMatchingRule(rules, latest.description, Number(latest.amount))?.category === category) return;
+
+    const agreeing = group.filter((e) => e.category === category);
+    proposals.push({
+      rule: {
+        pattern: `${key}*`,
+        match_type: 'wildcard',
+        min_amount: null,
+        max_amount: null,
+        category,
+        member: unanimous(agreeing.map((e) => e.member)),
+        is_shared: unanimous(agreeing.map((e) => Boolean(e.is_shared))),
+        balance_account_id: unanimous(agreeing.map((e) => e.balance_account_id ?? null)),
+      },
+      matchCount: group.length,
+      agreement,
+    });
+  });
+
+  return proposals.sort((a, b) => b.matchCount - a.matchCount);
+}
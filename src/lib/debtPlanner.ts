@@ -0,0 +1,125 @@
+import { addMonths, monthInterest, scheduledDeduction } from './amortisation';
+import type { BalanceAccount, BalanceDeduction, DebtPlan, DebtStrategy } from '../types/budget';
+
+/** An account and what it owes going into the plan */
+export interface Debt {
+  account: BalanceAccount;
+  balance: number;
+}
+
+/** Plans stop here (50 years), like amortisation schedules */
+const MAX_MONTHS = 600;
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Order extra payments go in: snowball pays the smallest balance off first,
+ * avalanche the highest interest rate (the smaller balance on a tie)
+ */
+export function strategyOrder(strategy: Exclude<DebtStrategy, 'custom'>, debts: Debt[]): string[] {
+  return [...debts]
+    .sort((a, b) =>
+      strategy === 'avalanche'
+        ? Number(b.account.annual_rate) - Number(a.account.annual_rate) || a.balance - b.balance
+        : a.balance - b.balance || Number(b.account.annual_rate) - Number(a.account.annual_rate)
+    )
+    .map((debt) => debt.account.id);
+}
+
+/**
+ * Simulate paying the debts month by month from the start month. Every
+ * account gets its deduction; under a strategy the extra budget, plus the
+ * deductions of accounts already paid off, go to the first account in the
+ * order that still owes. Strategies start from the deductions in force
+ * before the start month, since adopting one replaces any later changes;
+ * "current" follows every account's deductions as they are. Months an
+ * account's payment differs from the deduction in force become the plan's
+ * deduction changes.
+ */
+export function simulateDebtPlan(
+  strategy: DebtStrategy | 'current',
+  debts: Debt[],
+  deductions: BalanceDeduction[],
+  startMonth: string,
+  extraBudget: number,
+  order: string[]
+): DebtPlan {
+  const minimums = strategy === 'current' ? deductions : deductions.filter((d) => d.from_month < startMonth);
+  const active = debts.filter((debt) => debt.balance > 0);
+  const balances: Record<string, number> = Object.fromEntries(active.map((d) => [d.account.id, d.balance]));
+  const interest: Record<string, number> = Object.fromEntries(active.map((d) => [d.account.id, 0]));
+  const payoffMonths: Record<string, string> = {};
+  // The deduction each account's payments currently follow, to spot changes
+  const inForce: Record<string, number> = {};
+  const planDeductions: DebtPlan['deductions'] = [];
+  const ordered = [
+    ...order.filter((id) => id in balances),
+    ...active.map((d) => d.account.id).filter((id) => !order.includes(id)),
+  ];
+
+  let month = startMonth;
+  for (let i = 0; i < MAX_MONTHS && active.some((d) => balances[d.account.id] > 0); i++) {
+    month = addMonths(startMonth, i);
+    const due: Record<string, number> = {};
+    const paid: Record<string, number> = {};
+    let pool = strategy === 'current' ? 0 : extraBudget;
+
+    active.forEach(({ account }) => {
+      const deduction = scheduledDeduction(account, minimums, month);
+      if (balances[account.id] <= 0) {
+        // A paid-off account's deduction rolls on to the next debt
+        if (strategy !== 'current') pool += deduction;
+        return;
+      }
+      const monthInterestAmount = monthInterest(account, balances[account.id], month);
+      interest[account.id] += monthInterestAmount;
+      due[account.id] = roundCents(balances[account.id] + monthInterestAmount + Number(account.monthly_fee ?? 0));
+      paid[account.id] = Math.min(deduction, due[account.id]);
+      if (strategy !== 'current') pool += deduction - paid[account.id];
+    });
+
+    ordered.forEach((id) => {
+      if (!(id in due) || pool <= 0) return;
+      const top = Math.min(pool, due[id] - paid[id]);
+      paid[id] += top;
+      pool -= top;
+    });
+
+    active.forEach(({ account }) => {
+      const id = account.id;
+      if (!(id in due)) return;
+      const payment = roundCents(paid[id]);
+      balances[id] = roundCents(due[id] - payment);
+      if (balances[id] <= 0) payoffMonths[id] = month;
+
+      // Record a change when the payment moves off the deduction in force - the
+      // final payment only needs one when it is more than the deduction clears
+      const current = inForce[id] ?? scheduledDeduction(account, minimums, month);
+      const changed = balances[id] > 0 ? payment !== current : payment > current;
+      if (strategy !== 'current' && changed) {
+        planDeductions.push({ account_id: id, from_month: month, monthly_deduction: payment });
+        inForce[id] = payment;
+      }
+    });
+  }
+
+  const paysOff = active.every((d) => balances[d.account.id] <= 0);
+  return {
+    strategy,
+    order: ordered,
+    startMonth,
+    paysOff,
+    debtFreeMonth: paysOff && active.length > 0 ? month : null,
+    totalInterest: roundCents(Object.values(interest).reduce((sum, amount) => sum + amount, 0)),
+    accounts: active.map(({ account, balance }) => ({
+      accountId: account.id,
+      name: account.name,
+      startingBalance: balance,
+      payoffMonth: payoffMonths[account.id] ?? null,
+      interest: roundCents(interest[account.id]),
+    })),
+    deductions: planDeductions,
+  };
+}
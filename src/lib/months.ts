@@ -0,0 +1,31 @@
+import { addMonths } from './amortisation';
+import type { MonthOption, MonthRange } from '../types/budget';
+
+/**
+ * Months that can be picked: from the earliest month with data (or this month,
+ * when nothing is older) up to `planningMonths` months after this one
+ */
+export function getMonthRange(earliestMonth: string | null, currentMonth: string, planningMonths: number): MonthRange {
+  return {
+    firstMonth: earliestMonth && earliestMonth < currentMonth ? earliestMonth : currentMonth,
+    lastMonth: addMonths(currentMonth, Math.max(0, planningMonths)),
+  };
+}
+
+/** Every month of a range, oldest first */
+export function getMonthOptions({ firstMonth, lastMonth }: MonthRange): MonthOption[] {
+  const options: MonthOption[] = [];
+  for (let month = firstMonth; month <= lastMonth; month = addMonths(month, 1)) {
+    const [year, monthNum] = month.split('-').map(Number);
+    const label = new Date(year, monthNum - 1, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+    options.push({ value: month, label });
+  }
+  return options;
+}
+
+/** Move a month into a range, e.g. after picking a year the month doesn't exist in yet */
+export function clampMonth(month: string, { firstMonth, lastMonth }: MonthRange): string {
+  if (month < firstMonth) return firstMonth;
+  if (month > lastMonth) return lastMonth;
+  return month;
+}
@@ -0,0 +1,72 @@
+import { addMonths } from './amortisation';
+import { ledgerBalance } from './balanceLedger';
+import type { AssetAccount, AssetValuation, BalanceAccount, BalanceHistory, NetWorthSnapshot } from '../types/budget';
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/** An asset's latest valuation up to the end of a month; null before its first one */
+export function latestValuation(account: AssetAccount, valuations: AssetValuation[], month: string): AssetValuation | null {
+  return (
+    valuations
+      .filter((v) => v.account_id === account.id && v.month <= month)
+      .sort((a, b) => b.month.localeCompare(a.month))[0] ?? null
+  );
+}
+
+/** First month of a balance account: its start month, or an earlier ledger entry */
+function firstBalanceMonth(account: BalanceAccount, entries: BalanceHistory[]): string {
+  return entries
+    .filter((entry) => entry.account_id === account.id)
+    .reduce((first, entry) => (entry.month < first ? entry.month : first), account.start_month);
+}
+
+/** What a balance account still owes at the end of a month; nothing before its first month */
+export function outstandingBalance(account: BalanceAccount, entries: BalanceHistory[], month: string): number {
+  return month < firstBalanceMonth(account, entries) ? 0 : ledgerBalance(account, entries, month);
+}
+
+/** Assets, liabilities and net worth at the end of a month */
+function snapshotMonth(
+  month: string,
+  assets: AssetAccount[],
+  valuations: AssetValuation[],
+  accounts: BalanceAccount[],
+  entries: BalanceHistory[]
+): Omit<NetWorthSnapshot, 'change'> {
+  const assetTotal = roundCents(
+    assets.reduce((sum, asset) => sum + Number(latestValuation(asset, valuations, month)?.value ?? 0), 0)
+  );
+  const liabilities = roundCents(
+    accounts.reduce((sum, account) => sum + outstandingBalance(account, entries, month), 0)
+  );
+  return { month, assets: assetTotal, liabilities, netWorth: roundCents(assetTotal - liabilities) };
+}
+
+/**
+ * Month-end net worth from the first month with a valuation or a balance
+ * account up to `until`, oldest first. An asset keeps its latest value until
+ * it is valued again, and each balance account counts at its ledger balance.
+ */
+export function buildNetWorthHistory(
+  assets: AssetAccount[],
+  valuations: AssetValuation[],
+  accounts: BalanceAccount[],
+  entries: BalanceHistory[],
+  until: string
+): NetWorthSnapshot[] {
+  const firstMonths = [
+    ...valuations.filter((v) => assets.some((asset) => asset.id === v.account_id)).map((v) => v.month),
+    ...accounts.map((account) => firstBalanceMonth(account, entries)),
+  ];
+  if (firstMonths.length === 0) return [];
+
+  const snapshots: NetWorthSnapshot[] = [];
+  for (let month = firstMonths.reduce((a, b) => (b < a ? b : a)); month <= until; month = addMonths(month, 1)) {
+    const snapshot = snapshotMonth(month, assets, valuations, accounts, entries);
+    const previous = snapshots[snapshots.length - 1];
+    snapshots.push({ ...snapshot, change: previous ? roundCents(snapshot.netWorth - previous.netWorth) : null });
+  }
+  return snapshots;
+}
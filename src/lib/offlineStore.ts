@@ -0,0 +1,178 @@
+import type { Household, HouseholdMember, OfflineTable, QueuedMutation } from '../types/budget';
+
+const DB_NAME = 'fambudget-offline';
+const DB_VERSION = 2;
+
+/** Last rows fetched from Supabase, keyed by household, table and month */
+const MONTHS_STORE = 'months';
+
+/** Changes waiting to be replayed, in the order they were made */
+const MUTATIONS_STORE = 'mutations';
+
+/** Households and members last fetched from Supabase, so the app can open without a connection */
+const HOUSEHOLD_STORE = 'household';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(MONTHS_STORE);
+          db.createObjectStore(MUTATIONS_STORE, { keyPath: 'id', autoIncrement: true })
+            .createIndex('household_id', 'household_id');
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(HOUSEHOLD_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+const monthKey = (householdId: string, table: OfflineTable, month: string) => `${householdId}:${table}:${month}`;
+
+/** Rows of a month as last fetched from Supabase, or null if never fetched on this device */
+export async function readCachedMonth<T>(householdId: string, table: OfflineTable, month: string): Promise<T[] | null> {
+  const db = await openDatabase();
+  const rows = await requestResult(
+    db.transaction(MONTHS_STORE).objectStore(MONTHS_STORE).get(monthKey(householdId, table, month))
+  );
+  return (rows as T[] | undefined) ?? null;
+}
+
+/** Remember the rows of a month for the next offline visit */
+export async function writeCachedMonth<T>(householdId: string, table: OfflineTable, month: string, rows: T[]): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(MONTHS_STORE, 'readwrite');
+  tx.objectStore(MONTHS_STORE).put(rows, monthKey(householdId, table, month));
+  await transactionDone(tx);
+}
+
+/** The user's households as last fetched, or null if never fetched on this device */
+export async function readCachedHouseholds(userId: string): Promise<Household[] | null> {
+  const db = await openDatabase();
+  const households = await requestResult(
+    db.transaction(HOUSEHOLD_STORE).objectStore(HOUSEHOLD_STORE).get(`households:${userId}`)
+  );
+  return (households as Household[] | undefined) ?? null;
+}
+
+export async function writeCachedHouseholds(userId: string, households: Household[]): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(HOUSEHOLD_STORE, 'readwrite');
+  tx.objectStore(HOUSEHOLD_STORE).put(households, `households:${userId}`);
+  await transactionDone(tx);
+}
+
+/** A household's members as last fetched, or null if never fetched on this device */
+export async function readCachedMembers(householdId: string): Promise<HouseholdMember[] | null> {
+  const db = await openDatabase();
+  const members = await requestResult(
+    db.transaction(HOUSEHOLD_STORE).objectStore(HOUSEHOLD_STORE).get(`members:${householdId}`)
+  );
+  return (members as HouseholdMember[] | undefined) ?? null;
+}
+
+export async function writeCachedMembers(householdId: string, members: HouseholdMember[]): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(HOUSEHOLD_STORE, 'readwrite');
+  tx.objectStore(HOUSEHOLD_STORE).put(members, `members:${householdId}`);
+  await transactionDone(tx);
+}
+
+/** Pending changes of a household, oldest first */
+export async function listMutations(householdId: string): Promise<QueuedMutation[]> {
+  const db = await openDatabase();
+  const mutations = await requestResult(
+    db.transaction(MUTATIONS_STORE).objectStore(MUTATIONS_STORE).index('household_id').getAll(householdId)
+  );
+  return (mutations as QueuedMutation[]).sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+/**
+ * Add changes to the queue. Each row keeps at most one pending change: an edit
+ * of a row that isn't synced yet is folded into its insert or earlier edit, and
+ * deleting an unsynced insert simply drops it. A change that is being sent is
+ * left alone - the new one is queued behind it, as removing the sent change
+ * afterwards would lose anything folded into it.
+ */
+export async function queueMutations(mutations: QueuedMutation[]): Promise<void> {
+  if (mutations.length === 0) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction(MUTATIONS_STORE, 'readwrite');
+  const store = tx.objectStore(MUTATIONS_STORE);
+  const existing = (await requestResult(store.index('household_id').getAll(mutations[0].household_id))) as QueuedMutation[];
+
+  mutations.forEach((mutation) => {
+    const pending = existing.find(
+      (m) => m.table === mutation.table && m.row_id === mutation.row_id && !m.conflict && !m.in_flight
+    );
+
+    if (!pending || mutation.op === 'insert') {
+      store.add(mutation);
+    } else if (mutation.op === 'update') {
+      store.put({ ...pending, data: { ...pending.data, ...mutation.data }, queued_at: mutation.queued_at });
+    } else if (pending.op === 'insert') {
+      store.delete(pending.id as number);
+    } else {
+      store.put({ ...pending, op: 'delete', data: {}, queued_at: mutation.queued_at });
+    }
+  });
+
+  await transactionDone(tx);
+}
+
+/**
+ * Mark a queued change as being sent and return it as stored, or null if it
+ * was dropped in the meantime. Done in one transaction so a change folded in
+ * since the queue was listed is sent along.
+ */
+export async function claimMutation(id: number): Promise<QueuedMutation | null> {
+  const db = await openDatabase();
+  const tx = db.transaction(MUTATIONS_STORE, 'readwrite');
+  const store = tx.objectStore(MUTATIONS_STORE);
+  const mutation = (await requestResult(store.get(id))) as QueuedMutation | undefined;
+  if (mutation) store.put({ ...mutation, in_flight: true });
+  await transactionDone(tx);
+  return mutation ?? null;
+}
+
+export async function updateMutation(mutation: QueuedMutation): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(MUTATIONS_STORE, 'readwrite');
+  tx.objectStore(MUTATIONS_STORE).put(mutation);
+  await transactionDone(tx);
+}
+
+export async function removeMutation(id: number): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(MUTATIONS_STORE, 'readwrite');
+  tx.objectStore(MUTATIONS_STORE).delete(id);
+  await transactionDone(tx);
+}
@@ -0,0 +1,167 @@
+import { supabase } from './supabase';
+import { claimMutation, listMutations, removeMutation, updateMutation } from './offlineStore';
+import type { OfflineTable, QueuedMutation } from '../types/budget';
+
+type ReplayOutcome =
+  | { status: 'synced' }
+  | { status: 'conflict'; reason: string }
+  | { status: 'offline' };
+
+/** Rows of the offline tables all carry these columns */
+interface SyncedRow {
+  id: string;
+  month: string;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+/**
+ * True when a Supabase call failed because the server couldn't be reached.
+ * Fetch failures come back without the Postgres error code a rejected query has.
+ */
+export function isNetworkError(error: { code?: string; message?: string } | null): boolean {
+  if (!error) return false;
+  return !navigator.onLine || !error.code || (error.message ?? '').includes('Failed to fetch');
+}
+
+function outcome(error: { code?: string; message: string } | null): ReplayOutcome {
+  if (!error) return { status: 'synced' };
+  if (isNetworkError(error)) return { status: 'offline' };
+  return { status: 'conflict', reason: error.message };
+}
+
+/** The full row an insert (or a re-created row) is written as */
+function rowFor(mutation: QueuedMutation) {
+  return { ...mutation.data, id: mutation.row_id, household_id: mutation.household_id, month: mutation.month };
+}
+
+/**
+ * Send one queued change to Supabase. Edits and deletes are only applied when
+ * the server row still has the updated_at the change was made against;
+ * `force` skips that check to keep this device's version.
+ */
+async function replayMutation(mutation: QueuedMutation, force = false): Promise<ReplayOutcome> {
+  const table = mutation.table;
+
+  // Inserts carry their own ID, so replaying one twice is harmless
+  if (mutation.op === 'insert') {
+    const { error } = await supabase.from(table).upsert(rowFor(mutation), { ignoreDuplicates: true });
+    // 23505 on a scheduled expense: a rollover or another device already added the schedule's expense for the month
+    if (error?.code === '23505' && mutation.data.schedule_id) return { status: 'synced' };
+    return outcome(error);
+  }
+
+  const { data: current, error: fetchError } = await supabase
+    .from(table)
+    .select('updated_at')
+    .eq('id', mutation.row_id)
+    .maybeSingle();
+
+  if (fetchError) return outcome(fetchError);
+
+  const changedElsewhere = !force
+    && mutation.base_updated_at !== null
+    && current?.updated_at != null
+    && current.updated_at !== mutation.base_updated_at;
+
+  if (mutation.op === 'delete') {
+    if (!current) return { status: 'synced' };
+    if (changedElsewhere) return { status: 'conflict', reason: 'Changed on another device after you deleted it' };
+
+    const { error } = await supabase.from(table).delete().eq('id', mutation.row_id);
+    return outcome(error);
+  }
+
+  if (!current) {
+    if (!force) return { status: 'conflict', reason: 'Deleted on another device after you edited it' };
+    const { error } = await supabase.from(table).insert(rowFor(mutation));
+    return outcome(error);
+  }
+  if (changedElsewhere) return { status: 'conflict', reason: 'Changed on another device after you edited it' };
+
+  let query = supabase.from(table).update(mutation.data).eq('id', mutation.row_id);
+  // Guards against a change landing between the check above and this update
+  if (!force && current.updated_at != null) query = query.eq('updated_at', current.updated_at);
+
+  const { data: updated, error } = await query.select('id');
+  if (error) return outcome(error);
+  return updated.length > 0
+    ? { status: 'synced' }
+    : { status: 'conflict', reason: 'Changed on another device after you edited it' };
+}
+
+/**
+ * Replay a household's queued changes in order. Stops at the first network
+ * failure; a conflicting change stays queued (and holds back later changes to
+ * the same row) until the user resolves it.
+ */
+export async function syncQueuedMutations(householdId: string): Promise<{ synced: number; offline: boolean }> {
+  const mutations = await listMutations(householdId);
+  const blockedRows = new Set(mutations.filter((m) => m.conflict).map((m) => `${m.table}:${m.row_id}`));
+  let synced = 0;
+
+  for (const listed of mutations) {
+    if (listed.conflict || blockedRows.has(`${listed.table}:${listed.row_id}`)) continue;
+
+    // Changes made while this one is being sent queue up behind it rather than fold into it
+    const mutation = await claimMutation(listed.id as number);
+    if (!mutation) continue;
+
+    const result = await replayMutation(mutation);
+    if (result.status === 'offline') {
+      await updateMutation({ ...mutation, in_flight: false });
+      return { synced, offline: true };
+    }
+
+    if (result.status === 'synced') {
+      await removeMutation(mutation.id as number);
+      synced += 1;
+    } else {
+      await updateMutation({ ...mutation, in_flight: false, conflict: result.reason });
+      blockedRows.add(`${mutation.table}:${mutation.row_id}`);
+    }
+  }
+
+  return { synced, offline: false };
+}
+
+/** Apply a conflicting change anyway, overriding the other device's version */
+export async function forceMutation(mutation: QueuedMutation): Promise<ReplayOutcome> {
+  const result = await replayMutation(mutation, true);
+  if (result.status === 'synced') {
+    await removeMutation(mutation.id as number);
+  } else if (result.status === 'conflict') {
+    await updateMutation({ ...mutation, conflict: result.reason });
+  }
+  return result;
+}
+
+/**
+ * Show queued changes on top of the rows last fetched from Supabase, so
+ * offline edits appear straight away. New rows are listed first, matching
+ * the newest-first order of the fetched lists.
+ */
+export function applyQueuedMutations<T extends SyncedRow>(
+  rows: T[],
+  mutations: QueuedMutation[],
+  table: OfflineTable,
+  month: string
+): T[] {
+  let result = rows;
+
+  mutations
+    .filter((m) => m.table === table && m.month === month)
+    .forEach((mutation) => {
+      if (mutation.op === 'insert') {
+        if (result.some((r) => r.id === mutation.row_id)) return;
+        const row = { ...rowFor(mutation), created_at: mutation.queued_at, updated_at: mutation.queued_at };
+        result = [row as unknown as T, ...result];
+      } else if (mutation.op === 'update') {
+        result = result.map((r) => (r.id === mutation.row_id ? { ...r, ...mutation.data } : r));
+      } else {
+        result = result.filter((r) => r.id !== mutation.row_id);
+      }
+    });
+
+  return result;
+}
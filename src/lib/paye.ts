@@ -0,0 +1,243 @@
+import type { FamilyMember, Income, PayeProposal, TaxProfile } from '../types/budget';
+
+/** Descriptions of the tax rows the calculator fills in */
+export const PAYE_DESCRIPTION = 'PAYE';
+export const UIF_DESCRIPTION = 'UIF';
+
+interface TaxBracket {
+  from: number; // Annual taxable income above this amount is taxed at the rate
+  rate: number;
+}
+
+/** SARS tables for one tax year (1 March to the end of February) */
+interface TaxTable {
+  year: number; // Named after the February the year ends in, e.g. 2026 = Mar 2025 - Feb 2026
+  brackets: TaxBracket[]; // Ascending, the first starting at 0
+  rebates: { primary: number; secondary: number; tertiary: number }; // Annual; secondary from 65, tertiary from 75
+  medicalCredits: { main: number; additional: number }; // Monthly; main applies to the member and their first dependant
+  uif: { rate: number; monthlyCeiling: number }; // Employee's share, on remuneration up to the ceiling
+  retirement: { rate: number; annualCap: number }; // Deductible share of remuneration, and its annual limit
+  interestExemption: { under65: number; from65: number }; // Local interest that isn't taxed, per year
+}
+
+const BRACKETS_2023: TaxBracket[] = [
+  { from: 0, rate: 0.18 },
+  { from: 226000, rate: 0.26 },
+  { from: 353100, rate: 0.31 },
+  { from: 488700, rate: 0.36 },
+  { from: 641400, rate: 0.39 },
+  { from: 817600, rate: 0.41 },
+  { from: 1731600, rate: 0.45 },
+];
+
+const BRACKETS_2024: TaxBracket[] = [
+  { from: 0, rate: 0.18 },
+  { from: 237100, rate: 0.26 },
+  { from: 370500, rate: 0.31 },
+  { from: 512800, rate: 0.36 },
+  { from: 673000, rate: 0.39 },
+  { from: 857900, rate: 0.41 },
+  { from: 1817000, rate: 0.45 },
+];
+
+const UIF = { rate: 0.01, monthlyCeiling: 17712 };
+const RETIREMENT = { rate: 0.275, annualCap: 350000 };
+const INTEREST_EXEMPTION = { under65: 23800, from65: 34500 };
+
+/**
+ * Published tables by tax year, oldest first. Add the new year's tables after
+ * each Budget Speech - months in older years keep using their own.
+ */
+const TAX_TABLES: TaxTable[] = [
+  {
+    year: 2023,
+    brackets: BRACKETS_2023,
+    rebates: { primary: 16425, secondary: 9000, tertiary: 2997 },
+    medicalCredits: { main: 347, additional: 234 },
+    uif: UIF,
+    retirement: RETIREMENT,
+    interestExemption: INTEREST_EXEMPTION,
+  },
+  {
+    year: 2024,
+    brackets: BRACKETS_2024,
+    rebates: { primary: 17235, secondary: 9444, tertiary: 3145 },
+    medicalCredits: { main: 364, additional: 246 },
+    uif: UIF,
+    retirement: RETIREMENT,
+    interestExemption: INTEREST_EXEMPTION,
+  },
+  // 2025 and 2026 kept the 2024 brackets, rebates and credits
+  {
+    year: 2025,
+    brackets: BRACKETS_2024,
+    rebates: { primary: 17235, secondary: 9444, tertiary: 3145 },
+    medicalCredits: { main: 364, additional: 246 },
+    uif: UIF,
+    retirement: RETIREMENT,
+    interestExemption: INTEREST_EXEMPTION,
+  },
+  {
+    year: 2026,
+    brackets: BRACKETS_2024,
+    rebates: { primary: 17235, secondary: 9444, tertiary: 3145 },
+    medicalCredits: { main: 364, additional: 246 },
+    uif: UIF,
+    retirement: RETIREMENT,
+    interestExemption: INTEREST_EXEMPTION,
+  },
+];
+
+/** Tax year a month falls in - March starts the next one */
+export function getTaxYear(month: string): number {
+  const [year, monthNum] = month.split('-').map(Number);
+  return monthNum >= 3 ? year + 1 : year;
+}
+
+/** Tables for a tax year, or the closest year we have when it isn't published yet */
+function getTaxTable(taxYear: number): TaxTable {
+  const earlier = TAX_TABLES.filter((t) => t.year <= taxYear);
+  return earlier.length > 0 ? earlier[earlier.length - 1] : TAX_TABLES[0];
+}
+
+/** Annual tax on taxable income, before rebates */
+function bracketTax(taxable: number, brackets: TaxBracket[]): number {
+  return brackets.reduce((tax, bracket, i) => {
+    const to = brackets[i + 1]?.from ?? Infinity;
+    return tax + Math.max(0, Math.min(taxable, to) - bracket.from) * bracket.rate;
+  }, 0);
+}
+
+/** Age on the last day of the tax year, which is what the rebates go by */
+function ageAtYearEnd(profile: TaxProfile | null, taxYear: number): number {
+  if (!profile?.birth_date) return 0;
+  const [year, month] = profile.birth_date.split('-').map(Number);
+  return taxYear - year - (month > 2 ? 1 : 0);
+}
+
+/** Annual rebates for the member's age */
+function ageRebates(table: TaxTable, age: number): number {
+  return (
+    table.rebates.primary +
+    (age >= 65 ? table.rebates.secondary : 0) +
+    (age >= 75 ? table.rebates.tertiary : 0)
+  );
+}
+
+/** Monthly medical scheme fees tax credits for everyone on the member's medical aid */
+function monthlyMedicalCredits(table: TaxTable, profile: TaxProfile | null): number {
+  const schemeMembers = profile?.medical_scheme_members ?? 0;
+  return (
+    Math.min(schemeMembers, 2) * table.medicalCredits.main +
+    Math.max(0, schemeMembers - 2) * table.medicalCredits.additional
+  );
+}
+
+/** Deductible retirement contributions: capped at a share of remuneration and an annual limit */
+function retirementDeduction(table: TaxTable, contributions: number, remuneration: number): number {
+  return Math.min(contributions, remuneration * table.retirement.rate, table.retirement.annualCap);
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Work out a member's monthly PAYE and UIF the way an employer does: annualise
+ * the month's salary, deduct retirement contributions, tax it with the year's
+ * brackets less the age rebates, then take a twelfth and the medical credits
+ * off. Without a profile the member gets the primary rebate only.
+ */
+export function calculatePaye(
+  member: FamilyMember,
+  month: string,
+  grossSalary: number,
+  profile: TaxProfile | null
+): PayeProposal {
+  const taxYear = getTaxYear(month);
+  const table = getTaxTable(taxYear);
+
+  const annualSalary = grossSalary * 12;
+  const annualRetirement = retirementDeduction(
+    table,
+    Number(profile?.retirement_contribution ?? 0) * 12,
+    annualSalary
+  );
+  const annualTaxableIncome = Math.max(0, annualSalary - annualRetirement);
+
+  const rebates = ageRebates(table, ageAtYearEnd(profile, taxYear));
+  const annualTax = Math.max(0, bracketTax(annualTaxableIncome, table.brackets) - rebates);
+  const medicalCredits = monthlyMedicalCredits(table, profile);
+  const uifContributor = profile?.uif_contributor ?? true;
+
+  return {
+    member,
+    taxYear,
+    tablesYear: table.year,
+    grossSalary,
+    retirementDeduction: roundCents(annualRetirement / 12),
+    annualTaxableIncome: roundCents(annualTaxableIncome),
+    rebates,
+    medicalCredits,
+    paye: roundCents(Math.max(0, annualTax / 12 - medicalCredits)),
+    uif: uifContributor ? roundCents(Math.min(grossSalary, table.uif.monthlyCeiling) * table.uif.rate) : 0,
+  };
+}
+
+/** Result of assessing a whole tax year */
+interface AnnualTaxAssessment {
+  tablesYear: number;
+  interestExemption: number;
+  retirementDeduction: number;
+  taxableIncome: number;
+  tax: number; // After rebates and medical credits
+}
+
+/**
+ * Assess a tax year the way an auto-assessment roughly does: exempt the local
+ * interest allowance for the member's age, deduct retirement contributions
+ * (capped) and other deductions, then apply the brackets, rebates and a year
+ * of medical credits.
+ */
+export function assessTaxYear(
+  taxYear: number,
+  income: { remuneration: number; interest: number; retirementContributions: number; deductions: number },
+  profile: TaxProfile | null
+): AnnualTaxAssessment {
+  const table = getTaxTable(taxYear);
+  const age = ageAtYearEnd(profile, taxYear);
+
+  const interestExemption = age >= 65 ? table.interestExemption.from65 : table.interestExemption.under65;
+  const grossIncome = income.remuneration + Math.max(0, income.interest - interestExemption);
+  const retirement = retirementDeduction(table, income.retirementContributions, grossIncome);
+  const taxableIncome = Math.max(0, grossIncome - retirement - income.deductions);
+
+  const tax = Math.max(
+    0,
+    bracketTax(taxableIncome, table.brackets) - ageRebates(table, age) - monthlyMedicalCredits(table, profile) * 12
+  );
+
+  return {
+    tablesYear: table.year,
+    interestExemption,
+    retirementDeduction: roundCents(retirement),
+    taxableIncome: roundCents(taxableIncome),
+    tax: roundCents(tax),
+  };
+}
+
+/** Propose PAYE and UIF for every member with Salary income in the month */
+export function proposeTaxes(month: string, incomes: Income[], profiles: TaxProfile[]): PayeProposal[] {
+  const salaries = incomes
+    .filter((income) => income.income_type === 'Salary')
+    .reduce((acc, income) => {
+      acc[income.member] = (acc[income.member] || 0) + Number(income.amount);
+      return acc;
+    }, {} as Record<FamilyMember, number>);
+
+  return Object.entries(salaries)
+    .filter(([, salary]) => salary > 0)
+    .map(([member, salary]) =>
+      calculatePaye(member, month, salary, profiles.find((p) => p.member === member) ?? null)
+    );
+}
@@ -0,0 +1,212 @@
+import { parseAmount, parseStatementDate } from './statementImport';
+import type { FinancialStatement, StatementBank, StatementCandidate } from '../types/budget';
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/** How a bank lays out the amount column on its PDF statements */
+interface BankLayout {
+  detect: RegExp; // Matched against the text of the statement
+  unsigned: 'debit' | 'credit' | 'balance'; // What an amount without "-", "Cr" or "Dr" is; 'balance' reads it off the running balance
+}
+
+/**
+ * PDF statement layouts of South African banks. Amounts that carry their own
+ * sign ("-", "Cr", "Dr" or brackets) always win over the layout's default.
+ */
+const BANK_LAYOUTS: Record<StatementBank, BankLayout> = {
+  fnb: { detect: /First National Bank|\bFNB\b/i, unsigned: 'debit' }, // Money in is marked "Cr"
+  standard_bank: { detect: /Standard Bank/i, unsigned: 'credit' }, // Money out ends in "-"
+  absa: { detect: /\bAbsa\b/i, unsigned: 'credit' }, // Money out ends in "-"
+  capitec: { detect: /Capitec/i, unsigned: 'credit' }, // Money out is printed negative
+  nedbank: { detect: /Nedbank/i, unsigned: 'balance' }, // Separate debit and credit columns
+  generic: { detect: /$^/, unsigned: 'balance' },
+};
+
+/** A date at the start of a line: 15 Jan, 15 Jan 2025, 15/01/2025 or 2025-01-15 */
+const LEADING_DATE = /^(\d{4}[/-]\d{1,2}[/-]\d{1,2}|\d{1,2}[\s/.-](?:[A-Za-z]{3,9}|\d{1,2})(?:[\s/.-](?:\d{4}|\d{2}(?!\d)))?)(?=\s|$)/;
+
+/** A whole cell holding an amount: 1 234.56, -1,234.56, (99.00), 150.00-, 500.00Cr */
+const AMOUNT_CELL = /^\(?[-+]?(?:R\s?)?\d{1,3}(?:[ ,.]\d{3})*[.,]\d{2}\)?\s?(?:-|Cr|Dr|CR|DR)?$/;
+
+/** An amount at the end of a cell, after a single space; no space thousands separator, which would be ambiguous */
+const TRAILING_AMOUNT = /\s(\(?[-+]?(?:R)?\d{1,3}(?:[,.]\d{3})*[.,]\d{2}\)?(?:-|Cr|Dr|CR|DR)?)$/;
+
+/** Lines that carry a balance rather than a transaction */
+const BALANCE_LINE = /opening balance|closing balance|balance brought forward|balance carried forward|^balance$/i;
+
+/** A positioned piece of text on a PDF page, as pdf.js reports it */
+interface PdfTextItem {
+  str: string;
+  transform: number[]; // [scaleX, skewY, skewX, scaleY, x, y]
+  width: number;
+  height: number;
+}
+
+/**
+ * Read the text of a PDF as lines, top to bottom on each page. Text further
+ * apart than a character or so is joined with two spaces, so table columns
+ * stay apart. Everything runs in the browser.
+ */
+export async function extractPdfLines(data: ArrayBuffer): Promise<string[]> {
+  // Loaded on first use so the PDF reader only weighs on the people who parse statements
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  const lines: string[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items = (content.items as PdfTextItem[])
+        .filter((item) => 'str' in item && item.str.trim() !== '')
+        .sort((a, b) => b.transform[5] - a.transform[5] || a.transform[4] - b.transform[4]);
+
+      // Items whose baselines are within a couple of points share a line
+      const rows: PdfTextItem[][] = [];
+      items.forEach((item) => {
+        const row = rows.find((r) => Math.abs(r[0].transform[5] - item.transform[5]) <= 2);
+        if (row) row.push(item);
+        else rows.push([item]);
+      });
+
+      rows.forEach((row) => {
+        row.sort((a, b) => a.transform[4] - b.transform[4]);
+        let line = '';
+        row.forEach((item, i) => {
+          if (i > 0) {
+            const previous = row[i - 1];
+            const gap = item.transform[4] - (previous.transform[4] + previous.width);
+            line += gap > Math.max(item.height, 4) ? '  ' : gap > 0.5 ? ' ' : '';
+          }
+          line += item.str.trim();
+        });
+        lines.push(line);
+      });
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return lines;
+}
+
+/** Pick the bank from the statement's text, falling back to the generic layout */
+export function detectStatementBank(lines: string[]): StatementBank {
+  const text = lines.slice(0, 80).join('\n');
+  const bank = (Object.keys(BANK_LAYOUTS) as StatementBank[]).find((b) => BANK_LAYOUTS[b].detect.test(text));
+  return bank ?? 'generic';
+}
+
+/** Parse a statement date; dates without a year take the statement's, or the year before for later months */
+function parseCandidateDate(text: string, statementMonth: string): string | null {
+  const full = parseStatementDate(text, 'DMY');
+  if (full) return full;
+
+  const match = text.match(/^(\d{1,2})[\s/.-]([A-Za-z]{3,9}|\d{1,2})$/);
+  if (!match) return null;
+  const month = /\d/.test(match[2]) ? Number(match[2]) : MONTH_NAMES.indexOf(match[2].slice(0, 3).toLowerCase()) + 1;
+  const day = Number(match[1]);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  const [statementYear, statementMonthNumber] = statementMonth.split('-').map(Number);
+  const year = month > statementMonthNumber ? statementYear - 1 : statementYear;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/** The sign an amount carries itself: "Cr" is money in; "Dr", "-" and brackets are money out */
+function explicitDirection(token: string): 'debit' | 'credit' | null {
+  const text = token.replace(/\s/g, '');
+  if (/cr$/i.test(text)) return 'credit';
+  if (/dr$/i.test(text) || text.endsWith('-') || text.startsWith('-') || /^\(.*\)$/.test(text)) return 'debit';
+  return null;
+}
+
+/** Parse an amount, including the trailing "-" some banks use for money out */
+function parseSignedAmount(token: string): number | null {
+  const text = token.trim();
+  if (!text.endsWith('-')) return parseAmount(text);
+  const amount = parseAmount(text.slice(0, -1));
+  return amount === null ? null : -amount;
+}
+
+/** Split a line into its description cells and the amounts at its end (at most three) */
+function splitAmounts(line: string): { cells: string[]; amounts: string[] } {
+  const cells = line.trim().split(/\s{2,}/);
+  const amounts: string[] = [];
+
+  while (cells.length > 0 && amounts.length < 3) {
+    const last = cells[cells.length - 1];
+    if (AMOUNT_CELL.test(last)) {
+      amounts.unshift(cells.pop() as string);
+      continue;
+    }
+    const trailing = last.match(TRAILING_AMOUNT);
+    if (!trailing || trailing.index === undefined) break;
+    cells[cells.length - 1] = last.slice(0, trailing.index).trim();
+    amounts.unshift(trailing[1]);
+  }
+
+  return { cells: cells.filter((c) => c !== ''), amounts };
+}
+
+/**
+ * Turn the lines of a PDF statement into candidate transactions. A
+ * transaction line starts with a date and ends with its amount, followed by
+ * the running balance when the statement has one. Lines that don't fit -
+ * headings, totals, page footers - are skipped.
+ */
+export function parsePdfStatement(
+  lines: string[],
+  statement: Pick<FinancialStatement, 'id' | 'month'>,
+  bank: StatementBank
+): StatementCandidate[] {
+  const layout = BANK_LAYOUTS[bank];
+  const candidates: StatementCandidate[] = [];
+  let previousBalance: number | null = null;
+
+  lines.forEach((line) => {
+    const { cells, amounts } = splitAmounts(line);
+    if (amounts.length === 0 || cells.length === 0) return;
+
+    // Opening balances and the like give the running balance something to start from
+    if (cells.some((c) => BALANCE_LINE.test(c.replace(LEADING_DATE, '').trim()))) {
+      previousBalance = parseSignedAmount(amounts[amounts.length - 1]);
+      return;
+    }
+
+    const dateMatch = cells[0].match(LEADING_DATE);
+    if (!dateMatch) return;
+    const date = parseCandidateDate(dateMatch[1].replace(/\s+/g, ' '), statement.month);
+    if (!date) return;
+
+    cells[0] = cells[0].slice(dateMatch[0].length).trim();
+    const description = cells.filter((c) => c !== '').join(' ').replace(/\s+/g, ' ').trim();
+    const amountToken = amounts.length > 1 ? amounts[amounts.length - 2] : amounts[0];
+    const amount = parseSignedAmount(amountToken);
+    const balance = amounts.length > 1 ? parseSignedAmount(amounts[amounts.length - 1]) : null;
+    if (!description || amount === null || amount === 0) return;
+
+    const direction = explicitDirection(amountToken);
+    let isDebit: boolean;
+    if (direction) {
+      isDebit = direction === 'debit';
+    } else if (layout.unsigned !== 'balance') {
+      isDebit = layout.unsigned === 'debit';
+    } else if (balance !== null && previousBalance !== null) {
+      isDebit = balance < previousBalance;
+    } else {
+      isDebit = true; // Most statement lines are money out
+    }
+
+    if (balance !== null) previousBalance = balance;
+    candidates.push({
+      statement_id: statement.id,
+      date,
+      description,
+      amount: Math.round(Math.abs(amount) * 100) / 100,
+      is_debit: isDebit,
+    });
+  });
+
+  return candidates;
+}
@@ -0,0 +1,25 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+
+/** A realtime insert, update or delete of one row */
+export type RowChange = RealtimePostgresChangesPayload<Record<string, unknown>>;
+
+/**
+ * Merge a realtime change into a list of rows. Inserted rows go first, matching
+ * the newest-first lists; rows that no longer `belong` (e.g. moved to another
+ * month) are dropped.
+ */
+export function mergeRowChange<T extends { id: string }>(
+  rows: T[],
+  change: RowChange,
+  belongs: (row: T) => boolean
+): T[] {
+  if (change.eventType === 'DELETE') {
+    return rows.filter((r) => r.id !== change.old.id);
+  }
+
+  const row = change.new as unknown as T;
+  if (!belongs(row)) return rows.filter((r) => r.id !== row.id);
+  return rows.some((r) => r.id === row.id)
+    ? rows.map((r) => (r.id === row.id ? row : r))
+    : [row, ...rows];
+}
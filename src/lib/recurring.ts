@@ -0,0 +1,29 @@
+import type { RecurringFrequency, RecurringSchedule } from '../types/budget';
+
+const UNITS: Record<RecurringFrequency, { one: string; many: string }> = {
+  weekly: { one: 'Weekly', many: 'weeks' },
+  monthly: { one: 'Monthly', many: 'months' },
+  quarterly: { one: 'Quarterly', many: 'quarters' },
+  annually: { one: 'Annually', many: 'years' },
+};
+
+/** Short month for schedule summaries, e.g. "Aug 2026" */
+function formatShortMonth(month: string): string {
+  const [year, monthNum] = month.split('-');
+  const date = new Date(parseInt(year), parseInt(monthNum) - 1);
+  return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+}
+
+/** Describe when a schedule falls due, e.g. "Every 2 weeks until Aug 2026" */
+export function describeSchedule(
+  schedule: Pick<RecurringSchedule, 'frequency' | 'interval_count' | 'start_month' | 'end_month' | 'escalation_percent'>
+): string {
+  const unit = UNITS[schedule.frequency];
+  const parts = [
+    schedule.interval_count > 1 ? `Every ${schedule.interval_count} ${unit.many}` : unit.one,
+    `from ${formatShortMonth(schedule.start_month)}`,
+  ];
+  if (schedule.end_month) parts.push(`until ${formatShortMonth(schedule.end_month)}`);
+  if (Number(schedule.escalation_percent) > 0) parts.push(`+${Number(schedule.escalation_percent)}% a year`);
+  return parts.join(' ');
+}
@@ -0,0 +1,64 @@
+import { expenseTotal } from './vat';
+import type { Expense, SavingsGoal, SavingsGoalProgress, SavingsPriority } from '../types/budget';
+
+/** A Savings expense linked to a goal, as far as progress needs it */
+export type SavingsContribution = Pick<Expense, 'id' | 'savings_goal_id' | 'month' | 'amount' | 'include_vat'>;
+
+const PRIORITY_ORDER: Record<SavingsPriority, number> = { high: 0, medium: 1, low: 2 };
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/** Whole months from one YYYY-MM month to another, negative when `to` comes first */
+function monthsBetween(from: string, to: string): number {
+  const [fromYear, fromMonth] = from.split('-').map(Number);
+  const [toYear, toMonth] = to.split('-').map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+}
+
+/** Goals by priority, then the nearest target month first */
+export function sortSavingsGoals(goals: SavingsGoal[]): SavingsGoal[] {
+  return [...goals].sort(
+    (a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.target_month.localeCompare(b.target_month)
+  );
+}
+
+/**
+ * Where a goal stands at the end of a month: its starting amount plus the
+ * Savings expenses linked to it up to the month, what is still needed each
+ * month to reach the target by the target month, and whether it is keeping up
+ * with a steady pace from the month it was set up in
+ */
+export function getSavingsGoalProgress(
+  goal: SavingsGoal,
+  contributions: SavingsContribution[],
+  month: string
+): SavingsGoalProgress {
+  const target = Number(goal.target_amount);
+  const starting = Number(goal.starting_amount);
+  const saved = roundCents(
+    contributions
+      .filter((c) => c.savings_goal_id === goal.id && c.month <= month)
+      .reduce((total, c) => total + expenseTotal(c), starting)
+  );
+  const remaining = roundCents(Math.max(0, target - saved));
+  const monthsLeft = Math.max(0, monthsBetween(month, goal.target_month));
+
+  // A steady pace saves the rest of the target evenly over the months from set-up to the target month
+  const createdMonth = goal.created_at.slice(0, 7);
+  const totalMonths = Math.max(1, monthsBetween(createdMonth, goal.target_month) + 1);
+  const elapsed = Math.min(totalMonths, Math.max(0, monthsBetween(createdMonth, month) + 1));
+  const expected = roundCents(starting + (Math.max(0, target - starting) * elapsed) / totalMonths);
+
+  return {
+    goal,
+    saved,
+    remaining,
+    percent: target > 0 ? Math.min(100, (saved / target) * 100) : 100,
+    monthsLeft,
+    monthlyNeeded: roundCents(monthsLeft > 0 ? remaining / monthsLeft : remaining),
+    expected,
+    status: remaining === 0 ? 'reached' : saved >= expected ? 'on_track' : 'behind',
+  };
+}
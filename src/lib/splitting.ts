@@ -0,0 +1,96 @@
+import type {
+  FamilyMember,
+  Income,
+  MemberSummary,
+  Settlement,
+  SettleUpTransfer,
+  SplitRulesFormData,
+  Tax,
+} from '../types/budget';
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/** Equal weights for every member */
+function equalWeights(members: FamilyMember[]): Record<FamilyMember, number> {
+  return Object.fromEntries(members.map((member) => [member, 1]));
+}
+
+/**
+ * Each member's share of the month's shared expenses, as fractions adding up
+ * to 1. Income splits go by net income (members in the red pay nothing);
+ * a custom split scales the percentages to 100. Either falls back to an equal
+ * split when there is nothing to go by. Without members the result is empty
+ * and shared expenses stay with whoever entered them.
+ */
+export function getSplitShares(
+  rules: SplitRulesFormData,
+  members: FamilyMember[],
+  incomes: Pick<Income, 'member' | 'amount'>[],
+  taxes: Pick<Tax, 'member' | 'amount'>[]
+): Record<FamilyMember, number> {
+  let weights: Record<FamilyMember, number>;
+  if (rules.method === 'income') {
+    weights = Object.fromEntries(members.map((member) => {
+      const income = incomes.filter((i) => i.member === member).reduce((sum, i) => sum + Number(i.amount), 0);
+      const tax = taxes.filter((t) => t.member === member).reduce((sum, t) => sum + Number(t.amount), 0);
+      return [member, Math.max(0, income - tax)];
+    }));
+  } else if (rules.method === 'custom') {
+    weights = Object.fromEntries(members.map((member) => [member, Math.max(0, rules.percents[member] ?? 0)]));
+  } else {
+    weights = equalWeights(members);
+  }
+
+  let total = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) {
+    weights = equalWeights(members);
+    total = members.length;
+  }
+
+  return Object.fromEntries(Object.entries(weights).map(([member, weight]) => [member, weight / total]));
+}
+
+/**
+ * Payments that square up a month: members who paid more than their fair
+ * share of the shared expenses are owed the difference, less anything already
+ * settled. The biggest debts are matched first, so it takes at most one
+ * payment fewer than there are members.
+ */
+export function getSettleUpTransfers(
+  summaries: MemberSummary[],
+  settlements: Settlement[]
+): SettleUpTransfer[] {
+  // Positive = is owed money, negative = owes
+  const balances: Record<FamilyMember, number> = {};
+  summaries.forEach((s) => {
+    balances[s.member] = s.sharedPaid - s.sharedShare;
+  });
+  settlements.forEach((s) => {
+    balances[s.from_member] = (balances[s.from_member] || 0) + Number(s.amount);
+    balances[s.to_member] = (balances[s.to_member] || 0) - Number(s.amount);
+  });
+
+  const owed = Object.entries(balances)
+    .map(([member, balance]) => ({ member, balance: roundCents(balance) }))
+    .filter((entry) => entry.balance > 0)
+    .sort((a, b) => b.balance - a.balance);
+  const owing = Object.entries(balances)
+    .map(([member, balance]) => ({ member, balance: roundCents(-balance) }))
+    .filter((entry) => entry.balance > 0)
+    .sort((a, b) => b.balance - a.balance);
+
+  const transfers: SettleUpTransfer[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < owing.length && j < owed.length) {
+    const amount = roundCents(Math.min(owing[i].balance, owed[j].balance));
+    if (amount > 0) transfers.push({ from: owing[i].member, to: owed[j].member, amount });
+    owing[i].balance = roundCents(owing[i].balance - amount);
+    owed[j].balance = roundCents(owed[j].balance - amount);
+    if (owing[i].balance <= 0) i++;
+    if (owed[j].balance <= 0) j++;
+  }
+  return transfers;
+}
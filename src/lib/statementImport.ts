@@ -0,0 +1,292 @@
+import type {
+  StatementColumnMapping,
+  StatementDateFormat,
+  StatementFormat,
+  StatementTransaction,
+} from '../types/budget';
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Column headings used by South African bank CSV exports
+ * (FNB, Standard Bank, Capitec, ABSA), matched case-insensitively.
+ * The first heading that matches wins, so more specific names come first.
+ */
+const HEADER_HINTS = {
+  date: [/^transaction date$/, /^date$/, /^posting date$/, /^value date$/, /date/],
+  description: [/^description$/, /^transaction description$/, /^details$/, /^narrative$/, /^reference$/, /description/],
+  amount: [/^amount$/, /^transaction amount$/, /amount/],
+  debit: [/^money out$/, /^debit$/, /^debit amount$/, /debit/],
+  credit: [/^money in$/, /^credit$/, /^credit amount$/, /credit/],
+};
+
+/** Pick the statement format from the file name, falling back to sniffing the contents */
+export function detectStatementFormat(fileName: string, text: string): StatementFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'qif') return 'qif';
+  if (/<OFX>|<STMTTRN>/i.test(text)) return 'ofx';
+  if (/^!Type:/im.test(text)) return 'qif';
+  return 'csv';
+}
+
+/** Guess the CSV delimiter from the first few lines */
+export function detectDelimiter(text: string): string {
+  const sample = text.split(/\r?\n/).slice(0, 10).join('\n');
+  const candidates = [',', ';', '\t', '|'];
+  return candidates.reduce((best, candidate) =>
+    sample.split(candidate).length > sample.split(best).length ? candidate : best
+  );
+}
+
+/** Split CSV text into rows of cells, honouring quoted cells with embedded delimiters or quotes */
+export function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      if (row.some((c) => c !== '')) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell.trim());
+  if (row.some((c) => c !== '')) rows.push(row);
+  return rows;
+}
+
+/** Parse a bank amount such as "R 1 234,50", "-1,234.50", "(99.00)" or "150.00 DR" */
+export function parseAmount(value: string): number | null {
+  let text = value.trim().replace(/^R\s*/i, '').replace(/\s/g, '');
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (/DR$/i.test(text)) {
+    negative = true;
+    text = text.slice(0, -2);
+  } else if (/CR$/i.test(text)) {
+    text = text.slice(0, -2);
+  }
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+
+  // "1,234.50" uses a decimal point, "1.234,50" and "1234,5" a decimal comma
+  if (/,\d{1,2}$/.test(text)) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+
+  const amount = Number(text);
+  if (!text || Number.isNaN(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+/** Parse a statement date into YYYY-MM-DD; numeric dates are read in the given order */
+export function parseStatementDate(value: string, format: StatementDateFormat): string | null {
+  const text = value.trim();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const build = (year: number, month: number, day: number) => {
+    if (year < 100) year += 2000;
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    return `${year}-${pad(month)}-${pad(day)}`;
+  };
+
+  // 20250115 (ABSA, Standard Bank, OFX)
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (compact) return build(Number(compact[1]), Number(compact[2]), Number(compact[3]));
+
+  // 15 Jan 2025 / 15-Jan-25 (FNB)
+  const named = text.match(/^(\d{1,2})[\s-]([A-Za-z]{3})[A-Za-z]*[\s-](\d{2,4})$/);
+  if (named) {
+    const month = MONTH_NAMES.indexOf(named[2].toLowerCase()) + 1;
+    return month ? build(Number(named[3]), month, Number(named[1])) : null;
+  }
+
+  // 2025/01/15, 15/01/2025, 1/15'25 (QIF)
+  const rawParts = text.split(/[/\-.\s']+/);
+  const parts = rawParts.map(Number);
+  if (parts.length < 3 || parts.some((p) => Number.isNaN(p))) return null;
+  if (rawParts[0].length === 4) return build(parts[0], parts[1], parts[2]);
+
+  switch (format) {
+    case 'YMD':
+      return build(parts[0], parts[1], parts[2]);
+    case 'MDY':
+      return build(parts[2], parts[0], parts[1]);
+    default:
+      return build(parts[2], parts[1], parts[0]);
+  }
+}
+
+/** Find the heading row and the columns for each field in a freshly parsed CSV */
+export function guessColumnMapping(rows: string[][], delimiter: string): StatementColumnMapping {
+  const findColumn = (headers: string[], hints: RegExp[]): number | null => {
+    for (const hint of hints) {
+      const index = headers.findIndex((h) => hint.test(h));
+      if (index !== -1) return index;
+    }
+    return null;
+  };
+
+  // Some banks (FNB) put account details above the headings
+  const headerRow = rows
+    .slice(0, 15)
+    .findIndex((row) => row.some((c) => /date/i.test(c)) && row.some((c) => /amount|description|money|debit/i.test(c)));
+
+  if (headerRow === -1) {
+    return {
+      delimiter,
+      header_row: null,
+      date_column: 0,
+      description_column: 1,
+      amount_column: 2,
+      debit_column: null,
+      credit_column: null,
+      date_format: 'DMY',
+      invert_amounts: false,
+    };
+  }
+
+  const headers = rows[headerRow].map((h) => h.toLowerCase());
+  const debitColumn = findColumn(headers, HEADER_HINTS.debit);
+  const creditColumn = findColumn(headers, HEADER_HINTS.credit);
+  const amountColumn = findColumn(headers, HEADER_HINTS.amount);
+  // "Debit Amount" / "Credit Amount" headings also match the amount hint
+  const splitColumns = debitColumn !== null && creditColumn !== null
+    && (amountColumn === null || amountColumn === debitColumn || amountColumn === creditColumn);
+
+  return {
+    delimiter,
+    header_row: headerRow,
+    date_column: findColumn(headers, HEADER_HINTS.date) ?? 0,
+    description_column: findColumn(headers, HEADER_HINTS.description) ?? 1,
+    amount_column: splitColumns ? null : amountColumn ?? 2,
+    debit_column: splitColumns ? debitColumn : null,
+    credit_column: splitColumns ? creditColumn : null,
+    date_format: 'DMY',
+    invert_amounts: false,
+  };
+}
+
+/** Turn CSV rows into transactions; rows without a valid date or amount are skipped */
+export function applyColumnMapping(rows: string[][], mapping: StatementColumnMapping): StatementTransaction[] {
+  const dataRows = mapping.header_row === null ? rows : rows.slice(mapping.header_row + 1);
+  const transactions: StatementTransaction[] = [];
+
+  dataRows.forEach((row) => {
+    const date = parseStatementDate(row[mapping.date_column] ?? '', mapping.date_format);
+    let amount: number | null;
+
+    if (mapping.amount_column !== null) {
+      amount = parseAmount(row[mapping.amount_column] ?? '');
+    } else {
+      // Money out columns hold positive numbers, some banks prefix them with "-"
+      const debit = parseAmount(row[mapping.debit_column ?? -1] ?? '');
+      const credit = parseAmount(row[mapping.credit_column ?? -1] ?? '');
+      amount = debit ? -Math.abs(debit) : credit !== null ? Math.abs(credit) : null;
+    }
+
+    if (!date || amount === null) return;
+    transactions.push({
+      date,
+      description: (row[mapping.description_column] ?? '').replace(/\s+/g, ' ').trim(),
+      amount: mapping.invert_amounts ? -amount : amount,
+    });
+  });
+
+  return transactions;
+}
+
+/** Parse an OFX/QFX statement (SGML or XML flavour) */
+export function parseOfx(text: string): StatementTransaction[] {
+  const transactions: StatementTransaction[] = [];
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+  const field = (block: string, tag: string): string => {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    return match ? match[1].trim() : '';
+  };
+
+  blocks.forEach((block) => {
+    const date = parseStatementDate(field(block, 'DTPOSTED'), 'YMD');
+    const amount = parseAmount(field(block, 'TRNAMT'));
+    const name = field(block, 'NAME');
+    const memo = field(block, 'MEMO');
+    if (!date || amount === null) return;
+
+    transactions.push({
+      date,
+      description: [name, memo].filter((part, i, all) => part && all.indexOf(part) === i).join(' - '),
+      amount,
+    });
+  });
+
+  return transactions;
+}
+
+/** Parse a QIF statement; QIF has no standard date order so it is passed in */
+export function parseQif(text: string, dateFormat: StatementDateFormat): StatementTransaction[] {
+  const transactions: StatementTransaction[] = [];
+
+  text.split(/^\^\s*$/m).forEach((record) => {
+    let date: string | null = null;
+    let amount: number | null = null;
+    let payee = '';
+    let memo = '';
+
+    for (const line of record.split(/\r?\n/)) {
+      const value = line.slice(1).trim();
+      switch (line[0]) {
+        case 'D':
+          date = parseStatementDate(value, dateFormat);
+          break;
+        case 'T':
+        case 'U':
+          amount = parseAmount(value);
+          break;
+        case 'P':
+          payee = value;
+          break;
+        case 'M':
+          memo = value;
+          break;
+      }
+    }
+
+    if (!date || amount === null) return;
+    transactions.push({ date, description: payee || memo, amount });
+  });
+
+  return transactions;
+}
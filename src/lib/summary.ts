@@ -0,0 +1,126 @@
+import { getSplitShares } from './splitting';
+import { expenseTotal, expenseVat } from './vat';
+import type {
+  Expense,
+  FamilyMember,
+  HouseholdSummary,
+  Income,
+  MemberSummary,
+  SplitRulesFormData,
+  Tax,
+  UnnecessaryExpense,
+} from '../types/budget';
+
+/** The entry fields a summary is worked out from, so monthly totals can stand in for the entries */
+export type SummaryIncome = Pick<Income, 'member' | 'income_type' | 'amount'>;
+export type SummaryTax = Pick<Tax, 'member' | 'amount'>;
+export type SummaryExpense = Pick<Expense, 'member' | 'amount' | 'is_shared' | 'include_vat' | 'month'>;
+export type SummaryUnnecessaryExpense = Pick<UnnecessaryExpense, 'member' | 'amount'>;
+
+/**
+ * Calculate member summary. Shared expenses count at the member's share of
+ * them all; a null share leaves them with whoever entered them.
+ */
+function calculateMemberSummary(
+  member: FamilyMember,
+  incomes: SummaryIncome[],
+  taxes: SummaryTax[],
+  expenses: SummaryExpense[],
+  unnecessaryExpenses: SummaryUnnecessaryExpense[],
+  share: number | null
+): MemberSummary {
+  const memberIncomes = incomes.filter((i) => i.member === member);
+  const memberTaxes = taxes.filter((t) => t.member === member);
+  const memberExpenses = expenses.filter((e) => e.member === member);
+  const memberUnnecessaryExpenses = unnecessaryExpenses.filter((u) => u.member === member);
+  const sharedExpenses = expenses.filter((e) => e.is_shared);
+
+  // Separate salary income from other income (interest included)
+  const grossIncome = memberIncomes
+    .filter((i) => i.income_type === 'Salary')
+    .reduce((sum, i) => sum + Number(i.amount), 0);
+  const otherIncome = memberIncomes
+    .filter((i) => i.income_type !== 'Salary')
+    .reduce((sum, i) => sum + Number(i.amount), 0);
+  const totalIncome = grossIncome + otherIncome;
+  const totalTaxes = memberTaxes.reduce((sum, t) => sum + Number(t.amount), 0);
+  // Expenses marked +VAT cost their amount plus the VAT of their month
+  const ownExpenses = memberExpenses.filter((e) => !e.is_shared);
+  const sharedPaid = memberExpenses.filter((e) => e.is_shared).reduce((sum, e) => sum + expenseTotal(e), 0);
+  const sharedShare = share === null
+    ? sharedPaid
+    : sharedExpenses.reduce((sum, e) => sum + expenseTotal(e), 0) * share;
+  const sharedVat = share === null
+    ? memberExpenses.filter((e) => e.is_shared).reduce((sum, e) => sum + expenseVat(e), 0)
+    : sharedExpenses.reduce((sum, e) => sum + expenseVat(e), 0) * share;
+  const totalExpenses = ownExpenses.reduce((sum, e) => sum + expenseTotal(e), 0) + sharedShare;
+  const totalVat = ownExpenses.reduce((sum, e) => sum + expenseVat(e), 0) + sharedVat;
+  const totalUnnecessaryExpenses = memberUnnecessaryExpenses.reduce((sum, u) => sum + Number(u.amount), 0);
+  // Net income = Gross Income - Taxes + Other Income
+  const netIncome = grossIncome - totalTaxes + otherIncome;
+  const remainingBalance = netIncome - totalExpenses - totalUnnecessaryExpenses;
+
+  return {
+    member,
+    grossIncome,
+    otherIncome,
+    totalIncome,
+    totalTaxes,
+    netIncome,
+    totalExpenses,
+    totalVat,
+    sharedPaid,
+    sharedShare,
+    totalUnnecessaryExpenses,
+    remainingBalance,
+  };
+}
+
+/** Calculate household summary */
+export function calculateHouseholdSummary(
+  members: FamilyMember[],
+  splitRules: SplitRulesFormData,
+  incomes: SummaryIncome[],
+  taxes: SummaryTax[],
+  expenses: SummaryExpense[],
+  unnecessaryExpenses: SummaryUnnecessaryExpense[]
+): HouseholdSummary {
+  // Include anyone referenced by an entry so totals never silently drop rows
+  const memberNames = new Set<FamilyMember>(members);
+  [...incomes, ...taxes, ...expenses, ...unnecessaryExpenses].forEach((entry) => memberNames.add(entry.member));
+
+  // Shared expenses are divided among the household's members only
+  const shares = getSplitShares(splitRules, members, incomes, taxes);
+  const memberSummaries: Record<FamilyMember, MemberSummary> = {};
+  memberNames.forEach((member) => {
+    const share = members.length > 0 ? shares[member] ?? 0 : null;
+    memberSummaries[member] = calculateMemberSummary(member, incomes, taxes, expenses, unnecessaryExpenses, share);
+  });
+
+  const summaries = Object.values(memberSummaries);
+  const sum = (pick: (s: MemberSummary) => number) => summaries.reduce((total, s) => total + pick(s), 0);
+
+  const grossIncome = sum((s) => s.grossIncome);
+  const otherIncome = sum((s) => s.otherIncome);
+  const totalIncome = sum((s) => s.totalIncome);
+  const totalTaxes = sum((s) => s.totalTaxes);
+  const totalExpenses = sum((s) => s.totalExpenses);
+  const totalVat = sum((s) => s.totalVat);
+  const totalUnnecessaryExpenses = sum((s) => s.totalUnnecessaryExpenses);
+  const netIncome = grossIncome - totalTaxes + otherIncome;
+  const remainingBalance = netIncome - totalExpenses - totalUnnecessaryExpenses;
+
+  return {
+    grossIncome,
+    otherIncome,
+    totalIncome,
+    totalTaxes,
+    netIncome,
+    totalExpenses,
+    totalVat,
+    totalUnnecessaryExpenses,
+    remainingBalance,
+    memberSummaries,
+  };
+}
+
@@ -13,10 +13,28 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
 /** Database table names */
 export const TABLES = {
+  HOUSEHOLDS: 'households',
+  HOUSEHOLD_USERS: 'household_users',
+  HOUSEHOLD_INVITES: 'household_invites',
+  HOUSEHOLD_MEMBERS: 'household_members',
   INCOMES: 'incomes',
   TAXES: 'taxes',
   EXPENSES: 'expenses',
   UNNECESSARY_EXPENSES: 'unnecessary_expenses',
   BALANCE_ACCOUNTS: 'balance_accounts',
   BALANCE_HISTORY: 'balance_history',
+  BALANCE_DEDUCTIONS: 'balance_deductions',
+  IMPORT_PROFILES: 'import_profiles',
+  CATEGORISATION_RULES: 'categorisation_rules',
+  ROLLOVER_RULES: 'rollover_rules',
+  MONTH_ROLLOVERS: 'month_rollovers',
+  RECURRING_SCHEDULES: 'recurring_schedules',
+  TAX_PROFILES: 'tax_profiles',
+  SPLIT_RULES: 'split_rules',
+  SETTLEMENTS: 'settlements',
+  SAVINGS_GOALS: 'savings_goals',
+  ASSET_ACCOUNTS: 'asset_accounts',
+  ASSET_VALUATIONS: 'asset_valuations',
+  EXPENSE_ATTACHMENTS: 'expense_attachments',
+  STORAGE_CLEANUP: 'storage_cleanup',
 } as const;
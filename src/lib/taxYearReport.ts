@@ -0,0 +1,165 @@
+import { assessTaxYear, PAYE_DESCRIPTION } from './paye';
+import { expenseTotal } from './vat';
+import type {
+  Expense,
+  FamilyMember,
+  HouseholdMember,
+  Income,
+  Tax,
+  TaxProfile,
+  TaxYearMonth,
+  TaxYearReport,
+} from '../types/budget';
+
+/** First and last month of a tax year, e.g. 2026 -> 2025-03 to 2026-02 */
+export function getTaxYearRange(taxYear: number): { from: string; to: string } {
+  return { from: `${taxYear - 1}-03`, to: `${taxYear}-02` };
+}
+
+/** Months of a tax year, March to February */
+function getTaxYearMonths(taxYear: number): string[] {
+  return Array.from({ length: 12 }, (_, i) => {
+    const date = new Date(taxYear - 1, 2 + i);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  });
+}
+
+function sumAmounts(rows: { amount: number }[]): number {
+  return rows.reduce((sum, row) => sum + Number(row.amount), 0);
+}
+
+/**
+ * Total each member's incomes, taxes and deductible expenses over a tax year
+ * and estimate what they owe or get back. Members without any rows in the
+ * year are left out.
+ */
+export function buildTaxYearReports(
+  taxYear: number,
+  members: HouseholdMember[],
+  incomes: Income[],
+  taxes: Tax[],
+  expenses: Expense[],
+  profiles: TaxProfile[]
+): TaxYearReport[] {
+  const months = getTaxYearMonths(taxYear);
+
+  const buildReport = (member: FamilyMember): TaxYearReport => {
+    const monthRows: TaxYearMonth[] = months.map((month) => {
+      const monthIncomes = incomes.filter((i) => i.member === member && i.month === month);
+      const monthTaxes = taxes.filter((t) => t.member === member && t.month === month);
+      const paye = monthTaxes.filter((t) => t.description.trim().toUpperCase() === PAYE_DESCRIPTION);
+      return {
+        month,
+        grossSalary: sumAmounts(monthIncomes.filter((i) => i.income_type === 'Salary')),
+        otherIncome: sumAmounts(monthIncomes.filter((i) => i.income_type === 'Other')),
+        interestIncome: sumAmounts(monthIncomes.filter((i) => i.income_type === 'Interest')),
+        payeWithheld: sumAmounts(paye),
+        otherTaxes: sumAmounts(monthTaxes) - sumAmounts(paye),
+        deductibleExpenses: expenses
+          .filter((e) => e.member === member && e.month === month && e.is_tax_deductible)
+          .reduce((sum, e) => sum + expenseTotal(e), 0),
+      };
+    });
+
+    const total = (field: Exclude<keyof TaxYearMonth, 'month'>) =>
+      monthRows.reduce((sum, row) => sum + row[field], 0);
+    const grossSalary = total('grossSalary');
+    const otherIncome = total('otherIncome');
+    const interestIncome = total('interestIncome');
+    const payeWithheld = total('payeWithheld');
+    const deductibleExpenses = total('deductibleExpenses');
+
+    // Contributions come off the salary, so they count for the months a salary was paid
+    const profile = profiles.find((p) => p.member === member) ?? null;
+    const salaryMonths = monthRows.filter((row) => row.grossSalary > 0).length;
+    const assessment = assessTaxYear(
+      taxYear,
+      {
+        remuneration: grossSalary + otherIncome,
+        interest: interestIncome,
+        retirementContributions: Number(profile?.retirement_contribution ?? 0) * salaryMonths,
+        deductions: deductibleExpenses,
+      },
+      profile
+    );
+
+    return {
+      member,
+      taxYear,
+      tablesYear: assessment.tablesYear,
+      months: monthRows,
+      grossSalary,
+      otherIncome,
+      interestIncome,
+      interestExemption: assessment.interestExemption,
+      payeWithheld,
+      otherTaxes: total('otherTaxes'),
+      retirementDeduction: assessment.retirementDeduction,
+      deductibleExpenses,
+      taxableIncome: assessment.taxableIncome,
+      estimatedTax: assessment.tax,
+      balance: Math.round((assessment.tax - payeWithheld) * 100) / 100,
+    };
+  };
+
+  return members
+    .map((m) => buildReport(m.name))
+    .filter((report) => report.months.some((row) =>
+      row.grossSalary || row.otherIncome || row.interestIncome || row.payeWithheld || row.otherTaxes || row.deductibleExpenses
+    ));
+}
+
+/** Quote a CSV field when it contains a separator, quote or line break */
+function csvField(value: string | number): string {
+  const text = typeof value === 'number' ? value.toFixed(2) : value;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** CSV of the reports: a summary row per member, then every member's months */
+export function taxYearReportsToCsv(reports: TaxYearReport[]): string {
+  const lines: (string | number)[][] = [
+    [
+      'Member',
+      'Gross salary',
+      'Other income',
+      'Interest income',
+      'Interest exemption',
+      'PAYE withheld',
+      'Other taxes',
+      'Retirement deduction',
+      'Deductible expenses',
+      'Taxable income',
+      'Estimated tax',
+      'Owing (refund if negative)',
+    ],
+    ...reports.map((r) => [
+      r.member,
+      r.grossSalary,
+      r.otherIncome,
+      r.interestIncome,
+      r.interestExemption,
+      r.payeWithheld,
+      r.otherTaxes,
+      r.retirementDeduction,
+      r.deductibleExpenses,
+      r.taxableIncome,
+      r.estimatedTax,
+      r.balance,
+    ]),
+    [],
+    ['Member', 'Month', 'Gross salary', 'Other income', 'Interest income', 'PAYE withheld', 'Other taxes', 'Deductible expenses'],
+    ...reports.flatMap((r) =>
+      r.months.map((m) => [
+        r.member,
+        m.month,
+        m.grossSalary,
+        m.otherIncome,
+        m.interestIncome,
+        m.payeWithheld,
+        m.otherTaxes,
+        m.deductibleExpenses,
+      ])
+    ),
+  ];
+  return lines.map((line) => line.map(csvField).join(',')).join('\n');
+}
@@ -0,0 +1,60 @@
+import type { Expense, VatBreakdown } from '../types/budget';
+
+interface VatRate {
+  from: string; // Format: YYYY-MM, the first month the rate applies to
+  rate: number;
+}
+
+/**
+ * South African VAT rates by the month they took effect, oldest first. Add a
+ * new rate here once it is enacted - expenses in earlier months keep theirs.
+ */
+const VAT_RATES: VatRate[] = [
+  { from: '1993-04', rate: 0.14 },
+  { from: '2018-04', rate: 0.15 },
+];
+
+/** VAT rate in force in a month */
+export function getVatRate(month: string): number {
+  const current = VAT_RATES.filter((r) => r.from <= month);
+  return current.length > 0 ? current[current.length - 1].rate : VAT_RATES[0].rate;
+}
+
+/** VAT rate as a label, e.g. "15%" */
+export function formatVatRate(month: string): string {
+  return `${Math.round(getVatRate(month) * 1000) / 10}%`;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/** VAT added to an expense - zero unless it is marked +VAT */
+export function expenseVat(expense: Pick<Expense, 'amount' | 'include_vat' | 'month'>): number {
+  return expense.include_vat ? roundCents(Number(expense.amount) * getVatRate(expense.month)) : 0;
+}
+
+/** What an expense actually costs: its amount plus VAT when it is marked +VAT */
+export function expenseTotal(expense: Pick<Expense, 'amount' | 'include_vat' | 'month'>): number {
+  return Number(expense.amount) + expenseVat(expense);
+}
+
+/** Base amount of a VAT-inclusive figure, e.g. R115 in 2025 -> R100 */
+export function baseFromInclusive(total: number, month: string): number {
+  return roundCents(total / (1 + getVatRate(month)));
+}
+
+/** Add up the VAT on expenses by category and member */
+export function getVatBreakdown(expenses: Expense[]): VatBreakdown {
+  return expenses.reduce<VatBreakdown>(
+    (acc, expense) => {
+      const vat = expenseVat(expense);
+      if (vat === 0) return acc;
+      acc.total += vat;
+      acc.byCategory[expense.category] = (acc.byCategory[expense.category] || 0) + vat;
+      acc.byMember[expense.member] = (acc.byMember[expense.member] || 0) + vat;
+      return acc;
+    },
+    { total: 0, byCategory: {}, byMember: {} }
+  );
+}
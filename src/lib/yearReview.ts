@@ -0,0 +1,129 @@
+import { calculateHouseholdSummary } from './summary';
+import { expenseTotal } from './vat';
+import type {
+  CategoryTrend,
+  ExpenseCategory,
+  FamilyMember,
+  IncomeType,
+  MonthlyTotal,
+  MonthlyTotalSource,
+  SplitRulesFormData,
+  YearReview,
+  YearReviewMonth,
+  YearReviewTotals,
+} from '../types/budget';
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/** Saved as a percentage of net income; nothing to measure against without net income */
+function savingsRate(saved: number, netIncome: number): number | null {
+  return netIncome > 0 ? (saved / netIncome) * 100 : null;
+}
+
+/** First and last month of a calendar year */
+export function getReviewYearRange(year: number): { from: string; to: string } {
+  return { from: `${year}-01`, to: `${year}-12` };
+}
+
+/** A month's totals as the entries a summary is worked out from */
+function reviewMonth(
+  month: string,
+  rows: MonthlyTotal[],
+  members: FamilyMember[],
+  splitRules: SplitRulesFormData
+): YearReviewMonth {
+  const of = (source: MonthlyTotalSource) => rows.filter((row) => row.source === source);
+  const expenses = of('expense').map((row) => ({
+    member: row.member ?? '',
+    amount: Number(row.amount),
+    is_shared: Boolean(row.is_shared),
+    include_vat: Boolean(row.include_vat),
+    month,
+  }));
+
+  const summary = calculateHouseholdSummary(
+    members,
+    splitRules,
+    of('income').map((row) => ({ member: row.member ?? '', income_type: row.kind as IncomeType, amount: Number(row.amount) })),
+    of('tax').map((row) => ({ member: row.member ?? '', amount: Number(row.amount) })),
+    expenses,
+    of('unnecessary').map((row) => ({ member: row.member ?? '', amount: Number(row.amount) }))
+  );
+
+  // Money put into Savings expenses was saved, not spent
+  const savingsExpenses = of('expense')
+    .filter((row) => row.category === 'Savings')
+    .reduce((sum, row) => sum + expenseTotal({ amount: row.amount, include_vat: Boolean(row.include_vat), month }), 0);
+  const saved = summary.remainingBalance + savingsExpenses;
+
+  const ledger = (kinds: string[]) =>
+    roundCents(of('balance').filter((row) => kinds.includes(row.kind ?? '')).reduce((sum, row) => sum + Number(row.amount), 0));
+
+  return {
+    month,
+    summary,
+    saved,
+    savingsRate: savingsRate(saved, summary.netIncome),
+    debtPayments: -ledger(['payment']) || 0, // Not -0 in a month without payments
+    debtCharges: ledger(['interest', 'fee']),
+    debtPaidDown: -ledger(['payment', 'interest', 'fee', 'adjustment', 'top_up']) || 0,
+  };
+}
+
+/**
+ * Summaries, savings and debt for every month of a year, with each expense
+ * category's monthly totals and their change on the month before. Shared
+ * expenses are split by the household's current members and split rules.
+ */
+export function buildYearReview(
+  year: number,
+  totals: MonthlyTotal[],
+  members: FamilyMember[],
+  splitRules: SplitRulesFormData
+): YearReview {
+  const months = Array.from({ length: 12 }, (_, i) => `${year}-${String(i + 1).padStart(2, '0')}`);
+  const reviewMonths = months.map((month) =>
+    reviewMonth(month, totals.filter((row) => row.month === month), members, splitRules)
+  );
+
+  const categories = [...new Set(totals.filter((row) => row.source === 'expense').map((row) => row.category))]
+    .filter((category): category is ExpenseCategory => category !== null)
+    .map((category): CategoryTrend => {
+      const amounts = months.map((month) =>
+        totals
+          .filter((row) => row.source === 'expense' && row.category === category && row.month === month)
+          .reduce((sum, row) => sum + expenseTotal({ amount: row.amount, include_vat: Boolean(row.include_vat), month }), 0)
+      );
+      return {
+        category,
+        amounts,
+        changes: amounts.map((amount, i) => (i === 0 ? null : amount - amounts[i - 1])),
+        total: amounts.reduce((sum, amount) => sum + amount, 0),
+      };
+    })
+    .sort((a, b) => b.total - a.total);
+
+  const sum = (pick: (m: YearReviewMonth) => number) => reviewMonths.reduce((total, m) => total + pick(m), 0);
+  const netIncome = sum((m) => m.summary.netIncome);
+  const saved = sum((m) => m.saved);
+  const yearTotals: YearReviewTotals = {
+    grossIncome: sum((m) => m.summary.grossIncome),
+    otherIncome: sum((m) => m.summary.otherIncome),
+    totalIncome: sum((m) => m.summary.totalIncome),
+    totalTaxes: sum((m) => m.summary.totalTaxes),
+    netIncome,
+    totalExpenses: sum((m) => m.summary.totalExpenses),
+    totalVat: sum((m) => m.summary.totalVat),
+    totalUnnecessaryExpenses: sum((m) => m.summary.totalUnnecessaryExpenses),
+    remainingBalance: sum((m) => m.summary.remainingBalance),
+    saved,
+    savingsRate: savingsRate(saved, netIncome),
+    debtPayments: roundCents(sum((m) => m.debtPayments)),
+    debtCharges: roundCents(sum((m) => m.debtCharges)),
+    debtPaidDown: roundCents(sum((m) => m.debtPaidDown)),
+  };
+
+  return { year, months: reviewMonths, categories, totals: yearTotals };
+}
@@ -1,28 +1,73 @@
-/** Family member identifier */
-export type FamilyMember = 'Nikkie' | 'Hein';
+/** Household (tenant) - every row in the budget tables belongs to one */
+export interface Household {
+  id: string;
+  name: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+/** Role of a sign-in account within a household */
+export type HouseholdRole = 'owner' | 'member';
+
+/** Pending invite - the email joins the household on its next sign-in */
+export interface HouseholdInvite {
+  id: string;
+  household_id: string;
+  email: string;
+  invited_by: string | null;
+  created_at: string;
+}
 
-/** Income type - Salary or Other */
-export type IncomeType = 'Salary' | 'Other';
+/** Family member identifier - the name of a row in household_members */
+export type FamilyMember = string;
+
+/** Household member configured for this budget */
+export interface HouseholdMember {
+  id: string;
+  household_id: string;
+  name: FamilyMember;
+  color: string; // Hex color used for the member's cards and badges
+  sort_order: number; // Display order (ascending)
+  split_percent: number | null; // Share of shared expenses under a custom split
+  created_at: string;
+}
+
+/** Form data for creating/editing household member */
+export interface HouseholdMemberFormData {
+  name: string;
+  color: string;
+}
+
+/** Income type - Salary, Interest or Other */
+export type IncomeType = 'Salary' | 'Interest' | 'Other';
 
 /** Income entry for a family member */
 export interface Income {
   id: string;
+  household_id: string;
   member: FamilyMember;
   income_type: IncomeType;
   description: string;
   amount: number;
   month: string; // Format: YYYY-MM
+  rollover_id: string | null; // Month rollover that copied the row in, if any
   created_at: string;
+  updated_at: string; // Bumped by the database on every change
+  updated_by: string | null; // Email of whoever last changed the row
 }
 
 /** Tax entry for a family member */
 export interface Tax {
   id: string;
+  household_id: string;
   member: FamilyMember;
   description: string;
   amount: number;
   month: string; // Format: YYYY-MM
+  rollover_id: string | null; // Month rollover that copied the row in, if any
   created_at: string;
+  updated_at: string; // Bumped by the database on every change
+  updated_by: string | null; // Email of whoever last changed the row
 }
 
 /** Expense category */
@@ -40,12 +85,10 @@ export type ExpenseCategory =
   | 'Savings'
   | 'Other';
 
-/** South African VAT rate (15%) */
-export const VAT_RATE = 0.15;
-
 /** Expense entry */
 export interface Expense {
   id: string;
+  household_id: string;
   member: FamilyMember;
   category: ExpenseCategory;
   description: string;
@@ -55,20 +98,149 @@ export interface Expense {
   is_recurring: boolean; // Flag for recurring expenses that should carry over
   is_paid: boolean; // Flag to mark expense as paid
   include_vat: boolean; // Flag to indicate if VAT should be applied
+  is_tax_deductible: boolean; // Counts towards the tax-year report's deductions
   note: string | null; // Monthly note for the expense
   balance_account_id: string | null; // Link to balance account for loan/debt payments
+  savings_goal_id: string | null; // Link to the savings goal a Savings expense goes to
+  schedule_id: string | null; // Recurring schedule that generated the row, if any
+  rollover_id: string | null; // Month rollover that copied the row in, if any
+  created_at: string;
+  updated_at: string; // Bumped by the database on every change
+  updated_by: string | null; // Email of whoever last changed the row
+}
+
+/** Which expenses a month rollover copies */
+export type RolloverExpenses = 'all' | 'recurring' | 'none';
+
+/** What a new month copies from the previous one (one row per household) */
+export interface RolloverRules {
+  id: string;
+  household_id: string;
+  auto_rollover: boolean; // Roll over when a new month is first opened
+  carry_incomes: boolean;
+  carry_taxes: boolean;
+  carry_expenses: RolloverExpenses;
+  reset_paid: boolean; // Copied expenses start unpaid
+  planning_months: number; // Months after this one the month pickers go up to
+  created_at: string;
+}
+
+/** Form data for editing rollover rules */
+export type RolloverRulesFormData = Pick<
+  RolloverRules,
+  'auto_rollover' | 'carry_incomes' | 'carry_taxes' | 'carry_expenses' | 'reset_paid' | 'planning_months'
+>;
+
+/** How shared expenses are divided: equally, in proportion to net income, or by each member's percentage */
+export type SplitMethod = 'equal' | 'income' | 'custom';
+
+/** How the household splits shared expenses (one row per household) */
+export interface SplitRules {
+  id: string;
+  household_id: string;
+  method: SplitMethod;
+  created_at: string;
+}
+
+/** Form data for editing split rules */
+export interface SplitRulesFormData {
+  method: SplitMethod;
+  percents: Record<FamilyMember, number>; // Custom split only, keyed by member name
+}
+
+/** Money one member paid another to settle up a month's shared expenses */
+export interface Settlement {
+  id: string;
+  household_id: string;
+  month: string; // Format: YYYY-MM, the month being settled
+  from_member: FamilyMember;
+  to_member: FamilyMember;
+  amount: number;
+  note: string | null;
   created_at: string;
 }
 
+/** Form data for recording a settlement */
+export type SettlementFormData = Pick<Settlement, 'month' | 'from_member' | 'to_member' | 'amount' | 'note'>;
+
+/** A payment that would square up a month's shared expenses */
+export interface SettleUpTransfer {
+  from: FamilyMember;
+  to: FamilyMember;
+  amount: number;
+}
+
+/** Record of a month's rollover - at most one per household and month */
+export interface MonthRollover {
+  id: string;
+  household_id: string;
+  month: string; // Format: YYYY-MM, the month rows were copied into
+  from_month: string; // Format: YYYY-MM
+  status: 'applied' | 'reverted';
+  carry_incomes: boolean; // Rules the rollover ran with
+  carry_taxes: boolean;
+  carry_expenses: RolloverExpenses;
+  reset_paid: boolean;
+  income_count: number;
+  tax_count: number;
+  expense_count: number;
+  created_by: string | null; // Email of whoever opened the month
+  created_at: string;
+  reverted_at: string | null;
+}
+
+/** How often a recurring schedule falls due */
+export type RecurringFrequency = 'weekly' | 'monthly' | 'quarterly' | 'annually';
+
+/** Expense that falls due on a schedule, e.g. an annual car licence or a contract ending in August */
+export interface RecurringSchedule {
+  id: string;
+  household_id: string;
+  member: FamilyMember;
+  category: ExpenseCategory;
+  description: string;
+  amount: number; // Per payment, before escalation
+  frequency: RecurringFrequency;
+  interval_count: number; // Every N weeks/months/quarters/years
+  start_month: string; // Format: YYYY-MM, the first payment
+  end_month: string | null; // Format: YYYY-MM, the last month with a payment
+  escalation_percent: number; // Yearly increase from the start month
+  is_shared: boolean;
+  include_vat: boolean;
+  balance_account_id: string | null;
+  savings_goal_id: string | null;
+  created_at: string;
+}
+
+/** Form data for creating/editing recurring schedule */
+export type RecurringScheduleFormData = Omit<RecurringSchedule, 'id' | 'household_id' | 'created_at'>;
+
+/** A schedule with a payment due in a month */
+export interface DueSchedule {
+  schedule: RecurringSchedule;
+  amount: number; // Due this month, with escalation and every weekly payment added up
+  expense_id: string | null; // Expense already generated for the month
+}
+
+/** VAT paid on a set of expenses, e.g. one month's */
+export interface VatBreakdown {
+  total: number;
+  byCategory: Partial<Record<ExpenseCategory, number>>;
+  byMember: Record<FamilyMember, number>;
+}
+
 /** Unnecessary expense entry - discretionary spending */
 export interface UnnecessaryExpense {
   id: string;
+  household_id: string;
   member: FamilyMember;
   description: string;
   amount: number;
   month: string; // Format: YYYY-MM
   note: string | null; // Monthly note for the expense
   created_at: string;
+  updated_at: string; // Bumped by the database on every change
+  updated_by: string | null; // Email of whoever last changed the row
 }
 
 /** Form data for creating/editing unnecessary expense */
@@ -87,7 +259,10 @@ export interface MemberSummary {
   totalIncome: number;
   totalTaxes: number;
   netIncome: number;
-  totalExpenses: number;
+  totalExpenses: number; // Including VAT on expenses marked +VAT; shared expenses count at the member's fair share
+  totalVat: number;
+  sharedPaid: number; // Shared expenses the member entered
+  sharedShare: number; // The member's fair share of all shared expenses
   totalUnnecessaryExpenses: number;
   remainingBalance: number;
 }
@@ -99,11 +274,11 @@ export interface HouseholdSummary {
   totalIncome: number;
   totalTaxes: number;
   netIncome: number;
-  totalExpenses: number;
+  totalExpenses: number; // Including VAT on expenses marked +VAT
+  totalVat: number;
   totalUnnecessaryExpenses: number;
   remainingBalance: number;
-  nikkieSummary: MemberSummary;
-  heinSummary: MemberSummary;
+  memberSummaries: Record<FamilyMember, MemberSummary>; // Keyed by member name
 }
 
 /** Form data for creating/editing income */
@@ -121,6 +296,65 @@ export interface TaxFormData {
   amount: number;
 }
 
+/** A member's personal tax details, used to work out PAYE from their salary */
+export interface TaxProfile {
+  id: string;
+  household_id: string;
+  member: FamilyMember;
+  birth_date: string | null; // YYYY-MM-DD - sets the age rebates; null = primary rebate only
+  medical_scheme_members: number; // People on the member's medical aid, including them; 0 = none
+  retirement_contribution: number; // Monthly pension, provident and retirement annuity contributions
+  uif_contributor: boolean;
+  created_at: string;
+}
+
+/** Form data for creating/editing tax profile */
+export type TaxProfileFormData = Omit<TaxProfile, 'id' | 'household_id' | 'created_at'>;
+
+/** Monthly PAYE and UIF proposed for a member from their salary */
+export interface PayeProposal {
+  member: FamilyMember;
+  taxYear: number; // Tax year of the month, named after the February it ends in
+  tablesYear: number; // Tax year whose tables were used - differs when the month's year isn't known yet
+  grossSalary: number; // Monthly, from the member's Salary incomes
+  retirementDeduction: number; // Monthly, after the 27.5% and annual caps
+  annualTaxableIncome: number;
+  rebates: number; // Annual
+  medicalCredits: number; // Monthly
+  paye: number; // Monthly
+  uif: number; // Monthly
+}
+
+/** One month of a member's tax-year report */
+export interface TaxYearMonth {
+  month: string; // Format: YYYY-MM
+  grossSalary: number;
+  otherIncome: number;
+  interestIncome: number;
+  payeWithheld: number;
+  otherTaxes: number; // UIF and any other tax rows
+  deductibleExpenses: number;
+}
+
+/** A member's income, tax and deductions over a SARS tax year, for IRP5 / ITR12 reconciliation */
+export interface TaxYearReport {
+  member: FamilyMember;
+  taxYear: number; // Named after the February it ends in
+  tablesYear: number; // Tax year whose tables the estimate used
+  months: TaxYearMonth[]; // March to February
+  grossSalary: number;
+  otherIncome: number;
+  interestIncome: number;
+  interestExemption: number; // Local interest exemption for the member's age
+  payeWithheld: number;
+  otherTaxes: number;
+  retirementDeduction: number; // From the member's tax details, after the caps
+  deductibleExpenses: number;
+  taxableIncome: number;
+  estimatedTax: number; // After rebates and medical credits
+  balance: number; // Estimated tax less PAYE withheld - positive is owing, negative a refund
+}
+
 /** Form data for creating/editing expense */
 export interface ExpenseFormData {
   member: FamilyMember;
@@ -133,18 +367,28 @@ export interface ExpenseFormData {
   include_vat: boolean; // Flag to indicate if VAT should be applied
   note: string | null; // Monthly note for the expense
   balance_account_id?: string | null; // Optional link to balance account
+  savings_goal_id?: string | null; // Optional link to a savings goal
+  is_tax_deductible?: boolean; // Counts towards the tax-year report's deductions
 }
 
 /** Balance account for tracking recurring deductions */
+/** How a balance account's interest is worked out: rate ÷ 12 on the balance, or accrued daily and added monthly */
+export type InterestCompounding = 'monthly' | 'daily';
+
 export interface BalanceAccount {
   id: string;
+  household_id: string;
   name: string;
   description: string;
   initial_balance: number;
   current_balance: number;
   monthly_deduction: number;
   start_month: string; // Format: YYYY-MM (when deductions start)
+  annual_rate: number; // Interest rate as a percentage, e.g. 11.75; 0 = no interest
+  compounding: InterestCompounding;
+  monthly_fee: number; // Service or admin fee added to the balance every month
   created_at: string;
+  updated_by: string | null; // Email of whoever last changed the row
 }
 
 /** Form data for creating/editing balance account */
@@ -154,22 +398,296 @@ export interface BalanceAccountFormData {
   initial_balance: number;
   monthly_deduction: number;
   start_month: string;
+  annual_rate: number;
+  compounding: InterestCompounding;
+  monthly_fee: number;
+}
+
+/** One month of a balance account's amortisation schedule */
+export interface AmortisationRow {
+  month: string; // Format: YYYY-MM
+  openingBalance: number;
+  interest: number;
+  fees: number;
+  payment: number;
+  principal: number; // Part of the payment that reduced the balance (negative when it didn't cover interest and fees)
+  closingBalance: number;
+}
+
+/** Where a balance account is headed from a given month, following its amortisation schedule */
+export interface AmortisationSummary {
+  paysOff: boolean; // False when the deduction doesn't cover the interest and fees
+  monthsRemaining: number | null; // Payments still to make after the month; null when it never pays off
+  payoffMonth: string | null; // Format: YYYY-MM, the month of the last payment
+  totalInterest: number; // Over the life of the account
+  remainingInterest: number; // Still to come after the month
+  totalFees: number; // Over the life of the account
 }
 
-/** Balance history entry for tracking monthly changes */
+/**
+ * What moved a balance: a paid expense linked to the account, interest or a
+ * fee the bank added, or an entry made by hand
+ */
+export type BalanceEntryKind = 'payment' | 'interest' | 'fee' | 'adjustment' | 'top_up';
+
+/** Entry in an account's balance ledger - the balance is the initial balance plus every entry */
 export interface BalanceHistory {
   id: string;
+  household_id: string;
   account_id: string;
+  month: string; // Format: YYYY-MM
+  kind: BalanceEntryKind;
+  amount: number; // Change to the balance: negative for payments, positive for interest, fees and top-ups
+  expense_id: string | null; // The paid expense a payment was posted from
+  note: string | null;
+  created_at: string;
+  updated_by: string | null; // Email of whoever last changed the row
+}
+
+/** Form data for an entry made by hand */
+export interface BalanceEntryFormData {
+  account_id: string;
+  month: string;
+  kind: Extract<BalanceEntryKind, 'adjustment' | 'top_up'>;
+  amount: number; // Top-ups add to the balance; an adjustment can go either way
+  note: string | null;
+}
+
+/** An account's month in the ledger: the entries of the month summed by kind */
+export interface BalanceSnapshot {
   month: string;
-  opening_balance: number;
-  deduction: number;
-  closing_balance: number;
+  openingBalance: number;
+  payments: number; // Paid off the balance, as a positive amount
+  interest: number;
+  fees: number;
+  adjustments: number; // Adjustments and top-ups
+  closingBalance: number; // The month-end balance
+}
+
+/** A balance account's monthly deduction from a month on, e.g. after adopting a debt plan */
+export interface BalanceDeduction {
+  id: string;
+  household_id: string;
+  account_id: string;
+  from_month: string; // Format: YYYY-MM, the first month the deduction applies to
+  monthly_deduction: number;
+  created_at: string;
+}
+
+/** Order extra debt payments go in: smallest balance first, highest rate first, or your own */
+export type DebtStrategy = 'snowball' | 'avalanche' | 'custom';
+
+/** How one account fares under a debt plan */
+export interface DebtPlanAccount {
+  accountId: string;
+  name: string;
+  startingBalance: number;
+  payoffMonth: string | null; // Format: YYYY-MM; null when it never pays off
+  interest: number;
+}
+
+/** A simulated debt plan: every account's minimum, with the extra budget and freed-up payments going down the order */
+export interface DebtPlan {
+  strategy: DebtStrategy | 'current'; // current = each account on its own deduction, no extra
+  order: string[]; // Account IDs in the order extra payments go to
+  startMonth: string; // Format: YYYY-MM, the first month of the plan
+  paysOff: boolean;
+  debtFreeMonth: string | null; // Format: YYYY-MM
+  totalInterest: number;
+  accounts: DebtPlanAccount[];
+  deductions: Pick<BalanceDeduction, 'account_id' | 'from_month' | 'monthly_deduction'>[]; // Changes that put the plan in place
+}
+
+/** What an asset account holds */
+export type AssetKind = 'bank' | 'emergency_fund' | 'tfsa' | 'retirement_annuity' | 'vehicle' | 'property' | 'other';
+
+/** Something the household owns - its value is the latest valuation */
+export interface AssetAccount {
+  id: string;
+  household_id: string;
+  name: string;
+  kind: AssetKind;
+  description: string | null;
+  created_at: string;
+  updated_by: string | null; // Email of whoever last changed the row
+}
+
+/** Form data for creating/editing an asset account */
+export type AssetAccountFormData = Pick<AssetAccount, 'name' | 'kind' | 'description'>;
+
+/** What an asset account was worth at the end of a month (one per account and month) */
+export interface AssetValuation {
+  id: string;
+  household_id: string;
+  account_id: string;
+  month: string; // Format: YYYY-MM
+  value: number;
+  note: string | null;
   created_at: string;
+  updated_by: string | null; // Email of whoever last changed the row
+}
+
+/** Form data for recording a valuation */
+export type AssetValuationFormData = Pick<AssetValuation, 'account_id' | 'month' | 'value' | 'note'>;
+
+/** What the household owns and owes at the end of a month */
+export interface NetWorthSnapshot {
+  month: string; // Format: YYYY-MM
+  assets: number; // Every asset at its latest valuation up to the month
+  liabilities: number; // Balance account balances outstanding
+  netWorth: number; // Assets minus liabilities
+  change: number | null; // On the month before; null for the first month
+}
+
+/** How much a savings goal matters next to the others */
+export type SavingsPriority = 'high' | 'medium' | 'low';
+
+/** Something to save towards - the Savings expenses linked to it are its contributions */
+export interface SavingsGoal {
+  id: string;
+  household_id: string;
+  name: string;
+  target_amount: number;
+  target_month: string; // Format: YYYY-MM, the month the target should be reached by
+  starting_amount: number; // Already saved when the goal was set up
+  owner: FamilyMember | null; // null = shared by the household
+  priority: SavingsPriority;
+  created_at: string;
+}
+
+/** Form data for creating/updating a savings goal */
+export type SavingsGoalFormData = Omit<SavingsGoal, 'id' | 'household_id' | 'created_at'>;
+
+/** Whether a goal's savings are keeping up with a steady pace to its target */
+export type SavingsGoalStatus = 'reached' | 'on_track' | 'behind';
+
+/** Where a savings goal stands as of a month */
+export interface SavingsGoalProgress {
+  goal: SavingsGoal;
+  saved: number; // Starting amount plus the contributions up to the month
+  remaining: number;
+  percent: number; // Of the target, 0-100
+  monthsLeft: number; // Months after this one up to the target month; 0 once it has come
+  monthlyNeeded: number; // Still to save each month to reach the target in time
+  expected: number; // Saved by now at a steady pace from when the goal was set up
+  status: SavingsGoalStatus;
+}
+
+/** The first and last month the month pickers offer */
+export interface MonthRange {
+  firstMonth: string; // Format: YYYY-MM
+  lastMonth: string;
+}
+
+/** A month the month pickers can go to */
+export interface MonthOption {
+  value: string; // Format: YYYY-MM
+  label: string; // e.g. "March 2026"
+}
+
+/** The kind of entry a search result is */
+export type SearchSource = 'income' | 'tax' | 'expense' | 'unnecessary' | 'budget_expense' | 'statement';
+
+/** What to search for across every month; null filters match anything */
+export interface SearchFilters {
+  query: string; // Matched against descriptions and notes
+  member: FamilyMember | null;
+  category: ExpenseCategory | null; // Leaves out entries without a category
+  min_amount: number | null; // Amount filters leave out statements
+  max_amount: number | null;
+  is_paid: boolean | null; // Only expenses have a paid status
+  from: string | null; // Format: YYYY-MM
+  to: string | null;
+}
+
+/** An entry found by search_entries() */
+export interface SearchResult {
+  source: SearchSource;
+  id: string;
+  month: string; // Format: YYYY-MM
+  entry_date: string | null; // Budget expenses only
+  member: FamilyMember | null;
+  category: ExpenseCategory | null; // Expenses and budget expenses only
+  description: string; // The filename for statements
+  note: string | null; // The budget's name for budget expenses
+  amount: number | null; // null for statements
+  is_paid: boolean | null; // Expenses only
+}
+
+/** Where a row of monthly totals comes from */
+export type MonthlyTotalSource = 'income' | 'tax' | 'expense' | 'unnecessary' | 'balance';
+
+/** A month's total for one group of entries, as returned by monthly_totals() */
+export interface MonthlyTotal {
+  source: MonthlyTotalSource;
+  month: string; // Format: YYYY-MM
+  member: FamilyMember | null; // null for balance rows
+  kind: string | null; // Income type for incomes, entry kind for balance rows
+  category: ExpenseCategory | null; // Expenses only
+  is_shared: boolean | null; // Expenses only
+  include_vat: boolean | null; // Expenses only
+  amount: number;
+}
+
+/** One month of the year in review */
+export interface YearReviewMonth {
+  month: string; // Format: YYYY-MM
+  summary: HouseholdSummary;
+  saved: number; // Left over plus Savings expenses
+  savingsRate: number | null; // Saved as a percentage of net income; null without net income
+  debtPayments: number; // Paid off balance accounts
+  debtCharges: number; // Interest and fees added to them
+  debtPaidDown: number; // How much the balances came down, adjustments and top-ups included
+}
+
+/** An expense category's totals over the year */
+export interface CategoryTrend {
+  category: ExpenseCategory;
+  amounts: number[]; // One per month of the year, VAT included
+  changes: (number | null)[]; // Change on the month before; null for the first month
+  total: number;
+}
+
+/** A year of monthly summaries and trends */
+export interface YearReview {
+  year: number;
+  months: YearReviewMonth[];
+  categories: CategoryTrend[]; // Largest total first
+  totals: YearReviewTotals;
+}
+
+/** The year's summary figures, savings and debt added up over its months */
+export type YearReviewTotals = Omit<HouseholdSummary, 'memberSummaries'> & Omit<YearReviewMonth, 'month' | 'summary'>;
+
+/** What a recurring schedule falls due for in a month, as returned by scheduled_amounts() */
+export interface ScheduledAmount {
+  schedule_id: string;
+  month: string; // Format: YYYY-MM
+  amount: number; // With escalation and every weekly payment added up
+}
+
+/** One month of the cash-flow forecast */
+export interface CashFlowMonth {
+  month: string; // Format: YYYY-MM
+  summary: HouseholdSummary; // Incomes, taxes and expenses expected in the month, debt repayments left out
+  debtRepayments: number; // Balance account payments, following each account's schedule
+  remainingBalance: number; // Left over once debt repayments are made too
+  runningBalance: number; // Remaining balances added up from the first forecast month
+  paidOff: string[]; // Names of the balance accounts the month's payment clears
+  isShortfall: boolean; // More goes out than comes in
+}
+
+/** Where the household's money is headed over the coming months */
+export interface CashFlowForecast {
+  baseMonth: string; // The month incomes, taxes and recurring expenses are repeated from
+  months: CashFlowMonth[];
+  firstShortfall: string | null; // The first month that goes negative, if any
 }
 
 /** Budget entry for tracking budget amounts and expenses */
 export interface BudgetEntry {
   id: string;
+  household_id: string;
   name: string;
   description: string;
   budget_amount: number;
@@ -177,16 +695,19 @@ export interface BudgetEntry {
   member: FamilyMember;
   category: ExpenseCategory;
   created_at: string;
+  updated_by: string | null; // Email of whoever last changed the row
 }
 
 /** Budget expense entry for tracking spending against a budget */
 export interface BudgetExpense {
   id: string;
+  household_id: string;
   budget_id: string;
   description: string;
   amount: number;
   date: string; // Format: YYYY-MM-DD
   created_at: string;
+  updated_by: string | null; // Email of whoever last changed the row
 }
 
 /** Form data for creating/editing budget entry */
@@ -209,14 +730,27 @@ export interface BudgetExpenseFormData {
 export interface BudgetWithExpenses {
   budget: BudgetEntry;
   expenses: BudgetExpense[];
+  regularExpenses: Expense[]; // Month's expenses with the budget's category and member
+  trackedSpent: number; // Spent through the budget's own expenses
+  regularSpent: number; // Spent through regular expenses
   totalSpent: number;
   remainingBalance: number;
   percentageUsed: number;
 }
 
+/** Budgets of one category or one member that together are close to or over their limit */
+export interface OverspendAlert {
+  scope: 'category' | 'member';
+  name: string; // Category or member name
+  budgeted: number;
+  spent: number;
+  level: 'warning' | 'over';
+}
+
 /** Financial statement document */
 export interface FinancialStatement {
   id: string;
+  household_id: string;
   month: string; // Format: YYYY-MM
   filename: string;
   file_path: string;
@@ -233,3 +767,183 @@ export interface FinancialStatementFormData {
   uploaded_by: FamilyMember;
   notes?: string;
 }
+
+/** The kind of entry an attachment belongs to */
+export type AttachmentParent = 'expense' | 'unnecessary_expense' | 'budget_expense';
+
+/** A receipt or invoice attached to one expense, discretionary expense or budget expense */
+export interface ExpenseAttachment {
+  id: string;
+  household_id: string;
+  expense_id: string | null; // Exactly one of the three is set
+  unnecessary_expense_id: string | null;
+  budget_expense_id: string | null;
+  filename: string;
+  file_path: string; // In the financial-statements bucket: <household_id>/attachments/<file>
+  file_size: number;
+  content_type: string;
+  created_at: string;
+}
+
+/** Bank statement file formats the importer understands */
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+/** Order of day, month and year in numeric statement dates */
+export type StatementDateFormat = 'YMD' | 'DMY' | 'MDY';
+
+/** Transaction read from a bank statement, before it becomes an expense */
+export interface StatementTransaction {
+  date: string; // Format: YYYY-MM-DD
+  description: string;
+  amount: number; // Negative = money out
+}
+
+/** How the columns of a bank's CSV export map onto a transaction */
+export interface StatementColumnMapping {
+  delimiter: string;
+  header_row: number | null; // 0-based row of the column headings, null when the file has none
+  date_column: number;
+  description_column: number;
+  amount_column: number | null; // Single signed amount column...
+  debit_column: number | null; // ...or separate money out / money in columns
+  credit_column: number | null;
+  date_format: StatementDateFormat;
+  invert_amounts: boolean; // Bank exports money out as positive numbers
+}
+
+/** Banks whose PDF statement layout has its own parser; 'generic' works from the running balance */
+export type StatementBank = 'fnb' | 'standard_bank' | 'absa' | 'capitec' | 'nedbank' | 'generic';
+
+/** Transaction read from a PDF statement, waiting to be reviewed and turned into an expense */
+export interface StatementCandidate {
+  statement_id: string; // The FinancialStatement the PDF was uploaded as
+  date: string; // Format: YYYY-MM-DD
+  description: string;
+  amount: number; // Always positive
+  is_debit: boolean; // Money out; false = money in
+}
+
+/** Saved column mapping for one bank, so next month's import is two clicks */
+export interface ImportProfile extends StatementColumnMapping {
+  id: string;
+  household_id: string;
+  name: string;
+  default_member: FamilyMember | null;
+  default_category: ExpenseCategory;
+  created_at: string;
+}
+
+/** Form data for saving an import profile */
+export interface ImportProfileFormData extends StatementColumnMapping {
+  name: string;
+  default_member: FamilyMember | null;
+  default_category: ExpenseCategory;
+}
+
+/** How a categorisation rule's pattern is compared with an expense description */
+export type RuleMatchType = 'contains' | 'wildcard' | 'regex';
+
+/** Rule that suggests how to file an expense, e.g. "WOOLWORTHS*" → Groceries, shared */
+export interface CategorisationRule {
+  id: string;
+  household_id: string;
+  pattern: string;
+  match_type: RuleMatchType;
+  min_amount: number | null;
+  max_amount: number | null;
+  category: ExpenseCategory;
+  member: FamilyMember | null; // null = leave the member as is
+  is_shared: boolean | null; // null = leave the shared flag as is
+  balance_account_id: string | null;
+  priority: number; // Lower runs first; the first matching rule wins
+  created_at: string;
+}
+
+/** Form data for creating/editing categorisation rule */
+export interface CategorisationRuleFormData {
+  pattern: string;
+  match_type: RuleMatchType;
+  min_amount: number | null;
+  max_amount: number | null;
+  category: ExpenseCategory;
+  member: FamilyMember | null;
+  is_shared: boolean | null;
+  balance_account_id: string | null;
+}
+
+/** Rule proposed by learning from existing expenses */
+export interface RuleProposal {
+  rule: CategorisationRuleFormData;
+  matchCount: number; // Expenses that would match the proposed rule
+  agreement: number; // Share of those expenses (0-1) already filed this way
+}
+
+/** Rows of every table included in a backup, in restore order */
+export interface BackupTables {
+  household_members: HouseholdMember[];
+  rollover_rules: RolloverRules[];
+  split_rules: SplitRules[];
+  balance_accounts: BalanceAccount[];
+  balance_deductions: BalanceDeduction[];
+  savings_goals: SavingsGoal[];
+  asset_accounts: AssetAccount[];
+  asset_valuations: AssetValuation[];
+  recurring_schedules: RecurringSchedule[];
+  tax_profiles: TaxProfile[];
+  incomes: Income[];
+  taxes: Tax[];
+  expenses: Expense[];
+  unnecessary_expenses: UnnecessaryExpense[];
+  settlements: Settlement[];
+  balance_history: BalanceHistory[];
+  budget_entries: BudgetEntry[];
+  budget_expenses: BudgetExpense[];
+  financial_statements: FinancialStatement[]; // Metadata only - files stay in storage
+  expense_attachments: ExpenseAttachment[]; // Metadata only, like financial statements
+  import_profiles: ImportProfile[];
+  categorisation_rules: CategorisationRule[];
+}
+
+/** Name of a table included in a backup */
+export type BackupTableName = keyof BackupTables;
+
+/** Versioned JSON backup of one household */
+export interface BackupFile {
+  app: 'fambudget';
+  version: number;
+  exported_at: string; // ISO timestamp
+  household: { id: string; name: string };
+  tables: BackupTables;
+}
+
+/** What to do with backup rows whose ID already exists */
+export type RestoreMode = 'skip' | 'overwrite' | 'copy';
+
+/** Budget tables that can be changed while offline */
+export type OfflineTable = 'incomes' | 'taxes' | 'expenses' | 'unnecessary_expenses';
+
+/** Kind of change waiting in the offline queue */
+export type MutationOp = 'insert' | 'update' | 'delete';
+
+/** A change made on this device that hasn't reached Supabase yet */
+export interface QueuedMutation {
+  id?: number; // Queue key, assigned by IndexedDB
+  household_id: string;
+  table: OfflineTable;
+  op: MutationOp;
+  row_id: string; // Inserts get their ID on the device so later edits can refer to them
+  month: string; // Format: YYYY-MM
+  data: Record<string, unknown>; // Inserted row or changed fields; empty for deletes
+  base_updated_at: string | null; // updated_at of the server row the change was made against
+  queued_at: string;
+  conflict: string | null; // Why the change couldn't be replayed - waits for the user to decide
+  in_flight?: boolean; // Being sent to Supabase right now - later changes queue behind it instead of folding in
+}
+
+/** A change another user made that arrived over realtime */
+export interface RemoteChange {
+  by: string; // Their email address
+  table: string;
+  event: 'INSERT' | 'UPDATE';
+  at: string;
+}
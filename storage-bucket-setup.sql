@@ -31,30 +31,45 @@ DROP POLICY IF EXISTS "Allow downloads from financial-statements" ON storage.obj
 DROP POLICY IF EXISTS "Allow deletes from financial-statements" ON storage.objects;
 DROP POLICY IF EXISTS "Allow updates in financial-statements" ON storage.objects;
 
--- Step 3: Create storage policies for anonymous access
+-- Step 3: Create storage policies for signed-in household users
+-- Files are stored as <household_id>/<month>/<file>, so the first folder
+-- decides which household may access the object (see is_household_user()
+-- in supabase-schema.sql, which must be run first)
 
 -- Policy for uploads (INSERT)
 CREATE POLICY "Allow uploads to financial-statements"
 ON storage.objects FOR INSERT
-TO anon
-WITH CHECK (bucket_id = 'financial-statements');
+TO authenticated
+WITH CHECK (
+  bucket_id = 'financial-statements'
+  AND public.is_household_user(((storage.foldername(name))[1])::uuid)
+);
 
 -- Policy for downloads (SELECT)
 CREATE POLICY "Allow downloads from financial-statements"
 ON storage.objects FOR SELECT
-TO anon
-USING (bucket_id = 'financial-statements');
+TO authenticated
+USING (
+  bucket_id = 'financial-statements'
+  AND public.is_household_user(((storage.foldername(name))[1])::uuid)
+);
 
 -- Policy for deletes (DELETE)
 CREATE POLICY "Allow deletes from financial-statements"
 ON storage.objects FOR DELETE
-TO anon
-USING (bucket_id = 'financial-statements');
+TO authenticated
+USING (
+  bucket_id = 'financial-statements'
+  AND public.is_household_user(((storage.foldername(name))[1])::uuid)
+);
 
 -- Policy for updates (UPDATE)
 CREATE POLICY "Allow updates in financial-statements"
 ON storage.objects FOR UPDATE
-TO anon
-USING (bucket_id = 'financial-statements');
+TO authenticated
+USING (
+  bucket_id = 'financial-statements'
+  AND public.is_household_user(((storage.foldername(name))[1])::uuid)
+);
 
 -- Done! You can now upload files to the financial-statements bucket.
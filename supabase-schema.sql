@@ -4,15 +4,217 @@
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
+-- =============================================
+-- HOUSEHOLDS & ACCESS CONTROL
+-- =============================================
+-- Every row in every table belongs to a household. Signed-in users
+-- (Supabase Auth) can only see and change rows of households they belong to.
+
+-- Households table (one budget per household)
+CREATE TABLE IF NOT EXISTS households (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Household Users table (which sign-in accounts can access which household)
+CREATE TABLE IF NOT EXISTS household_users (
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (household_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_household_users_user ON household_users(user_id);
+
+-- Household Invites table (email addresses that join a household on their next sign-in)
+CREATE TABLE IF NOT EXISTS household_invites (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (household_id, email)
+);
+
+-- True when the signed-in user belongs to the household.
+-- SECURITY DEFINER so policies on household_users can use it without recursing.
+CREATE OR REPLACE FUNCTION is_household_user(p_household_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM household_users
+    WHERE household_id = p_household_id AND user_id = auth.uid()
+  );
+$$;
+
+-- Create a household owned by the signed-in user, optionally with its first members
+CREATE OR REPLACE FUNCTION create_household(p_name TEXT, p_member_names TEXT[] DEFAULT '{}')
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_household_id UUID;
+  v_colors TEXT[] := ARRAY['#0891b2', '#1e40af', '#db2777', '#16a34a', '#ea580c', '#7c3aed', '#ca8a04', '#64748b'];
+  v_index INTEGER := 0;
+  v_name TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to create a household';
+  END IF;
+
+  INSERT INTO households (name, created_by) VALUES (p_name, auth.uid())
+  RETURNING id INTO v_household_id;
+
+  INSERT INTO household_users (household_id, user_id, role)
+  VALUES (v_household_id, auth.uid(), 'owner');
+
+  FOREACH v_name IN ARRAY p_member_names LOOP
+    INSERT INTO household_members (household_id, name, color, sort_order)
+    VALUES (v_household_id, v_name, v_colors[(v_index % array_length(v_colors, 1)) + 1], v_index);
+    v_index := v_index + 1;
+  END LOOP;
+
+  RETURN v_household_id;
+END;
+$$;
+
+-- Join every household the signed-in user's email address has been invited to
+CREATE OR REPLACE FUNCTION accept_household_invites()
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_email TEXT := lower(auth.jwt() ->> 'email');
+BEGIN
+  IF auth.uid() IS NULL OR v_email IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO household_users (household_id, user_id, role)
+  SELECT household_id, auth.uid(), 'member'
+  FROM household_invites
+  WHERE lower(email) = v_email
+  ON CONFLICT (household_id, user_id) DO NOTHING;
+
+  DELETE FROM household_invites WHERE lower(email) = v_email;
+END;
+$$;
+
+ALTER TABLE households ENABLE ROW LEVEL SECURITY;
+ALTER TABLE household_users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE household_invites ENABLE ROW LEVEL SECURITY;
+
+-- Households are created through create_household(), so only read/rename/delete are exposed
+CREATE POLICY "Household users can view their households" ON households
+  FOR SELECT TO authenticated USING (is_household_user(id));
+CREATE POLICY "Household owners can update their households" ON households
+  FOR UPDATE TO authenticated
+  USING (EXISTS (SELECT 1 FROM household_users WHERE household_id = id AND user_id = auth.uid() AND role = 'owner'));
+CREATE POLICY "Household owners can delete their households" ON households
+  FOR DELETE TO authenticated
+  USING (EXISTS (SELECT 1 FROM household_users WHERE household_id = id AND user_id = auth.uid() AND role = 'owner'));
+
+CREATE POLICY "Household users can view fellow users" ON household_users
+  FOR SELECT TO authenticated USING (is_household_user(household_id));
+CREATE POLICY "Users can leave a household" ON household_users
+  FOR DELETE TO authenticated USING (user_id = auth.uid());
+
+CREATE POLICY "Household users can manage invites" ON household_invites
+  FOR ALL TO authenticated
+  USING (is_household_user(household_id))
+  WITH CHECK (is_household_user(household_id));
+
+-- =============================================
+-- BUDGET TABLES
+-- =============================================
+
+-- Household Members table (everyone who earns, spends or pays tax in this budget)
+-- Must be created before the other budget tables: every member column references it by name
+CREATE TABLE IF NOT EXISTS household_members (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT '#64748b', -- Hex color for cards and badges
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  split_percent DECIMAL(5, 2) CHECK (split_percent BETWEEN 0 AND 100), -- Share of shared expenses under a custom split
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (household_id, name)
+);
+
+-- Rollover Rules table (what a new month copies from the previous one, one row per household)
+CREATE TABLE IF NOT EXISTS rollover_rules (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id UUID NOT NULL UNIQUE REFERENCES households(id) ON DELETE CASCADE,
+  auto_rollover BOOLEAN NOT NULL DEFAULT TRUE, -- Roll over when a new month is first opened
+  carry_incomes BOOLEAN NOT NULL DEFAULT TRUE,
+  carry_taxes BOOLEAN NOT NULL DEFAULT TRUE,
+  carry_expenses TEXT NOT NULL DEFAULT 'all' CHECK (carry_expenses IN ('all', 'recurring', 'none')),
+  reset_paid BOOLEAN NOT NULL DEFAULT FALSE, -- Copied expenses start unpaid
+  planning_months INTEGER NOT NULL DEFAULT 12 CHECK (planning_months BETWEEN 0 AND 120), -- Months after this one that can be planned
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Split Rules table (how shared expenses are divided between members, one row per household)
+CREATE TABLE IF NOT EXISTS split_rules (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id UUID NOT NULL UNIQUE REFERENCES households(id) ON DELETE CASCADE,
+  method TEXT NOT NULL DEFAULT 'equal' CHECK (method IN ('equal', 'income', 'custom')), -- custom uses household_members.split_percent
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Month Rollovers table (one row per rolled-over month - the unique key makes rollovers run once)
+CREATE TABLE IF NOT EXISTS month_rollovers (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  month TEXT NOT NULL, -- Format: YYYY-MM, the month rows were copied into
+  from_month TEXT NOT NULL, -- Format: YYYY-MM
+  status TEXT NOT NULL DEFAULT 'applied' CHECK (status IN ('applied', 'reverted')),
+  -- Rules the rollover ran with
+  carry_incomes BOOLEAN NOT NULL DEFAULT TRUE,
+  carry_taxes BOOLEAN NOT NULL DEFAULT TRUE,
+  carry_expenses TEXT NOT NULL DEFAULT 'all' CHECK (carry_expenses IN ('all', 'recurring', 'none')),
+  reset_paid BOOLEAN NOT NULL DEFAULT FALSE,
+  income_count INTEGER NOT NULL DEFAULT 0,
+  tax_count INTEGER NOT NULL DEFAULT 0,
+  expense_count INTEGER NOT NULL DEFAULT 0,
+  created_by TEXT, -- Email of whoever opened the month
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  reverted_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (household_id, month)
+);
+
+-- Tax Profiles table (a member's personal tax details, used to work out PAYE from their salary)
+CREATE TABLE IF NOT EXISTS tax_profiles (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  member TEXT NOT NULL,
+  birth_date DATE, -- Sets the age rebates; NULL = primary rebate only
+  medical_scheme_members INTEGER NOT NULL DEFAULT 0 CHECK (medical_scheme_members >= 0), -- People on the member's medical aid, 0 = none
+  retirement_contribution DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (retirement_contribution >= 0), -- Monthly pension, provident and RA contributions
+  uif_contributor BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (household_id, member),
+  FOREIGN KEY (household_id, member) REFERENCES household_members(household_id, name) ON UPDATE CASCADE ON DELETE CASCADE
+);
+
 -- Incomes table
 CREATE TABLE IF NOT EXISTS incomes (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
-  member TEXT NOT NULL CHECK (member IN ('Nikkie', 'Hein')),
-  income_type TEXT NOT NULL DEFAULT 'Salary' CHECK (income_type IN ('Salary', 'Other')),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  member TEXT NOT NULL,
+  income_type TEXT NOT NULL DEFAULT 'Salary' CHECK (income_type IN ('Salary', 'Interest', 'Other')),
   description TEXT NOT NULL,
   amount DECIMAL(12, 2) NOT NULL CHECK (amount >= 0),
   month TEXT NOT NULL, -- Format: YYYY-MM
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  rollover_id UUID REFERENCES month_rollovers(id) ON DELETE SET NULL, -- Set on rows copied in by a month rollover
+  updated_by TEXT, -- Email of whoever last changed the row, set by set_updated_by()
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- Bumped on every change; offline edits check it before replaying
+  FOREIGN KEY (household_id, member) REFERENCES household_members(household_id, name) ON UPDATE CASCADE
 );
 
 -- Index for income type
@@ -21,30 +223,87 @@ CREATE INDEX IF NOT EXISTS idx_incomes_type ON incomes(income_type);
 -- Taxes table
 CREATE TABLE IF NOT EXISTS taxes (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
-  member TEXT NOT NULL CHECK (member IN ('Nikkie', 'Hein')),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  member TEXT NOT NULL,
   description TEXT NOT NULL,
   amount DECIMAL(12, 2) NOT NULL CHECK (amount >= 0),
   month TEXT NOT NULL, -- Format: YYYY-MM
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  rollover_id UUID REFERENCES month_rollovers(id) ON DELETE SET NULL, -- Set on rows copied in by a month rollover
+  updated_by TEXT, -- Email of whoever last changed the row, set by set_updated_by()
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- Bumped on every change; offline edits check it before replaying
+  FOREIGN KEY (household_id, member) REFERENCES household_members(household_id, name) ON UPDATE CASCADE
 );
 
 -- Balance Accounts table (for tracking balances that deduct monthly)
 -- Must be created before expenses table due to foreign key reference
 CREATE TABLE IF NOT EXISTS balance_accounts (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
   name TEXT NOT NULL,
   description TEXT,
   initial_balance DECIMAL(12, 2) NOT NULL CHECK (initial_balance >= 0),
   current_balance DECIMAL(12, 2) NOT NULL CHECK (current_balance >= 0),
   monthly_deduction DECIMAL(12, 2) NOT NULL CHECK (monthly_deduction >= 0),
   start_month TEXT NOT NULL, -- Format: YYYY-MM (when deductions start)
+  annual_rate DECIMAL(6, 3) NOT NULL DEFAULT 0 CHECK (annual_rate >= 0), -- Interest rate as a percentage, e.g. 11.75
+  compounding TEXT NOT NULL DEFAULT 'monthly' CHECK (compounding IN ('monthly', 'daily')), -- daily = accrued daily, added monthly
+  monthly_fee DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (monthly_fee >= 0), -- Service or admin fee added every month
+  updated_by TEXT, -- Email of whoever last changed the row, set by set_updated_by()
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Savings Goals table (what Savings expenses are put towards, for one member or the household)
+-- Must be created before expenses table due to foreign key reference
+CREATE TABLE IF NOT EXISTS savings_goals (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  target_amount DECIMAL(12, 2) NOT NULL CHECK (target_amount > 0),
+  target_month TEXT NOT NULL, -- Format: YYYY-MM, the month the target should be reached by
+  starting_amount DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (starting_amount >= 0), -- Already saved when the goal was set up
+  owner TEXT, -- Member the goal belongs to; NULL = shared
+  priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('high', 'medium', 'low')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  FOREIGN KEY (household_id, owner) REFERENCES household_members(household_id, name) ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_savings_goals_household ON savings_goals(household_id);
+
+-- Recurring Schedules table (expenses due on a schedule, e.g. an annual licence or a contract with an end date)
+-- Must be created before expenses table due to foreign key reference
+CREATE TABLE IF NOT EXISTS recurring_schedules (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  member TEXT NOT NULL,
+  category TEXT NOT NULL CHECK (category IN (
+    'Housing', 'Utilities', 'Groceries', 'Transportation',
+    'Healthcare', 'Entertainment', 'Dining', 'Shopping',
+    'Education', 'Insurance', 'Savings', 'Other'
+  )),
+  description TEXT NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount >= 0), -- Per payment, before escalation
+  frequency TEXT NOT NULL DEFAULT 'monthly' CHECK (frequency IN ('weekly', 'monthly', 'quarterly', 'annually')),
+  interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count >= 1), -- Every N weeks/months/quarters/years
+  start_month TEXT NOT NULL, -- Format: YYYY-MM, the first payment (weekly payments count from the 1st)
+  end_month TEXT, -- Format: YYYY-MM, the last month with a payment; NULL = no end
+  escalation_percent DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (escalation_percent >= 0), -- Yearly increase from the start month
+  is_shared BOOLEAN DEFAULT FALSE,
+  include_vat BOOLEAN DEFAULT FALSE,
+  balance_account_id UUID REFERENCES balance_accounts(id) ON DELETE SET NULL,
+  savings_goal_id UUID REFERENCES savings_goals(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (end_month IS NULL OR end_month >= start_month),
+  FOREIGN KEY (household_id, member) REFERENCES household_members(household_id, name) ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_schedules_household ON recurring_schedules(household_id);
+
 -- Expenses table
 CREATE TABLE IF NOT EXISTS expenses (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
-  member TEXT NOT NULL CHECK (member IN ('Nikkie', 'Hein')),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  member TEXT NOT NULL,
   category TEXT NOT NULL CHECK (category IN (
     'Housing', 'Utilities', 'Groceries', 'Transportation',
     'Healthcare', 'Entertainment', 'Dining', 'Shopping',
@@ -57,93 +316,179 @@ CREATE TABLE IF NOT EXISTS expenses (
   is_recurring BOOLEAN DEFAULT FALSE, -- Flag for expenses that should carry over to next month
   is_paid BOOLEAN DEFAULT FALSE, -- Flag to mark expense as paid
   include_vat BOOLEAN DEFAULT FALSE, -- Flag to indicate if VAT (15%) should be applied
+  is_tax_deductible BOOLEAN DEFAULT FALSE, -- Counts towards the tax-year report's deductions
   note TEXT, -- Monthly note for the expense
   balance_account_id UUID REFERENCES balance_accounts(id) ON DELETE SET NULL,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  savings_goal_id UUID REFERENCES savings_goals(id) ON DELETE SET NULL, -- Link to the savings goal a Savings expense goes to
+  schedule_id UUID REFERENCES recurring_schedules(id) ON DELETE SET NULL, -- Set on rows generated from a recurring schedule
+  rollover_id UUID REFERENCES month_rollovers(id) ON DELETE SET NULL, -- Set on rows copied in by a month rollover
+  updated_by TEXT, -- Email of whoever last changed the row, set by set_updated_by()
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- Bumped on every change; offline edits check it before replaying
+  FOREIGN KEY (household_id, member) REFERENCES household_members(household_id, name) ON UPDATE CASCADE
 );
 
 -- Create indexes for faster queries
 CREATE INDEX IF NOT EXISTS idx_incomes_month ON incomes(month);
 CREATE INDEX IF NOT EXISTS idx_incomes_member ON incomes(member);
+CREATE INDEX IF NOT EXISTS idx_incomes_household ON incomes(household_id);
 CREATE INDEX IF NOT EXISTS idx_taxes_month ON taxes(month);
 CREATE INDEX IF NOT EXISTS idx_taxes_member ON taxes(member);
+CREATE INDEX IF NOT EXISTS idx_taxes_household ON taxes(household_id);
 CREATE INDEX IF NOT EXISTS idx_expenses_month ON expenses(month);
 CREATE INDEX IF NOT EXISTS idx_expenses_member ON expenses(member);
 CREATE INDEX IF NOT EXISTS idx_expenses_category ON expenses(category);
-
--- Enable Row Level Security (optional - for production use)
--- ALTER TABLE incomes ENABLE ROW LEVEL SECURITY;
--- ALTER TABLE taxes ENABLE ROW LEVEL SECURITY;
--- ALTER TABLE expenses ENABLE ROW LEVEL SECURITY;
-
--- Create policies for anonymous access (for development)
--- In production, you would want proper authentication
--- Note: WITH CHECK (true) is required for INSERT operations
-CREATE POLICY "Allow all access to incomes" ON incomes FOR ALL USING (true) WITH CHECK (true);
-CREATE POLICY "Allow all access to taxes" ON taxes FOR ALL USING (true) WITH CHECK (true);
-CREATE POLICY "Allow all access to expenses" ON expenses FOR ALL USING (true) WITH CHECK (true);
+CREATE INDEX IF NOT EXISTS idx_expenses_household ON expenses(household_id);
+CREATE INDEX IF NOT EXISTS idx_expenses_savings_goal ON expenses(savings_goal_id) WHERE savings_goal_id IS NOT NULL;
+-- A schedule generates at most one expense per month
+CREATE UNIQUE INDEX IF NOT EXISTS idx_expenses_schedule_month ON expenses(schedule_id, month) WHERE schedule_id IS NOT NULL;
 
 -- Unnecessary Expenses table (discretionary spending that deducts from income)
 CREATE TABLE IF NOT EXISTS unnecessary_expenses (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
-  member TEXT NOT NULL CHECK (member IN ('Nikkie', 'Hein')),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  member TEXT NOT NULL,
   description TEXT NOT NULL,
   amount DECIMAL(12, 2) NOT NULL CHECK (amount >= 0),
   month TEXT NOT NULL, -- Format: YYYY-MM
   note TEXT, -- Monthly note for the expense
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  updated_by TEXT, -- Email of whoever last changed the row, set by set_updated_by()
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- Bumped on every change; offline edits check it before replaying
+  FOREIGN KEY (household_id, member) REFERENCES household_members(household_id, name) ON UPDATE CASCADE
 );
 
 -- Indexes for unnecessary expenses
 CREATE INDEX IF NOT EXISTS idx_unnecessary_expenses_month ON unnecessary_expenses(month);
 CREATE INDEX IF NOT EXISTS idx_unnecessary_expenses_member ON unnecessary_expenses(member);
+CREATE INDEX IF NOT EXISTS idx_unnecessary_expenses_household ON unnecessary_expenses(household_id);
 
--- Policy for unnecessary expenses
-CREATE POLICY "Allow all access to unnecessary_expenses" ON unnecessary_expenses FOR ALL USING (true) WITH CHECK (true);
+-- Settlements table (money one member paid another to settle up a month's shared expenses)
+CREATE TABLE IF NOT EXISTS settlements (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  month TEXT NOT NULL, -- Format: YYYY-MM, the month being settled
+  from_member TEXT NOT NULL,
+  to_member TEXT NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (from_member <> to_member),
+  FOREIGN KEY (household_id, from_member) REFERENCES household_members(household_id, name) ON UPDATE CASCADE,
+  FOREIGN KEY (household_id, to_member) REFERENCES household_members(household_id, name) ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_settlements_household_month ON settlements(household_id, month);
+
+-- Keep updated_at current so offline edits can tell whether a row changed since they were made
+CREATE OR REPLACE FUNCTION set_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER incomes_updated_at BEFORE UPDATE ON incomes FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+CREATE TRIGGER taxes_updated_at BEFORE UPDATE ON taxes FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+CREATE TRIGGER expenses_updated_at BEFORE UPDATE ON expenses FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+CREATE TRIGGER unnecessary_expenses_updated_at BEFORE UPDATE ON unnecessary_expenses FOR EACH ROW EXECUTE FUNCTION set_updated_at();
 
--- Balance History table (optional - for tracking historical changes)
+-- Balance History table (each account's ledger: the balance is the initial balance plus every entry)
 CREATE TABLE IF NOT EXISTS balance_history (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
   account_id UUID NOT NULL REFERENCES balance_accounts(id) ON DELETE CASCADE,
   month TEXT NOT NULL, -- Format: YYYY-MM
-  opening_balance DECIMAL(12, 2) NOT NULL,
-  deduction DECIMAL(12, 2) NOT NULL,
-  closing_balance DECIMAL(12, 2) NOT NULL,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  kind TEXT NOT NULL CHECK (kind IN ('payment', 'interest', 'fee', 'adjustment', 'top_up')),
+  amount DECIMAL(12, 2) NOT NULL, -- Change to the balance: negative for payments
+  expense_id UUID UNIQUE REFERENCES expenses(id) ON DELETE CASCADE, -- The paid expense a payment was posted from
+  note TEXT,
+  updated_by TEXT, -- Email of whoever last changed the row, set by set_updated_by()
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK ((kind = 'payment') = (expense_id IS NOT NULL))
+);
+
+-- Balance Deductions table (a balance account's monthly deduction from a month on, e.g. after adopting a debt plan)
+CREATE TABLE IF NOT EXISTS balance_deductions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES balance_accounts(id) ON DELETE CASCADE,
+  from_month TEXT NOT NULL, -- Format: YYYY-MM, the first month the deduction applies to
+  monthly_deduction DECIMAL(12, 2) NOT NULL CHECK (monthly_deduction >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (account_id, from_month)
 );
 
 -- Indexes for balance tables
 CREATE INDEX IF NOT EXISTS idx_balance_accounts_name ON balance_accounts(name);
+CREATE INDEX IF NOT EXISTS idx_balance_accounts_household ON balance_accounts(household_id);
 CREATE INDEX IF NOT EXISTS idx_balance_history_account ON balance_history(account_id);
 CREATE INDEX IF NOT EXISTS idx_balance_history_month ON balance_history(month);
+-- Interest and fees are posted once per account and month, whichever device gets there first
+CREATE UNIQUE INDEX IF NOT EXISTS idx_balance_history_charges ON balance_history(account_id, month, kind)
+  WHERE kind IN ('interest', 'fee');
+CREATE INDEX IF NOT EXISTS idx_balance_deductions_household ON balance_deductions(household_id);
 
--- Policies for balance tables
-CREATE POLICY "Allow all access to balance_accounts" ON balance_accounts FOR ALL USING (true) WITH CHECK (true);
-CREATE POLICY "Allow all access to balance_history" ON balance_history FOR ALL USING (true) WITH CHECK (true);
+-- Asset Accounts table (what the household owns, e.g. bank balances, investments, a vehicle or property)
+CREATE TABLE IF NOT EXISTS asset_accounts (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'bank' CHECK (kind IN (
+    'bank', 'emergency_fund', 'tfsa', 'retirement_annuity', 'vehicle', 'property', 'other'
+  )),
+  description TEXT,
+  updated_by TEXT, -- Email of whoever last changed the row, set by set_updated_by()
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Asset Valuations table (what an asset account was worth at the end of a month)
+CREATE TABLE IF NOT EXISTS asset_valuations (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES asset_accounts(id) ON DELETE CASCADE,
+  month TEXT NOT NULL, -- Format: YYYY-MM
+  value DECIMAL(14, 2) NOT NULL CHECK (value >= 0),
+  note TEXT,
+  updated_by TEXT, -- Email of whoever last changed the row, set by set_updated_by()
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (account_id, month) -- Valuing a month again replaces its value
+);
+
+CREATE INDEX IF NOT EXISTS idx_asset_accounts_household ON asset_accounts(household_id);
+CREATE INDEX IF NOT EXISTS idx_asset_valuations_household ON asset_valuations(household_id);
 
 -- Budget Entries table (for budget tracker feature)
 CREATE TABLE IF NOT EXISTS budget_entries (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
   name TEXT NOT NULL,
   description TEXT,
   budget_amount DECIMAL(12, 2) NOT NULL CHECK (budget_amount >= 0),
   month TEXT NOT NULL, -- Format: YYYY-MM
-  member TEXT NOT NULL CHECK (member IN ('Nikkie', 'Hein')),
+  member TEXT NOT NULL,
   category TEXT NOT NULL CHECK (category IN (
     'Housing', 'Utilities', 'Groceries', 'Transportation',
     'Healthcare', 'Entertainment', 'Dining', 'Shopping',
     'Education', 'Insurance', 'Savings', 'Other'
   )),
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  updated_by TEXT, -- Email of whoever last changed the row, set by set_updated_by()
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  FOREIGN KEY (household_id, member) REFERENCES household_members(household_id, name) ON UPDATE CASCADE
 );
 
 -- Budget Expenses table (expenses tracked against budgets)
 CREATE TABLE IF NOT EXISTS budget_expenses (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
   budget_id UUID NOT NULL REFERENCES budget_entries(id) ON DELETE CASCADE,
   description TEXT NOT NULL,
   amount DECIMAL(12, 2) NOT NULL CHECK (amount >= 0),
   date DATE NOT NULL,
+  updated_by TEXT, -- Email of whoever last changed the row, set by set_updated_by()
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -151,64 +496,595 @@ CREATE TABLE IF NOT EXISTS budget_expenses (
 CREATE INDEX IF NOT EXISTS idx_budget_entries_month ON budget_entries(month);
 CREATE INDEX IF NOT EXISTS idx_budget_entries_member ON budget_entries(member);
 CREATE INDEX IF NOT EXISTS idx_budget_entries_category ON budget_entries(category);
+CREATE INDEX IF NOT EXISTS idx_budget_entries_household ON budget_entries(household_id);
 CREATE INDEX IF NOT EXISTS idx_budget_expenses_budget ON budget_expenses(budget_id);
 CREATE INDEX IF NOT EXISTS idx_budget_expenses_date ON budget_expenses(date);
 
--- Policies for budget tables
-CREATE POLICY "Allow all access to budget_entries" ON budget_entries FOR ALL USING (true) WITH CHECK (true);
-CREATE POLICY "Allow all access to budget_expenses" ON budget_expenses FOR ALL USING (true) WITH CHECK (true);
-
 -- Financial Statements table (for uploading monthly financial documents)
 CREATE TABLE IF NOT EXISTS financial_statements (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
   month TEXT NOT NULL, -- Format: YYYY-MM
   filename TEXT NOT NULL,
-  file_path TEXT NOT NULL, -- Path in Supabase Storage
+  file_path TEXT NOT NULL, -- Path in Supabase Storage: <household_id>/<month>/<file>
   file_size INTEGER NOT NULL, -- Size in bytes
   content_type TEXT NOT NULL, -- MIME type
-  uploaded_by TEXT CHECK (uploaded_by IN ('Nikkie', 'Hein')),
+  uploaded_by TEXT,
   notes TEXT,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  FOREIGN KEY (household_id, uploaded_by) REFERENCES household_members(household_id, name)
+    ON UPDATE CASCADE ON DELETE SET NULL (uploaded_by)
 );
 
 -- Indexes for financial statements
 CREATE INDEX IF NOT EXISTS idx_financial_statements_month ON financial_statements(month);
 CREATE INDEX IF NOT EXISTS idx_financial_statements_uploaded_by ON financial_statements(uploaded_by);
+CREATE INDEX IF NOT EXISTS idx_financial_statements_household ON financial_statements(household_id);
+
+-- Expense Attachments table (receipts and invoices for a single expense, discretionary expense or budget expense)
+-- Files live in the financial-statements storage bucket under <household_id>/attachments/
+CREATE TABLE IF NOT EXISTS expense_attachments (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  expense_id UUID REFERENCES expenses(id) ON DELETE CASCADE,
+  unnecessary_expense_id UUID REFERENCES unnecessary_expenses(id) ON DELETE CASCADE,
+  budget_expense_id UUID REFERENCES budget_expenses(id) ON DELETE CASCADE,
+  filename TEXT NOT NULL,
+  file_path TEXT NOT NULL, -- Path in Supabase Storage: <household_id>/attachments/<file>
+  file_size INTEGER NOT NULL, -- Size in bytes
+  content_type TEXT NOT NULL, -- MIME type
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (num_nonnulls(expense_id, unnecessary_expense_id, budget_expense_id) = 1) -- Belongs to exactly one entry
+);
+
+CREATE INDEX IF NOT EXISTS idx_expense_attachments_household ON expense_attachments(household_id);
+
+-- Storage Cleanup table (files whose attachment was deleted, waiting for the app to remove them from storage)
+-- SQL can't remove a stored file, so deleting an attachment - directly, or along with its expense - queues it here
+CREATE TABLE IF NOT EXISTS storage_cleanup (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  bucket_id TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_storage_cleanup_household ON storage_cleanup(household_id);
+
+-- Queue a deleted attachment's file for removal, unless another attachment (a restored copy) still uses it
+-- or the whole household is being deleted
+CREATE OR REPLACE FUNCTION queue_attachment_cleanup()
+RETURNS TRIGGER
+LANGUAGE plpgsql SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM households WHERE id = OLD.household_id)
+    AND NOT EXISTS (SELECT 1 FROM expense_attachments WHERE file_path = OLD.file_path) THEN
+    INSERT INTO storage_cleanup (household_id, bucket_id, file_path)
+    VALUES (OLD.household_id, 'financial-statements', OLD.file_path);
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER expense_attachments_cleanup AFTER DELETE ON expense_attachments
+  FOR EACH ROW EXECUTE FUNCTION queue_attachment_cleanup();
+
+-- Import Profiles table (saved bank statement column mappings)
+CREATE TABLE IF NOT EXISTS import_profiles (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name TEXT NOT NULL, -- e.g. "FNB Cheque"
+  delimiter TEXT NOT NULL DEFAULT ',',
+  header_row INTEGER, -- 0-based row of the column headings, NULL when the file has none
+  date_column INTEGER NOT NULL,
+  description_column INTEGER NOT NULL,
+  amount_column INTEGER, -- Either a signed amount column...
+  debit_column INTEGER, -- ...or separate money out / money in columns
+  credit_column INTEGER,
+  date_format TEXT NOT NULL DEFAULT 'DMY' CHECK (date_format IN ('YMD', 'DMY', 'MDY')),
+  invert_amounts BOOLEAN NOT NULL DEFAULT FALSE,
+  default_member TEXT,
+  default_category TEXT NOT NULL DEFAULT 'Other' CHECK (default_category IN (
+    'Housing', 'Utilities', 'Groceries', 'Transportation',
+    'Healthcare', 'Entertainment', 'Dining', 'Shopping',
+    'Education', 'Insurance', 'Savings', 'Other'
+  )),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (household_id, name),
+  FOREIGN KEY (household_id, default_member) REFERENCES household_members(household_id, name)
+    ON UPDATE CASCADE ON DELETE SET NULL (default_member)
+);
+
+-- Categorisation Rules table (suggest category/member/shared/account for new expenses)
+CREATE TABLE IF NOT EXISTS categorisation_rules (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  pattern TEXT NOT NULL, -- e.g. "WOOLWORTHS*"
+  match_type TEXT NOT NULL DEFAULT 'wildcard' CHECK (match_type IN ('contains', 'wildcard', 'regex')),
+  min_amount DECIMAL(12, 2),
+  max_amount DECIMAL(12, 2),
+  category TEXT NOT NULL CHECK (category IN (
+    'Housing', 'Utilities', 'Groceries', 'Transportation',
+    'Healthcare', 'Entertainment', 'Dining', 'Shopping',
+    'Education', 'Insurance', 'Savings', 'Other'
+  )),
+  member TEXT, -- NULL = leave the member unchanged
+  is_shared BOOLEAN, -- NULL = leave the shared flag unchanged
+  balance_account_id UUID REFERENCES balance_accounts(id) ON DELETE SET NULL,
+  priority INTEGER NOT NULL DEFAULT 0, -- Lower runs first; the first matching rule wins
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  FOREIGN KEY (household_id, member) REFERENCES household_members(household_id, name)
+    ON UPDATE CASCADE ON DELETE SET NULL (member)
+);
+
+CREATE INDEX IF NOT EXISTS idx_categorisation_rules_household ON categorisation_rules(household_id, priority);
+
+-- Amount a recurring schedule is due in p_month (with escalation), or NULL when nothing is due.
+-- Weekly schedules add up every payment that falls in the month.
+CREATE OR REPLACE FUNCTION schedule_amount_due(p_schedule recurring_schedules, p_month TEXT)
+RETURNS DECIMAL
+LANGUAGE plpgsql STABLE
+AS $$
+DECLARE
+  v_start DATE := to_date(p_schedule.start_month || '-01', 'YYYY-MM-DD');
+  v_month DATE := to_date(p_month || '-01', 'YYYY-MM-DD');
+  v_elapsed INTEGER := (EXTRACT(YEAR FROM v_month) * 12 + EXTRACT(MONTH FROM v_month))
+    - (EXTRACT(YEAR FROM v_start) * 12 + EXTRACT(MONTH FROM v_start));
+  v_period INTEGER;
+  v_payments INTEGER;
+BEGIN
+  IF v_elapsed < 0 OR p_month > COALESCE(p_schedule.end_month, p_month) THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_schedule.frequency = 'weekly' THEN
+    v_period := 7 * p_schedule.interval_count;
+    v_payments := CEIL(((v_month + INTERVAL '1 month')::DATE - v_start)::NUMERIC / v_period)
+      - CEIL((v_month - v_start)::NUMERIC / v_period);
+  ELSE
+    v_period := p_schedule.interval_count * CASE p_schedule.frequency
+      WHEN 'monthly' THEN 1
+      WHEN 'quarterly' THEN 3
+      ELSE 12
+    END;
+    v_payments := CASE WHEN v_elapsed % v_period = 0 THEN 1 ELSE 0 END;
+  END IF;
+
+  IF v_payments = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN ROUND(p_schedule.amount * v_payments * POWER(1 + p_schedule.escalation_percent / 100, v_elapsed / 12), 2);
+END;
+$$;
+
+-- Schedules with a payment due in p_month, with the amount and the expense already generated for it (if any)
+CREATE OR REPLACE FUNCTION due_recurring_schedules(p_household_id UUID, p_month TEXT)
+RETURNS TABLE (schedule_id UUID, amount DECIMAL, expense_id UUID)
+LANGUAGE sql STABLE
+AS $$
+  SELECT s.id, schedule_amount_due(s, p_month), e.id
+  FROM recurring_schedules s
+  LEFT JOIN expenses e ON e.schedule_id = s.id AND e.month = p_month
+  WHERE s.household_id = p_household_id AND schedule_amount_due(s, p_month) IS NOT NULL;
+$$;
+
+-- Add an expense for every schedule due in p_month that doesn't have one yet; returns how many were added
+CREATE OR REPLACE FUNCTION generate_recurring_expenses(p_household_id UUID, p_month TEXT, p_rollover_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  INSERT INTO expenses (
+    household_id, member, category, description, amount, month, is_shared, include_vat,
+    balance_account_id, savings_goal_id, schedule_id, rollover_id
+  )
+  SELECT s.household_id, s.member, s.category, s.description, d.amount, p_month, s.is_shared, s.include_vat,
+    s.balance_account_id, s.savings_goal_id, s.id, p_rollover_id
+  FROM due_recurring_schedules(p_household_id, p_month) d
+  JOIN recurring_schedules s ON s.id = d.schedule_id
+  WHERE d.expense_id IS NULL
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Copy the previous month into p_month once, following the household's rollover rules.
+-- The month_rollovers row is claimed first, so concurrent calls (two devices
+-- opening the month together) copy nothing twice. Expenses from recurring
+-- schedules are generated from the schedule rather than copied. Automatic calls
+-- skip months that already have entries or have nothing to copy or generate;
+-- p_manual redoes an undone rollover and copies into a month that has entries.
+CREATE OR REPLACE FUNCTION rollover_month(p_household_id UUID, p_month TEXT, p_manual BOOLEAN DEFAULT FALSE)
+RETURNS month_rollovers
+LANGUAGE plpgsql SET search_path = public
+AS $$
+DECLARE
+  v_from TEXT := to_char(to_date(p_month || '-01', 'YYYY-MM-DD') - INTERVAL '1 month', 'YYYY-MM');
+  v_rules rollover_rules;
+  v_rollover month_rollovers;
+  v_incomes INTEGER := 0;
+  v_taxes INTEGER := 0;
+  v_expenses INTEGER := 0;
+BEGIN
+  IF NOT is_household_user(p_household_id) THEN
+    RAISE EXCEPTION 'You do not have access to this household';
+  END IF;
+
+  INSERT INTO rollover_rules (household_id) VALUES (p_household_id) ON CONFLICT (household_id) DO NOTHING;
+  SELECT * INTO v_rules FROM rollover_rules WHERE household_id = p_household_id;
+
+  IF NOT p_manual AND (
+    NOT v_rules.auto_rollover
+    OR EXISTS (SELECT 1 FROM incomes WHERE household_id = p_household_id AND month = p_month)
+    OR EXISTS (SELECT 1 FROM taxes WHERE household_id = p_household_id AND month = p_month)
+    OR EXISTS (SELECT 1 FROM expenses WHERE household_id = p_household_id AND month = p_month)
+    OR NOT (
+      EXISTS (SELECT 1 FROM incomes WHERE household_id = p_household_id AND month = v_from)
+      OR EXISTS (SELECT 1 FROM taxes WHERE household_id = p_household_id AND month = v_from)
+      OR EXISTS (SELECT 1 FROM expenses WHERE household_id = p_household_id AND month = v_from)
+      OR EXISTS (SELECT 1 FROM due_recurring_schedules(p_household_id, p_month))
+    )
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO month_rollovers (household_id, month, from_month)
+  VALUES (p_household_id, p_month, v_from)
+  ON CONFLICT (household_id, month) DO NOTHING
+  RETURNING * INTO v_rollover;
+
+  IF v_rollover.id IS NULL THEN
+    -- Someone got here first: an automatic call leaves their rollover as it is
+    SELECT * INTO v_rollover FROM month_rollovers
+    WHERE household_id = p_household_id AND month = p_month
+    FOR UPDATE;
+    IF NOT p_manual OR v_rollover.status = 'applied' THEN
+      RETURN v_rollover;
+    END IF;
+  END IF;
+
+  IF v_rules.carry_incomes THEN
+    INSERT INTO incomes (household_id, member, income_type, description, amount, month, rollover_id)
+    SELECT household_id, member, income_type, description, amount, p_month, v_rollover.id
+    FROM incomes WHERE household_id = p_household_id AND month = v_from
+    ORDER BY created_at;
+    GET DIAGNOSTICS v_incomes = ROW_COUNT;
+  END IF;
+
+  IF v_rules.carry_taxes THEN
+    INSERT INTO taxes (household_id, member, description, amount, month, rollover_id)
+    SELECT household_id, member, description, amount, p_month, v_rollover.id
+    FROM taxes WHERE household_id = p_household_id AND month = v_from
+    ORDER BY created_at;
+    GET DIAGNOSTICS v_taxes = ROW_COUNT;
+  END IF;
+
+  IF v_rules.carry_expenses <> 'none' THEN
+    INSERT INTO expenses (
+      household_id, member, category, description, amount, month, is_shared, is_recurring,
+      is_paid, include_vat, is_tax_deductible, note, balance_account_id, savings_goal_id, rollover_id
+    )
+    SELECT household_id, member, category, description, amount, p_month, is_shared, is_recurring,
+      CASE WHEN v_rules.reset_paid THEN FALSE ELSE is_paid END,
+      include_vat, is_tax_deductible, note, balance_account_id, savings_goal_id, v_rollover.id
+    FROM expenses
+    WHERE household_id = p_household_id AND month = v_from
+      AND schedule_id IS NULL
+      AND (v_rules.carry_expenses = 'all' OR is_recurring)
+    ORDER BY created_at;
+    GET DIAGNOSTICS v_expenses = ROW_COUNT;
+  END IF;
+
+  v_expenses := v_expenses + generate_recurring_expenses(p_household_id, p_month, v_rollover.id);
+
+  UPDATE month_rollovers SET
+    status = 'applied',
+    carry_incomes = v_rules.carry_incomes,
+    carry_taxes = v_rules.carry_taxes,
+    carry_expenses = v_rules.carry_expenses,
+    reset_paid = v_rules.reset_paid,
+    income_count = v_incomes,
+    tax_count = v_taxes,
+    expense_count = v_expenses,
+    created_by = auth.jwt() ->> 'email',
+    reverted_at = NULL
+  WHERE id = v_rollover.id
+  RETURNING * INTO v_rollover;
+
+  RETURN v_rollover;
+END;
+$$;
+
+-- Undo a month's rollover: delete every row it copied in, including later edits to them
+CREATE OR REPLACE FUNCTION revert_month_rollover(p_household_id UUID, p_month TEXT)
+RETURNS month_rollovers
+LANGUAGE plpgsql SET search_path = public
+AS $$
+DECLARE
+  v_rollover month_rollovers;
+BEGIN
+  SELECT * INTO v_rollover FROM month_rollovers
+  WHERE household_id = p_household_id AND month = p_month AND status = 'applied'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'There is no rollover to undo for %', p_month;
+  END IF;
+
+  DELETE FROM incomes WHERE rollover_id = v_rollover.id;
+  DELETE FROM taxes WHERE rollover_id = v_rollover.id;
+  DELETE FROM expenses WHERE rollover_id = v_rollover.id;
+
+  UPDATE month_rollovers SET status = 'reverted', reverted_at = NOW()
+  WHERE id = v_rollover.id
+  RETURNING * INTO v_rollover;
+
+  RETURN v_rollover;
+END;
+$$;
+
+-- Totals of a span of months in one query, for the year in review. Rows are grouped finely
+-- enough to work each month's summary out again: incomes by type, expenses by category with
+-- their shared and +VAT flags, and ledger entries by kind. Runs with the caller's row level
+-- security, so only households the user belongs to return anything.
+CREATE OR REPLACE FUNCTION monthly_totals(p_household_id UUID, p_from TEXT, p_to TEXT)
+RETURNS TABLE (
+  source TEXT, -- 'income', 'tax', 'expense', 'unnecessary' or 'balance'
+  month TEXT,
+  member TEXT, -- NULL for balance rows
+  kind TEXT, -- Income type for incomes, entry kind for balance rows
+  category TEXT, -- Expenses only
+  is_shared BOOLEAN, -- Expenses only
+  include_vat BOOLEAN, -- Expenses only
+  amount DECIMAL
+)
+LANGUAGE sql STABLE SET search_path = public
+AS $$
+  SELECT 'income', i.month, i.member, i.income_type, NULL, NULL, NULL, SUM(i.amount)
+  FROM incomes i
+  WHERE i.household_id = p_household_id AND i.month BETWEEN p_from AND p_to
+  GROUP BY i.month, i.member, i.income_type
+  UNION ALL
+  SELECT 'tax', t.month, t.member, NULL, NULL, NULL, NULL, SUM(t.amount)
+  FROM taxes t
+  WHERE t.household_id = p_household_id AND t.month BETWEEN p_from AND p_to
+  GROUP BY t.month, t.member
+  UNION ALL
+  SELECT 'expense', e.month, e.member, NULL, e.category, COALESCE(e.is_shared, FALSE), COALESCE(e.include_vat, FALSE),
+    SUM(e.amount)
+  FROM expenses e
+  WHERE e.household_id = p_household_id AND e.month BETWEEN p_from AND p_to
+  GROUP BY e.month, e.member, e.category, COALESCE(e.is_shared, FALSE), COALESCE(e.include_vat, FALSE)
+  UNION ALL
+  SELECT 'unnecessary', u.month, u.member, NULL, NULL, NULL, NULL, SUM(u.amount)
+  FROM unnecessary_expenses u
+  WHERE u.household_id = p_household_id AND u.month BETWEEN p_from AND p_to
+  GROUP BY u.month, u.member
+  UNION ALL
+  SELECT 'balance', h.month, NULL, h.kind, NULL, NULL, NULL, SUM(h.amount)
+  FROM balance_history h
+  WHERE h.household_id = p_household_id AND h.month BETWEEN p_from AND p_to
+  GROUP BY h.month, h.kind;
+$$;
+
+-- What every recurring schedule falls due for in each month from p_from to p_to, for the
+-- cash-flow forecast. Worked out by schedule_amount_due() like the expenses a rollover
+-- generates, whether or not a month has been opened yet.
+CREATE OR REPLACE FUNCTION scheduled_amounts(p_household_id UUID, p_from TEXT, p_to TEXT)
+RETURNS TABLE (schedule_id UUID, month TEXT, amount DECIMAL)
+LANGUAGE sql STABLE SET search_path = public
+AS $$
+  SELECT s.id, m.month, schedule_amount_due(s, m.month)
+  FROM recurring_schedules s
+  CROSS JOIN LATERAL (
+    SELECT to_char(d, 'YYYY-MM') AS month
+    FROM generate_series(to_date(p_from || '-01', 'YYYY-MM-DD'), to_date(p_to || '-01', 'YYYY-MM-DD'), INTERVAL '1 month') d
+  ) m
+  WHERE s.household_id = p_household_id AND schedule_amount_due(s, m.month) IS NOT NULL
+  ORDER BY m.month;
+$$;
+
+-- Entries across every month whose description or note contains p_query, for the global search.
+-- Each filter is skipped when NULL; a filter on a field an entry type doesn't have (category,
+-- amount, paid) leaves that type out. Budget expenses take their member, category and month from
+-- their budget and return its name as the note; statements match on filename and notes. Newest
+-- first, at most p_limit rows.
+CREATE OR REPLACE FUNCTION search_entries(
+  p_household_id UUID,
+  p_query TEXT,
+  p_member TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_min_amount DECIMAL DEFAULT NULL,
+  p_max_amount DECIMAL DEFAULT NULL,
+  p_is_paid BOOLEAN DEFAULT NULL,
+  p_from TEXT DEFAULT NULL,
+  p_to TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+  source TEXT, -- 'income', 'tax', 'expense', 'unnecessary', 'budget_expense' or 'statement'
+  id UUID,
+  month TEXT,
+  entry_date DATE, -- Budget expenses only
+  member TEXT,
+  category TEXT, -- Expenses and budget expenses only
+  description TEXT, -- The filename for statements
+  note TEXT,
+  amount DECIMAL, -- NULL for statements
+  is_paid BOOLEAN -- Expenses only
+)
+LANGUAGE sql STABLE SET search_path = public
+AS $$
+  WITH q AS (
+    -- Match the text literally, not as a LIKE pattern
+    SELECT '%' || replace(replace(replace(COALESCE(p_query, ''), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+  ),
+  matches AS (
+    SELECT 'income' AS source, i.id, i.month, NULL::DATE AS entry_date, i.member, NULL AS category,
+      i.description, NULL AS note, i.amount, NULL::BOOLEAN AS is_paid
+    FROM incomes i, q
+    WHERE i.household_id = p_household_id AND i.description ILIKE q.pattern
+      AND p_category IS NULL AND p_is_paid IS NULL
+    UNION ALL
+    SELECT 'tax', t.id, t.month, NULL, t.member, NULL, t.description, NULL, t.amount, NULL
+    FROM taxes t, q
+    WHERE t.household_id = p_household_id AND t.description ILIKE q.pattern
+      AND p_category IS NULL AND p_is_paid IS NULL
+    UNION ALL
+    SELECT 'expense', e.id, e.month, NULL, e.member, e.category, e.description, e.note, e.amount,
+      COALESCE(e.is_paid, FALSE)
+    FROM expenses e, q
+    WHERE e.household_id = p_household_id AND (e.description ILIKE q.pattern OR e.note ILIKE q.pattern)
+      AND (p_category IS NULL OR e.category = p_category)
+      AND (p_is_paid IS NULL OR COALESCE(e.is_paid, FALSE) = p_is_paid)
+    UNION ALL
+    SELECT 'unnecessary', u.id, u.month, NULL, u.member, NULL, u.description, u.note, u.amount, NULL
+    FROM unnecessary_expenses u, q
+    WHERE u.household_id = p_household_id AND (u.description ILIKE q.pattern OR u.note ILIKE q.pattern)
+      AND p_category IS NULL AND p_is_paid IS NULL
+    UNION ALL
+    SELECT 'budget_expense', x.id, b.month, x.date, b.member, b.category, x.description, b.name, x.amount, NULL
+    FROM budget_expenses x
+    JOIN budget_entries b ON b.id = x.budget_id, q
+    WHERE x.household_id = p_household_id AND (x.description ILIKE q.pattern OR b.name ILIKE q.pattern)
+      AND (p_category IS NULL OR b.category = p_category) AND p_is_paid IS NULL
+    UNION ALL
+    SELECT 'statement', f.id, f.month, NULL, f.uploaded_by, NULL, f.filename, f.notes, NULL, NULL
+    FROM financial_statements f, q
+    WHERE f.household_id = p_household_id AND (f.filename ILIKE q.pattern OR f.notes ILIKE q.pattern)
+      AND p_category IS NULL AND p_is_paid IS NULL AND p_min_amount IS NULL AND p_max_amount IS NULL
+  )
+  SELECT *
+  FROM matches m
+  WHERE (p_member IS NULL OR m.member = p_member)
+    AND (p_min_amount IS NULL OR m.amount >= p_min_amount)
+    AND (p_max_amount IS NULL OR m.amount <= p_max_amount)
+    AND (p_from IS NULL OR m.month >= p_from)
+    AND (p_to IS NULL OR m.month <= p_to)
+  ORDER BY m.month DESC, m.entry_date DESC NULLS LAST, m.description
+  LIMIT p_limit;
+$$;
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+-- Every budget table is scoped to household membership
+
+ALTER TABLE household_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE incomes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE taxes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE expenses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE unnecessary_expenses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE balance_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE balance_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE budget_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE budget_expenses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE financial_statements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE import_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE categorisation_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rollover_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE month_rollovers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recurring_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tax_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE split_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE settlements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE balance_deductions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE savings_goals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE asset_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE asset_valuations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE expense_attachments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE storage_cleanup ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household access to household_members" ON household_members FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to incomes" ON incomes FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to taxes" ON taxes FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to expenses" ON expenses FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to unnecessary_expenses" ON unnecessary_expenses FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to balance_accounts" ON balance_accounts FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to balance_history" ON balance_history FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to budget_entries" ON budget_entries FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to budget_expenses" ON budget_expenses FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to financial_statements" ON financial_statements FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to import_profiles" ON import_profiles FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to categorisation_rules" ON categorisation_rules FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to rollover_rules" ON rollover_rules FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to month_rollovers" ON month_rollovers FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to recurring_schedules" ON recurring_schedules FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to tax_profiles" ON tax_profiles FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to split_rules" ON split_rules FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to settlements" ON settlements FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to balance_deductions" ON balance_deductions FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to savings_goals" ON savings_goals FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to asset_accounts" ON asset_accounts FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to asset_valuations" ON asset_valuations FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to expense_attachments" ON expense_attachments FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+CREATE POLICY "Household access to storage_cleanup" ON storage_cleanup FOR ALL TO authenticated
+  USING (is_household_user(household_id)) WITH CHECK (is_household_user(household_id));
+
+-- =============================================
+-- REALTIME
+-- =============================================
+-- Open tabs subscribe to changes of these tables. Realtime applies the
+-- policies above, so users only receive their own households' rows.
+
+-- Record who made each change so other devices can show "updated by"
+CREATE OR REPLACE FUNCTION set_updated_by()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_by := COALESCE(auth.jwt() ->> 'email', NEW.updated_by);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER incomes_updated_by BEFORE INSERT OR UPDATE ON incomes FOR EACH ROW EXECUTE FUNCTION set_updated_by();
+CREATE TRIGGER taxes_updated_by BEFORE INSERT OR UPDATE ON taxes FOR EACH ROW EXECUTE FUNCTION set_updated_by();
+CREATE TRIGGER expenses_updated_by BEFORE INSERT OR UPDATE ON expenses FOR EACH ROW EXECUTE FUNCTION set_updated_by();
+CREATE TRIGGER unnecessary_expenses_updated_by BEFORE INSERT OR UPDATE ON unnecessary_expenses FOR EACH ROW EXECUTE FUNCTION set_updated_by();
+CREATE TRIGGER balance_accounts_updated_by BEFORE INSERT OR UPDATE ON balance_accounts FOR EACH ROW EXECUTE FUNCTION set_updated_by();
+CREATE TRIGGER balance_history_updated_by BEFORE INSERT OR UPDATE ON balance_history FOR EACH ROW EXECUTE FUNCTION set_updated_by();
+CREATE TRIGGER budget_entries_updated_by BEFORE INSERT OR UPDATE ON budget_entries FOR EACH ROW EXECUTE FUNCTION set_updated_by();
+CREATE TRIGGER budget_expenses_updated_by BEFORE INSERT OR UPDATE ON budget_expenses FOR EACH ROW EXECUTE FUNCTION set_updated_by();
+CREATE TRIGGER asset_accounts_updated_by BEFORE INSERT OR UPDATE ON asset_accounts FOR EACH ROW EXECUTE FUNCTION set_updated_by();
+CREATE TRIGGER asset_valuations_updated_by BEFORE INSERT OR UPDATE ON asset_valuations FOR EACH ROW EXECUTE FUNCTION set_updated_by();
 
--- Policies for financial statements
-CREATE POLICY "Allow all access to financial_statements" ON financial_statements FOR ALL USING (true) WITH CHECK (true);
+ALTER PUBLICATION supabase_realtime ADD TABLE
+  incomes, taxes, expenses, unnecessary_expenses,
+  balance_accounts, balance_history, budget_entries, budget_expenses;
 
 -- =============================================
--- STORAGE BUCKET SETUP (Run manually in Supabase Dashboard)
+-- STORAGE BUCKET SETUP
 -- =============================================
--- 1. Go to Supabase Dashboard → Storage
--- 2. Click "New bucket"
--- 3. Name: financial-statements
--- 4. Set as Private (not public)
--- 5. Click "Create bucket"
---
--- Then run these policies in SQL Editor:
-
--- Storage policy for uploads (INSERT)
--- CREATE POLICY "Allow uploads to financial-statements"
--- ON storage.objects FOR INSERT
--- TO anon
--- WITH CHECK (bucket_id = 'financial-statements');
-
--- Storage policy for downloads (SELECT)
--- CREATE POLICY "Allow downloads from financial-statements"
--- ON storage.objects FOR SELECT
--- TO anon
--- USING (bucket_id = 'financial-statements');
-
--- Storage policy for deletes (DELETE)
--- CREATE POLICY "Allow deletes from financial-statements"
--- ON storage.objects FOR DELETE
--- TO anon
--- USING (bucket_id = 'financial-statements');
-
--- Storage policy for updates (UPDATE)
--- CREATE POLICY "Allow updates in financial-statements"
--- ON storage.objects FOR UPDATE
--- TO anon
--- USING (bucket_id = 'financial-statements');
+-- Run storage-bucket-setup.sql to create the financial-statements bucket.
+-- Files live under <household_id>/ and the bucket policies reuse
+-- is_household_user() on that first folder.